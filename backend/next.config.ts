@@ -1,6 +1,8 @@
 import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
+  // `@shared/*` (../shared) holds data both apps read, e.g. the crisis directory.
+  experimental: { externalDir: true },
   async headers() {
     return [
       {
@@ -0,0 +1,31 @@
+-- Web Push reminder delivery: per-user timezone + quiet hours, push
+-- subscriptions (VAPID), and delivery bookkeeping on reminders.
+
+ALTER TABLE "users"
+    ADD COLUMN IF NOT EXISTS "timezone"          VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS "quiet_hours_start" SMALLINT,
+    ADD COLUMN IF NOT EXISTS "quiet_hours_end"   SMALLINT;
+
+ALTER TABLE "reminders"
+    ADD COLUMN IF NOT EXISTS "deferred_until" TIMESTAMPTZ(6),
+    ADD COLUMN IF NOT EXISTS "delivered_at"   TIMESTAMPTZ(6);
+
+CREATE TABLE IF NOT EXISTS "push_subscriptions" (
+    "id"              UUID          NOT NULL DEFAULT gen_random_uuid(),
+    "user_id"         UUID          NOT NULL,
+    "endpoint"        TEXT          NOT NULL,
+    "p256dh"          VARCHAR(255)  NOT NULL,
+    "auth"            VARCHAR(255)  NOT NULL,
+    "user_agent"      VARCHAR(500),
+    "last_success_at" TIMESTAMPTZ(6),
+    "created_at"      TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "push_subscriptions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "push_subscriptions_user_id_fkey"
+        FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "push_subscriptions_endpoint_key"
+    ON "push_subscriptions" ("endpoint");
+CREATE INDEX IF NOT EXISTS "push_subscriptions_user_id_idx"
+    ON "push_subscriptions" ("user_id");
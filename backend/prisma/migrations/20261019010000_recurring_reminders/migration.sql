@@ -0,0 +1,5 @@
+-- Recurring reminders: an RRULE-style schedule per reminder. A recurring
+-- reminder stays `pending` and its due_at advances after each delivery.
+
+ALTER TABLE "reminders"
+    ADD COLUMN IF NOT EXISTS "rrule" VARCHAR(255);
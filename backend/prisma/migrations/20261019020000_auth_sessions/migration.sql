@@ -0,0 +1,49 @@
+-- Auth hardening: revocable sessions with rotating refresh tokens, and
+-- single-use tokens for email verification / password reset.
+
+ALTER TABLE "users"
+    ADD COLUMN IF NOT EXISTS "email_verified_at" TIMESTAMPTZ(6);
+
+CREATE TABLE IF NOT EXISTS "auth_sessions" (
+    "id"                  UUID          NOT NULL DEFAULT gen_random_uuid(),
+    "user_id"             UUID          NOT NULL,
+    "refresh_token_hash"  CHAR(64)      NOT NULL,
+    "previous_token_hash" CHAR(64),
+    "user_agent"          VARCHAR(500),
+    "created_at"          TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_used_at"        TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at"          TIMESTAMPTZ(6) NOT NULL,
+    "revoked_at"          TIMESTAMPTZ(6),
+
+    CONSTRAINT "auth_sessions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "auth_sessions_user_id_fkey"
+        FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "auth_sessions_refresh_token_hash_key"
+    ON "auth_sessions" ("refresh_token_hash");
+CREATE UNIQUE INDEX IF NOT EXISTS "auth_sessions_previous_token_hash_key"
+    ON "auth_sessions" ("previous_token_hash");
+CREATE INDEX IF NOT EXISTS "auth_sessions_user_id_idx"
+    ON "auth_sessions" ("user_id");
+CREATE INDEX IF NOT EXISTS "auth_sessions_expires_at_idx"
+    ON "auth_sessions" ("expires_at");
+
+CREATE TABLE IF NOT EXISTS "auth_tokens" (
+    "id"         UUID          NOT NULL DEFAULT gen_random_uuid(),
+    "user_id"    UUID          NOT NULL,
+    "purpose"    VARCHAR(32)   NOT NULL,
+    "token_hash" CHAR(64)      NOT NULL,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+    "used_at"    TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auth_tokens_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "auth_tokens_user_id_fkey"
+        FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "auth_tokens_token_hash_key"
+    ON "auth_tokens" ("token_hash");
+CREATE INDEX IF NOT EXISTS "auth_tokens_user_id_purpose_idx"
+    ON "auth_tokens" ("user_id", "purpose");
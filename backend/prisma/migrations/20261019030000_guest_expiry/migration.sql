@@ -0,0 +1,9 @@
+-- Guest expiry: track last activity so inactive guest accounts can be
+-- hard-deleted. Existing rows start from the deploy time, giving every
+-- current guest a full inactivity window.
+
+ALTER TABLE "users"
+    ADD COLUMN IF NOT EXISTS "last_active_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS "users_password_hash_last_active_at_idx"
+    ON "users" ("password_hash", "last_active_at");
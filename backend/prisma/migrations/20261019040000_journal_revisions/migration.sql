@@ -0,0 +1,24 @@
+-- Journal revisions: the previous version of an entry is kept (still
+-- encrypted, same format as journal_entries) each time it is edited.
+
+CREATE TABLE IF NOT EXISTS "journal_revisions" (
+    "id"          UUID          NOT NULL DEFAULT gen_random_uuid(),
+    "entry_id"    UUID          NOT NULL,
+    "user_id"     UUID          NOT NULL,
+    "content"     TEXT          NOT NULL,
+    "cipher_text" TEXT,
+    "mood"        VARCHAR(50),
+    "written_at"  TIMESTAMPTZ(6) NOT NULL,
+    "created_at"  TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journal_revisions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "journal_revisions_entry_id_fkey"
+        FOREIGN KEY ("entry_id") REFERENCES "journal_entries" ("id") ON DELETE CASCADE,
+    CONSTRAINT "journal_revisions_user_id_fkey"
+        FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "journal_revisions_entry_id_created_at_idx"
+    ON "journal_revisions" ("entry_id", "created_at");
+CREATE INDEX IF NOT EXISTS "journal_revisions_user_id_created_at_idx"
+    ON "journal_revisions" ("user_id", "created_at");
@@ -0,0 +1,13 @@
+-- Journal tags and templates. A templated entry keeps its answers per field
+-- (encrypted like the entry itself: `fields` only holds them when encryption
+-- is off); `content` stays the readable rendering used by search and RAG.
+-- Tags are stored in plain text so they can be filtered on.
+
+ALTER TABLE "journal_entries"
+    ADD COLUMN IF NOT EXISTS "template"           VARCHAR(32),
+    ADD COLUMN IF NOT EXISTS "tags"               TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    ADD COLUMN IF NOT EXISTS "fields"             JSONB,
+    ADD COLUMN IF NOT EXISTS "fields_cipher_text" TEXT;
+
+CREATE INDEX IF NOT EXISTS "journal_entries_tags_idx"
+    ON "journal_entries" USING GIN ("tags");
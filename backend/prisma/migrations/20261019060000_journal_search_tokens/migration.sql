@@ -0,0 +1,9 @@
+-- Blind keyword index for hybrid journal search (see src/lib/searchIndex.ts):
+-- HMAC'd word tokens of the decrypted entry. Existing entries start empty and
+-- are filled in by the nightly `journal.index` job.
+
+ALTER TABLE "journal_entries"
+    ADD COLUMN IF NOT EXISTS "search_tokens" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+CREATE INDEX IF NOT EXISTS "journal_entries_search_tokens_idx"
+    ON "journal_entries" USING GIN ("search_tokens");
@@ -0,0 +1,46 @@
+-- Native 384-dim columns for local (bge-small-en-v1.5) embeddings, which were
+-- zero-padded into vector(1536), and HNSW indexes in place of the ivfflat
+-- ones (built on empty tables, so their lists never matched the data). See
+-- src/lib/ai/vectors.ts for which column a model uses.
+
+ALTER TABLE "journal_entries" ADD COLUMN IF NOT EXISTS "embedding_local" vector(384);
+ALTER TABLE "memories" ADD COLUMN IF NOT EXISTS "embedding_local" vector(384);
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "embedding_local" vector(384);
+
+-- Move existing local vectors: the first 384 dimensions are the real ones.
+UPDATE "journal_entries" SET "embedding_local" = subvector("embedding", 1, 384), "embedding" = NULL
+    WHERE "embedding_model" = 'bge-small-en-v1.5' AND "embedding" IS NOT NULL;
+UPDATE "memories" SET "embedding_local" = subvector("embedding", 1, 384), "embedding" = NULL
+    WHERE "embedding_model" = 'bge-small-en-v1.5' AND "embedding" IS NOT NULL;
+UPDATE "messages" SET "embedding_local" = subvector("embedding", 1, 384), "embedding" = NULL
+    WHERE "embedding_model" = 'bge-small-en-v1.5' AND "embedding" IS NOT NULL;
+
+DROP INDEX IF EXISTS "journal_entries_embedding_idx";
+DROP INDEX IF EXISTS "messages_embedding_idx";
+DROP INDEX IF EXISTS "memories_embedding_idx";
+
+CREATE INDEX IF NOT EXISTS "journal_entries_embedding_idx"
+    ON "journal_entries" USING hnsw ("embedding" vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS "journal_entries_embedding_local_idx"
+    ON "journal_entries" USING hnsw ("embedding_local" vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS "memories_embedding_idx"
+    ON "memories" USING hnsw ("embedding" vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS "memories_embedding_local_idx"
+    ON "memories" USING hnsw ("embedding_local" vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS "messages_embedding_idx"
+    ON "messages" USING hnsw ("embedding" vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS "messages_embedding_local_idx"
+    ON "messages" USING hnsw ("embedding_local" vector_cosine_ops);
+
+-- Every nearest-neighbour query also filters on the user (and model). Plain
+-- HNSW applies filters after its candidate list, which can leave a user with
+-- fewer hits than asked for; iterative scans (pgvector >= 0.8) keep looking
+-- until the LIMIT is met. Older pgvector: skip with a notice.
+DO $$
+BEGIN
+    EXECUTE format('ALTER DATABASE %I SET hnsw.iterative_scan = strict_order', current_database());
+    EXECUTE format('ALTER DATABASE %I SET hnsw.ef_search = 100', current_database());
+EXCEPTION WHEN OTHERS THEN
+    RAISE NOTICE 'hnsw.iterative_scan not available (%); upgrade pgvector to 0.8+', SQLERRM;
+END
+$$;
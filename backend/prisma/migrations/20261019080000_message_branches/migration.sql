@@ -0,0 +1,36 @@
+-- Chat branching: every message points at the one it follows, so editing a
+-- message or regenerating a reply adds a sibling instead of rewriting
+-- history. A conversation shows the path from the root to its active leaf.
+
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "parent_id" UUID;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "active_leaf_id" UUID;
+
+-- Existing conversations are linear: each message follows the one before it.
+UPDATE "messages" m
+SET "parent_id" = p.prev
+FROM (
+    SELECT "id", LAG("id") OVER (PARTITION BY "conversation_id" ORDER BY "created_at", "id") AS prev
+    FROM "messages"
+) p
+WHERE m."id" = p."id" AND m."parent_id" IS NULL AND p.prev IS NOT NULL;
+
+UPDATE "conversations" c
+SET "active_leaf_id" = (
+    SELECT m."id" FROM "messages" m
+    WHERE m."conversation_id" = c."id"
+    ORDER BY m."created_at" DESC, m."id" DESC
+    LIMIT 1
+)
+WHERE c."active_leaf_id" IS NULL;
+
+-- Retention deletes old messages by age; their replies become roots rather
+-- than going with them.
+DO $$
+BEGIN
+    ALTER TABLE "messages" ADD CONSTRAINT "messages_parent_id_fkey"
+        FOREIGN KEY ("parent_id") REFERENCES "messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS "messages_parent_id_idx" ON "messages"("parent_id");
@@ -0,0 +1,8 @@
+-- Rolling conversation summary: turns too old for the prompt's token budget
+-- are folded into one summary per conversation, encrypted like journal text.
+-- `summary_through_id` is the last message it covers, so it can be extended
+-- incrementally and is ignored on branches that don't pass through it.
+
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "summary" TEXT;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "summary_cipher_text" TEXT;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "summary_through_id" UUID;
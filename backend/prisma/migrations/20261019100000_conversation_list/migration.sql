@@ -0,0 +1,15 @@
+-- Conversation list: pin, archive, manual or AI titles, keyset pagination and
+-- keyword search over messages.
+
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "title_source" VARCHAR(10);
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "pinned" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "archived" BOOLEAN NOT NULL DEFAULT false;
+
+-- The list's sort order: (pinned DESC, updated_at DESC, id DESC) per user and shelf.
+CREATE INDEX IF NOT EXISTS "conversations_user_id_archived_pinned_updated_at_idx"
+    ON "conversations"("user_id", "archived", "pinned", "updated_at");
+
+-- Keyword search (services/conversationService.ts). The expression must match
+-- the query's exactly for the index to be used.
+CREATE INDEX IF NOT EXISTS "messages_content_fts_idx"
+    ON "messages" USING gin (to_tsvector('simple', "content"));
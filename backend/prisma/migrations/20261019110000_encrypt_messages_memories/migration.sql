@@ -0,0 +1,16 @@
+-- Chat messages and memories encrypted at rest like journal entries: the text
+-- in `cipher_text`, a placeholder in `content`. Existing rows stay readable in
+-- plaintext until `POST /api/admin/encryption/seal` has sealed them.
+
+ALTER TABLE "messages" ADD COLUMN IF NOT EXISTS "cipher_text" TEXT;
+ALTER TABLE "memories" ADD COLUMN IF NOT EXISTS "cipher_text" TEXT;
+
+-- Message keyword search moves to the blind index (src/lib/searchIndex.ts);
+-- full text over `content` would only see placeholders now.
+ALTER TABLE "messages"
+    ADD COLUMN IF NOT EXISTS "search_tokens" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+CREATE INDEX IF NOT EXISTS "messages_search_tokens_idx"
+    ON "messages" USING GIN ("search_tokens");
+
+DROP INDEX IF EXISTS "messages_content_fts_idx";
@@ -0,0 +1,8 @@
+-- Conversation-level crisis risk: the weights of recent per-turn signals,
+-- decayed and combined when read, and when the risk last reached "elevated".
+-- Only numbers and sources are kept — never message text.
+
+ALTER TABLE "conversations"
+    ADD COLUMN IF NOT EXISTS "crisis_signals" JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "crisis_elevated_at" TIMESTAMPTZ(6);
@@ -0,0 +1,4 @@
+-- Snoozing a recurring reminder right after it was delivered re-sends that
+-- occurrence once at refire_at; due_at keeps pointing at the series' next one.
+
+ALTER TABLE "reminders" ADD COLUMN IF NOT EXISTS "refire_at" TIMESTAMPTZ(6);
@@ -0,0 +1,13 @@
+-- Conversation titles encrypted at rest like messages: placeholders and AI
+-- titles are drawn from what the user wrote. The title moves to
+-- `title_cipher_text` with a placeholder in `title`; existing rows stay
+-- readable in plaintext until `POST /api/admin/encryption/seal` has sealed them.
+
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "title_cipher_text" TEXT;
+
+-- Title search moves to the blind index (src/lib/searchIndex.ts), like messages.
+ALTER TABLE "conversations"
+    ADD COLUMN IF NOT EXISTS "title_tokens" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+CREATE INDEX IF NOT EXISTS "conversations_title_tokens_idx"
+    ON "conversations" USING GIN ("title_tokens");
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { isAdminRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonOk, jsonError } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+import { KeyRotationError, startRotation } from '@/services/keyRotationService';
+
+/**
+ * POST /api/admin/encryption/rotate — re-encrypt every stored ciphertext with
+ * the primary key, in the background. Safe to call again after a crash: the
+ * run resumes with whatever is still on an old key.
+ * Requires `x-admin-token: $ADMIN_API_TOKEN`.
+ */
+export async function POST(req: NextRequest) {
+    if (!isAdminRequest(req)) return unauthorizedResponse();
+    const log = requestLogger(req);
+    try {
+        const { jobId, progress } = await startRotation();
+        if (progress.remaining === 0) return jsonOk({ started: false, progress });
+        if (!jobId) return jsonError(503, 'Could not enqueue rotation — is a run already queued?');
+        return jsonOk({ started: true, jobId, progress }, { status: 202 });
+    } catch (e) {
+        if (e instanceof KeyRotationError) return jsonError(409, e.message);
+        log.error({ err: String(e) }, 'admin.encryption.rotate_failed');
+        return jsonError(500, 'Could not start key rotation');
+    }
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { isAdminRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonOk, jsonError } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+import { KeyRotationError, rotationProgress } from '@/services/keyRotationService';
+import { sealProgress } from '@/services/sealBackfillService';
+
+/**
+ * GET /api/admin/encryption — key rotation progress for ops.
+ * Ciphertexts per table and key id, and how many are not yet on the primary
+ * key; an old key can be removed once nothing is left on it. `plaintext`
+ * counts messages and memories still waiting for the seal backfill.
+ * Requires `x-admin-token: $ADMIN_API_TOKEN`.
+ */
+export async function GET(req: NextRequest) {
+    if (!isAdminRequest(req)) return unauthorizedResponse();
+    const log = requestLogger(req);
+    try {
+        const [rotation, plaintext] = await Promise.all([rotationProgress(), sealProgress()]);
+        return jsonOk({ ...rotation, plaintext });
+    } catch (e) {
+        if (e instanceof KeyRotationError) return jsonError(409, e.message);
+        log.error({ err: String(e) }, 'admin.encryption.progress_failed');
+        return jsonError(500, 'Could not read encryption status');
+    }
+}
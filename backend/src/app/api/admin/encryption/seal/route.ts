@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { isAdminRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonOk, jsonError } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+import { SealBackfillError, startSealing } from '@/services/sealBackfillService';
+
+/**
+ * POST /api/admin/encryption/seal — encrypt chat messages and memories stored
+ * before they were encrypted at rest, in the background. Safe to call again
+ * after a crash: the run resumes with whatever is still in plaintext.
+ * Requires `x-admin-token: $ADMIN_API_TOKEN`.
+ */
+export async function POST(req: NextRequest) {
+    if (!isAdminRequest(req)) return unauthorizedResponse();
+    const log = requestLogger(req);
+    try {
+        const { jobId, progress } = await startSealing();
+        if (progress.remaining === 0) return jsonOk({ started: false, progress });
+        if (!jobId) return jsonError(503, 'Could not enqueue sealing — is a run already queued?');
+        return jsonOk({ started: true, jobId, progress }, { status: 202 });
+    } catch (e) {
+        if (e instanceof SealBackfillError) return jsonError(409, e.message);
+        log.error({ err: String(e) }, 'admin.encryption.seal_failed');
+        return jsonError(500, 'Could not start sealing');
+    }
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { isAdminRequest, unauthorizedResponse } from '@/lib/auth';
+import { getJobStatus } from '@/lib/jobs';
+import { jsonOk, jsonError } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+
+/**
+ * GET /api/admin/jobs — background worker status for ops.
+ * Per-queue queued/deferred/active counts, cron schedule, and dead-letter total.
+ * Requires `x-admin-token: $ADMIN_API_TOKEN`.
+ */
+export async function GET(req: NextRequest) {
+    if (!isAdminRequest(req)) return unauthorizedResponse();
+    const log = requestLogger(req);
+    try {
+        const status = await getJobStatus();
+        return jsonOk(status);
+    } catch (e) {
+        log.error({ err: String(e) }, 'admin.jobs.status_failed');
+        return jsonError(503, 'Job queue unavailable');
+    }
+}
@@ -44,7 +44,7 @@ RULES:
 - "tone" is one of: anchoring, warming, steadying, tender, encouraging.`;
 
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -130,7 +130,7 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
     // Forcing a regenerate — not cached.
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const dayKey = todayKey();
     try {
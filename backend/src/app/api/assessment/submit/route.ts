@@ -148,7 +148,7 @@ function mapToLegacyStressLevel(level: IntensityLevel): string {
 /* ─── POST handler ─── */
 export async function POST(req: NextRequest) {
     try {
-        const payload = getUserFromRequest(req);
+        const payload = await getUserFromRequest(req);
 
         const body = await req.json();
         const { answerDetails } = body;
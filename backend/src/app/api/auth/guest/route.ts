@@ -1,22 +1,23 @@
 import { NextRequest } from 'next/server';
 import crypto from 'crypto';
-import { signToken } from '@/lib/auth';
+import { GUEST_PASSWORD_HASH } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { startSession } from '@/services/authService';
 
 /**
- * POST /api/auth/guest — Issue a short-lived JWT for an anonymous guest session.
+ * POST /api/auth/guest — Start a session for an anonymous guest.
  *
- * The returned token is signed with JWT_SECRET and carries a random UUID as the
- * userId, scoped to a single browser/device. Guests keep it in localStorage and
- * attach it to every API call so journal / mood / chat / onboarding endpoints
- * stop returning 401 when the user has chosen the guest flow instead of Clerk
- * sign-in.
+ * Returns a short-lived access token plus a refresh token, like login, for a
+ * random UUID userId scoped to a single browser/device. Guests keep both in
+ * localStorage and attach the access token to every API call so journal /
+ * mood / chat / onboarding endpoints stop returning 401 when the user has
+ * chosen the guest flow instead of Clerk sign-in.
  *
  * We also create a matching row in the User table so foreign-key constraints on
  * JournalEntry / MoodLog / Conversation / Message don't reject writes from the
  * new guest userId.
  */
-export async function POST(_req: NextRequest) { // eslint-disable-line @typescript-eslint/no-unused-vars
+export async function POST(req: NextRequest) {
     try {
         const userId = crypto.randomUUID();
 
@@ -24,15 +25,15 @@ export async function POST(_req: NextRequest) { // eslint-disable-line @typescri
             data: {
                 id: userId,
                 email: `guest_${userId.substring(0, 8)}@guest.silenthelp.local`,
-                passwordHash: 'guest-session',
+                passwordHash: GUEST_PASSWORD_HASH,
                 name: 'Guest',
             },
         });
 
-        const token = signToken({ userId, email: '' });
+        const session = await startSession({ id: userId, email: '' }, req);
 
         return Response.json({
-            token,
+            ...session,
             userId,
         });
     } catch (error) {
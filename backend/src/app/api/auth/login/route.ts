@@ -1,7 +1,7 @@
 import { NextRequest } from 'next/server';
 import bcrypt from 'bcryptjs';
 import prisma from '@/lib/prisma';
-import { signToken } from '@/lib/auth';
+import { startSession } from '@/services/authService';
 
 export async function POST(req: NextRequest) {
     try {
@@ -32,12 +32,12 @@ export async function POST(req: NextRequest) {
             );
         }
 
-        // Generate token
-        const token = signToken({ userId: user.id, email: user.email });
+        // Start a session (access + refresh token)
+        const session = await startSession(user, req);
 
         return Response.json({
-            token,
-            user: { id: user.id, email: user.email, name: user.name },
+            ...session,
+            user: { id: user.id, email: user.email, name: user.name, emailVerified: user.emailVerifiedAt !== null },
         });
     } catch (error) {
         console.error('Login error:', error);
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonOk, jsonError } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { revokeAllSessions } from '@/services/authService';
+
+/** POST /api/auth/logout-all — sign out every device, including this one */
+export async function POST(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    try {
+        const revoked = await revokeAllSessions(payload.userId);
+        await audit({ req, userId: payload.userId, action: 'auth.logout_all', meta: { revoked } });
+        return jsonOk({ ok: true, revoked });
+    } catch (e) {
+        log.error({ err: String(e) }, 'auth.logout_all.failed');
+        return jsonError(500, 'Could not sign out other devices');
+    }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { getUserFromRequest } from '@/lib/auth';
+import { LogoutSchema } from '@/contracts/schemas';
+import { jsonOk, jsonError } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { findSessionIdByRefreshToken, revokeSession } from '@/services/authService';
+
+/**
+ * POST /api/auth/logout — end this device's session. Its access and refresh
+ * tokens stop working immediately. Identifies the session from the Bearer
+ * token, or from `refreshToken` when the access token has already expired.
+ * Always succeeds, so a client can call it blindly on sign-out.
+ */
+export async function POST(req: NextRequest) {
+    const log = requestLogger(req);
+    const body = LogoutSchema.safeParse(await req.json().catch(() => ({})));
+    if (!body.success) return jsonError(400, 'Invalid request body');
+
+    try {
+        const payload = await getUserFromRequest(req);
+        const session = payload?.sid
+            ? { id: payload.sid, userId: payload.userId }
+            : body.data.refreshToken
+              ? await findSessionIdByRefreshToken(body.data.refreshToken)
+              : null;
+        if (session && (await revokeSession(session.id))) {
+            await audit({ req, userId: session.userId, action: 'auth.logout', resource: `session:${session.id}` });
+        }
+        return jsonOk({ ok: true });
+    } catch (e) {
+        log.error({ err: String(e) }, 'auth.logout.failed');
+        return jsonError(500, 'Could not sign out');
+    }
+}
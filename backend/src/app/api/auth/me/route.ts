@@ -3,13 +3,13 @@ import prisma from '@/lib/prisma';
 import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
 
     try {
         const user = await prisma.user.findUnique({
             where: { id: payload.userId },
-            select: { id: true, email: true, name: true, avatarUrl: true, createdAt: true },
+            select: { id: true, email: true, name: true, avatarUrl: true, emailVerifiedAt: true, createdAt: true },
         });
 
         if (!user) return unauthorizedResponse('User not found');
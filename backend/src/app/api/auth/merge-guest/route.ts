@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { authenticateToken, getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { GuestMergeSchema } from '@/contracts/schemas';
+import { jsonOk, jsonError, parseJson } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { GuestMergeError, mergeGuestInto } from '@/services/guestMergeService';
+
+/**
+ * POST /api/auth/merge-guest — move a guest's data into the signed-in account.
+ *
+ * Called once right after sign-in / sign-up on a device that was used as a
+ * guest. The Bearer token is the account; `guestToken` is the guest's live
+ * access token. The guest user is deleted afterwards, so the device should
+ * drop its guest tokens on success.
+ */
+export async function POST(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    const rl = await rateLimit({ key: `auth.merge_guest:${payload.userId}`, limit: 5, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = await parseJson(req, GuestMergeSchema);
+    if (!parsed.ok) return parsed.response;
+
+    const guest = await authenticateToken(parsed.data.guestToken);
+    if (!guest?.sid) return jsonError(401, 'Guest session expired');
+
+    try {
+        // Clerk accounts get their row lazily; make sure it exists before
+        // rows are re-pointed at it.
+        await prisma.user.upsert({
+            where: { id: payload.userId },
+            create: {
+                id: payload.userId,
+                email: payload.email || `clerk_${payload.userId.substring(0, 8)}@temp.silenthelp.com`,
+                passwordHash: 'clerk-auth',
+                name: 'Silent Help User',
+            },
+            update: {},
+        });
+
+        const result = await mergeGuestInto(guest.userId, payload.userId, req);
+        return jsonOk({ ok: true, merged: result.counts, total: result.total });
+    } catch (e) {
+        if (e instanceof GuestMergeError) return jsonError(409, e.message);
+        log.error({ err: String(e) }, 'auth.merge_guest.failed');
+        return jsonError(500, 'Could not move your guest data');
+    }
+}
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import bcrypt from 'bcryptjs';
+import prisma from '@/lib/prisma';
+import { PasswordResetConfirmSchema } from '@/contracts/schemas';
+import { jsonOk, jsonError, parseJson } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { consumeOneTimeToken, revokeAllSessions } from '@/services/authService';
+
+/**
+ * POST /api/auth/password-reset/confirm — set a new password with the token
+ * from the email. Signs out every device; the user then logs in afresh.
+ */
+export async function POST(req: NextRequest) {
+    const log = requestLogger(req);
+    const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+
+    const rl = await rateLimit({ key: `auth.reset_confirm:${ip}`, limit: 10, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = await parseJson(req, PasswordResetConfirmSchema);
+    if (!parsed.ok) return parsed.response;
+
+    try {
+        const userId = await consumeOneTimeToken(parsed.data.token, 'password_reset');
+        if (!userId) return jsonError(400, 'This reset link is invalid or has expired');
+
+        const passwordHash = await bcrypt.hash(parsed.data.password, 12);
+        // Following the emailed link proves control of the address.
+        await prisma.user.update({
+            where: { id: userId },
+            data: { passwordHash, emailVerifiedAt: new Date() },
+        });
+        const revoked = await revokeAllSessions(userId);
+        await audit({ req, userId, action: 'auth.password_reset', meta: { revoked } });
+        return jsonOk({ ok: true });
+    } catch (e) {
+        log.error({ err: String(e) }, 'auth.password_reset_confirm.failed');
+        return jsonError(500, 'Could not reset password');
+    }
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { GUEST_PASSWORD_HASH } from '@/lib/auth';
+import { PasswordResetRequestSchema } from '@/contracts/schemas';
+import { jsonOk, parseJson } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { sendPasswordResetEmail } from '@/services/authService';
+
+/**
+ * POST /api/auth/password-reset — email a reset link. Answers the same way
+ * whether or not the address has an account, so it can't be used to probe
+ * who uses the app.
+ */
+export async function POST(req: NextRequest) {
+    const log = requestLogger(req);
+    const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+
+    const rl = await rateLimit({ key: `auth.reset:${ip}`, limit: 5, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = await parseJson(req, PasswordResetRequestSchema);
+    if (!parsed.ok) return parsed.response;
+    const { email } = parsed.data;
+
+    // Per-address limit too, so one inbox can't be flooded from many IPs.
+    const perEmail = await rateLimit({ key: `auth.reset:${email}`, limit: 3, windowMs: 15 * 60_000 });
+
+    try {
+        const user = perEmail.ok
+            ? await prisma.user.findFirst({
+                  where: { email: { equals: email, mode: 'insensitive' }, deletedAt: null },
+                  select: { id: true, email: true, name: true, passwordHash: true },
+              })
+            : null;
+        if (user && user.passwordHash !== GUEST_PASSWORD_HASH) {
+            await sendPasswordResetEmail(user);
+            await audit({ req, userId: user.id, action: 'auth.password_reset_requested' });
+        }
+    } catch (e) {
+        log.error({ err: String(e) }, 'auth.password_reset.failed');
+    }
+    return jsonOk({ ok: true, message: 'If that address has an account, a reset link is on its way.' });
+}
@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getBearerToken, verifyOwnToken } from '@/lib/auth';
+import { RefreshSchema } from '@/contracts/schemas';
+import { jsonOk, jsonError, parseJson } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { rotateRefreshToken, startSession } from '@/services/authService';
+
+/**
+ * POST /api/auth/refresh — trade a refresh token for a new access token and
+ * a new refresh token (the old one stops working).
+ *
+ * Without `refreshToken`, a still-valid token minted before sessions existed
+ * (sent as Bearer) is upgraded to a session once — that is how existing guest
+ * devices keep their data. Refused once the user has any session, so a copied
+ * old token can't be revived after "sign out everywhere".
+ */
+export async function POST(req: NextRequest) {
+    const log = requestLogger(req);
+    const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+
+    const rl = await rateLimit({ key: `auth.refresh:${ip}`, limit: 30, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = await parseJson(req, RefreshSchema);
+    if (!parsed.ok) return parsed.response;
+
+    try {
+        if (parsed.data.refreshToken) {
+            const tokens = await rotateRefreshToken(parsed.data.refreshToken, req);
+            if (!tokens) return jsonError(401, 'Session expired — please sign in again');
+            return jsonOk(tokens);
+        }
+
+        const bearer = getBearerToken(req);
+        const legacy = bearer ? verifyOwnToken(bearer) : null;
+        if (!legacy || legacy.sid) return jsonError(401, 'refreshToken is required');
+        const user = await prisma.user.findUnique({
+            where: { id: legacy.userId },
+            select: { id: true, email: true, deletedAt: true, _count: { select: { authSessions: true } } },
+        });
+        if (!user || user.deletedAt || user._count.authSessions > 0) {
+            return jsonError(401, 'Session expired — please sign in again');
+        }
+        const tokens = await startSession(user, req);
+        await audit({ req, userId: user.id, action: 'auth.session_upgrade' });
+        return jsonOk(tokens);
+    } catch (e) {
+        log.error({ err: String(e) }, 'auth.refresh.failed');
+        return jsonError(500, 'Could not refresh session');
+    }
+}
@@ -1,7 +1,7 @@
 import { NextRequest } from 'next/server';
 import bcrypt from 'bcryptjs';
 import prisma from '@/lib/prisma';
-import { signToken } from '@/lib/auth';
+import { startSession, sendVerificationEmail } from '@/services/authService';
 
 export async function POST(req: NextRequest) {
     try {
@@ -37,12 +37,15 @@ export async function POST(req: NextRequest) {
             data: { email, passwordHash, name },
         });
 
-        // Generate token
-        const token = signToken({ userId: user.id, email: user.email });
+        // Best-effort: a mail outage shouldn't block sign-up; they can resend.
+        await sendVerificationEmail(user).catch((e) => console.error('Verification email error:', e));
+
+        // Start a session (access + refresh token)
+        const session = await startSession(user, req);
 
         return Response.json({
-            token,
-            user: { id: user.id, email: user.email, name: user.name },
+            ...session,
+            user: { id: user.id, email: user.email, name: user.name, emailVerified: false },
         }, { status: 201 });
     } catch (error) {
         console.error('Register error:', error);
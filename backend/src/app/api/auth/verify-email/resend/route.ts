@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getUserFromRequest, GUEST_PASSWORD_HASH, unauthorizedResponse } from '@/lib/auth';
+import { jsonOk, jsonError } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { sendVerificationEmail } from '@/services/authService';
+
+/** POST /api/auth/verify-email/resend — send a fresh verification link */
+export async function POST(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    const rl = await rateLimit({ key: `auth.verify_resend:${payload.userId}`, limit: 3, windowMs: 15 * 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    try {
+        const user = await prisma.user.findUnique({
+            where: { id: payload.userId },
+            select: { id: true, email: true, name: true, passwordHash: true, emailVerifiedAt: true },
+        });
+        if (!user || user.passwordHash === GUEST_PASSWORD_HASH) return jsonError(400, 'No email address to verify');
+        if (user.emailVerifiedAt) return jsonOk({ ok: true, alreadyVerified: true });
+        await sendVerificationEmail(user);
+        return jsonOk({ ok: true });
+    } catch (e) {
+        log.error({ err: String(e) }, 'auth.verify_resend.failed');
+        return jsonError(500, 'Could not send verification email');
+    }
+}
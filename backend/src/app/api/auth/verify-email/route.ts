@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { EmailVerifySchema } from '@/contracts/schemas';
+import { jsonOk, jsonError, parseJson } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { consumeOneTimeToken } from '@/services/authService';
+
+/** POST /api/auth/verify-email — confirm an address with the token from the email */
+export async function POST(req: NextRequest) {
+    const log = requestLogger(req);
+    const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+
+    const rl = await rateLimit({ key: `auth.verify:${ip}`, limit: 10, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = await parseJson(req, EmailVerifySchema);
+    if (!parsed.ok) return parsed.response;
+
+    try {
+        const userId = await consumeOneTimeToken(parsed.data.token, 'email_verify');
+        if (!userId) return jsonError(400, 'This verification link is invalid or has expired');
+        await prisma.user.update({ where: { id: userId }, data: { emailVerifiedAt: new Date() } });
+        await audit({ req, userId, action: 'auth.email_verified' });
+        return jsonOk({ ok: true });
+    } catch (e) {
+        log.error({ err: String(e) }, 'auth.verify_email.failed');
+        return jsonError(500, 'Could not verify email');
+    }
+}
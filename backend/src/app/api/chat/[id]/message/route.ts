@@ -4,31 +4,53 @@
  * Production-grade pipeline:
  *   1. auth + rate-limit (30/min/user)
  *   2. zod-validated body
- *   3. persist user msg + compute embedding
- *   4. composite crisis check (keyword + optional subtle-LLM safety net)
+ *   3. place the turn in the conversation tree (append / edit / regenerate),
+ *      persist user msg + compute embedding
+ *   4. composite crisis check (keyword + optional subtle-LLM safety net); the
+ *      crisis lines come from the shared directory for the user's region
+ *      (profile, else reply locale) and ride along on both crisis frames.
+ *      The turn's signal also feeds the conversation's decaying risk
+ *      (crisisRiskService), sent as `risk` so the UI can keep SOS in view
  *   5. compute adaptive system prompt (wellness profile + user state)
  *   6. RAG context block (memories + past journals + past chat turns)
+ *      + history: recent turns of the branch within a token budget, older
+ *      ones as the conversation's rolling summary
  *   7. unified AI stream (Gemini → OpenAI fallback)
- *   8. persist assistant msg, audit, auto-title, emit SSE
+ *   8. persist assistant msg, audit, auto-title (AI, after the first exchange), emit SSE
  *
  * SSE event types (all as `data: {json}\n\n`):
- *   - { meta: { persona, citations, crisis } }  emitted ONCE at start
+ *   - { meta: { persona, citations, crisis, risk } }  emitted ONCE at start
  *   - { content: "partial text" }               streamed token-by-token
- *   - { done: true, messageId, crisis, suggestions, groundingActions }  emitted at end
+ *   - { done: true, messageId, userMessageId, crisis, risk, suggestions, groundingActions }  emitted at end
  *   - { error: "…" }                            emitted on failure
  */
 import { NextRequest } from 'next/server';
 import prisma from '@/lib/prisma';
 import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
-import { getCrisisSystemPrompt } from '@/lib/crisis';
+import { crisisLinesText, crisisRegion, crisisResourcesFor, getCrisisSystemPrompt } from '@/lib/crisis';
 import { computeUserState, generateDynamicSystemPrompt, generateOpeningContext } from '@/lib/ai-engine';
-import { stream as aiStream, generate as aiGenerate, embed, toPgVector, type ChatProvider } from '@/lib/ai/provider';
+import { stream as aiStream, generate as aiGenerate, embed, type ChatProvider } from '@/lib/ai/provider';
+import { summaryBlock } from '@/lib/ai/history';
+import { storedEmbedding } from '@/lib/ai/vectors';
 import { buildRagContext, type RagCitation } from '@/services/ragService';
 import { checkForCrisisEnriched, type CompositeCrisisResult } from '@/services/crisisService';
+import { recordCrisisSignal, riskOf } from '@/services/crisisRiskService';
 import { runToolUse, type ToolInvocation } from '@/services/toolUse';
 import { maybeConsolidate } from '@/services/memoryConsolidator';
 import { computeNudges, nudgePromptAddendum, type ProactiveNudge } from '@/services/proactiveNudge';
 import { judgeReply, applyPatch } from '@/services/qualityJudge';
+import {
+    buildHistory,
+    ChatBranchError,
+    generateTitle,
+    HISTORY_TOKENS,
+    placeholderTitle,
+    planTurn,
+    refreshSummary,
+    sealMessage,
+    sealTitle,
+    type Turn,
+} from '@/services/conversationService';
 import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
 import { requestLogger } from '@/lib/logger';
 import { audit } from '@/lib/audit';
@@ -36,9 +58,19 @@ import { jsonError, parseJson, z } from '@/lib/http';
 import { classifyEmotionLocal } from '@/lib/ai/local';
 import { resolveReplyLocale, languagePromptAddendum } from '@/lib/locale';
 
-const BodySchema = z.object({
-    content: z.string().trim().min(1).max(4000),
-});
+/**
+ * `content` alone appends. With `editOf` it replaces that user message on a
+ * new branch; `regenerate` (no content) asks again for that assistant reply.
+ */
+const BodySchema = z
+    .object({
+        content: z.string().trim().min(1).max(4000).optional(),
+        editOf: z.string().uuid().optional(),
+        regenerate: z.string().uuid().optional(),
+    })
+    .refine((b) => (b.regenerate ? !b.content && !b.editOf : !!b.content), {
+        message: 'Send content, or regenerate on its own',
+    });
 
 const FALLBACK_SYSTEM_PROMPT = `You are Silent Help — a compassionate, intelligent AI companion focused on mental wellness and emotional support. You are NOT a therapist or medical professional. You are a warm, understanding friend who listens deeply.
 
@@ -61,9 +93,7 @@ Your approach:
 Formatting:
 - Plain paragraphs, no headings or bullet lists unless the user asks
 - Italicise sparingly with *single asterisks* for gentle emphasis
-- Never use **bold**, tables, or code fences
-
-${getCrisisSystemPrompt()}`;
+- Never use **bold**, tables, or code fences`;
 
 /* ───────────────────────── Persona helpers ───────────────────────── */
 
@@ -247,7 +277,7 @@ export async function POST(
     req: NextRequest,
     { params }: { params: Promise<{ id: string }> },
 ) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -257,13 +287,21 @@ export async function POST(
     const { id: conversationId } = await params;
     const parsed = await parseJson(req, BodySchema);
     if (!parsed.ok) return parsed.response;
-    const { content } = parsed.data;
 
     const conversation = await prisma.conversation.findFirst({
         where: { id: conversationId, userId: payload.userId },
     });
     if (!conversation) return jsonError(404, 'Conversation not found');
 
+    let turn: Turn;
+    try {
+        turn = await planTurn(conversation, parsed.data);
+    } catch (err) {
+        if (err instanceof ChatBranchError) return jsonError(400, err.message);
+        throw err;
+    }
+    const { content } = turn;
+
     // Children's Code (13-17): never send their messages to a third-party vendor.
     // Look up the user's childMode + locale once and thread them through every AI call.
     const userRow = await prisma.user.findUnique({
@@ -272,21 +310,39 @@ export async function POST(
     }).catch(() => null);
     const forceLocal = !!userRow?.childMode;
     const replyLocale = resolveReplyLocale({ req, profileLocale: userRow?.locale });
+    // Whose crisis lines to give: the profile's region, else the reply locale's.
+    const region = crisisRegion({ userRegion: userRow?.region, locale: replyLocale });
 
     // Persist the user message FIRST so history survives mid-stream failures.
-    const userMessageId = crypto.randomUUID();
-    const embedPromise = embed(content).catch(() => null);
-
-    await prisma.message.create({
-        data: { id: userMessageId, conversationId, role: 'user', content },
+    // Regenerating answers the existing one again; it is already stored and embedded.
+    const userMessageId = turn.userMessageId ?? crypto.randomUUID();
+    const embedPromise = turn.userMessageId ? Promise.resolve(null) : embed(content).catch(() => null);
+
+    if (!turn.userMessageId) {
+        await prisma.message.create({
+            data: {
+                id: userMessageId,
+                conversationId,
+                parentId: turn.parentId,
+                role: 'user',
+                ...sealMessage(payload.userId, content),
+            },
+        });
+    }
+    await prisma.conversation.update({
+        where: { id: conversationId },
+        // Talking in an archived conversation brings it back to the inbox.
+        data: { activeLeafId: userMessageId, archived: false },
     });
     (async () => {
         const e = await embedPromise;
         if (!e) return;
+        const vector = storedEmbedding(e);
         try {
             await prisma.$executeRaw`
                 UPDATE messages
-                SET embedding = ${toPgVector(e.vector)}::vector, embedding_model = ${e.model}
+                SET embedding = ${vector.wide}::vector, embedding_local = ${vector.local}::vector,
+                    embedding_model = ${vector.model}
                 WHERE id = ${userMessageId}::uuid
             `;
         } catch (err) {
@@ -295,7 +351,7 @@ export async function POST(
     })();
 
     // ── Build adaptive system prompt ──
-    let systemPrompt = FALLBACK_SYSTEM_PROMPT;
+    let systemPrompt = `${FALLBACK_SYSTEM_PROMPT}\n\n${getCrisisSystemPrompt(region)}`;
     let emotion: Emotion = 'neutral';
     let wellnessProfile: Awaited<ReturnType<typeof prisma.wellnessProfile.findUnique>> = null;
     try {
@@ -310,7 +366,7 @@ export async function POST(
                 energy: wellnessProfile.energy,
                 concern: wellnessProfile.concern,
                 aiInsight: wellnessProfile.aiInsight,
-            });
+            }, region);
             const opening = generateOpeningContext(userState);
             if (opening) systemPrompt += '\n\n' + opening;
         }
@@ -342,12 +398,24 @@ export async function POST(
     }
 
     // ── Composite crisis check ──
-    const crisis = await checkForCrisisEnriched(content).catch((e) => {
+    const crisis = await checkForCrisisEnriched(content, { language: replyLocale.tag.split('-')[0] }).catch((e) => {
         log.warn({ err: String(e) }, 'chat.crisis.failed');
         return null;
     });
+    // Conversation-level risk: escalation across turns, decaying over time.
+    // Regenerating answers a message already counted.
+    const risk = turn.userMessageId
+        ? riskOf(conversation)
+        : await recordCrisisSignal({ userId: payload.userId, conversationId, crisis }).catch((e) => {
+              log.warn({ err: String(e) }, 'chat.crisis_risk.failed');
+              return riskOf(conversation);
+          });
+    const crisisResources = crisis?.isCrisis || risk.keepSosVisible ? crisisResourcesFor(region) : null;
+    const riskFrame = { ...risk, resources: risk.keepSosVisible ? crisisResources : null };
     if (crisis?.isCrisis) {
-        systemPrompt += `\n\nSAFETY: The user's message suggests they may be in crisis (source=${crisis.source}, severity=${crisis.severity}). Lead with empathy. Gently surface UK crisis resources: Samaritans 116 123, Shout (text SHOUT to 85258), NHS 111, 999 for emergency. Never dismiss their feelings. Invite them to open the in-app SOS screen for localised numbers.`;
+        systemPrompt += `\n\nSAFETY: The user's message suggests they may be in crisis (source=${crisis.source}, severity=${crisis.severity}). Lead with empathy. Gently surface crisis resources for ${crisisResources?.countryName}: ${crisisLinesText(region)}. Never dismiss their feelings. Invite them to open the in-app SOS screen for other countries' numbers.`;
+    } else if (risk.level === 'elevated' || risk.level === 'high') {
+        systemPrompt += `\n\nSAFETY: Over this conversation the user has shown growing distress, though this message alone doesn't. Check in gently about how they are doing right now, and make sure they know support is there: ${crisisLinesText(region)}. Don't alarm them or mention any assessment.`;
     }
 
     // ── Agentic tool-use (chat v2) ──
@@ -379,13 +447,15 @@ export async function POST(
     // ── Locale-aware reply (chat v2) ──
     systemPrompt += languagePromptAddendum(replyLocale);
 
-    // ── History window ──
-    const history = await prisma.message.findMany({
-        where: { conversationId },
-        orderBy: { createdAt: 'asc' },
-        take: 30,
-        select: { role: true, content: true },
+    // ── History: the branch ending at this user message, with the stored summary ──
+    const history = await buildHistory({
+        userId: payload.userId,
+        conversationId,
+        leafId: userMessageId,
+        budget: HISTORY_TOKENS,
+        forceLocal,
     });
+    systemPrompt += summaryBlock(history.summary);
 
     const persona = PERSONA_LIBRARY[emotion];
     const groundingActions = pickGroundingActions(emotion, crisis);
@@ -422,8 +492,10 @@ export async function POST(
                                   severity: crisis.severity,
                                   source: crisis.source,
                                   matchedKeywords: crisis.matchedKeywords.slice(0, 4),
+                                  resources: crisisResources,
                               }
                             : null,
+                        risk: riskFrame,
                         liveEmotion: {
                             source: liveEmotion.source,
                             confidence: Number(liveEmotion.confidence.toFixed(3)),
@@ -445,9 +517,7 @@ export async function POST(
 
                 for await (const chunk of aiStream({
                     system: systemPrompt,
-                    turns: history
-                        .filter((m) => m.role === 'user' || m.role === 'assistant')
-                        .map((m) => ({ role: m.role as 'user' | 'assistant', content: m.content })),
+                    turns: history.turns,
                     maxTokens: 1000,
                     temperature: 0.7,
                     forceLocal,
@@ -470,22 +540,37 @@ export async function POST(
                 // ── Quality judge (chat v2) ──
                 // Re-read the draft against Samaritans / MHRA / empathy / length rules
                 // and patch it deterministically if needed. Never regenerate (latency).
-                const judgement = judgeReply({ reply: draft, crisis: !!crisis?.isCrisis });
+                const judgement = judgeReply({ reply: draft, crisis: !!crisis?.isCrisis, region });
                 const finalContent = judgement.ok ? draft : applyPatch(draft, judgement.patch);
                 if (!judgement.ok && finalContent !== draft) {
                     // Tell the UI what we patched — transparency.
                     send({ qualityPatch: { issues: judgement.issues } });
                 }
                 const assistantMessage = await prisma.message.create({
-                    data: { conversationId, role: 'assistant', content: finalContent },
+                    data: {
+                        conversationId,
+                        parentId: userMessageId,
+                        role: 'assistant',
+                        ...sealMessage(payload.userId, finalContent),
+                    },
                 });
 
-                if (!conversation.title) {
-                    const title = content.slice(0, 60) + (content.length > 60 ? '…' : '');
-                    await prisma.conversation.update({
-                        where: { id: conversationId },
-                        data: { title },
-                    });
+                await prisma.conversation.update({
+                    where: { id: conversationId },
+                    data: {
+                        activeLeafId: assistantMessage.id,
+                        ...(conversation.title ? {} : sealTitle(payload.userId, placeholderTitle(content))),
+                    },
+                });
+                // The first exchange gets an AI title in place of the placeholder.
+                if (!conversation.title && !conversation.titleSource) {
+                    void generateTitle({
+                        userId: payload.userId,
+                        conversationId,
+                        userMessage: content,
+                        reply: finalContent,
+                        forceLocal,
+                    }).catch((err) => log.warn({ err: String(err) }, 'chat.title.failed'));
                 }
 
                 // Fire-and-forget: adaptive follow-ups
@@ -502,6 +587,7 @@ export async function POST(
                     action: 'chat.message',
                     resource: `conversation:${conversationId}`,
                     meta: {
+                        branch: turn.kind,
                         userChars: content.length,
                         assistantChars: finalContent.length,
                         crisisSource: crisis?.source ?? 'none',
@@ -521,7 +607,9 @@ export async function POST(
                 send({
                     done: true,
                     messageId: assistantMessage.id,
-                    crisis: crisis?.isCrisis ? crisis : null,
+                    userMessageId,
+                    crisis: crisis?.isCrisis ? { ...crisis, resources: crisisResources } : null,
+                    risk: riskFrame,
                     suggestions,
                     groundingActions,
                     provider: chatProvider,
@@ -544,17 +632,30 @@ export async function POST(
                 // ── Fire-and-forget: long-term memory consolidation (chat v2) ──
                 // Every 6 exchanges, summarise the conversation into durable Memory rows.
                 // Respects Children's Code via forceLocal and Art 9 consent gate.
-                void maybeConsolidate({
+                // The summary is refreshed first so consolidation reads the folded history.
+                void refreshSummary({
                     userId: payload.userId,
                     conversationId,
+                    leafId: assistantMessage.id,
+                    budget: HISTORY_TOKENS,
                     forceLocal,
-                }).catch((err) => log.warn({ err: String(err) }, 'chat.consolidate.failed'));
+                })
+                    .then(() => maybeConsolidate({ userId: payload.userId, conversationId, forceLocal }))
+                    .catch((err) => log.warn({ err: String(err) }, 'chat.consolidate.failed'));
             } catch (streamErr) {
                 log.error({ err: String(streamErr) }, 'chat.stream.failed');
                 if (fullResponse) {
                     await prisma.message.create({
-                        data: { conversationId, role: 'assistant', content: fullResponse },
-                    }).catch(() => {});
+                        data: {
+                            conversationId,
+                            parentId: userMessageId,
+                            role: 'assistant',
+                            ...sealMessage(payload.userId, fullResponse),
+                        },
+                    }).then((m: { id: string }) => prisma.conversation.update({
+                        where: { id: conversationId },
+                        data: { activeLeafId: m.id },
+                    })).catch(() => {});
                 }
                 send({ done: true, error: 'stream_failed' });
                 controller.close();
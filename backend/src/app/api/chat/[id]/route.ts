@@ -1,40 +1,99 @@
 import { NextRequest } from 'next/server';
 import prisma from '@/lib/prisma';
 import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonError, jsonOk, parseJson, z } from '@/lib/http';
+import { crisisRegion, crisisResourcesFor, type RegionResources } from '@/lib/crisis';
+import { resolveReplyLocale } from '@/lib/locale';
+import { activeBranch, selectBranch, titleText } from '@/services/conversationService';
+import { riskOf } from '@/services/crisisRiskService';
+
+const BranchSchema = z.object({
+    activeMessageId: z.string().uuid(),
+});
 
 /**
- * GET /api/chat/[id] — Get conversation with messages
+ * GET /api/chat/[id] — Get conversation with the messages of its active branch,
+ * and its crisis risk as of now (so a reload keeps SOS in view, with the
+ * user's crisis lines as chat frames carry them)
  */
 export async function GET(
     req: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
 
     const { id } = await params;
 
     try {
-        const conversation = await prisma.conversation.findFirst({
+        // Explicit fields: the rolling summary and risk signals stay server-side.
+        const row = await prisma.conversation.findFirst({
             where: { id, userId: payload.userId },
-            include: {
-                messages: {
-                    orderBy: { createdAt: 'asc' },
-                },
+            select: {
+                id: true,
+                title: true,
+                titleCipherText: true,
+                titleSource: true,
+                pinned: true,
+                archived: true,
+                activeLeafId: true,
+                createdAt: true,
+                updatedAt: true,
+                crisisSignals: true,
+                crisisElevatedAt: true,
             },
         });
 
-        if (!conversation) {
+        if (!row) {
             return Response.json({ error: 'Conversation not found' }, { status: 404 });
         }
 
-        return Response.json({ conversation });
+        const { title, titleCipherText, crisisSignals, crisisElevatedAt, ...conversation } = row;
+        const messages = await activeBranch(payload.userId, id, conversation.activeLeafId);
+        const risk = riskOf({ crisisSignals, crisisElevatedAt });
+        let resources: RegionResources | null = null;
+        if (risk.keepSosVisible) {
+            // Same lines as the message route: the profile's region, else the reply locale's.
+            const user = await prisma.user.findUnique({
+                where: { id: payload.userId },
+                select: { locale: true, region: true },
+            });
+            const locale = resolveReplyLocale({ req, profileLocale: user?.locale });
+            resources = crisisResourcesFor(crisisRegion({ userRegion: user?.region, locale }));
+        }
+        return Response.json({
+            conversation: {
+                ...conversation,
+                title: titleText(payload.userId, { title, titleCipherText }),
+                risk: { ...risk, resources },
+                messages,
+            },
+        });
     } catch (error) {
         console.error('Get conversation error:', error);
         return Response.json({ error: 'Internal server error' }, { status: 500 });
     }
 }
 
+/**
+ * PATCH /api/chat/[id] — Switch branch: show the one through `activeMessageId`
+ */
+export async function PATCH(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+
+    const { id } = await params;
+    const parsed = await parseJson(req, BranchSchema);
+    if (!parsed.ok) return parsed.response;
+
+    const messages = await selectBranch(payload.userId, id, parsed.data.activeMessageId);
+    if (!messages) return jsonError(404, 'Message not found');
+    return jsonOk({ messages });
+}
+
 /**
  * DELETE /api/chat/[id] — Delete a conversation
  */
@@ -42,7 +101,7 @@ export async function DELETE(
     req: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
 
     const { id } = await params;
@@ -1,12 +1,13 @@
 import { NextRequest } from 'next/server';
 import prisma from '@/lib/prisma';
 import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { sealTitle } from '@/services/conversationService';
 
 /**
  * POST /api/chat — Create a new conversation
  */
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
 
     try {
@@ -16,11 +17,20 @@ export async function POST(req: NextRequest) {
         const conversation = await prisma.conversation.create({
             data: {
                 userId: payload.userId,
-                title,
+                ...sealTitle(payload.userId, title),
+            },
+            select: {
+                id: true,
+                titleSource: true,
+                pinned: true,
+                archived: true,
+                activeLeafId: true,
+                createdAt: true,
+                updatedAt: true,
             },
         });
 
-        return Response.json({ conversation }, { status: 201 });
+        return Response.json({ conversation: { ...conversation, title } }, { status: 201 });
     } catch (error) {
         console.error('Create conversation error:', error);
         return Response.json({ error: 'Internal server error' }, { status: 500 });
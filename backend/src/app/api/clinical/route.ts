@@ -44,7 +44,7 @@ function severityFor(instrument: z.infer<typeof InstrumentSchema>, score: number
 }
 
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const url = new URL(req.url);
     const qInstrument = url.searchParams.get('instrument');
@@ -76,7 +76,7 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
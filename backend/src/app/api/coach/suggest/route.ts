@@ -8,7 +8,7 @@ import { requestLogger } from '@/lib/logger';
 
 /** POST /api/coach/suggest — adaptive next-action suggestion */
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -16,7 +16,7 @@ import {
 
 /** GET /api/consent — current consent + retention + childMode for the user. */
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const status = await getConsentStatus(payload.userId);
     if (!status) return jsonError(404, 'User not found');
@@ -39,7 +39,7 @@ const BodySchema = z.object({
 });
 
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -94,7 +94,7 @@ export async function POST(req: NextRequest) {
 
 /** DELETE /api/consent — withdraw consent (prepares full erasure). */
 export async function DELETE(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
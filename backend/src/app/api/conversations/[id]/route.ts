@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { ConversationUpdateSchema } from '@/contracts/schemas';
+import { updateConversation } from '@/services/conversationService';
+import { jsonOk, jsonError, parseJson } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/conversations/[id] — rename, pin or archive a conversation.
+ * `title: null` drops a manual name and lets the app title it again.
+ */
+export async function PATCH(req: NextRequest, { params }: Params) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+    const { id } = await params;
+
+    const rl = await rateLimit({ key: `conversations.edit:${payload.userId}`, limit: 30, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = await parseJson(req, ConversationUpdateSchema);
+    if (!parsed.ok) return parsed.response;
+
+    try {
+        // Children's Code: a regenerated title stays on the local model.
+        const user = await prisma.user.findUnique({ where: { id: payload.userId }, select: { childMode: true } });
+        const conversation = await updateConversation(payload.userId, id, parsed.data, {
+            forceLocal: !!user?.childMode,
+        });
+        if (!conversation) return jsonError(404, 'Conversation not found');
+        await audit({
+            req,
+            userId: payload.userId,
+            action: 'conversation.update',
+            resource: `conversation:${id}`,
+            meta: { fields: Object.keys(parsed.data) },
+        });
+        return jsonOk({ conversation });
+    } catch (e) {
+        log.error({ err: String(e) }, 'conversations.update.failed');
+        return jsonError(500, 'Could not update conversation');
+    }
+}
@@ -1,44 +1,27 @@
 import { NextRequest } from 'next/server';
-import prisma from '@/lib/prisma';
 import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonError, jsonOk, parseQuery } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+import { listConversations } from '@/services/conversationService';
+import { ConversationListQuerySchema } from '@/contracts/schemas';
 
 /**
- * GET /api/conversations — List all conversations for the current user
+ * GET /api/conversations?cursor=...&limit=...&archived=true — one page of the
+ * user's conversations (pinned first, then most recently active) with a
+ * last-message preview. Pass `nextCursor` back as `cursor` for the next page.
  */
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
 
-    try {
-        const conversations = await prisma.conversation.findMany({
-            where: { userId: payload.userId },
-            orderBy: { updatedAt: 'desc' },
-            select: {
-                id: true,
-                title: true,
-                createdAt: true,
-                updatedAt: true,
-                messages: {
-                    orderBy: { createdAt: 'desc' },
-                    take: 1,
-                    select: { content: true, role: true, createdAt: true },
-                },
-            },
-        });
-
-        // Format: include last message preview
-        const formatted = conversations.map(c => ({
-            id: c.id,
-            title: c.title || 'New conversation',
-            lastMessage: c.messages[0]?.content?.slice(0, 100) || null,
-            lastMessageRole: c.messages[0]?.role || null,
-            createdAt: c.createdAt,
-            updatedAt: c.updatedAt,
-        }));
+    const parsed = parseQuery(req, ConversationListQuerySchema);
+    if (!parsed.ok) return parsed.response;
 
-        return Response.json({ conversations: formatted });
-    } catch (error) {
-        console.error('List conversations error:', error);
-        return Response.json({ error: 'Internal server error' }, { status: 500 });
+    try {
+        return jsonOk(await listConversations(payload.userId, parsed.data));
+    } catch (e) {
+        log.error({ err: String(e) }, 'conversations.list.failed');
+        return jsonError(500, 'Could not load conversations');
     }
 }
@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonError, jsonOk, parseQuery } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { searchConversations } from '@/services/conversationService';
+import { ConversationSearchQuerySchema } from '@/contracts/schemas';
+
+/**
+ * GET /api/conversations/search?q=...&limit=... — search all of the user's
+ * conversations (archived included) by meaning and keywords; one hit per
+ * conversation with a highlighted snippet of its best-matching message.
+ */
+export async function GET(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    const rl = await rateLimit({ key: `search:${payload.userId}`, limit: 30, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = parseQuery(req, ConversationSearchQuerySchema);
+    if (!parsed.ok) return parsed.response;
+
+    try {
+        const { q, limit } = parsed.data;
+        const results = await searchConversations(payload.userId, q, limit);
+        return jsonOk({ results, query: q });
+    } catch (e) {
+        log.error({ err: String(e) }, 'conversations.search.failed');
+        return jsonError(500, 'Could not search conversations');
+    }
+}
@@ -42,7 +42,7 @@ function streakFromDays(dayKeys: string[]): number {
 }
 
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
     try {
@@ -72,7 +72,7 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
     const rl = await rateLimit({ key: `gratitude.create:${payload.userId}`, limit: 15, windowMs: 60_000 });
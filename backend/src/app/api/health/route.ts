@@ -2,8 +2,9 @@ import prisma from '@/lib/prisma';
 import { hasGemini, hasOpenAI, hasLocalLlm, getLocalLlmConfig } from '@/lib/ai/provider';
 import { isEncryptionEnabled } from '@/lib/encryption';
 import { aiMode, localAiHealth } from '@/lib/ai/local';
+import { embeddingStaleness } from '@/services/embeddingBackfillService';
 
-/** GET /api/health — extended: DB, AI provider reachability, encryption, extensions */
+/** GET /api/health — extended: DB, AI provider reachability, embeddings, encryption, extensions */
 export async function GET() {
     const start = Date.now();
     const out: Record<string, unknown> = {
@@ -54,6 +55,14 @@ export async function GET() {
         ok: aiMode() !== 'cloud' || hasGemini() || hasOpenAI() || hasLocalLlm(),
     };
 
+    // Rows the nightly `embeddings.backfill` job still has to move onto the
+    // preferred model; retrieval can't see them until it does.
+    try {
+        out.embeddings = await embeddingStaleness();
+    } catch {
+        out.embeddings = null;
+    }
+
     out.privacy = {
         encryptionAtRest: isEncryptionEnabled(),
     };
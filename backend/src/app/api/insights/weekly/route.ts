@@ -7,7 +7,7 @@ import { requestLogger } from '@/lib/logger';
 
 /** GET /api/insights/weekly — AI-generated weekly reflection (cached per ISO week) */
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
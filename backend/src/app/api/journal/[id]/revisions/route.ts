@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { listRevisions } from '@/services/journalService';
+import { jsonOk, jsonError } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+
+type Params = { params: Promise<{ id: string }> };
+
+/** GET /api/journal/[id]/revisions — earlier versions of an entry, newest first (decrypted for owner) */
+export async function GET(req: NextRequest, { params }: Params) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+    const { id } = await params;
+
+    try {
+        const revisions = await listRevisions(payload.userId, id);
+        if (!revisions) return jsonError(404, 'Entry not found');
+        return jsonOk({ revisions });
+    } catch (e) {
+        log.error({ err: String(e) }, 'journal.revisions.failed');
+        return jsonError(500, 'Could not load history');
+    }
+}
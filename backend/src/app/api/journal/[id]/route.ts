@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { JournalUpdateSchema } from '@/contracts/schemas';
+import { deleteJournal, JournalEditConflictError, JournalTemplateError, updateJournal } from '@/services/journalService';
+import { jsonOk, jsonError, parseJson } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/journal/[id] — edit an entry's text (or template fields), mood
+ * and/or tags. The previous version is kept in the entry's (encrypted)
+ * revision history.
+ */
+export async function PATCH(req: NextRequest, { params }: Params) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+    const { id } = await params;
+
+    const rl = await rateLimit({ key: `journal.edit:${payload.userId}`, limit: 30, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = await parseJson(req, JournalUpdateSchema);
+    if (!parsed.ok) return parsed.response;
+
+    try {
+        const entry = await updateJournal({ userId: payload.userId, id, ...parsed.data });
+        if (!entry) return jsonError(404, 'Entry not found');
+        await audit({
+            req,
+            userId: payload.userId,
+            action: 'journal.update',
+            resource: `journal:${id}`,
+            meta: { fields: Object.keys(parsed.data), chars: entry.content.length },
+        });
+        return jsonOk({ entry });
+    } catch (e) {
+        if (e instanceof JournalEditConflictError) return jsonError(409, e.message);
+        if (e instanceof JournalTemplateError) return jsonError(400, e.message);
+        log.error({ err: String(e) }, 'journal.update.failed');
+        return jsonError(500, 'Could not update entry');
+    }
+}
+
+/** DELETE /api/journal/[id] — delete an entry and its revision history */
+export async function DELETE(req: NextRequest, { params }: Params) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+    const { id } = await params;
+
+    const rl = await rateLimit({ key: `journal.edit:${payload.userId}`, limit: 30, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    try {
+        const deleted = await deleteJournal(payload.userId, id);
+        if (!deleted) return jsonError(404, 'Entry not found');
+        await audit({
+            req,
+            userId: payload.userId,
+            action: 'journal.delete',
+            resource: `journal:${id}`,
+            meta: { revisions: deleted.revisions },
+        });
+        return jsonOk({ ok: true });
+    } catch (e) {
+        log.error({ err: String(e) }, 'journal.delete.failed');
+        return jsonError(500, 'Could not delete entry');
+    }
+}
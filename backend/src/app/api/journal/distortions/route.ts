@@ -268,7 +268,7 @@ const LOCAL_REFRAMES: Record<Distortion, string> = {
 };
 
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -9,7 +9,7 @@ import { jsonOk, jsonError } from '@/lib/http';
 
 /** POST /api/journal/insight — AI-written reflection over the last 7 entries */
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -1,23 +1,28 @@
 import { NextRequest } from 'next/server';
 import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
-import { listJournal, createJournal } from '@/services/journalService';
-import { jsonOk, jsonError, parseJson, z } from '@/lib/http';
+import { listJournal, createJournal, JournalTemplateError } from '@/services/journalService';
+import { JournalCreateSchema, JournalListQuerySchema } from '@/contracts/schemas';
+import { jsonOk, jsonError, parseJson, parseQuery } from '@/lib/http';
 import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
 import { requestLogger } from '@/lib/logger';
 import { audit } from '@/lib/audit';
 
-const CreateSchema = z.object({
-    content: z.string().trim().min(1).max(8000),
-    mood: z.string().trim().max(50).optional().nullable(),
-});
-
-/** GET /api/journal — List journal entries (decrypted for owner) */
+/**
+ * GET /api/journal?tag=work,sleep&template=thought_record&limit=50 — List
+ * journal entries (decrypted for owner). `tag` keeps entries carrying every
+ * listed tag.
+ */
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
+
+    const parsed = parseQuery(req, JournalListQuerySchema);
+    if (!parsed.ok) return parsed.response;
+
     try {
-        const entries = await listJournal(payload.userId, 50);
+        const { tag: tags, template, limit } = parsed.data;
+        const entries = await listJournal(payload.userId, { tags, template, limit });
         return jsonOk({ entries });
     } catch (e) {
         log.error({ err: String(e) }, 'journal.list.failed');
@@ -25,22 +30,25 @@ export async function GET(req: NextRequest) {
     }
 }
 
-/** POST /api/journal — Create (encrypted + embedded) entry */
+/**
+ * POST /api/journal — Create (encrypted + embedded) entry: free `content`, or
+ * a `template` with its `fields` (see GET /api/journal/templates).
+ */
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
     const rl = await rateLimit({ key: `journal.create:${payload.userId}`, limit: 20, windowMs: 60_000 });
     if (!rl.ok) return rateLimitResponse(rl);
 
-    const parsed = await parseJson(req, CreateSchema);
+    const parsed = await parseJson(req, JournalCreateSchema);
     if (!parsed.ok) return parsed.response;
 
     try {
         const entry = await createJournal({
             userId: payload.userId,
-            content: parsed.data.content,
+            ...parsed.data,
             mood: parsed.data.mood ?? null,
         });
         await audit({
@@ -48,10 +56,11 @@ export async function POST(req: NextRequest) {
             userId: payload.userId,
             action: 'journal.create',
             resource: `journal:${entry.id}`,
-            meta: { mood: entry.mood, chars: parsed.data.content.length },
+            meta: { mood: entry.mood, template: entry.template, tags: entry.tags.length, chars: entry.content.length },
         });
         return jsonOk({ entry }, { status: 201 });
     } catch (e) {
+        if (e instanceof JournalTemplateError) return jsonError(400, e.message);
         log.error({ err: String(e) }, 'journal.create.failed');
         return jsonError(500, 'Could not save entry');
     }
@@ -1,14 +1,18 @@
 import { NextRequest } from 'next/server';
 import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
-import { searchJournalSemantic } from '@/services/journalService';
+import { searchJournal } from '@/services/journalService';
 import { JournalSearchQuerySchema } from '@/contracts/schemas';
 import { jsonOk, jsonError, parseQuery } from '@/lib/http';
 import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
 import { requestLogger } from '@/lib/logger';
 
-/** GET /api/journal/search?q=...&limit=... — semantic search over user's journal */
+/**
+ * GET /api/journal/search?q=...&limit=...&from=...&to=...&mood=...&tag=... —
+ * hybrid (meaning + keyword) search over the user's journal, with highlighted
+ * snippets. `from`/`to` bound the entry's creation time.
+ */
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -19,8 +23,9 @@ export async function GET(req: NextRequest) {
     if (!parsed.ok) return parsed.response;
 
     try {
-        const results = await searchJournalSemantic(payload.userId, parsed.data.q, parsed.data.limit);
-        return jsonOk({ results, query: parsed.data.q });
+        const { q, limit, from, to, mood, tag } = parsed.data;
+        const results = await searchJournal(payload.userId, q, { limit, from, to, mood, tags: tag });
+        return jsonOk({ results, query: q });
     } catch (e) {
         log.error({ err: String(e) }, 'journal.search.failed');
         return jsonError(500, 'Could not search entries');
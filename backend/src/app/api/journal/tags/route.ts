@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { listTags } from '@/services/journalService';
+import { jsonOk, jsonError } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+
+/** GET /api/journal/tags — the user's journal tags with entry counts, most used first */
+export async function GET(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+    try {
+        const tags = await listTags(payload.userId);
+        return jsonOk({ tags });
+    } catch (e) {
+        log.error({ err: String(e) }, 'journal.tags.failed');
+        return jsonError(500, 'Could not load tags');
+    }
+}
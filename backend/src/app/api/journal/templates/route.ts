@@ -0,0 +1,11 @@
+import { NextRequest } from 'next/server';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonOk } from '@/lib/http';
+import { JOURNAL_TEMPLATES } from '@/lib/journalTemplates';
+
+/** GET /api/journal/templates — guided templates, their fields and prompts */
+export async function GET(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    return jsonOk({ templates: Object.values(JOURNAL_TEMPLATES) });
+}
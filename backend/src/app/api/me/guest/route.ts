@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { GUEST_PASSWORD_HASH, getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonOk, jsonError } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+import { guestExpiry } from '@/services/guestExpiryService';
+
+/**
+ * GET /api/me/guest — when this guest account will be deleted for inactivity,
+ * and from when the app should warn about it. `{ guest: false }` for full
+ * accounts, which never expire.
+ */
+export async function GET(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    try {
+        const user = await prisma.user.findUnique({
+            where: { id: payload.userId },
+            select: { passwordHash: true, lastActiveAt: true },
+        });
+        if (!user || user.passwordHash !== GUEST_PASSWORD_HASH) return jsonOk({ guest: false });
+        return jsonOk({ guest: true, ...guestExpiry(user.lastActiveAt) });
+    } catch (e) {
+        log.error({ err: String(e) }, 'me.guest.failed');
+        return jsonError(500, 'Could not load guest status');
+    }
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonOk, jsonError, readBody } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { ImportError, MAX_IMPORT_BYTES, importExport } from '@/services/importService';
+
+/**
+ * POST /api/me/import — load a Silent Help data export into this account.
+ *
+ * The body is the file itself: the ZIP from `GET /api/me/export`
+ * (`application/zip`) or an older JSON export. Nothing is written unless the
+ * whole file checks out, and uploading the same export again imports nothing
+ * twice. Responds with per-table counts; see services/importService.ts.
+ */
+export async function POST(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    const rl = await rateLimit({ key: `import:${payload.userId}`, limit: 3, windowMs: 60 * 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const body = await readBody(req, MAX_IMPORT_BYTES);
+    if (!body.ok) return body.response;
+
+    try {
+        // Clerk accounts get their row lazily; a brand-new account may not have one yet.
+        await prisma.user.upsert({
+            where: { id: payload.userId },
+            create: {
+                id: payload.userId,
+                email: payload.email || `clerk_${payload.userId.substring(0, 8)}@temp.silenthelp.com`,
+                passwordHash: 'clerk-auth',
+                name: 'Silent Help User',
+            },
+            update: {},
+        });
+
+        const summary = await importExport(payload.userId, body.data);
+        await audit({
+            req,
+            userId: payload.userId,
+            action: 'me.import',
+            meta: {
+                schemaVersion: summary.schemaVersion,
+                exportedAt: summary.exportedAt,
+                tables: Object.fromEntries(
+                    Object.entries(summary.tables)
+                        .filter(([, t]) => t.received > 0)
+                        .map(([name, t]) => [name, { imported: t.imported, duplicates: t.duplicates, skipped: t.skipped }]),
+                ),
+            },
+        });
+        return jsonOk(summary);
+    } catch (e) {
+        if (e instanceof ImportError) return jsonError(400, e.message, e.issues.length ? e.issues : undefined);
+        log.error({ err: String(e) }, 'me.import.failed');
+        return jsonError(500, 'Could not import your data');
+    }
+}
@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { NotificationSettingsSchema } from '@/contracts/schemas';
+import { jsonOk, jsonError, parseJson } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { formatClock, isValidTimeZone, parseClock } from '@/lib/quietHours';
+
+function present(u: { timezone: string | null; quietHoursStart: number | null; quietHoursEnd: number | null }) {
+    return {
+        timezone: u.timezone,
+        quietHours:
+            u.quietHoursStart != null && u.quietHoursEnd != null
+                ? { start: formatClock(u.quietHoursStart), end: formatClock(u.quietHoursEnd) }
+                : null,
+    };
+}
+
+/** GET /api/me/notifications — timezone + quiet hours */
+export async function GET(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+    try {
+        const user = await prisma.user.findUnique({
+            where: { id: payload.userId },
+            select: { timezone: true, quietHoursStart: true, quietHoursEnd: true },
+        });
+        if (!user) return jsonError(404, 'User not found');
+        return jsonOk(present(user));
+    } catch (e) {
+        log.error({ err: String(e) }, 'notifications.get.failed');
+        return jsonError(500, 'Could not load notification settings');
+    }
+}
+
+/**
+ * PUT /api/me/notifications — set timezone and/or quiet hours. Omitted fields
+ * are left alone; `quietHours: null` turns quiet hours off.
+ */
+export async function PUT(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    const rl = await rateLimit({ key: `notifications:${payload.userId}`, limit: 20, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = await parseJson(req, NotificationSettingsSchema);
+    if (!parsed.ok) return parsed.response;
+
+    const { timezone, quietHours } = parsed.data;
+    if (timezone && !isValidTimeZone(timezone)) return jsonError(400, 'Unknown time zone');
+
+    const data: { timezone?: string | null; quietHoursStart?: number | null; quietHoursEnd?: number | null } = {};
+    if (timezone !== undefined) data.timezone = timezone;
+    if (quietHours !== undefined) {
+        data.quietHoursStart = quietHours ? parseClock(quietHours.start) : null;
+        data.quietHoursEnd = quietHours ? parseClock(quietHours.end) : null;
+    }
+
+    try {
+        const user = await prisma.user.update({
+            where: { id: payload.userId },
+            data,
+            select: { timezone: true, quietHoursStart: true, quietHoursEnd: true },
+        });
+        const result = present(user);
+        await audit({ req, userId: payload.userId, action: 'notifications.update', meta: result });
+        return jsonOk(result);
+    } catch (e) {
+        log.error({ err: String(e) }, 'notifications.update.failed');
+        return jsonError(500, 'Could not update notification settings');
+    }
+}
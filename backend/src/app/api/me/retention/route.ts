@@ -5,18 +5,46 @@ import { jsonOk, jsonError, parseJson, z } from '@/lib/http';
 import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
 import { requestLogger } from '@/lib/logger';
 import { RETENTION_POLICIES, logConsent, type RetentionPolicy } from '@/lib/consent';
+import { nextPurgeAt, previewPurge } from '@/services/retentionService';
 
 const BodySchema = z.object({
     retention: z.enum(RETENTION_POLICIES as [RetentionPolicy, ...RetentionPolicy[]]),
 });
 
+/**
+ * GET /api/me/retention — dry-run report: what the next nightly purge would
+ * delete under the user's current choice, counted per table. Deletes nothing.
+ */
+export async function GET(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    const rl = await rateLimit({ key: `retention-preview:${payload.userId}`, limit: 20, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    try {
+        const report = await previewPurge(payload.userId);
+        return jsonOk({
+            retention: report.policy,
+            cutoff: report.cutoff,
+            nextRunAt: report.cutoff ? nextPurgeAt() : null,
+            counts: report.counts,
+            total: report.total,
+        });
+    } catch (e) {
+        log.error({ err: String(e) }, 'retention.preview.failed');
+        return jsonError(500, 'Could not build retention report');
+    }
+}
+
 /**
  * POST /api/me/retention — change the user's retention choice.
  * UK GDPR requires a defined retention period; `forever` is allowed but only as
  * an *explicit* opt-in which the user can change here at any time.
  */
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -19,7 +19,7 @@ import { jsonOk, jsonError } from '@/lib/http';
  * can see the erasure request was honoured, then delete.
  */
 export async function DELETE(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -44,7 +44,7 @@ export async function DELETE(req: NextRequest) {
 
 /** GET /api/me — current authenticated user summary */
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     try {
         const user = await prisma.user.findUnique({
@@ -9,7 +9,7 @@ export async function DELETE(
     req: NextRequest,
     { params }: { params: Promise<{ id: string }> },
 ) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const { id } = await params;
 
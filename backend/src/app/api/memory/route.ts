@@ -9,7 +9,7 @@ import { audit } from '@/lib/audit';
 
 /** GET /api/memory — list user's saved memories */
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
     try {
@@ -23,7 +23,7 @@ export async function GET(req: NextRequest) {
 
 /** POST /api/memory — save a user-blessed memory */
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
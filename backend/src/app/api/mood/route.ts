@@ -14,7 +14,7 @@ const BodySchema = z.object({
 
 /** POST /api/mood — log mood entry */
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -49,7 +49,7 @@ export async function POST(req: NextRequest) {
 
 /** GET /api/mood — last 30 mood entries */
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
     try {
@@ -18,7 +18,7 @@ const VALID_ENERGY = ['high', 'moderate', 'low'];
  */
 export async function POST(req: NextRequest) {
     try {
-        const payload = getUserFromRequest(req);
+        const payload = await getUserFromRequest(req);
         if (!payload) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
@@ -101,7 +101,7 @@ export async function POST(req: NextRequest) {
  */
 export async function GET(req: NextRequest) {
     try {
-        const payload = getUserFromRequest(req);
+        const payload = await getUserFromRequest(req);
         if (!payload) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
@@ -0,0 +1,85 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { PushSubscribeSchema, PushUnsubscribeSchema } from '@/contracts/schemas';
+import { jsonOk, jsonError, parseJson } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { getVapidPublicKey, isAllowedPushEndpoint } from '@/lib/push';
+
+/** GET /api/push/subscriptions — VAPID public key + how many devices are subscribed */
+export async function GET(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+    try {
+        const devices = await prisma.pushSubscription.count({ where: { userId: payload.userId } });
+        const publicKey = getVapidPublicKey();
+        return jsonOk({ enabled: publicKey !== null, publicKey, devices });
+    } catch (e) {
+        log.error({ err: String(e) }, 'push.status.failed');
+        return jsonError(500, 'Could not load push status');
+    }
+}
+
+/**
+ * POST /api/push/subscriptions — register this browser for reminder pushes.
+ * Upserts on endpoint, so re-subscribing (or a shared device changing hands)
+ * moves the subscription to the current user.
+ */
+export async function POST(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    const rl = await rateLimit({ key: `push.subscribe:${payload.userId}`, limit: 10, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = await parseJson(req, PushSubscribeSchema);
+    if (!parsed.ok) return parsed.response;
+
+    if (!getVapidPublicKey()) return jsonError(503, 'Push notifications are not configured');
+    const { endpoint, keys } = parsed.data;
+    if (!isAllowedPushEndpoint(endpoint)) return jsonError(400, 'Unsupported push endpoint');
+
+    try {
+        const data = {
+            userId: payload.userId,
+            p256dh: keys.p256dh,
+            auth: keys.auth,
+            userAgent: req.headers.get('user-agent')?.slice(0, 500) ?? null,
+        };
+        const sub = await prisma.pushSubscription.upsert({
+            where: { endpoint },
+            create: { endpoint, ...data },
+            update: data,
+        });
+        await audit({ req, userId: payload.userId, action: 'push.subscribe', resource: `push:${sub.id}` });
+        return jsonOk({ ok: true, id: sub.id }, { status: 201 });
+    } catch (e) {
+        log.error({ err: String(e) }, 'push.subscribe.failed');
+        return jsonError(500, 'Could not save subscription');
+    }
+}
+
+/** DELETE /api/push/subscriptions — stop pushes to one browser */
+export async function DELETE(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    const parsed = await parseJson(req, PushUnsubscribeSchema);
+    if (!parsed.ok) return parsed.response;
+
+    try {
+        const r = await prisma.pushSubscription.deleteMany({
+            where: { userId: payload.userId, endpoint: parsed.data.endpoint },
+        });
+        if (r.count > 0) await audit({ req, userId: payload.userId, action: 'push.unsubscribe' });
+        return jsonOk({ ok: true, removed: r.count });
+    } catch (e) {
+        log.error({ err: String(e) }, 'push.unsubscribe.failed');
+        return jsonError(500, 'Could not remove subscription');
+    }
+}
@@ -0,0 +1,85 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { ReminderUpdateSchema } from '@/contracts/schemas';
+import { jsonOk, jsonError, parseJson } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { parseRRule, toInput } from '@/lib/recurrence';
+import { planSchedule, presentReminder, ReminderScheduleError, userTimeZone } from '@/services/reminderService';
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/reminders/[id] — edit a pending reminder. Changing `dueAt` or
+ * `recurrence` reschedules it; `recurrence: null` makes it a one-off.
+ */
+export async function PATCH(req: NextRequest, { params }: Params) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+    const { id } = await params;
+
+    const rl = await rateLimit({ key: `reminder:${payload.userId}`, limit: 20, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = await parseJson(req, ReminderUpdateSchema);
+    if (!parsed.ok) return parsed.response;
+    const { kind, message, dueAt, recurrence } = parsed.data;
+
+    try {
+        const existing = await prisma.reminder.findFirst({ where: { id, userId: payload.userId } });
+        if (!existing) return jsonError(404, 'Reminder not found');
+        if (existing.status !== 'pending') return jsonError(409, 'Only pending reminders can be edited');
+
+        const data: { kind?: string; message?: string; dueAt?: Date; rrule?: string | null; deferredUntil?: null } = {
+            kind,
+            message,
+        };
+        if (dueAt !== undefined || recurrence !== undefined) {
+            const current = existing.rrule ? parseRRule(existing.rrule) : null;
+            const schedule = planSchedule(
+                dueAt ? new Date(dueAt) : existing.dueAt,
+                recurrence === undefined ? (current ? toInput(current) : null) : recurrence,
+                await userTimeZone(payload.userId),
+            );
+            Object.assign(data, schedule, { deferredUntil: null });
+        }
+
+        const reminder = await prisma.reminder.update({ where: { id }, data });
+        await audit({
+            req,
+            userId: payload.userId,
+            action: 'reminder.update',
+            resource: `reminder:${id}`,
+            meta: { fields: Object.keys(parsed.data) },
+        });
+        return jsonOk({ reminder: presentReminder(reminder) });
+    } catch (e) {
+        if (e instanceof ReminderScheduleError) return jsonError(400, e.message);
+        log.error({ err: String(e) }, 'reminder.update.failed');
+        return jsonError(500, 'Could not update reminder');
+    }
+}
+
+/** DELETE /api/reminders/[id] — cancel a reminder (the whole series, if recurring) */
+export async function DELETE(req: NextRequest, { params }: Params) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+    const { id } = await params;
+
+    try {
+        const r = await prisma.reminder.updateMany({
+            where: { id, userId: payload.userId, status: 'pending' },
+            data: { status: 'canceled', deferredUntil: null },
+        });
+        if (r.count === 0) return jsonError(404, 'Reminder not found');
+        await audit({ req, userId: payload.userId, action: 'reminder.cancel', resource: `reminder:${id}` });
+        return jsonOk({ ok: true });
+    } catch (e) {
+        log.error({ err: String(e) }, 'reminder.cancel.failed');
+        return jsonError(500, 'Could not cancel reminder');
+    }
+}
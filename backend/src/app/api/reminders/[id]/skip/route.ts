@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonOk, jsonError } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { presentReminder, ReminderScheduleError, skipOccurrence } from '@/services/reminderService';
+
+/** POST /api/reminders/[id]/skip — skip just the next occurrence of a recurring reminder */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+    const { id } = await params;
+
+    try {
+        const reminder = await skipOccurrence(payload.userId, id);
+        if (!reminder) return jsonError(404, 'Reminder not found');
+        await audit({ req, userId: payload.userId, action: 'reminder.skip', resource: `reminder:${id}` });
+        return jsonOk({ reminder: presentReminder(reminder) });
+    } catch (e) {
+        if (e instanceof ReminderScheduleError) return jsonError(400, e.message);
+        log.error({ err: String(e) }, 'reminder.skip.failed');
+        return jsonError(500, 'Could not skip reminder');
+    }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { ReminderSnoozeSchema } from '@/contracts/schemas';
+import { jsonOk, jsonError, parseJson } from '@/lib/http';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { presentReminder, ReminderScheduleError, snoozeReminder } from '@/services/reminderService';
+
+/** POST /api/reminders/[id]/snooze — hold a reminder for `minutes` */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+    const { id } = await params;
+
+    const parsed = await parseJson(req, ReminderSnoozeSchema);
+    if (!parsed.ok) return parsed.response;
+
+    try {
+        const reminder = await snoozeReminder(payload.userId, id, parsed.data.minutes);
+        if (!reminder) return jsonError(404, 'Reminder not found');
+        await audit({
+            req,
+            userId: payload.userId,
+            action: 'reminder.snooze',
+            resource: `reminder:${id}`,
+            meta: { minutes: parsed.data.minutes },
+        });
+        return jsonOk({ reminder: presentReminder(reminder) });
+    } catch (e) {
+        if (e instanceof ReminderScheduleError) return jsonError(409, e.message);
+        log.error({ err: String(e) }, 'reminder.snooze.failed');
+        return jsonError(500, 'Could not snooze reminder');
+    }
+}
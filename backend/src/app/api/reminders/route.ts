@@ -6,10 +6,11 @@ import { jsonOk, jsonError, parseJson } from '@/lib/http';
 import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
 import { requestLogger } from '@/lib/logger';
 import { audit } from '@/lib/audit';
+import { planSchedule, presentReminder, ReminderScheduleError, userTimeZone } from '@/services/reminderService';
 
-/** GET /api/reminders — list pending reminders */
+/** GET /api/reminders — list pending reminders (one row per recurring series) */
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
     try {
@@ -18,16 +19,19 @@ export async function GET(req: NextRequest) {
             orderBy: { dueAt: 'asc' },
             take: 50,
         });
-        return jsonOk({ reminders });
+        return jsonOk({ reminders: reminders.map(presentReminder) });
     } catch (e) {
         log.error({ err: String(e) }, 'reminders.list.failed');
         return jsonError(500, 'Could not load reminders');
     }
 }
 
-/** POST /api/reminders — schedule a gentle reminder */
+/**
+ * POST /api/reminders — schedule a gentle reminder. With `recurrence` it
+ * repeats at `dueAt`'s local time of day, e.g. every weekday at 21:00.
+ */
 export async function POST(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -38,21 +42,30 @@ export async function POST(req: NextRequest) {
     if (!parsed.ok) return parsed.response;
 
     try {
-        const due = new Date(parsed.data.dueAt);
-        if (isNaN(due.getTime()) || due.getTime() < Date.now() - 60_000) {
-            return jsonError(400, 'dueAt must be a valid future timestamp');
-        }
+        const { dueAt, rrule } = planSchedule(
+            new Date(parsed.data.dueAt),
+            parsed.data.recurrence,
+            await userTimeZone(payload.userId),
+        );
         const reminder = await prisma.reminder.create({
             data: {
                 userId: payload.userId,
                 kind: parsed.data.kind,
                 message: parsed.data.message,
-                dueAt: due,
+                dueAt,
+                rrule,
             },
         });
-        await audit({ req, userId: payload.userId, action: 'reminder.create', resource: `reminder:${reminder.id}` });
-        return jsonOk({ reminder }, { status: 201 });
+        await audit({
+            req,
+            userId: payload.userId,
+            action: 'reminder.create',
+            resource: `reminder:${reminder.id}`,
+            meta: { recurring: rrule !== null },
+        });
+        return jsonOk({ reminder: presentReminder(reminder) }, { status: 201 });
     } catch (e) {
+        if (e instanceof ReminderScheduleError) return jsonError(400, e.message);
         log.error({ err: String(e) }, 'reminder.create.failed');
         return jsonError(500, 'Could not schedule reminder');
     }
@@ -9,7 +9,7 @@ import { audit } from '@/lib/audit';
 
 /** GET /api/safety-plan — fetch user's personal safety plan */
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
     try {
@@ -23,7 +23,7 @@ export async function GET(req: NextRequest) {
 
 /** PUT /api/safety-plan — upsert user's personal safety plan */
 export async function PUT(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
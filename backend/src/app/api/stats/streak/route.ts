@@ -9,7 +9,7 @@ import { requestLogger } from '@/lib/logger';
  * overall wellness score (0-100) derived from mood, tool completion, and journal frequency.
  */
 export async function GET(req: NextRequest) {
-    const payload = getUserFromRequest(req);
+    const payload = await getUserFromRequest(req);
     if (!payload) return unauthorizedResponse();
     const log = requestLogger(req);
 
@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonOk, jsonError, parseQuery, z } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { isValidTimeZone } from '@/lib/quietHours';
+import { getToolEffectiveness } from '@/services/toolEffectivenessService';
+
+const QuerySchema = z.object({
+    // IANA zone for the time-of-day buckets, e.g. `Europe/London`. Defaults to UTC.
+    tz: z.string().max(64).refine(isValidTimeZone, 'Unknown time zone').optional(),
+});
+
+/**
+ * GET /api/tools/effectiveness — per-tool completion rate, median duration,
+ * mean mood delta (95% CI) and time-of-day breakdown, best first.
+ */
+export async function GET(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    const rl = await rateLimit({ key: `tools.effectiveness:${payload.userId}`, limit: 30, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = parseQuery(req, QuerySchema);
+    if (!parsed.ok) return parsed.response;
+
+    try {
+        const timeZone = parsed.data.tz ?? 'UTC';
+        const tools = await getToolEffectiveness(payload.userId, timeZone);
+        return jsonOk({ timeZone, tools });
+    } catch (e) {
+        log.error({ err: String(e) }, 'tools.effectiveness.failed');
+        return jsonError(500, 'Could not compute tool effectiveness');
+    }
+}
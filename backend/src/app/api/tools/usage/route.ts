@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getUserFromRequest, unauthorizedResponse } from '@/lib/auth';
+import { jsonOk, jsonError, parseJson, z } from '@/lib/http';
+import { rateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { requestLogger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+
+// Mood uses the same 1-10 intensity scale as MoodLog: 1 = calm, 10 = overwhelmed,
+// so a *drop* from moodBefore to moodAfter means the tool helped.
+const Mood = z.coerce.number().int().min(1).max(10);
+
+const BodySchema = z.object({
+    toolId: z.string().trim().regex(/^[a-z0-9_]{2,50}$/, 'toolId must be snake_case'),
+    action: z.enum(['started', 'completed', 'skipped']),
+    duration: z.coerce.number().int().min(0).max(4 * 60 * 60).optional().nullable(),
+    moodBefore: Mood.optional().nullable(),
+    moodAfter: Mood.optional().nullable(),
+});
+
+/**
+ * POST /api/tools/usage — record one tool event (started / completed / skipped).
+ * One row per event; the coach and engagement model only read deltas from
+ * `completed` rows, so duration and moodAfter are dropped for `started`.
+ */
+export async function POST(req: NextRequest) {
+    const payload = await getUserFromRequest(req);
+    if (!payload) return unauthorizedResponse();
+    const log = requestLogger(req);
+
+    const rl = await rateLimit({ key: `tools.usage:${payload.userId}`, limit: 60, windowMs: 60_000 });
+    if (!rl.ok) return rateLimitResponse(rl);
+
+    const parsed = await parseJson(req, BodySchema);
+    if (!parsed.ok) return parsed.response;
+
+    const { toolId, action, duration, moodBefore, moodAfter } = parsed.data;
+    try {
+        const usage = await prisma.toolUsage.create({
+            data: {
+                userId: payload.userId,
+                toolId,
+                action,
+                duration: action === 'started' ? null : duration ?? null,
+                moodBefore: moodBefore ?? null,
+                moodAfter: action === 'started' ? null : moodAfter ?? null,
+            },
+        });
+        await audit({
+            req,
+            userId: payload.userId,
+            action: `tool.${action}`,
+            resource: `tool_usage:${usage.id}`,
+            meta: { toolId },
+        });
+        return jsonOk({ usage }, { status: 201 });
+    } catch (e) {
+        log.error({ err: String(e) }, 'tools.usage.failed');
+        return jsonError(500, 'Could not record tool usage');
+    }
+}
@@ -4,6 +4,36 @@
  */
 import { z } from 'zod';
 
+// ── Auth ──────────────────────────────────────────────────────────────────
+export const PasswordSchema = z.string().min(6, 'Password must be at least 6 characters').max(200);
+
+export const RefreshSchema = z.object({
+    // Optional only for the one-off upgrade of a pre-session token (sent as Bearer).
+    refreshToken: z.string().min(20).max(200).optional(),
+});
+
+export const LogoutSchema = z.object({
+    refreshToken: z.string().min(20).max(200).optional(),
+});
+
+export const PasswordResetRequestSchema = z.object({
+    email: z.string().trim().toLowerCase().email().max(255),
+});
+
+export const PasswordResetConfirmSchema = z.object({
+    token: z.string().min(20).max(200),
+    password: PasswordSchema,
+});
+
+export const EmailVerifySchema = z.object({
+    token: z.string().min(20).max(200),
+});
+
+export const GuestMergeSchema = z.object({
+    // The guest's current access token — proof the caller holds that guest session.
+    guestToken: z.string().min(20).max(4000),
+});
+
 // ── Memories ──────────────────────────────────────────────────────────────
 export const MemoryKindSchema = z.enum([
     'context',
@@ -22,12 +52,128 @@ export const MemoryCreateSchema = z.object({
 export type MemoryCreateInput = z.infer<typeof MemoryCreateSchema>;
 
 // ── Journal ───────────────────────────────────────────────────────────────
-export const JournalSearchQuerySchema = z.object({
-    q: z.string().trim().min(2).max(200),
-    limit: z.coerce.number().int().min(1).max(20).default(8),
+export const JournalTemplateIdSchema = z.enum(['thought_record', 'worry_time', 'three_good_things']);
+export type JournalTemplateId = z.infer<typeof JournalTemplateIdSchema>;
+
+/** Lower-case; inner spaces become dashes ("Work stress" → "work-stress"). */
+export const JournalTagSchema = z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform((t) => t.replace(/\s+/g, '-'))
+    .pipe(z.string().min(1).max(32).regex(/^[\p{L}\p{N}][\p{L}\p{N}_-]*$/u, 'Tags are letters, numbers, - and _'));
+
+export const JournalTagsSchema = z
+    .array(JournalTagSchema)
+    .max(10)
+    .transform((tags) => [...new Set(tags)]);
+
+/** Answers by template field id; which ids are allowed depends on the template. */
+export const JournalFieldsSchema = z.record(z.string().regex(/^[a-z_]{1,32}$/), z.string().trim().max(1500));
+
+export const JournalCreateSchema = z
+    .object({
+        content: z.string().trim().min(1).max(8000).optional(),
+        mood: z.string().trim().max(50).optional().nullable(),
+        tags: JournalTagsSchema.default([]),
+        template: JournalTemplateIdSchema.optional(),
+        fields: JournalFieldsSchema.optional(),
+    })
+    .refine((v) => (v.template ? Boolean(v.fields) && !v.content : Boolean(v.content) && !v.fields), {
+        message: 'Send `content`, or a `template` with its `fields`',
+    });
+export type JournalCreateInput = z.infer<typeof JournalCreateSchema>;
+
+export const JournalUpdateSchema = z
+    .object({
+        content: z.string().trim().min(1).max(8000),
+        mood: z.string().trim().max(50).nullable(),
+        tags: JournalTagsSchema,
+        fields: JournalFieldsSchema,
+    })
+    .partial()
+    .refine((v) => Object.keys(v).length > 0, 'Nothing to update')
+    .refine((v) => !(v.content && v.fields), 'Send `content` or `fields`, not both');
+export type JournalUpdateInput = z.infer<typeof JournalUpdateSchema>;
+
+export const JournalListQuerySchema = z.object({
+    /** Comma-separated; entries must carry every tag. */
+    tag: z
+        .string()
+        .optional()
+        .transform((s) => (s ? s.split(',').filter((t) => t.trim()) : []))
+        .pipe(JournalTagsSchema),
+    template: JournalTemplateIdSchema.optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
 });
+export type JournalListQuery = z.infer<typeof JournalListQuerySchema>;
+
+/** ISO date or datetime; a bare date at the `end` of a range covers that whole day (UTC). */
+const SearchBound = (end: boolean) =>
+    z
+        .string()
+        .trim()
+        .refine((s) => !Number.isNaN(Date.parse(s)), 'Use an ISO date or datetime')
+        .transform((s) => new Date(Date.parse(s) + (end && /^\d{4}-\d{2}-\d{2}$/.test(s) ? 86_400_000 - 1 : 0)));
+
+export const JournalSearchQuerySchema = z
+    .object({
+        q: z.string().trim().min(2).max(200),
+        limit: z.coerce.number().int().min(1).max(20).default(8),
+        from: SearchBound(false).optional(),
+        to: SearchBound(true).optional(),
+        mood: z.string().trim().min(1).max(50).optional(),
+        tag: JournalListQuerySchema.shape.tag,
+    })
+    .refine((v) => !v.from || !v.to || v.from <= v.to, { message: '`from` must be before `to`', path: ['from'] });
 export type JournalSearchQuery = z.infer<typeof JournalSearchQuerySchema>;
 
+// ── Conversations ─────────────────────────────────────────────────────────
+/** Opaque list cursor: base64url JSON of the last row's sort key. */
+const ConversationCursorSchema = z
+    .string()
+    .max(200)
+    .transform((s, ctx) => {
+        try {
+            const c = JSON.parse(Buffer.from(s, 'base64url').toString('utf8')) as Record<string, unknown>;
+            const updatedAt = new Date(String(c.updatedAt));
+            if (typeof c.pinned === 'boolean' && typeof c.id === 'string' && !Number.isNaN(updatedAt.getTime())) {
+                return { pinned: c.pinned, updatedAt, id: c.id };
+            }
+        } catch {
+            // fall through
+        }
+        ctx.addIssue({ code: 'custom', message: 'Invalid cursor' });
+        return z.NEVER;
+    });
+
+export const ConversationListQuerySchema = z.object({
+    cursor: ConversationCursorSchema.optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+    /** `true` lists the archive instead of the inbox. */
+    archived: z
+        .enum(['true', 'false'])
+        .default('false')
+        .transform((v) => v === 'true'),
+});
+export type ConversationListQuery = z.infer<typeof ConversationListQuerySchema>;
+
+export const ConversationSearchQuerySchema = z.object({
+    q: z.string().trim().min(2).max(200),
+    limit: z.coerce.number().int().min(1).max(20).default(10),
+});
+
+export const ConversationUpdateSchema = z
+    .object({
+        /** null hands naming back to the app (an AI title from the first exchange). */
+        title: z.string().trim().min(1).max(120).nullable(),
+        pinned: z.boolean(),
+        archived: z.boolean(),
+    })
+    .partial()
+    .refine((v) => Object.keys(v).length > 0, 'Nothing to update');
+export type ConversationUpdateInput = z.infer<typeof ConversationUpdateSchema>;
+
 // ── Safety plan ───────────────────────────────────────────────────────────
 const SupportPersonSchema = z.object({
     name: z.string().trim().min(1).max(80),
@@ -51,15 +197,216 @@ export const SafetyPlanSchema = z.object({
 export type SafetyPlanInput = z.infer<typeof SafetyPlanSchema>;
 
 // ── Reminders ─────────────────────────────────────────────────────────────
+// Time of day comes from `dueAt` (the first occurrence) in the user's timezone.
+export const RecurrenceSchema = z.object({
+    freq: z.enum(['daily', 'weekly']),
+    interval: z.number().int().min(1).max(52).default(1),
+    byDay: z.array(z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'])).max(7).optional(),
+    until: z.string().datetime().nullable().optional(),
+});
+export type RecurrenceInput = z.infer<typeof RecurrenceSchema>;
+
 export const ReminderCreateSchema = z.object({
     kind: z.enum(['check_in', 'journal', 'tool', 'custom']),
     message: z.string().trim().min(1).max(200),
     dueAt: z.string().datetime(),
+    recurrence: RecurrenceSchema.optional(),
 });
 export type ReminderCreateInput = z.infer<typeof ReminderCreateSchema>;
 
+export const ReminderUpdateSchema = z
+    .object({
+        kind: z.enum(['check_in', 'journal', 'tool', 'custom']),
+        message: z.string().trim().min(1).max(200),
+        dueAt: z.string().datetime(),
+        // null turns a recurring reminder back into a one-off.
+        recurrence: RecurrenceSchema.nullable(),
+    })
+    .partial()
+    .refine((v) => Object.keys(v).length > 0, 'Nothing to update');
+export type ReminderUpdateInput = z.infer<typeof ReminderUpdateSchema>;
+
+export const ReminderSnoozeSchema = z.object({
+    minutes: z.number().int().min(5).max(24 * 60),
+});
+
+// ── Push notifications ────────────────────────────────────────────────────
+// Mirrors the browser's `PushSubscription.toJSON()` shape.
+export const PushSubscribeSchema = z.object({
+    endpoint: z.string().url().max(2000),
+    keys: z.object({
+        p256dh: z.string().min(16).max(255),
+        auth: z.string().min(8).max(255),
+    }),
+});
+export type PushSubscribeInput = z.infer<typeof PushSubscribeSchema>;
+
+export const PushUnsubscribeSchema = z.object({
+    endpoint: z.string().url().max(2000),
+});
+
+const Clock = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM (24h)');
+export const NotificationSettingsSchema = z.object({
+    timezone: z.string().trim().min(1).max(64).nullable().optional(),
+    quietHours: z.object({ start: Clock, end: Clock }).nullable().optional(),
+});
+export type NotificationSettingsInput = z.infer<typeof NotificationSettingsSchema>;
+
 // ── Coach ─────────────────────────────────────────────────────────────────
 export const CoachSuggestInputSchema = z.object({
     feeling: z.string().trim().max(200).optional(),
 }).default({});
 export type CoachSuggestInput = z.infer<typeof CoachSuggestInputSchema>;
+
+// ── Import ────────────────────────────────────────────────────────────────
+// Rows as the data export writes them (services/exportService.ts). Bounds
+// follow the database columns rather than the create endpoints, since an old
+// export may hold rows written before an endpoint limit was tightened.
+// Fields only present since export v2 are optional so a v1 export still fits.
+const ImportId = z.string().min(1).max(64);
+const ImportDate = z.string().datetime({ offset: true }).transform((s) => new Date(s));
+const ImportText = z.string().max(100_000);
+const SmallInt = z.number().int().min(-32768).max(32767);
+
+export const ImportManifestSchema = z.object({
+    schemaVersion: z.literal(2),
+    exportedAt: z.string().datetime({ offset: true }),
+    tables: z
+        .array(
+            z.object({
+                name: z.string().max(64),
+                rows: z.number().int().min(0),
+                files: z
+                    .array(
+                        z.object({
+                            path: z.string().max(128),
+                            bytes: z.number().int().min(0),
+                            sha256: z.string().regex(/^[a-f0-9]{64}$/),
+                            rows: z.number().int().min(0),
+                        }),
+                    )
+                    .max(8),
+            }),
+        )
+        .max(64),
+});
+export type ImportManifest = z.infer<typeof ImportManifestSchema>;
+
+export const ImportRowSchemas = {
+    conversations: z.object({
+        id: ImportId,
+        title: z.string().max(255).nullable().default(null),
+        titleSource: z.enum(['user', 'ai']).nullable().default(null),
+        pinned: z.boolean().default(false),
+        archived: z.boolean().default(false),
+        activeLeafId: ImportId.nullable().optional(),
+        createdAt: ImportDate,
+        updatedAt: ImportDate.optional(),
+    }),
+    messages: z.object({
+        id: ImportId,
+        conversationId: ImportId,
+        // Absent in exports from before branching: those conversations were linear.
+        parentId: ImportId.nullable().optional(),
+        role: z.enum(['user', 'assistant', 'system']),
+        content: ImportText,
+        createdAt: ImportDate,
+    }),
+    journal_entries: z.object({
+        id: ImportId,
+        content: ImportText,
+        mood: z.string().max(50).nullable().default(null),
+        template: JournalTemplateIdSchema.nullable().default(null),
+        fields: JournalFieldsSchema.nullable().default(null),
+        tags: JournalTagsSchema.default([]),
+        createdAt: ImportDate,
+        updatedAt: ImportDate.optional(),
+    }),
+    journal_revisions: z.object({
+        id: ImportId,
+        entryId: ImportId,
+        content: ImportText,
+        mood: z.string().max(50).nullable().default(null),
+        writtenAt: ImportDate,
+        createdAt: ImportDate,
+    }),
+    mood_logs: z.object({
+        id: ImportId,
+        mood: z.string().min(1).max(50),
+        intensity: z.number().int().min(1).max(10),
+        note: ImportText.nullable().default(null),
+        createdAt: ImportDate,
+    }),
+    tool_usage: z.object({
+        id: ImportId,
+        toolId: z.string().min(1).max(50),
+        action: z.string().min(1).max(20),
+        duration: SmallInt.nullable().default(null),
+        moodBefore: SmallInt.nullable().default(null),
+        moodAfter: SmallInt.nullable().default(null),
+        createdAt: ImportDate,
+    }),
+    memories: z.object({
+        id: ImportId,
+        kind: z.string().min(1).max(20),
+        content: ImportText,
+        salience: z.number().min(0).max(1).default(1),
+        source: z.string().min(1).max(20).default('user'),
+        lastUsedAt: ImportDate.nullable().default(null),
+        createdAt: ImportDate,
+        updatedAt: ImportDate.optional(),
+    }),
+    reminders: z.object({
+        id: ImportId,
+        kind: z.string().min(1).max(32),
+        message: ImportText,
+        dueAt: ImportDate,
+        rrule: z.string().max(255).nullable().default(null),
+        status: z.enum(['pending', 'delivered', 'undeliverable', 'canceled']),
+        deferredUntil: ImportDate.nullable().default(null),
+        deliveredAt: ImportDate.nullable().default(null),
+        createdAt: ImportDate,
+    }),
+    gratitude_entries: z.object({
+        id: ImportId,
+        content: ImportText,
+        dayKey: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+        createdAt: ImportDate,
+    }),
+    future_letters: z.object({
+        id: ImportId,
+        content: ImportText,
+        deliverAt: ImportDate,
+        delivered: z.boolean(),
+        createdAt: ImportDate,
+    }),
+    clinical_results: z.object({
+        id: ImportId,
+        instrument: z.string().min(1).max(16),
+        score: SmallInt,
+        severity: z.string().min(1).max(32),
+        answers: z.array(z.number().int().min(0).max(10)).max(50),
+        createdAt: ImportDate,
+    }),
+    safety_plan: SafetyPlanSchema.extend({
+        id: ImportId,
+        createdAt: ImportDate,
+        updatedAt: ImportDate.optional(),
+    }),
+    wellness_profile: z.object({
+        id: ImportId,
+        energy: z.string().max(20),
+        concern: z.string().max(50),
+        context: z.string().max(50),
+        approach: z.string().max(50),
+        supportStyle: z.string().max(50),
+        timeAvailable: z.string().max(10),
+        profile: z.record(z.string(), z.json()),
+        aiInsight: ImportText,
+        adaptiveAnswers: z.json().nullable().default(null),
+        createdAt: ImportDate,
+        updatedAt: ImportDate.optional(),
+    }),
+};
+export type ImportTableName = keyof typeof ImportRowSchemas;
+export type ImportRow<T extends ImportTableName> = z.infer<(typeof ImportRowSchemas)[T]>;
@@ -16,6 +16,8 @@
 import { prisma } from '@/lib/prisma';
 import { Prisma } from '@prisma/client';
 import { getCrisisSystemPrompt } from '@/lib/crisis';
+import { decryptForUser } from '@/lib/encryption';
+import { computeToolEffectiveness, rankHelpfulTools, type ToolUsageRow } from '@/services/toolEffectivenessService';
 
 // ═══════════════════════════════════════════════
 // TYPES
@@ -35,11 +37,11 @@ interface ContextSummary {
 }
 
 interface EngagementPattern {
-    toolsUsed: Record<string, number>;      // toolId -> count
+    toolsUsed: Record<string, number>;      // toolId -> runs (completed or skipped)
     toolsCompleted: Record<string, number>;
     toolsSkipped: Record<string, number>;
     favorites: string[];                    // top 3 most used
-    effectiveTools: string[];               // tools where moodAfter > moodBefore
+    effectiveTools: string[];               // tools that measurably lower intensity, best first
 }
 
 export interface ComputedUserState {
@@ -81,7 +83,7 @@ export async function computeUserState(userId: string): Promise<ComputedUserStat
         prisma.toolUsage.findMany({
             where: { userId },
             orderBy: { createdAt: 'desc' },
-            take: 50,
+            take: 200,
         }),
         prisma.userState.findUnique({ where: { userId } }),
     ]);
@@ -93,7 +95,11 @@ export async function computeUserState(userId: string): Promise<ComputedUserStat
     const engagement = computeEngagement(toolUsages);
 
     // ── 3. Context Window (last 5 interactions) ──
-    const contextWindow = buildContextWindow(moodLogs, journalEntries, recentMessages);
+    const contextWindow = buildContextWindow(
+        moodLogs,
+        journalEntries,
+        recentMessages.map((m) => ({ ...m, content: decryptForUser(userId, m.cipherText, m.content) })),
+    );
 
     // ── 4. Coping Strength (0–1) ──
     const copingStrength = computeCopingStrength(trajectory, engagement);
@@ -192,21 +198,18 @@ function computeTrajectory(moodLogs: { intensity: number; createdAt: Date }[]):
     return { direction, last7: intensities, average: Math.round(average * 10) / 10, trend: Math.round(trend * 100) / 100 };
 }
 
-function computeEngagement(toolUsages: { toolId: string; action: string; moodBefore: number | null; moodAfter: number | null }[]): EngagementPattern {
+function computeEngagement(toolUsages: ToolUsageRow[]): EngagementPattern {
     const used: Record<string, number> = {};
     const completed: Record<string, number> = {};
     const skipped: Record<string, number> = {};
-    const effective: Record<string, { improved: number; total: number }> = {};
 
     for (const u of toolUsages) {
+        // A run logs `started` and then `completed` or `skipped`; count it once,
+        // by how it ended.
+        if (u.action === 'started') continue;
         used[u.toolId] = (used[u.toolId] || 0) + 1;
         if (u.action === 'completed') {
             completed[u.toolId] = (completed[u.toolId] || 0) + 1;
-            if (u.moodBefore != null && u.moodAfter != null) {
-                if (!effective[u.toolId]) effective[u.toolId] = { improved: 0, total: 0 };
-                effective[u.toolId].total++;
-                if (u.moodAfter < u.moodBefore) effective[u.toolId].improved++; // lower intensity = better
-            }
         }
         if (u.action === 'skipped') {
             skipped[u.toolId] = (skipped[u.toolId] || 0) + 1;
@@ -218,9 +221,10 @@ function computeEngagement(toolUsages: { toolId: string; action: string; moodBef
         .slice(0, 3)
         .map(([id]) => id);
 
-    const effectiveTools = Object.entries(effective)
-        .filter(([, v]) => v.total >= 2 && v.improved / v.total >= 0.5)
-        .map(([id]) => id);
+    // Same ranking as the coach and GET /api/tools/effectiveness.
+    const effectiveTools = rankHelpfulTools(computeToolEffectiveness(toolUsages))
+        .slice(0, 3)
+        .map((t) => t.toolId);
 
     return { toolsUsed: used, toolsCompleted: completed, toolsSkipped: skipped, favorites, effectiveTools };
 }
@@ -322,6 +326,8 @@ export function generateDynamicSystemPrompt(
         concern: string;
         aiInsight: string;
     } | null,
+    /** Whose crisis lines to list (see `crisisRegion()`); default UK. */
+    region?: string | null,
 ): string {
     const profile = wellnessProfile?.profile || {};
     const aiPersonality = profile.aiPersonality as Record<string, unknown> | undefined;
@@ -448,7 +454,7 @@ CORE GUIDELINES:
 6. Reference their patterns and progress subtly — don't lecture.
 7. Their wellbeing matters more than any conversation goal.
 
-${getCrisisSystemPrompt()}`;
+${getCrisisSystemPrompt(region)}`;
 }
 
 // ═══════════════════════════════════════════════
@@ -0,0 +1,40 @@
+/**
+ * Token budgeting for chat history.
+ *
+ * Prompts carry the newest turns verbatim, as many as fit the budget; turns
+ * older than that are represented by a rolling summary instead (kept per
+ * conversation by services/conversationService.ts). Counts are estimates —
+ * about four characters per token, which is close for English and errs high
+ * for most other scripts — so budgets should leave some slack.
+ */
+import type { ChatTurn } from '@/lib/ai/provider';
+
+/** Role markers and separators each turn costs on top of its text. */
+const TURN_OVERHEAD = 4;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export function turnTokens(turn: ChatTurn): number {
+    return estimateTokens(turn.content) + TURN_OVERHEAD;
+}
+
+/**
+ * Index of the oldest turn that still fits when keeping the newest ones
+ * within `budget`. The last turn is always kept, however long.
+ */
+export function fitFrom(turns: ChatTurn[], budget: number): number {
+    let used = 0;
+    for (let i = turns.length - 1; i >= 0; i--) {
+        used += turnTokens(turns[i]);
+        if (used > budget && i < turns.length - 1) return i + 1;
+    }
+    return 0;
+}
+
+/** The summary as a system-prompt section; empty when there is none. */
+export function summaryBlock(summary: string | null): string {
+    if (!summary) return '';
+    return `\n\n— Earlier in this conversation (summary) —\n${summary}\n— End summary —\n(The messages that follow continue from here. Don't repeat the summary back.)`;
+}
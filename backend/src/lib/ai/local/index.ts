@@ -18,10 +18,10 @@
  * mode we prefer local and fall back to cloud only if the local model fails
  * to load (e.g. offline CI). Set `AI_MODE=local` to prove zero-integration.
  *
- * Embedding dimension: the pgvector columns are `vector(1536)`. Our local
- * embeddings are 384-dim — we zero-pad them into the first 384 slots of a
- * 1536-float array so the schema is untouched. Cosine similarity is only
- * meaningful *within* the same embedding space; we tag the row with
+ * Embedding dimension: local embeddings are 384-dim and stored as such, in
+ * the `embedding_local vector(384)` columns (see lib/ai/vectors.ts); cloud
+ * ones go in `vector(1536)`. Cosine similarity is only meaningful *within*
+ * the same embedding space; we tag the row with
  * `embeddingModel = 'bge-small-en-v1.5'` so callers can filter correctly.
  */
 import { logger } from '@/lib/logger';
@@ -95,16 +95,14 @@ async function getPipeline(kind: 'embed' | 'emotion' | 'zeroShot'): Promise<unkn
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Embeddings — BGE-small-en-v1.5 (384-dim → zero-padded to 1536)
+// Embeddings — BGE-small-en-v1.5 (384-dim)
 // ────────────────────────────────────────────────────────────────────────────
 
 export const LOCAL_EMBED_DIM = 384;
 export const LOCAL_EMBED_MODEL = 'bge-small-en-v1.5';
-const CLOUD_EMBED_DIM = 1536;
 
 export interface LocalEmbedResult {
-    vector: number[]; // length = 1536 (padded; first 384 are real)
-    realDim: number;
+    vector: number[]; // length = LOCAL_EMBED_DIM
     model: string;
 }
 
@@ -129,10 +127,7 @@ export async function embedLocal(text: string): Promise<LocalEmbedResult | null>
             logger.warn({ got: data.length }, 'localAi.embed.unexpected_dim');
             return null;
         }
-        // Pad to 1536 so we can reuse the existing pgvector column.
-        const padded = new Array<number>(CLOUD_EMBED_DIM).fill(0);
-        for (let i = 0; i < LOCAL_EMBED_DIM; i++) padded[i] = data[i];
-        return { vector: padded, realDim: LOCAL_EMBED_DIM, model: LOCAL_EMBED_MODEL };
+        return { vector: data, model: LOCAL_EMBED_MODEL };
     } catch (e) {
         logger.warn({ err: String(e) }, 'localAi.embed.failed');
         return null;
@@ -249,8 +244,9 @@ export interface CrisisResult {
 }
 
 const CRISIS_HYPOTHESIS = 'This text shows suicidal ideation, self-harm intent, or acute crisis.';
-const CRISIS_HIGH = 0.85;
-const CRISIS_MED = 0.65;
+/** Entailment probability for medium / high severity. Tune with `npm run eval:crisis`. */
+export const CRISIS_HIGH = 0.85;
+export const CRISIS_MED = 0.65;
 
 export async function classifyCrisisLocal(text: string): Promise<CrisisResult | null> {
     if (!localAiEnabled()) return null;
@@ -12,7 +12,10 @@
  *   - 'cloud'  → skip local LLM, use Gemini/OpenAI
  *   - 'hybrid' → try local first, fall back through Gemini/OpenAI (default)
  *
- * Embeddings: self-hosted bge-small (384-dim, padded to 1536) → OpenAI text-embedding-3-small → hash.
+ * Embeddings: self-hosted bge-small (384-dim) → OpenAI text-embedding-3-small (1536) → hash (1536).
+ * Vectors from different models live in different spaces: every stored row
+ * carries its `embeddingModel`, retrieval only compares within one model, and
+ * the `embeddings.backfill` job moves rows onto `preferredEmbeddingModel()`.
  *
  * Callers should import the ergonomic helpers (`generate`, `stream`, `embed`)
  * rather than the provider classes directly.
@@ -21,7 +24,7 @@ import OpenAI from 'openai';
 import { GoogleGenAI } from '@google/genai';
 import crypto from 'crypto';
 import { logger } from '@/lib/logger';
-import { aiMode, embedLocal, type AiMode } from '@/lib/ai/local';
+import { aiMode, embedLocal, LOCAL_EMBED_DIM, LOCAL_EMBED_MODEL, type AiMode } from '@/lib/ai/local';
 
 // ────────────────────────────────────────────────────────────────────────────
 // Types
@@ -378,19 +381,29 @@ export async function* stream(input: GenerateInput): AsyncGenerator<StreamChunk>
 // ────────────────────────────────────────────────────────────────────────────
 
 export interface EmbedResult {
-    vector: number[]; // length = EMBED_DIM
+    vector: number[]; // length = LOCAL_EMBED_DIM for the local model, EMBED_DIM otherwise
     model: string;
 }
 
+/**
+ * The model `embed()` uses when every tier it is configured for is healthy.
+ * Anything else it returns (hash vectors while the local model is cold, say)
+ * is a stand-in that the backfill job later replaces.
+ */
+export function preferredEmbeddingModel(): string {
+    if (aiMode() !== 'cloud') return LOCAL_EMBED_MODEL;
+    return hasOpenAI() ? EMBED_MODEL_OPENAI : EMBED_MODEL_FALLBACK;
+}
+
 export async function embed(text: string): Promise<EmbedResult> {
     const clean = text.slice(0, 8000);
     const mode = aiMode();
 
-    // Prefer self-hosted local embeddings (bge-small-en-v1.5, 384-dim padded to 1536).
+    // Prefer self-hosted local embeddings (bge-small-en-v1.5, 384-dim).
     if (mode !== 'cloud') {
         try {
             const local = await embedLocal(clean);
-            if (local && Array.isArray(local.vector) && local.vector.length === EMBED_DIM) {
+            if (local && Array.isArray(local.vector) && local.vector.length === LOCAL_EMBED_DIM) {
                 return { vector: local.vector, model: local.model };
             }
         } catch (e) {
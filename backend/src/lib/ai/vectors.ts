@@ -0,0 +1,40 @@
+/**
+ * Where embeddings live in Postgres.
+ *
+ * Each embedded table (journal_entries, memories, messages) has one pgvector
+ * column per vector size, each with its own HNSW index:
+ *
+ *   embedding_local  vector(384)   bge-small-en-v1.5 (self-hosted)
+ *   embedding        vector(1536)  text-embedding-3-small, deterministic-hash-v1
+ *
+ * A row fills exactly one of them; `embedding_model` says which model wrote
+ * it. Queries compare against one model at a time, so the 1536 column also
+ * filters on `embedding_model` (OpenAI and hash vectors share it but not a
+ * space).
+ */
+import { Prisma } from '@prisma/client';
+import { LOCAL_EMBED_MODEL } from '@/lib/ai/local';
+import { toPgVector, type EmbedResult } from '@/lib/ai/provider';
+
+/** pgvector literals for a row's vector columns; all null when unembedded. */
+export interface StoredEmbedding {
+    /** For `embedding` (1536). */
+    wide: string | null;
+    /** For `embedding_local` (384). */
+    local: string | null;
+    model: string | null;
+}
+
+export function storedEmbedding(e: EmbedResult | null): StoredEmbedding {
+    if (!e) return { wide: null, local: null, model: null };
+    const literal = toPgVector(e.vector);
+    return e.model === LOCAL_EMBED_MODEL
+        ? { wide: null, local: literal, model: e.model }
+        : { wide: literal, local: null, model: e.model };
+}
+
+/** The column holding `model`'s vectors, optionally qualified by a table alias. */
+export function vectorColumn(model: string, alias?: string): Prisma.Sql {
+    const column = model === LOCAL_EMBED_MODEL ? 'embedding_local' : 'embedding';
+    return Prisma.raw(alias ? `${alias}.${column}` : column);
+}
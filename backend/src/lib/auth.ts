@@ -1,50 +1,114 @@
 import jwt from 'jsonwebtoken';
 import { NextRequest } from 'next/server';
 import crypto from 'crypto';
+import prisma from '@/lib/prisma';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'sh-jwt-secret-change-me-in-production';
-const JWT_EXPIRES_IN = '7d';
+// Short-lived: access tokens are renewed via POST /api/auth/refresh.
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+// Placeholder password hash on guest users — no password can match it.
+export const GUEST_PASSWORD_HASH = 'guest-session';
 
 export interface JWTPayload {
     userId: string;
     email: string;
+    /** AuthSession id. Absent only on Clerk tokens and pre-session legacy JWTs. */
+    sid?: string;
 }
 
 /**
- * Sign a JWT token
+ * Sign an access token for a session
  */
-export function signToken(payload: JWTPayload): string {
-    return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+export function signToken(payload: JWTPayload & { sid: string }): string {
+    return jwt.sign(
+        { userId: payload.userId, email: payload.email, sid: payload.sid },
+        JWT_SECRET,
+        { expiresIn: ACCESS_TOKEN_TTL_SECONDS },
+    );
 }
 
 /**
- * Verify and decode a JWT token
+ * Verify one of our own tokens (signature + expiry). Never falls back to Clerk.
  */
-export function verifyToken(token: string): JWTPayload | null {
+export function verifyOwnToken(token: string): JWTPayload | null {
     try {
         return jwt.verify(token, JWT_SECRET) as JWTPayload;
     } catch {
-        const decodedClerk = jwt.decode(token) as Record<string, unknown>;
-        if (decodedClerk && decodedClerk.sub && typeof decodedClerk.sub === 'string') {
-            // Hash the Clerk 'user_...' ID into an MD5 buffer
-            const hash = crypto.createHash('md5').update(decodedClerk.sub).digest('hex');
-            // Format MD5 into a valid UUID v4 shape (8-4-4-4-12)
-            const validUuid = `${hash.substring(0,8)}-${hash.substring(8,12)}-4${hash.substring(13,16)}-a${hash.substring(17,20)}-${hash.substring(20,32)}`;
-            return { userId: validUuid, email: '' };
-        }
         return null;
     }
 }
 
 /**
- * Extract user from request Authorization header
+ * Verify and decode a JWT token. Signature and expiry only — callers that
+ * authorise requests must use `getUserFromRequest`, which also checks the
+ * session hasn't been revoked.
  */
-export function getUserFromRequest(req: NextRequest): JWTPayload | null {
+export function verifyToken(token: string): JWTPayload | null {
+    const own = verifyOwnToken(token);
+    if (own) return own;
+    const decodedClerk = jwt.decode(token) as Record<string, unknown>;
+    if (decodedClerk && decodedClerk.sub && typeof decodedClerk.sub === 'string') {
+        // Hash the Clerk 'user_...' ID into an MD5 buffer
+        const hash = crypto.createHash('md5').update(decodedClerk.sub).digest('hex');
+        // Format MD5 into a valid UUID v4 shape (8-4-4-4-12)
+        const validUuid = `${hash.substring(0,8)}-${hash.substring(8,12)}-4${hash.substring(13,16)}-a${hash.substring(17,20)}-${hash.substring(20,32)}`;
+        return { userId: validUuid, email: '' };
+    }
+    return null;
+}
+
+export function getBearerToken(req: NextRequest): string | null {
     const authHeader = req.headers.get('authorization');
     if (!authHeader?.startsWith('Bearer ')) return null;
+    return authHeader.slice(7);
+}
+
+/**
+ * Resolve a bearer token to its user. Our own tokens are only honoured while
+ * their session is live, so logout takes effect immediately; legacy tokens
+ * without a session must first be exchanged at /api/auth/refresh.
+ */
+export async function authenticateToken(token: string): Promise<JWTPayload | null> {
+    const ours = verifyOwnToken(token);
+    if (!ours) {
+        const decoded = jwt.decode(token);
+        // An expired token of ours must not be re-read as a Clerk token.
+        if (decoded && typeof decoded === 'object' && 'sid' in decoded) return null;
+        return verifyToken(token);
+    }
 
-    const token = authHeader.slice(7);
-    return verifyToken(token);
+    if (!ours.sid) return null;
+    const session = await prisma.authSession.findUnique({
+        where: { id: ours.sid },
+        select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+    if (!session || session.revokedAt || session.expiresAt <= new Date() || session.userId !== ours.userId) {
+        return null;
+    }
+    return { userId: ours.userId, email: ours.email, sid: ours.sid };
+}
+
+/**
+ * Extract user from request Authorization header
+ */
+export async function getUserFromRequest(req: NextRequest): Promise<JWTPayload | null> {
+    const token = getBearerToken(req);
+    return token ? authenticateToken(token) : null;
+}
+
+/**
+ * Ops-only access for admin endpoints (job status etc.). Compares the
+ * `x-admin-token` header against `ADMIN_API_TOKEN` in constant time.
+ * Disabled entirely when the env var is unset.
+ */
+export function isAdminRequest(req: NextRequest): boolean {
+    const expected = process.env.ADMIN_API_TOKEN;
+    const given = req.headers.get('x-admin-token');
+    if (!expected || !given) return false;
+    const a = Buffer.from(given);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
 }
 
 /**
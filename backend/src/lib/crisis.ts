@@ -4,47 +4,119 @@
  * Fast, deterministic crisis keyword detection.
  * Every user message passes through this before AI processing.
  * If triggered, the AI response includes crisis resources.
+ *
+ * Keywords come from per-language lexicons (`lib/crisisLexicons.ts`). A
+ * message is checked against English, the languages it looks to be written
+ * in, and the language the user is replied to in — or against every lexicon
+ * when its language can't be told.
+ *
+ * Resources come from the shared crisis directory
+ * (`shared/crisis-directory.json`), the same file the frontend's SOS screen
+ * reads, so a number is corrected in one place. It is versioned: bump
+ * `version` on any change so clients can tell which list they were shown.
  */
+import directory from '@shared/crisis-directory.json';
+import { detectLanguages, SUPPORTED_LANGUAGES, type ResolvedLocale } from '@/lib/locale';
+import { matchCrisisLexicons } from '@/lib/crisisLexicons';
 
-const CRISIS_KEYWORDS = [
-    // Direct harm
-    'kill myself', 'end my life', 'want to die', 'suicide',
-    'suicidal', 'self harm', 'self-harm', 'cut myself',
-    'hurt myself', 'end it all', 'no reason to live',
-    'better off dead', 'can\'t go on', 'give up on life',
-    // Ideation
-    'don\'t want to be here', 'wish i was dead', 'not worth living',
-    'no point in living', 'life is pointless', 'nothing matters anymore',
-];
+export interface CrisisResource {
+    key: string;
+    title: string;
+    description: string;
+    /** Phone number, SMS number, or URL. */
+    dest: string;
+    mode: 'call' | 'text' | 'link';
+    smsBody?: string;
+    tone: 'danger' | 'warning' | 'info' | 'calm';
+    /** How to name it in a sentence; resources without one aren't mentioned in replies. */
+    mention?: string;
+}
+
+export interface CountryResources {
+    countryName: string;
+    emergency: string;
+    resources: CrisisResource[];
+}
+
+/** One country's list as sent to clients, tagged with where it came from. */
+export interface RegionResources extends CountryResources {
+    region: string;
+    version: number;
+}
 
-const UK_CRISIS_RESOURCES = {
-    emergency: { name: 'Emergency Services', number: '999', description: 'For immediate danger' },
-    samaritans: { name: 'Samaritans', number: '116 123', description: '24/7 emotional support, free to call' },
-    shout: { name: 'Shout', number: 'Text SHOUT to 85258', description: 'Free 24/7 text support' },
-    nhs: { name: 'NHS 111', number: '111', description: 'Mental health advice' },
-    calm: { name: 'CALM', number: '0800 58 58 58', description: 'Campaign Against Living Miserably' },
+const DIRECTORY = directory as {
+    version: number;
+    defaultRegion: string;
+    regions: Record<string, CountryResources>;
 };
 
+export const CRISIS_DIRECTORY_VERSION = DIRECTORY.version;
+
+/**
+ * The region whose crisis lines to show: the one the user chose, else the
+ * one their locale implies, else the default (UK). Regions the directory
+ * doesn't cover fall through to the next choice.
+ */
+export function crisisRegion(params: { userRegion?: string | null; locale?: ResolvedLocale | null }): string {
+    for (const r of [params.userRegion, params.locale?.region]) {
+        const region = r?.toUpperCase();
+        if (region && region in DIRECTORY.regions) return region;
+    }
+    return DIRECTORY.defaultRegion;
+}
+
+export function crisisResourcesFor(region?: string | null): RegionResources {
+    const key = crisisRegion({ userRegion: region });
+    return { region: key, version: DIRECTORY.version, ...DIRECTORY.regions[key] };
+}
+
+/** How to name each line in a sentence: helplines first, emergency last. */
+function mentions(resources: CrisisResource[]): string[] {
+    return [
+        ...resources.filter((r) => r.tone !== 'danger'),
+        ...resources.filter((r) => r.tone === 'danger'),
+    ].flatMap((r) => (r.mention ? [r.mention] : []));
+}
+
+/** The region's lines as one sentence fragment ("A, B, or C"). */
+export function crisisLinesText(region?: string | null): string {
+    const lines = mentions(crisisResourcesFor(region).resources);
+    return lines.length > 1 ? `${lines.slice(0, -1).join(', ')}, or ${lines[lines.length - 1]}` : lines.join('');
+}
+
 export interface CrisisCheckResult {
     isCrisis: boolean;
     severity: 'none' | 'low' | 'medium' | 'high';
     matchedKeywords: string[];
-    resources: typeof UK_CRISIS_RESOURCES | null;
+    /** Weaker distress markers found; not a crisis alone (see `crisisLexicons.ts`). */
+    distress: string[];
+    /** Languages the message looked to be in (most likely first); `[]` if unclear. */
+    languages: string[];
+    resources: RegionResources | null;
     safetyMessage: string | null;
 }
 
 /**
- * Check user message for crisis keywords
+ * Check user message for crisis keywords. `language` is the reply language
+ * (e.g. "fr"), also checked whatever the message looks like; `region` picks
+ * the resources returned with a match (default: UK).
  */
-export function checkForCrisis(text: string): CrisisCheckResult {
-    const lower = text.toLowerCase();
-    const matched = CRISIS_KEYWORDS.filter(kw => lower.includes(kw));
+export function checkForCrisis(
+    text: string,
+    opts: { language?: string | null; region?: string | null } = {},
+): CrisisCheckResult {
+    const languages = detectLanguages(text);
+    const lexicons = languages.length ? ['en', ...languages, ...(opts.language ? [opts.language] : [])] : SUPPORTED_LANGUAGES;
+    const matched = matchCrisisLexicons(text, lexicons);
+    const distress = matchCrisisLexicons(text, lexicons, 'distress');
 
     if (matched.length === 0) {
         return {
             isCrisis: false,
             severity: 'none',
             matchedKeywords: [],
+            distress,
+            languages,
             resources: null,
             safetyMessage: null,
         };
@@ -56,7 +128,9 @@ export function checkForCrisis(text: string): CrisisCheckResult {
         isCrisis: true,
         severity,
         matchedKeywords: matched,
-        resources: UK_CRISIS_RESOURCES,
+        distress,
+        languages,
+        resources: crisisResourcesFor(opts.region),
         safetyMessage:
             "I hear you, and I want you to know that support is available right now. " +
             "You don't have to face this alone. Please reach out to one of these services — " +
@@ -65,20 +139,20 @@ export function checkForCrisis(text: string): CrisisCheckResult {
 }
 
 /**
- * Get the crisis-aware system prompt addition
+ * Get the crisis-aware system prompt addition, with the lines for `region`
+ * (default: UK).
  */
-export function getCrisisSystemPrompt(): string {
+export function getCrisisSystemPrompt(region?: string | null): string {
+    const { countryName, resources } = crisisResourcesFor(region);
+    const lines = mentions(resources).map((m) => `  • ${m}`);
     return `
 CRITICAL SAFETY RULES:
-- If a user expresses suicidal thoughts, self-harm ideation, or is in crisis, ALWAYS provide UK crisis resources.
+- If a user expresses suicidal thoughts, self-harm ideation, or is in crisis, ALWAYS provide crisis resources for where they are (${countryName}).
 - Never dismiss or minimize someone's pain.
 - Never provide medical diagnoses or prescribe treatments.
 - Always encourage professional help for serious mental health concerns.
 - If you detect crisis language, lead with empathy, then provide resources:
-  • Samaritans: 116 123 (free, 24/7)
-  • Shout: Text SHOUT to 85258 (free, 24/7)  
-  • NHS 111 for mental health advice
-  • 999 for immediate danger
+${lines.join('\n')}
 - You are a supportive companion, NOT a therapist or medical professional.
 `.trim();
 }
@@ -0,0 +1,319 @@
+/**
+ * Crisis keyword lexicons, one per reply language (see `lib/locale.ts`).
+ *
+ * Phrases are written naturally; both they and the message go through
+ * `normaliseForCrisis()` before matching, so accents, leetspeak ("k1ll"),
+ * stretched letters ("diiie"), punctuation and case don't matter. Long
+ * single words also match with one typo ("sucide").
+ *
+ * How a phrase may sit in the text depends on the script:
+ *   - `words`: at the start of a word, so endings can vary ("suicid" would
+ *     match "suicidal") but "cut myself" doesn't hide inside another word.
+ *     Distress markers must end on a word boundary too: they are common
+ *     words, and "no point" shouldn't match "no pointers"
+ *   - `substring`: anywhere — for scripts that glue particles and prefixes on
+ *   - `nospace`: anywhere, spaces ignored — for languages written without them
+ *     or spaced inconsistently
+ *
+ * Every phrase here should mean self-harm or suicidal intent on its own.
+ * Idioms ("this is killing me") are left to the classifiers.
+ *
+ * `distress` lists weaker markers — exhaustion, hopelessness, wanting it to
+ * stop. None is a crisis alone, but several across a conversation add up
+ * (services/crisisRiskService.ts).
+ */
+
+export type LexiconMatch = 'words' | 'substring' | 'nospace';
+
+export interface CrisisLexicon {
+    match: LexiconMatch;
+    phrases: string[];
+    distress?: string[];
+}
+
+export const CRISIS_LEXICONS: Record<string, CrisisLexicon> = {
+    en: {
+        match: 'words',
+        phrases: [
+            // Direct harm
+            'kill myself', 'killing myself', 'kill my self', 'end my life', 'ending my life',
+            'take my own life', 'want to die', 'wanna die', 'suicide', 'suicidal', 'unalive myself',
+            'self harm', 'cut myself', 'cutting myself', 'hurt myself', 'hurting myself', 'end it all', 'no reason to live',
+            'better off dead', 'can\'t go on', 'give up on life',
+            // Ideation
+            'don\'t want to be here', 'don\'t want to be alive', 'wish i was dead', 'wish i were dead',
+            'not worth living', 'no point in living', 'life is pointless', 'nothing matters anymore',
+        ],
+        distress: [
+            'so tired of', 'i\'m tired', 'exhausted', 'nothing helps', 'nothing works', 'no point', 'hopeless',
+            'hopelessness', 'want it to stop', 'want it all to stop', 'can\'t do this anymore', 'can\'t take it',
+            'give up', 'giving up', 'i\'m done', 'just done', 'burden', 'disappear', 'trapped', 'no way out',
+            'worthless', 'nobody would notice', 'nobody would care', 'what\'s the point',
+        ],
+    },
+    fr: {
+        match: 'words',
+        phrases: [
+            'suicide', 'suicidaire', 'me suicider', 'je vais me tuer', 'envie de me tuer', 'veux me tuer',
+            'envie de mourir', 'veux mourir', 'je veux en finir', 'en finir avec la vie', 'mettre fin à mes jours',
+            'mettre fin à ma vie', 'me faire du mal', 'me scarifier', 'plus envie de vivre', 'pas envie de vivre',
+            'mieux mort', 'mieux morte', 'aucune raison de vivre',
+        ],
+        distress: [
+            'épuisé', 'épuisée', 'rien ne marche', 'rien ne m\'aide', 'à quoi bon', 'désespéré', 'désespérée',
+            'je n\'en peux plus', 'que ça s\'arrête', 'je suis un fardeau', 'disparaître', 'j\'abandonne',
+        ],
+    },
+    de: {
+        match: 'words',
+        phrases: [
+            'selbstmord', 'suizid', 'mich umbringen', 'mir das leben nehmen', 'will sterben', 'möchte sterben',
+            'will nicht mehr leben', 'mag nicht mehr leben', 'mich ritzen', 'selbstverletzung', 'lebensmüde',
+            'besser tot', 'keinen sinn mehr zu leben', 'mich selbst verletzen',
+        ],
+        distress: [
+            'erschöpft', 'nichts hilft', 'hoffnungslos', 'ich kann nicht mehr', 'soll aufhören', 'ich gebe auf',
+            'eine last', 'verschwinden', 'hat keinen sinn', 'wozu noch',
+        ],
+    },
+    es: {
+        match: 'words',
+        phrases: [
+            'suicidio', 'suicidarme', 'matarme', 'quiero morir', 'quiero morirme', 'no quiero vivir',
+            'acabar con mi vida', 'quitarme la vida', 'hacerme daño', 'cortarme', 'mejor muerto', 'mejor muerta',
+            'no vale la pena vivir', 'ya no puedo más', 'autolesión',
+        ],
+        distress: [
+            'agotado', 'agotada', 'nada me ayuda', 'nada funciona', 'sin esperanza', 'que se acabe', 'me rindo',
+            'soy una carga', 'desaparecer', 'para qué',
+        ],
+    },
+    it: {
+        match: 'words',
+        phrases: [
+            'suicidio', 'suicidarmi', 'uccidermi', 'ammazzarmi', 'voglio morire', 'non voglio più vivere',
+            'togliermi la vita', 'farla finita', 'farmi del male', 'tagliarmi', 'meglio morto', 'meglio morta',
+            'autolesionismo',
+        ],
+    },
+    pt: {
+        match: 'words',
+        phrases: [
+            'suicídio', 'suicidar', 'me matar', 'quero morrer', 'não quero mais viver', 'tirar minha vida',
+            'tirar a minha vida', 'me machucar', 'me cortar', 'melhor morto', 'melhor morta', 'automutilação',
+            'acabar com a minha vida',
+        ],
+    },
+    nl: {
+        match: 'words',
+        phrases: [
+            'zelfmoord', 'suïcide', 'mezelf van kant maken', 'mezelf doden', 'wil dood', 'wil niet meer leven',
+            'mezelf snijden', 'zelfbeschadiging', 'beter dood', 'er een einde aan maken', 'mezelf iets aandoen',
+        ],
+    },
+    sv: {
+        match: 'words',
+        phrases: [
+            'självmord', 'ta livet av mig', 'ta mitt liv', 'vill dö', 'vill inte leva', 'skada mig själv',
+            'skära mig', 'självskada', 'bättre död',
+        ],
+    },
+    da: {
+        match: 'words',
+        phrases: [
+            'selvmord', 'tage mit eget liv', 'slå mig selv ihjel', 'vil dø', 'vil ikke leve', 'skade mig selv',
+            'skære i mig selv', 'selvskade', 'bedre død',
+        ],
+    },
+    no: {
+        match: 'words',
+        phrases: [
+            'selvmord', 'ta livet mitt', 'ta mitt eget liv', 'drepe meg selv', 'vil dø', 'vil ikke leve',
+            'skade meg selv', 'kutte meg', 'selvskading', 'bedre død',
+        ],
+    },
+    fi: {
+        match: 'words',
+        phrases: [
+            'itsemurha', 'tappaa itseni', 'tapan itseni', 'haluan kuolla', 'en halua elää', 'satuttaa itseäni',
+            'viillellä itseäni', 'viiltely', 'itsetuho', 'parempi kuollut',
+        ],
+    },
+    pl: {
+        match: 'words',
+        phrases: [
+            'samobójst', 'samobójcz', 'zabić się', 'zabiję się', 'się zabiję', 'się zabić', 'chcę umrzeć', 'nie chcę żyć',
+            'odebrać sobie życie', 'skończyć ze sobą', 'samookaleczenie', 'ciąć się', 'lepiej bym nie żył',
+            'lepiej bym nie żyła',
+        ],
+    },
+    cs: {
+        match: 'words',
+        phrases: [
+            'sebevražda', 'sebevražedné', 'zabít se', 'zabiju se', 'chci umřít', 'nechci žít', 'vzít si život',
+            'ublížit si', 'řezat se', 'sebepoškozování', 'lepší mrtvý', 'lepší mrtvá',
+        ],
+    },
+    ro: {
+        match: 'words',
+        phrases: [
+            'sinucidere', 'să mă sinucid', 'să mă omor', 'vreau să mor', 'nu mai vreau să trăiesc',
+            'să-mi iau viața', 'să îmi iau viața', 'să-mi fac rău', 'autovătămare', 'mai bine mort', 'mai bine moartă',
+        ],
+    },
+    tr: {
+        match: 'words',
+        phrases: [
+            'intihar', 'kendimi öldürmek', 'kendimi öldüreceğim', 'ölmek istiyorum', 'yaşamak istemiyorum',
+            'canıma kıymak', 'canıma kıyacağım', 'kendime zarar', 'kendimi kesmek', 'ölsem daha iyi',
+        ],
+    },
+    hi: {
+        match: 'substring',
+        phrases: [
+            'आत्महत्या', 'खुदकुशी', 'मरना चाहता', 'मरना चाहती', 'मर जाना चाहता', 'मर जाना चाहती',
+            'जीना नहीं चाहता', 'जीना नहीं चाहती', 'खुद को मार', 'अपनी जान ले', 'खुद को नुकसान',
+            'जीने का कोई मतलब नहीं',
+            // Romanised, as it is often typed
+            'aatmahatya', 'atmahatya', 'khudkushi', 'marna chahta', 'marna chahti', 'mar jana chahta',
+            'mar jana chahti', 'jeena nahi chahta', 'jeena nahi chahti', 'khud ko maar', 'apni jaan le',
+        ],
+    },
+    bn: {
+        match: 'substring',
+        phrases: [
+            'আত্মহত্যা', 'মরে যেতে চাই', 'মরতে চাই', 'বাঁচতে চাই না', 'নিজেকে শেষ করে', 'নিজের ক্ষতি',
+            'নিজেকে মেরে ফেল',
+        ],
+    },
+    ta: {
+        match: 'substring',
+        phrases: ['தற்கொலை', 'சாக வேண்டும்', 'சாகணும்', 'வாழ விருப்பமில்லை', 'என்னை நானே கொல்ல', 'உயிரை மாய்த்து'],
+    },
+    ur: {
+        match: 'substring',
+        phrases: [
+            'خودکشی', 'خود کشی', 'مرنا چاہتا', 'مرنا چاہتی', 'جینا نہیں چاہتا', 'جینا نہیں چاہتی',
+            'اپنی جان لے', 'خود کو مار', 'خود کو نقصان',
+        ],
+    },
+    ar: {
+        match: 'substring',
+        phrases: [
+            'انتحار', 'انتحر', 'اقتل نفسي', 'أريد أن أموت', 'اريد الموت', 'بدي موت', 'نفسي أموت',
+            'لا أريد أن أعيش', 'مش عايز أعيش', 'أنهي حياتي', 'إنهاء حياتي', 'أؤذي نفسي', 'إيذاء النفس',
+        ],
+    },
+    zh: {
+        match: 'nospace',
+        phrases: ['自杀', '自殺', '想死', '不想活', '活不下去', '结束生命', '結束生命', '了结自己', '自残', '自殘', '割腕', '轻生', '輕生'],
+    },
+    ja: {
+        match: 'nospace',
+        phrases: ['自殺', '死にたい', '消えたい', '生きていたくない', '生きたくない', '自傷', 'リストカット', 'リスカ', '命を絶', '首を吊'],
+    },
+    ko: {
+        match: 'nospace',
+        phrases: ['자살', '죽고 싶', '살고 싶지 않', '자해', '목숨을 끊', '사라지고 싶'],
+    },
+};
+
+const FOLD: Record<string, string> = { '\u0131': 'i', '\u064a': '\u06cc', '\u0649': '\u06cc', '\u0643': '\u06a9', '\u06c1': '\u0647' };
+
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', $: 's' };
+
+/**
+ * Lower-case; drop Latin accents, Arabic-script vowel marks and the Devanagari
+ * nukta; fold look-alike Arabic/Urdu letters and Turkish dotless i; read
+ * leetspeak inside words; turn punctuation into spaces (apostrophes vanish:
+ * "can't" → "cant"); collapse repeated characters ("soooo" → "so").
+ */
+export function normaliseForCrisis(text: string): string {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f\u064b-\u065f\u0670\u0640\u093c]/g, '')
+        .normalize('NFC')
+        .toLowerCase()
+        .replace(/[\u0131\u064a\u0649\u0643\u06c1]/g, (c) => FOLD[c])
+        .replace(/[\p{L}\p{M}\d@$]+/gu, (word) =>
+            /\p{L}/u.test(word) ? word.replace(/[013457@$]/g, (c) => LEET[c]) : word,
+        )
+        .replace(/['’`]/g, '')
+        .replace(/[^\p{L}\p{M}\d]+/gu, ' ')
+        .replace(/(.)\1+/gu, '$1')
+        .trim();
+}
+
+/** Optimal string alignment distance, giving up past 1. */
+function withinOneEdit(a: string, b: string): boolean {
+    if (Math.abs(a.length - b.length) > 1) return false;
+    let i = 0;
+    while (i < a.length && i < b.length && a[i] === b[i]) i++;
+    const tailA = a.slice(i + 1);
+    const tailB = b.slice(i + 1);
+    return (
+        tailA === tailB || // substitution (or equal)
+        a.slice(i + 1) === b.slice(i) || // deletion from a
+        a.slice(i) === b.slice(i + 1) || // insertion into a
+        (a[i] === b[i + 1] && a[i + 1] === b[i] && a.slice(i + 2) === b.slice(i + 2)) // transposition
+    );
+}
+
+const FUZZY_MIN_LENGTH = 6;
+
+interface CompiledPhrase {
+    phrase: string;
+    normalised: string;
+}
+
+type PhraseList = 'phrases' | 'distress';
+
+const COMPILED: Record<string, { match: LexiconMatch } & Record<PhraseList, CompiledPhrase[]>> =
+    Object.fromEntries(
+        Object.entries(CRISIS_LEXICONS).map(([language, lexicon]) => {
+            const compile = (phrase: string) => {
+                const normalised = normaliseForCrisis(phrase);
+                return { phrase, normalised: lexicon.match === 'nospace' ? normalised.replace(/ /g, '') : normalised };
+            };
+            return [
+                language,
+                {
+                    match: lexicon.match,
+                    phrases: lexicon.phrases.map(compile),
+                    distress: (lexicon.distress ?? []).map(compile),
+                },
+            ];
+        }),
+    );
+
+/**
+ * The phrases (as written in the lexicon) from `languages` found in `text` —
+ * crisis phrases, or with `list: 'distress'` the weaker markers. Unknown
+ * language codes are ignored.
+ */
+export function matchCrisisLexicons(text: string, languages: string[], list: PhraseList = 'phrases'): string[] {
+    const normalised = normaliseForCrisis(text);
+    const padded = ` ${normalised} `;
+    const compact = normalised.replace(/ /g, '');
+    const words = normalised.split(' ');
+    const matched = new Set<string>();
+
+    for (const language of new Set(languages)) {
+        const lexicon = COMPILED[language];
+        if (!lexicon) continue;
+        for (const { phrase, normalised: needle } of lexicon[list]) {
+            const found =
+                lexicon.match === 'nospace'
+                    ? compact.includes(needle)
+                    : lexicon.match === 'substring'
+                      ? normalised.includes(needle)
+                      : padded.includes(list === 'distress' ? ` ${needle} ` : ` ${needle}`) ||
+                        (list === 'phrases' &&
+                            needle.length >= FUZZY_MIN_LENGTH &&
+                            !needle.includes(' ') &&
+                            words.some((w) => withinOneEdit(w, needle)));
+            if (found) matched.add(phrase);
+        }
+    }
+    return [...matched];
+}
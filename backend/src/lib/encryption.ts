@@ -2,24 +2,38 @@
  * AES-256-GCM encryption for at-rest private data (e.g. journal entries).
  *
  * Keying:
- *   - Master key comes from env `ENCRYPTION_MASTER_KEY` (>=32 bytes).
+ *   - Master keys come from env. `ENCRYPTION_MASTER_KEY` is key `k0`;
+ *     `ENCRYPTION_KEYS` adds more as `id:secret,id:secret` (ids are
+ *     1–16 chars of `[A-Za-z0-9_-]`). `ENCRYPTION_PRIMARY_KEY_ID` picks the
+ *     key new data is written with — by default the first of
+ *     `ENCRYPTION_KEYS`, else `k0`. Every configured key stays readable.
  *   - Per-user key is derived via HKDF (`userId` as salt). This gives
  *     per-user isolation while still allowing a single key in the
  *     environment for ops simplicity.
  *   - Each write uses a fresh 12-byte IV.
  *
- * Format on disk (base64 single string):
- *   b64(iv[12] | tag[16] | ciphertext)
+ * Format on disk (single string):
+ *   v1:<keyId>:b64(iv[12] | tag[16] | ciphertext)
+ * Rows written before key ids existed are bare `b64(iv|tag|ct)` and are read
+ * with `k0`.
+ *
+ * Rotating: add the new key to `ENCRYPTION_KEYS` (it becomes primary), keep
+ * the old one configured, run the `encryption.rotate` job (see
+ * keyRotationService), and drop the old key once it reports nothing left.
  *
  * If no master key is configured, callers fall back to plaintext storage —
  * this keeps the dev experience frictionless while allowing production to
  * enforce encryption via the `ENCRYPTION_REQUIRED=true` env flag.
  */
 import crypto from 'crypto';
+import { logger } from '@/lib/logger';
 
 const ALGO = 'aes-256-gcm';
 const IV_LEN = 12;
 const TAG_LEN = 16;
+const FORMAT_VERSION = 'v1';
+export const LEGACY_KEY_ID = 'k0';
+const KEY_ID_RE = /^[A-Za-z0-9_-]{1,16}$/;
 
 export class EncryptionDisabledError extends Error {
     constructor() {
@@ -27,26 +41,123 @@ export class EncryptionDisabledError extends Error {
     }
 }
 
-function masterKey(): Buffer | null {
-    const raw = process.env.ENCRYPTION_MASTER_KEY;
-    if (!raw) return null;
-    // Accept hex (64 chars), base64, or raw text. Normalise to 32 bytes via SHA-256.
-    return crypto.createHash('sha256').update(raw).digest();
+export class EncryptionConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EncryptionConfigError';
+    }
+}
+
+interface Keyring {
+    primary: string;
+    keys: Map<string, Buffer>;
+}
+
+// Accept hex (64 chars), base64, or raw text. Normalise to 32 bytes via SHA-256.
+const normalise = (raw: string) => crypto.createHash('sha256').update(raw).digest();
+
+let cached: { env: string; ring: Keyring | null } | null = null;
+
+function keyring(): Keyring | null {
+    const { ENCRYPTION_MASTER_KEY: legacy, ENCRYPTION_KEYS: list, ENCRYPTION_PRIMARY_KEY_ID: primaryId } = process.env;
+    const env = [legacy, list, primaryId].join('\u0000');
+    if (cached?.env === env) return cached.ring;
+
+    const keys = new Map<string, Buffer>();
+    if (legacy) keys.set(LEGACY_KEY_ID, normalise(legacy));
+    for (const entry of (list ?? '').split(',').map((e) => e.trim()).filter(Boolean)) {
+        const sep = entry.indexOf(':');
+        const id = entry.slice(0, sep);
+        if (sep < 1 || !KEY_ID_RE.test(id) || sep === entry.length - 1) {
+            throw new EncryptionConfigError('ENCRYPTION_KEYS entries must look like `id:secret`');
+        }
+        if (keys.has(id)) throw new EncryptionConfigError(`Encryption key id "${id}" is configured twice`);
+        keys.set(id, normalise(entry.slice(sep + 1)));
+    }
+
+    let ring: Keyring | null = null;
+    if (keys.size) {
+        const [firstListed] = [...keys.keys()].filter((id) => id !== LEGACY_KEY_ID);
+        const primary = primaryId || firstListed || LEGACY_KEY_ID;
+        if (!keys.has(primary)) throw new EncryptionConfigError(`Primary encryption key "${primary}" is not configured`);
+        ring = { primary, keys };
+    }
+    cached = { env, ring };
+    return ring;
 }
 
-function deriveUserKey(master: Buffer, userId: string): Buffer {
-    // HKDF — RFC 5869. "silent-help:journal" gives us room to expand to other namespaces.
+function deriveUserKey(master: Buffer, userId: string, purpose = 'journal'): Buffer {
+    // HKDF — RFC 5869. The `silent-help:<purpose>` info string keeps each use's keys apart.
     const salt = Buffer.from(userId, 'utf8');
-    const info = Buffer.from('silent-help:journal', 'utf8');
+    const info = Buffer.from(`silent-help:${purpose}`, 'utf8');
     return Buffer.from(crypto.hkdfSync('sha256', master, salt, info, 32));
 }
 
 export function isEncryptionEnabled(): boolean {
-    return Boolean(masterKey());
+    return Boolean(keyring());
+}
+
+/** The key id new ciphertexts are written with; null when encryption is off. */
+export function primaryKeyId(): string | null {
+    return keyring()?.primary ?? null;
+}
+
+/** Every configured key id (primary first). */
+export function encryptionKeyIds(): string[] {
+    const ring = keyring();
+    if (!ring) return [];
+    return [ring.primary, ...[...ring.keys.keys()].filter((id) => id !== ring.primary)];
+}
+
+/** The prefix every ciphertext under `keyId` starts with (for queries). */
+export function cipherPrefix(keyId: string): string {
+    return `${FORMAT_VERSION}:${keyId}:`;
+}
+
+function unpack(cipherText: string): { keyId: string; packed: Buffer } {
+    const m = /^v1:([A-Za-z0-9_-]{1,16}):([A-Za-z0-9+/=]*)$/.exec(cipherText);
+    return m
+        ? { keyId: m[1], packed: Buffer.from(m[2], 'base64') }
+        : { keyId: LEGACY_KEY_ID, packed: Buffer.from(cipherText, 'base64') };
+}
+
+/**
+ * Per-user HMAC keys for blind search indexes (see lib/searchIndex.ts): one
+ * per configured key, primary first, so tokens written before a rotation
+ * still match. Empty when encryption is off.
+ */
+export function blindIndexKeys(userId: string): Buffer[] {
+    const ring = keyring();
+    if (!ring) return [];
+    return encryptionKeyIds().map((id) => deriveUserKey(ring.keys.get(id)!, userId, 'search-index'));
+}
+
+/** Which key a stored ciphertext was written with. */
+export function keyIdOf(cipherText: string): string {
+    return unpack(cipherText).keyId;
+}
+
+function seal(ring: Keyring, userId: string, plaintext: Buffer): string {
+    const key = deriveUserKey(ring.keys.get(ring.primary)!, userId);
+    const iv = crypto.randomBytes(IV_LEN);
+    const cipher = crypto.createCipheriv(ALGO, key, iv);
+    const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return cipherPrefix(ring.primary) + Buffer.concat([iv, tag, ct]).toString('base64');
+}
+
+/** Decrypt or throw — unknown key id, wrong user, or tampered data. */
+function open(ring: Keyring, userId: string, cipherText: string): Buffer {
+    const { keyId, packed } = unpack(cipherText);
+    const master = ring.keys.get(keyId);
+    if (!master) throw new EncryptionConfigError(`Encryption key "${keyId}" is not configured`);
+    const decipher = crypto.createDecipheriv(ALGO, deriveUserKey(master, userId), packed.subarray(0, IV_LEN));
+    decipher.setAuthTag(packed.subarray(IV_LEN, IV_LEN + TAG_LEN));
+    return Buffer.concat([decipher.update(packed.subarray(IV_LEN + TAG_LEN)), decipher.final()]);
 }
 
 export interface EncryptedPayload {
-    cipherText: string | null; // base64 iv|tag|ct
+    cipherText: string | null; // v1:<keyId>:base64 iv|tag|ct
     plaintextFallback: string | null; // for when encryption is disabled (legacy + dev)
 }
 
@@ -55,18 +166,12 @@ export interface EncryptedPayload {
  * Returns { cipherText } in prod; { plaintextFallback } in dev with no master key.
  */
 export function encryptForUser(userId: string, plaintext: string): EncryptedPayload {
-    const master = masterKey();
-    if (!master) {
+    const ring = keyring();
+    if (!ring) {
         if (process.env.ENCRYPTION_REQUIRED === 'true') throw new EncryptionDisabledError();
         return { cipherText: null, plaintextFallback: plaintext };
     }
-    const key = deriveUserKey(master, userId);
-    const iv = crypto.randomBytes(IV_LEN);
-    const cipher = crypto.createCipheriv(ALGO, key, iv);
-    const ct = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
-    const tag = cipher.getAuthTag();
-    const packed = Buffer.concat([iv, tag, ct]).toString('base64');
-    return { cipherText: packed, plaintextFallback: null };
+    return { cipherText: seal(ring, userId, Buffer.from(plaintext, 'utf8')), plaintextFallback: null };
 }
 
 /**
@@ -79,27 +184,33 @@ export function decryptForUser(
     plaintextFallback: string | null,
 ): string {
     if (!cipherText) return plaintextFallback ?? '';
-    const master = masterKey();
-    if (!master) {
+    const ring = keyring();
+    if (!ring) {
         // Can't decrypt — return fallback if present, otherwise empty.
         return plaintextFallback ?? '';
     }
     try {
-        const key = deriveUserKey(master, userId);
-        const packed = Buffer.from(cipherText, 'base64');
-        const iv = packed.subarray(0, IV_LEN);
-        const tag = packed.subarray(IV_LEN, IV_LEN + TAG_LEN);
-        const ct = packed.subarray(IV_LEN + TAG_LEN);
-        const decipher = crypto.createDecipheriv(ALGO, key, iv);
-        decipher.setAuthTag(tag);
-        const pt = Buffer.concat([decipher.update(ct), decipher.final()]);
-        return pt.toString('utf8');
-    } catch {
-        // Corrupt or key mismatch — degrade gracefully rather than breaking UI.
+        return open(ring, userId, cipherText).toString('utf8');
+    } catch (e) {
+        // Corrupt or key mismatch — degrade gracefully rather than breaking UI,
+        // but loudly: a missing key here means data that reads as empty.
+        logger.error({ err: String(e), keyId: keyIdOf(cipherText) }, 'encryption.decrypt_failed');
         return plaintextFallback ?? '';
     }
 }
 
+/**
+ * Re-seal a ciphertext under the primary key, optionally for a different user
+ * (account merges). Unlike `decryptForUser` this never degrades: a ciphertext
+ * that can't be opened throws, so the caller can abort or skip the row
+ * instead of silently losing data.
+ */
+export function reencryptForUser(fromUserId: string, toUserId: string, cipherText: string): string {
+    const ring = keyring();
+    if (!ring) throw new EncryptionDisabledError();
+    return seal(ring, toUserId, open(ring, fromUserId, cipherText));
+}
+
 /**
  * Helper for SHA-256 hashing (for audit log IP anonymisation etc.).
  */
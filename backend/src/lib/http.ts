@@ -32,6 +32,31 @@ export async function parseJson<T>(req: NextRequest, schema: ZodSchema<T>): Prom
     return { ok: true, data: parsed.data };
 }
 
+/** Read a raw (e.g. file upload) body, refusing anything over `maxBytes` without buffering it. */
+export async function readBody(req: NextRequest, maxBytes: number): Promise<
+    { ok: true; data: Buffer } | { ok: false; response: Response }
+> {
+    const tooLarge = () => ({ ok: false as const, response: jsonError(413, `Upload larger than ${Math.floor(maxBytes / 1024 / 1024)} MB`) });
+    if (Number(req.headers.get('content-length') ?? 0) > maxBytes) return tooLarge();
+    if (!req.body) return { ok: false, response: jsonError(400, 'Empty body') };
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = req.body.getReader();
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.length;
+        if (size > maxBytes) {
+            await reader.cancel();
+            return tooLarge();
+        }
+        chunks.push(value);
+    }
+    if (size === 0) return { ok: false, response: jsonError(400, 'Empty body') };
+    return { ok: true, data: Buffer.concat(chunks) };
+}
+
 export function parseQuery<T>(req: NextRequest, schema: ZodSchema<T>): 
     { ok: true; data: T } | { ok: false; response: Response } {
     const raw = Object.fromEntries(req.nextUrl.searchParams.entries());
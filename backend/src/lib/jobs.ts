@@ -0,0 +1,218 @@
+/**
+ * Background jobs — pg-boss on the primary Postgres (no Redis, no extra infra).
+ *
+ * Two roles share this module:
+ *   - **worker** (`npm run worker` → `src/worker.ts`) owns every scheduled
+ *     queue: it migrates the `pgboss` schema, registers cron schedules and
+ *     consumes jobs.
+ *   - **producer** (Next.js route handlers) may enqueue one-off jobs and read
+ *     queue status, but never runs maintenance or cron.
+ *
+ * Every queue retries with exponential backoff and, once retries are
+ * exhausted, copies the payload to `jobs.dead` so a failure is never silent.
+ * Job payloads carry ids only — never journal text or message content.
+ *
+ * Queues use pg-boss's `stately` policy: per singleton key, at most one job
+ * queued, one waiting to retry and one running; a send that would add a
+ * second queued job is dropped. Fan-outs key by the item (reminder, user + day), so a
+ * re-run sweep doesn't queue the same work twice. Chains (rotate, seal,
+ * backfill) send every batch under `CHAIN_KEY`, so a run never forks: a retry
+ * or a second start while one is queued is dropped.
+ */
+import { PgBoss, type SendOptions } from 'pg-boss';
+import { logger } from '@/lib/logger';
+
+export const DEAD_LETTER_QUEUE = 'jobs.dead';
+/** Singleton key shared by every batch of a chained run. */
+export const CHAIN_KEY = 'run';
+const POLICY = 'stately';
+
+export type QueueName =
+    | 'reminders.dispatch'
+    | 'reminders.deliver'
+    | 'letters.unseal'
+    | 'retention.sweep'
+    | 'retention.purge'
+    | 'digests.sweep'
+    | 'digests.generate'
+    | 'guests.sweep'
+    | 'guests.expire'
+    | 'encryption.rotate'
+    | 'encryption.seal'
+    | 'imports.embed'
+    | 'journal.index'
+    | 'embeddings.backfill';
+
+interface QueueSpec {
+    /** Cron expression (UTC) for sweep queues; omitted for fan-out targets. */
+    cron?: string;
+    retryLimit: number;
+    /** Base delay in seconds — doubled per attempt (`retryBackoff`). */
+    retryDelay: number;
+    expireInSeconds: number;
+    /** Each job sends the next batch; cron runs join the chain under `CHAIN_KEY`. */
+    chained?: boolean;
+}
+
+export const QUEUES: Record<QueueName, QueueSpec> = {
+    // Every minute: find due reminders and fan out one delivery job each.
+    'reminders.dispatch': { cron: '* * * * *', retryLimit: 1, retryDelay: 10, expireInSeconds: 60 },
+    'reminders.deliver': { retryLimit: 5, retryDelay: 30, expireInSeconds: 60 },
+    // Hourly: flip sealed letters whose deliverAt has passed.
+    'letters.unseal': { cron: '5 * * * *', retryLimit: 3, retryDelay: 60, expireInSeconds: 300 },
+    // Nightly 03:15 UTC: one purge job per user with a finite retention choice.
+    'retention.sweep': { cron: '15 3 * * *', retryLimit: 3, retryDelay: 300, expireInSeconds: 600 },
+    'retention.purge': { retryLimit: 5, retryDelay: 120, expireInSeconds: 900 },
+    // Mondays 05:00 UTC: pre-generate the weekly digest for recently active users.
+    'digests.sweep': { cron: '0 5 * * 1', retryLimit: 3, retryDelay: 300, expireInSeconds: 600 },
+    'digests.generate': { retryLimit: 3, retryDelay: 120, expireInSeconds: 300 },
+    // Nightly 03:45 UTC: hard-delete guests past the inactivity window.
+    'guests.sweep': { cron: '45 3 * * *', retryLimit: 3, retryDelay: 300, expireInSeconds: 600 },
+    'guests.expire': { retryLimit: 5, retryDelay: 120, expireInSeconds: 300 },
+    // On demand (admin): re-seal one batch of ciphertexts, then chain the next.
+    'encryption.rotate': { retryLimit: 5, retryDelay: 60, expireInSeconds: 900, chained: true },
+    // On demand (admin): encrypt one batch of plaintext messages/memories, then chain the next.
+    'encryption.seal': { retryLimit: 5, retryDelay: 60, expireInSeconds: 900, chained: true },
+    // After a data import: compute embeddings for the rows it brought in.
+    'imports.embed': { retryLimit: 3, retryDelay: 120, expireInSeconds: 1800 },
+    // Nightly: build keyword search tokens for entries written before the index.
+    'journal.index': { cron: '30 4 * * *', retryLimit: 3, retryDelay: 300, expireInSeconds: 1800 },
+    // Nightly: re-embed one batch of vectors not on the preferred model, then chain the next.
+    'embeddings.backfill': { cron: '0 2 * * *', retryLimit: 3, retryDelay: 120, expireInSeconds: 900, chained: true },
+};
+
+export const QUEUE_NAMES = Object.keys(QUEUES) as QueueName[];
+
+let bossPromise: Promise<PgBoss> | null = null;
+let bossRole: 'worker' | 'producer' | null = null;
+
+function connectionString(): string {
+    const url = process.env.JOBS_DATABASE_URL || process.env.DATABASE_URL;
+    if (!url) throw new Error('DATABASE_URL is required for background jobs');
+    return url;
+}
+
+/**
+ * Lazily start the process-wide pg-boss instance. The first caller decides the
+ * role: the worker passes `'worker'`, everything else gets a producer that
+ * skips maintenance, cron and schema migration.
+ */
+export function getBoss(role: 'worker' | 'producer' = 'producer'): Promise<PgBoss> {
+    if (bossPromise) {
+        if (role === 'worker' && bossRole !== 'worker') {
+            throw new Error('pg-boss already started as a producer in this process');
+        }
+        return bossPromise;
+    }
+    bossRole = role;
+    const isWorker = role === 'worker';
+    const boss = new PgBoss({
+        connectionString: connectionString(),
+        application_name: `silent-help-${role}`,
+        max: isWorker ? 6 : 2,
+        migrate: isWorker,
+        supervise: isWorker,
+        schedule: isWorker,
+    });
+    boss.on('error', (err) => logger.error({ err: String(err), role }, 'jobs.boss.error'));
+    bossPromise = boss.start().catch((e) => {
+        bossPromise = null;
+        bossRole = null;
+        throw e;
+    });
+    return bossPromise;
+}
+
+/**
+ * Create (or update) every queue plus the shared dead-letter queue. Idempotent.
+ *
+ * pg-boss can't change a queue's policy in place, so a queue created before
+ * it used `stately` is dropped and re-created — but only while nothing is
+ * waiting or running in it; otherwise that waits for the next start.
+ */
+export async function ensureQueues(boss: PgBoss): Promise<void> {
+    const existing = new Map((await boss.getQueues()).map((q) => [q.name, q]));
+    if (!existing.has(DEAD_LETTER_QUEUE)) {
+        // The worker logs and audits each dead letter, then completes it; the
+        // completed job (and its payload) is kept for 30 days for inspection.
+        await boss.createQueue(DEAD_LETTER_QUEUE, { retryLimit: 0, deleteAfterSeconds: 30 * 86_400 });
+    }
+    for (const name of QUEUE_NAMES) {
+        const spec = QUEUES[name];
+        const options = {
+            retryLimit: spec.retryLimit,
+            retryDelay: spec.retryDelay,
+            retryBackoff: true,
+            expireInSeconds: spec.expireInSeconds,
+            deadLetter: DEAD_LETTER_QUEUE,
+        };
+        const queue = existing.get(name);
+        if (queue && queue.policy !== POLICY) {
+            if (queue.queuedCount + queue.deferredCount + queue.activeCount === 0) {
+                await boss.deleteQueue(name);
+                await boss.createQueue(name, { ...options, policy: POLICY });
+                logger.info({ queue: name, from: queue.policy, to: POLICY }, 'jobs.queue_policy_changed');
+                continue;
+            }
+            logger.warn({ queue: name, policy: queue.policy }, 'jobs.queue_policy_pending');
+        }
+        if (queue) await boss.updateQueue(name, options);
+        else await boss.createQueue(name, { ...options, policy: POLICY });
+    }
+}
+
+/** Register the cron schedule for every sweep queue (UTC). */
+export async function scheduleRecurring(boss: PgBoss): Promise<void> {
+    for (const name of QUEUE_NAMES) {
+        const { cron, chained } = QUEUES[name];
+        if (cron) await boss.schedule(name, cron, null, { tz: 'UTC', ...(chained ? { singletonKey: CHAIN_KEY } : {}) });
+    }
+}
+
+/**
+ * Enqueue a job from request code. Best-effort: a queue outage must never fail
+ * the user's request — the nightly/minutely sweeps pick up anything missed.
+ */
+export async function enqueue(
+    name: QueueName,
+    data: Record<string, unknown>,
+    options?: SendOptions,
+): Promise<string | null> {
+    try {
+        const boss = await getBoss();
+        return await boss.send(name, data, options);
+    } catch (e) {
+        logger.warn({ err: String(e), queue: name }, 'jobs.enqueue_failed');
+        return null;
+    }
+}
+
+export interface QueueStatus {
+    name: string;
+    cron: string | null;
+    queued: number;
+    deferred: number;
+    active: number;
+    total: number;
+}
+
+/** Per-queue counters (including dead letters) for the admin status endpoint. */
+export async function getJobStatus(): Promise<{ queues: QueueStatus[]; deadLetters: number }> {
+    const boss = await getBoss();
+    const names = [...QUEUE_NAMES, DEAD_LETTER_QUEUE];
+    const rows = await boss.getQueues(names);
+    const byName = new Map(rows.map((r) => [r.name, r]));
+    const queues = names.map((name) => {
+        const r = byName.get(name);
+        return {
+            name,
+            cron: (QUEUES as Record<string, QueueSpec>)[name]?.cron ?? null,
+            queued: r?.queuedCount ?? 0,
+            deferred: r?.deferredCount ?? 0,
+            active: r?.activeCount ?? 0,
+            total: r?.totalCount ?? 0,
+        };
+    });
+    const dead = queues.find((q) => q.name === DEAD_LETTER_QUEUE);
+    return { queues, deadLetters: dead?.total ?? 0 };
+}
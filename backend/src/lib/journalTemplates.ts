@@ -0,0 +1,99 @@
+/**
+ * Guided journal templates — structured alternatives to a blank page.
+ *
+ * A templated entry stores its answers per field (`JournalEntry.fields`,
+ * encrypted) and, as its `content`, the answers rendered as labelled
+ * paragraphs. Everything that reads journal text — search, RAG, digests,
+ * exports — keeps working on `content` without knowing about templates.
+ *
+ * Served to the app by `GET /api/journal/templates`, so the copy lives here.
+ * A field with `assist: 'distortions'` can be filled from the
+ * `/api/journal/distortions` check run over its `assistFrom` fields.
+ */
+import type { JournalTemplateId } from '@/contracts/schemas';
+
+export interface JournalTemplateField {
+    id: string;
+    label: string;
+    prompt: string;
+    assist?: 'distortions';
+    assistFrom?: string[];
+}
+
+export interface JournalTemplate {
+    id: JournalTemplateId;
+    name: string;
+    description: string;
+    fields: JournalTemplateField[];
+}
+
+export const JOURNAL_TEMPLATES: Record<JournalTemplateId, JournalTemplate> = {
+    thought_record: {
+        id: 'thought_record',
+        name: 'Thought record',
+        description: 'Slow a difficult moment down and look at the thought underneath it (CBT).',
+        fields: [
+            { id: 'situation', label: 'Situation', prompt: 'What happened? Where were you, and who was there?' },
+            {
+                id: 'thought',
+                label: 'Automatic thought',
+                prompt: 'What went through your mind right then?',
+                assist: 'distortions',
+                assistFrom: ['situation', 'emotion'],
+            },
+            { id: 'emotion', label: 'Emotion', prompt: 'What did you feel, and how strongly (0–100)?' },
+            { id: 'evidence', label: 'Evidence', prompt: 'What supports the thought? What doesn’t quite fit it?' },
+            { id: 'reframe', label: 'Balanced thought', prompt: 'What is a fairer, kinder way to see it?' },
+        ],
+    },
+    worry_time: {
+        id: 'worry_time',
+        name: 'Worry time',
+        description: 'Give worries a set place on the page instead of carrying them all day.',
+        fields: [
+            { id: 'worry', label: 'The worry', prompt: 'What keeps coming back to you?' },
+            { id: 'control', label: 'In my control?', prompt: 'Which part of it, if any, can you actually do something about?' },
+            { id: 'next_step', label: 'Next step', prompt: 'One small step — or let it rest until your next worry time.' },
+        ],
+    },
+    three_good_things: {
+        id: 'three_good_things',
+        name: 'Three good things',
+        description: 'Three things that went well today, however small, and why.',
+        fields: [
+            { id: 'first', label: 'First good thing', prompt: 'What went well, and why do you think it did?' },
+            { id: 'second', label: 'Second good thing', prompt: 'Another one — small counts.' },
+            { id: 'third', label: 'Third good thing', prompt: 'And one more.' },
+        ],
+    },
+};
+
+export class JournalTemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JournalTemplateError';
+    }
+}
+
+/**
+ * Keep the template's own fields in its order, dropping empty answers.
+ * Throws on fields the template doesn't have, or when nothing is answered.
+ */
+export function cleanFields(templateId: JournalTemplateId, fields: Record<string, string>): Record<string, string> {
+    const template = JOURNAL_TEMPLATES[templateId];
+    const unknown = Object.keys(fields).filter((k) => !template.fields.some((f) => f.id === k));
+    if (unknown.length) throw new JournalTemplateError(`${template.name} has no field ${unknown.join(', ')}`);
+    const cleaned = Object.fromEntries(
+        template.fields.flatMap((f) => (fields[f.id]?.trim() ? [[f.id, fields[f.id].trim()]] : [])),
+    );
+    if (Object.keys(cleaned).length === 0) throw new JournalTemplateError('Answer at least one field');
+    return cleaned;
+}
+
+/** The entry text for a templated entry: each answer under its label. */
+export function renderTemplate(templateId: JournalTemplateId, fields: Record<string, string>): string {
+    return JOURNAL_TEMPLATES[templateId].fields
+        .filter((f) => fields[f.id])
+        .map((f) => `${f.label}\n${fields[f.id]}`)
+        .join('\n\n');
+}
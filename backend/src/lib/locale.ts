@@ -53,6 +53,90 @@ const LANGUAGE_BY_PREFIX: Record<string, string> = {
     ko: 'Korean',
 };
 
+/** Language codes (the `LANGUAGE_BY_PREFIX` keys) we can reply in. */
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGE_BY_PREFIX);
+
+/**
+ * Scripts that give the language away. Kana before Han (Japanese mixes both);
+ * Urdu is the Arabic script plus letters Arabic doesn't use.
+ */
+const SCRIPT_LANGUAGES: Array<[RegExp, string[]]> = [
+    [/[\u3040-\u30ff]/, ['ja']],
+    [/[\uac00-\ud7af\u1100-\u11ff]/, ['ko']],
+    [/[\u4e00-\u9fff]/, ['zh', 'ja']],
+    [/[\u0900-\u097f]/, ['hi']],
+    [/[\u0980-\u09ff]/, ['bn']],
+    [/[\u0b80-\u0bff]/, ['ta']],
+    [/[\u0679\u0688\u0691\u06ba\u06be\u06c1\u06d2]/, ['ur']],
+    [/[\u0600-\u06ff]/, ['ar', 'ur']],
+];
+
+/**
+ * Common short words per Latin-script language, without accents. `hi` is
+ * romanised Hindi, which is how much of it gets typed.
+ */
+const STOPWORDS: Record<string, string[]> = {
+    en: ['the', 'and', 'i', 'you', 'is', 'are', 'to', 'of', 'it', 'that', 'my', 'me', 'not', 'want', 'have', 'this', 'just', 'dont', 'cant', 'feel', 'im'],
+    fr: ['je', 'tu', 'le', 'la', 'les', 'et', 'est', 'pas', 'ne', 'mon', 'ma', 'suis', 'veux', 'plus', 'une', 'des', 'que', 'moi', 'cest', 'jai', 'envie'],
+    de: ['ich', 'du', 'und', 'der', 'die', 'das', 'nicht', 'ist', 'bin', 'mich', 'mir', 'will', 'mehr', 'ein', 'eine', 'zu', 'habe', 'kann', 'auch'],
+    es: ['yo', 'que', 'el', 'la', 'los', 'las', 'y', 'es', 'no', 'mi', 'me', 'quiero', 'estoy', 'una', 'por', 'con', 'para', 'nada', 'mas'],
+    it: ['io', 'che', 'il', 'la', 'e', 'non', 'sono', 'mi', 'voglio', 'piu', 'una', 'per', 'con', 'ho', 'cosa', 'anche', 'della'],
+    pt: ['eu', 'que', 'o', 'a', 'os', 'e', 'nao', 'meu', 'minha', 'quero', 'estou', 'uma', 'com', 'para', 'mais', 'voce', 'nada'],
+    nl: ['ik', 'je', 'het', 'de', 'een', 'en', 'niet', 'is', 'ben', 'mijn', 'wil', 'meer', 'dat', 'met', 'voor', 'van', 'zijn'],
+    sv: ['jag', 'du', 'och', 'det', 'att', 'inte', 'ar', 'en', 'ett', 'mig', 'vill', 'min', 'mitt', 'har', 'kan', 'med', 'leva'],
+    da: ['jeg', 'du', 'og', 'det', 'at', 'ikke', 'er', 'en', 'et', 'mig', 'vil', 'min', 'mit', 'har', 'kan', 'med', 'leve'],
+    no: ['jeg', 'du', 'og', 'det', 'at', 'ikke', 'er', 'en', 'et', 'meg', 'vil', 'min', 'mitt', 'har', 'kan', 'med', 'leve'],
+    fi: ['mina', 'sina', 'en', 'ei', 'on', 'ja', 'se', 'olen', 'haluan', 'enaa', 'ole', 'minun', 'mutta', 'kun', 'etta'],
+    pl: ['ja', 'nie', 'sie', 'jest', 'to', 'mnie', 'chce', 'juz', 'mam', 'moje', 'ze', 'tak', 'jestem', 'zyc'],
+    cs: ['ja', 'ne', 'se', 'je', 'to', 'me', 'chci', 'uz', 'mam', 'jsem', 'moje', 'ze', 'tak', 'zit'],
+    ro: ['eu', 'nu', 'sa', 'ma', 'este', 'mai', 'vreau', 'imi', 'si', 'sunt', 'de', 'la', 'cu', 'ce'],
+    tr: ['ben', 'sen', 'bir', 've', 'bu', 'degil', 'cok', 'istiyorum', 'artik', 'ne', 'icin', 'gibi', 'ama', 'yok', 'hic'],
+    hi: ['hai', 'nahi', 'nahin', 'mujhe', 'hoon', 'kya', 'aur', 'bahut', 'kuch', 'yaar', 'mera', 'meri', 'kyun', 'raha', 'rahi'],
+};
+
+/** Letters only some Latin-script languages use; each one present counts as a stopword. */
+const DISTINCT_LETTERS: Array<[RegExp, string[]]> = [
+    [/[łęąśźżćń]/, ['pl']],
+    [/[řůě]/, ['cs']],
+    [/[șțăî]/, ['ro']],
+    [/[ğış]/, ['tr']],
+    [/[ßü]/, ['de']],
+    [/[øæ]/, ['da', 'no']],
+    [/å/, ['sv', 'da', 'no']],
+    [/ñ/, ['es']],
+    [/[ãõ]/, ['pt']],
+    [/[èêœ]/, ['fr']],
+];
+
+/**
+ * The languages a message is probably written in, most likely first — a
+ * script check, then stopword and telltale-letter counts for Latin text. Close calls return every
+ * contender; nothing to go on returns `[]`. Good enough to pick keyword
+ * lexicons, not to tell the user what language they speak.
+ */
+export function detectLanguages(text: string): string[] {
+    for (const [script, languages] of SCRIPT_LANGUAGES) {
+        if (script.test(text)) return languages;
+    }
+    const lower = text.toLowerCase();
+    const letters = DISTINCT_LETTERS.flatMap(([letter, languages]) => (letter.test(lower) ? languages : []));
+    const words = text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f']/g, '')
+        .toLowerCase()
+        .split(/[^\p{L}]+/u);
+    const scores = Object.entries(STOPWORDS)
+        .map(([language, stopwords]) => ({
+            language,
+            score:
+                words.filter((w) => stopwords.includes(w)).length + letters.filter((l) => l === language).length,
+        }))
+        .filter((s) => s.score > 0)
+        .sort((a, b) => b.score - a.score);
+    const top = scores[0]?.score ?? 0;
+    return scores.filter((s) => s.score * 2 >= top).map((s) => s.language);
+}
+
 /**
  * Normalise a tag like "en-gb" → `{tag:"en-GB", language:"English", region:"GB"}`.
  * Unknown languages quietly fall through to English.
@@ -0,0 +1,70 @@
+/**
+ * Transactional email (verification, password reset) behind a tiny transport
+ * interface, so the provider is a deployment choice rather than a code change.
+ *
+ * Built-in transports, picked with `MAIL_TRANSPORT`:
+ *   - `console` — logs the message (default outside production)
+ *   - `file`    — writes one JSON file per message to `MAIL_FILE_DIR`
+ *                 (default `./tmp/mail`), for local testing and e2e scripts
+ *
+ * A real provider registers itself with `registerMailTransport()` at startup.
+ * Production has no default: without a configured transport `sendMail` throws
+ * rather than printing reset links into the logs.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from '@/lib/logger';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export interface MailTransport {
+    send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export class MailerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MailerError';
+    }
+}
+
+const consoleTransport: MailTransport = {
+    async send(message) {
+        logger.info({ mail: message }, 'mail.console');
+    },
+};
+
+const fileTransport: MailTransport = {
+    async send(message) {
+        const dir = process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'mail');
+        await fs.mkdir(dir, { recursive: true });
+        const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(3).toString('hex')}.json`;
+        await fs.writeFile(path.join(dir, name), JSON.stringify(message, null, 2));
+    },
+};
+
+const transports = new Map<string, MailTransport>([
+    ['console', consoleTransport],
+    ['file', fileTransport],
+]);
+
+export function registerMailTransport(name: string, transport: MailTransport): void {
+    transports.set(name, transport);
+}
+
+function activeTransport(): MailTransport | null {
+    const name = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? '' : 'console');
+    return transports.get(name) ?? null;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+    const transport = activeTransport();
+    if (!transport) throw new MailerError(`No mail transport configured (MAIL_TRANSPORT=${process.env.MAIL_TRANSPORT ?? ''})`);
+    const from = process.env.MAIL_FROM || 'Silent Help <no-reply@silent.help>';
+    await transport.send({ ...message, from });
+}
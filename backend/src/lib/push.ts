@@ -0,0 +1,126 @@
+/**
+ * Web Push (VAPID) — encrypt a payload to one browser subscription and POST it
+ * to the vendor's push service.
+ *
+ * `web-push` only builds the request (aes128gcm body + VAPID headers); we send
+ * it with `fetch` ourselves so the same path works against real push services
+ * and the local stub (`npm run push:stub`, plain http on localhost).
+ *
+ * Payloads are end-to-end encrypted to the device, but still keep them short
+ * and free of journal/chat content — they can surface on a lock screen.
+ */
+import webpush from 'web-push';
+
+export interface PushTarget {
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+}
+
+export interface PushPayload {
+    title: string;
+    body: string;
+    /** Same-origin path the notification opens, e.g. `/journal`. */
+    url: string;
+    /** Notifications with the same tag replace each other on the device. */
+    tag?: string;
+}
+
+/** `gone` = the subscription no longer exists and should be deleted. */
+export type PushResult = 'sent' | 'gone';
+
+/**
+ * `retryable` is false for failures another attempt can't fix: missing VAPID
+ * config, or a 4xx other than 429 (e.g. 401/403 once the VAPID keys changed,
+ * which leaves the subscription unusable).
+ */
+export class PushError extends Error {
+    constructor(
+        message: string,
+        readonly statusCode: number | null,
+        readonly retryable = true,
+    ) {
+        super(message);
+        this.name = 'PushError';
+    }
+}
+
+// Hosts of the browser vendors' push services. Subscriptions to anything else
+// are rejected so the push endpoint can't be used to make us call arbitrary URLs.
+const DEFAULT_PUSH_HOSTS = [
+    'fcm.googleapis.com',
+    'updates.push.services.mozilla.com',
+    'web.push.apple.com',
+    '.notify.windows.com',
+];
+
+function vapid() {
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) return null;
+    return { subject: process.env.VAPID_SUBJECT || 'mailto:privacy@silent.help', publicKey, privateKey };
+}
+
+export function isPushConfigured(): boolean {
+    return vapid() !== null;
+}
+
+export function getVapidPublicKey(): string | null {
+    return vapid()?.publicKey ?? null;
+}
+
+/**
+ * Whether we're willing to deliver to this endpoint: https on a known push
+ * service (extend with `PUSH_ENDPOINT_HOSTS`), or http://localhost outside
+ * production for the local stub.
+ */
+export function isAllowedPushEndpoint(endpoint: string): boolean {
+    let url: URL;
+    try {
+        url = new URL(endpoint);
+    } catch {
+        return false;
+    }
+    const isLocal = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+    if (isLocal) return process.env.NODE_ENV !== 'production';
+    if (url.protocol !== 'https:') return false;
+
+    const extra = (process.env.PUSH_ENDPOINT_HOSTS || '').split(',').map((h) => h.trim()).filter(Boolean);
+    return [...DEFAULT_PUSH_HOSTS, ...extra].some((h) =>
+        h.startsWith('.') ? url.hostname.endsWith(h) : url.hostname === h,
+    );
+}
+
+/**
+ * Deliver one notification. Resolves `gone` on 404/410 so the caller can drop
+ * the subscription; throws `PushError` otherwise (see `retryable`).
+ */
+export async function sendPush(target: PushTarget, payload: PushPayload, ttlSeconds = 4 * 60 * 60): Promise<PushResult> {
+    const details = vapid();
+    if (!details) throw new PushError('Web Push is not configured (VAPID keys missing)', null, false);
+
+    const request = webpush.generateRequestDetails(
+        { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+        JSON.stringify(payload),
+        { vapidDetails: details, TTL: ttlSeconds, contentEncoding: 'aes128gcm', urgency: 'normal' },
+    );
+
+    let res: Response;
+    try {
+        res = await fetch(request.endpoint, {
+            method: request.method,
+            headers: request.headers as Record<string, string>,
+            body: request.body ? new Uint8Array(request.body) : undefined,
+            signal: AbortSignal.timeout(10_000),
+        });
+    } catch (e) {
+        throw new PushError(`push request failed: ${String(e)}`, null);
+    }
+
+    if (res.status === 404 || res.status === 410) return 'gone';
+    if (!res.ok) {
+        const retryable = res.status === 429 || res.status >= 500;
+        throw new PushError(`push service answered ${res.status}`, res.status, retryable);
+    }
+    return 'sent';
+}
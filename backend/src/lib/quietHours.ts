@@ -0,0 +1,56 @@
+/**
+ * Quiet hours — a per-user local-time window during which reminders are held
+ * back rather than pushed. Stored as minutes after local midnight; a window
+ * whose start is after its end wraps midnight (22:00 → 07:00).
+ */
+
+export interface QuietHours {
+    start: number; // minutes after local midnight, 0-1439
+    end: number;
+}
+
+export function parseClock(hhmm: string): number | null {
+    const m = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(hhmm);
+    return m ? Number(m[1]) * 60 + Number(m[2]) : null;
+}
+
+export function formatClock(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function isValidTimeZone(tz: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-GB', { timeZone: tz });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** Minutes after local midnight for `now` in `timeZone`. */
+export function localMinutes(now: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23',
+        timeZone,
+    }).formatToParts(now);
+    const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+    return get('hour') * 60 + get('minute');
+}
+
+/**
+ * If `now` falls inside quiet hours, the instant they end; otherwise null.
+ * Assumes no DST jump inside the window — at worst a reminder lands an hour
+ * early or late on the two changeover nights.
+ */
+export function quietHoursEndAt(now: Date, quiet: QuietHours | null, timeZone = 'UTC'): Date | null {
+    if (!quiet || quiet.start === quiet.end) return null;
+    const t = localMinutes(now, timeZone);
+    const inside = quiet.start < quiet.end ? t >= quiet.start && t < quiet.end : t >= quiet.start || t < quiet.end;
+    if (!inside) return null;
+    const minutesLeft = (quiet.end - t + 1440) % 1440;
+    const end = new Date(now.getTime() + minutesLeft * 60_000);
+    end.setUTCSeconds(0, 0);
+    return end;
+}
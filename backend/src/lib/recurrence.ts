@@ -0,0 +1,217 @@
+/**
+ * Recurring reminder schedules — a small, RRULE-compatible subset.
+ *
+ *   FREQ=DAILY|WEEKLY;INTERVAL=n;BYDAY=MO,TU,…;BYHOUR=h;BYMINUTE=m;UNTIL=yyyymmddThhmmssZ
+ *
+ * BYHOUR/BYMINUTE are wall-clock time in the user's timezone, so "every
+ * weekday at 21:00" stays at 21:00 across DST changes. The rule is stored as
+ * the RRULE string on `Reminder.rrule`; the API speaks `RecurrenceInput`.
+ *
+ * A reminder row is one series: after each delivery (or skip) `dueAt` moves to
+ * the next occurrence. Stepping is relative to the previous occurrence — for
+ * weekly rules, by calendar week (Monday-start) — so no separate DTSTART is
+ * needed as long as `dueAt` itself is only ever moved along the series.
+ */
+import { formatClock, localMinutes } from '@/lib/quietHours';
+
+export const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+export type Frequency = 'daily' | 'weekly';
+
+export interface Recurrence {
+    freq: Frequency;
+    interval: number;
+    /** Days the rule fires on; empty (daily only) = every day. */
+    byDay: Weekday[];
+    /** Local wall-clock time, minutes after midnight. */
+    time: number;
+    until: Date | null;
+}
+
+/** API shape of a rule (`time` as HH:MM). */
+export interface RecurrenceInput {
+    freq: Frequency;
+    interval?: number;
+    byDay?: Weekday[];
+    until?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Enough to step over the longest gap a valid rule can produce (INTERVAL ≤ 52 weeks).
+const MAX_SCAN_DAYS = 7 * 53;
+const MAX_CATCH_UP = 5000;
+export const MAX_INTERVAL = 52;
+
+// ── Rule string ───────────────────────────────────────────────────────────
+
+function formatUntil(d: Date): string {
+    return d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function parseUntil(s: string): Date | null {
+    const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(s);
+    if (!m) return null;
+    const [, y, mo, d, h = '23', mi = '59', se = '59'] = m;
+    return new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +se));
+}
+
+export function formatRRule(r: Recurrence): string {
+    const parts = [`FREQ=${r.freq.toUpperCase()}`, `INTERVAL=${r.interval}`];
+    if (r.byDay.length) parts.push(`BYDAY=${r.byDay.join(',')}`);
+    parts.push(`BYHOUR=${Math.floor(r.time / 60)}`, `BYMINUTE=${r.time % 60}`);
+    if (r.until) parts.push(`UNTIL=${formatUntil(r.until)}`);
+    return parts.join(';');
+}
+
+/** Parse a stored rule; null for anything outside the supported subset. */
+export function parseRRule(rule: string): Recurrence | null {
+    const fields = new Map<string, string>();
+    for (const part of rule.split(';')) {
+        const [k, v] = part.split('=');
+        if (k && v !== undefined) fields.set(k.toUpperCase(), v);
+    }
+    const freq = fields.get('FREQ')?.toLowerCase();
+    if (freq !== 'daily' && freq !== 'weekly') return null;
+
+    const interval = Number(fields.get('INTERVAL') ?? 1);
+    const hour = Number(fields.get('BYHOUR') ?? 0);
+    const minute = Number(fields.get('BYMINUTE') ?? 0);
+    if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) return null;
+    if (!Number.isInteger(hour) || hour < 0 || hour > 23 || !Number.isInteger(minute) || minute < 0 || minute > 59) {
+        return null;
+    }
+
+    const byDay = (fields.get('BYDAY') ?? '').split(',').filter(Boolean) as Weekday[];
+    if (byDay.some((d) => !WEEKDAYS.includes(d))) return null;
+
+    const untilRaw = fields.get('UNTIL');
+    const until = untilRaw ? parseUntil(untilRaw) : null;
+    if (untilRaw && !until) return null;
+
+    return { freq, interval, byDay: sortDays(byDay), time: hour * 60 + minute, until };
+}
+
+function sortDays(days: Weekday[]): Weekday[] {
+    return [...new Set(days)].sort((a, b) => WEEKDAYS.indexOf(a) - WEEKDAYS.indexOf(b));
+}
+
+/**
+ * Build a rule from API input. The time of day — and for a weekly rule with
+ * no days, the weekday — are taken from the first occurrence.
+ */
+export function fromInput(input: RecurrenceInput, firstDueAt: Date, timeZone: string): Recurrence {
+    const byDay = sortDays(input.byDay ?? []);
+    if (input.freq === 'weekly' && byDay.length === 0) byDay.push(weekdayOf(localDate(firstDueAt, timeZone)));
+    return {
+        freq: input.freq,
+        interval: input.interval ?? 1,
+        byDay,
+        time: localMinutes(firstDueAt, timeZone),
+        until: input.until ? new Date(input.until) : null,
+    };
+}
+
+export function toInput(r: Recurrence): RecurrenceInput & { time: string } {
+    return {
+        freq: r.freq,
+        interval: r.interval,
+        byDay: r.byDay,
+        time: formatClock(r.time),
+        until: r.until ? r.until.toISOString() : null,
+    };
+}
+
+// ── Local calendar arithmetic ─────────────────────────────────────────────
+// A local calendar date is carried as the UTC-midnight timestamp of that date.
+
+function localDate(instant: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        timeZone,
+    }).formatToParts(instant);
+    const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+    return Date.UTC(get('year'), get('month') - 1, get('day'));
+}
+
+/** Minutes `timeZone` is ahead of UTC at `instant`. */
+function offsetMinutes(instant: number, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23',
+        timeZone,
+    }).formatToParts(new Date(instant));
+    const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+    return Math.round((asUtc - Math.floor(instant / 60_000) * 60_000) / 60_000);
+}
+
+/**
+ * The instant a local wall-clock time occurs. Times that don't exist (spring
+ * forward) land just after the gap; ambiguous ones (fall back) take the first.
+ */
+function zonedTime(date: number, minutes: number, timeZone: string): Date {
+    const wall = date + minutes * 60_000;
+    const before = offsetMinutes(wall - DAY_MS, timeZone);
+    const after = offsetMinutes(wall + DAY_MS, timeZone);
+    const candidates = [wall - before * 60_000, wall - after * 60_000].filter(
+        (c) => c + offsetMinutes(c, timeZone) * 60_000 === wall,
+    );
+    return new Date(candidates.length ? Math.min(...candidates) : wall - before * 60_000);
+}
+
+const weekdayOf = (date: number): Weekday => WEEKDAYS[(new Date(date).getUTCDay() + 6) % 7];
+const weekStart = (date: number) => date - WEEKDAYS.indexOf(weekdayOf(date)) * DAY_MS;
+
+function matches(r: Recurrence, anchor: number, date: number): boolean {
+    if (r.freq === 'daily') {
+        const days = Math.round((date - anchor) / DAY_MS);
+        return days % r.interval === 0 && (r.byDay.length === 0 || r.byDay.includes(weekdayOf(date)));
+    }
+    const weeks = Math.round((weekStart(date) - weekStart(anchor)) / (7 * DAY_MS));
+    const days = r.byDay.length ? r.byDay : [weekdayOf(anchor)];
+    return weeks % r.interval === 0 && days.includes(weekdayOf(date));
+}
+
+// ── Occurrences ───────────────────────────────────────────────────────────
+
+/** The occurrence directly after `previous`, or null once past `until`. */
+function step(r: Recurrence, previous: Date, timeZone: string): Date | null {
+    const anchor = localDate(previous, timeZone);
+    for (let date = anchor + DAY_MS; date <= anchor + MAX_SCAN_DAYS * DAY_MS; date += DAY_MS) {
+        if (!matches(r, anchor, date)) continue;
+        const at = zonedTime(date, r.time, timeZone);
+        if (at <= previous) continue;
+        return r.until && at > r.until ? null : at;
+    }
+    return null;
+}
+
+/**
+ * The next occurrence after `previous`, skipping any that are not after
+ * `notBefore` (missed while the worker was down). Null once the series ends.
+ */
+export function nextOccurrence(r: Recurrence, previous: Date, timeZone: string, notBefore = previous): Date | null {
+    let at: Date | null = previous;
+    for (let i = 0; at && i < MAX_CATCH_UP; i++) {
+        at = step(r, at, timeZone);
+        if (at && at > notBefore) return at;
+    }
+    return null;
+}
+
+/**
+ * The first occurrence at or after `from`: `from`'s own local day if it fits
+ * the rule and the rule's time hasn't passed, otherwise the next one.
+ */
+export function firstOccurrence(r: Recurrence, from: Date, timeZone: string): Date | null {
+    const day = localDate(from, timeZone);
+    const at = zonedTime(day, r.time, timeZone);
+    if (matches(r, day, day) && at >= from) return r.until && at > r.until ? null : at;
+    return nextOccurrence(r, from, timeZone);
+}
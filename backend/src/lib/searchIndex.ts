@@ -0,0 +1,111 @@
+/**
+ * Blind keyword index for encrypted text — the keyword half of journal search.
+ *
+ * Journal content is encrypted, so Postgres full-text search can't read it.
+ * Instead each entry stores `search_tokens`: its distinct normalised words,
+ * each HMAC'd with a per-user key derived from the encryption key ring and
+ * truncated to 96 bits. A query is tokenised the same way and matched with
+ * array overlap on a GIN index. The database learns which of a user's
+ * entries share a word and how many distinct words each has, never the words.
+ *
+ * With encryption off the content is stored in plaintext anyway, so tokens
+ * are an unkeyed per-user SHA-256.
+ *
+ * Words are normalised by stripping accents, lower-casing and dropping a
+ * plural "s"; common English stopwords aren't indexed.
+ */
+import crypto from 'crypto';
+import { blindIndexKeys } from '@/lib/encryption';
+
+/** Distinct terms indexed per entry; content is capped at 8000 chars anyway. */
+const MAX_TOKENS = 1500;
+
+const STOPWORDS = new Set(
+    (
+        'a an and are as at be been but by can could did do does for from had has have he her him his how i if in ' +
+        'into is it its just me my no not of on or our she so than that the their them then there they this to ' +
+        'too up us was we were what when where which who why will with would you your im ive dont'
+    ).split(' '),
+);
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/** The index form of one word, or null if it isn't worth indexing. */
+function normalise(word: string): string | null {
+    let w = word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+    if (w.length < 2 || STOPWORDS.has(w)) return null;
+    if (w.length > 3 && w.endsWith('s') && !w.endsWith('ss')) w = w.slice(0, -1);
+    return w;
+}
+
+/** Distinct index terms of `text`, in order of first appearance. */
+export function searchTerms(text: string): string[] {
+    const terms = new Set<string>();
+    for (const [word] of text.matchAll(WORD)) {
+        const term = normalise(word);
+        if (term) terms.add(term);
+    }
+    return [...terms];
+}
+
+function token(key: Buffer | null, userId: string, term: string): string {
+    const h = key
+        ? crypto.createHmac('sha256', key).update(term)
+        : crypto.createHash('sha256').update(`${userId}\u0000${term}`);
+    return h.digest().subarray(0, 12).toString('base64url');
+}
+
+/** Tokens to store for an entry's plaintext (primary key only). */
+export function indexTokens(userId: string, text: string): string[] {
+    const [primary = null] = blindIndexKeys(userId);
+    return searchTerms(text)
+        .slice(0, MAX_TOKENS)
+        .map((t) => token(primary, userId, t));
+}
+
+/** Every token `term` may have been stored as — one per configured key. */
+export function queryTokens(userId: string, term: string): string[] {
+    const keys = blindIndexKeys(userId);
+    return keys.length ? keys.map((k) => token(k, userId, term)) : [token(null, userId, term)];
+}
+
+export interface Snippet {
+    text: string;
+    /** [start, end) character ranges in `text` that matched a query term. */
+    highlights: Array<[number, number]>;
+}
+
+/**
+ * A window of `text` around the first word matching `terms` (or its start),
+ * cut at word boundaries, with every matching word marked.
+ */
+export function snippet(text: string, terms: string[], width = 200): Snippet {
+    const wanted = new Set(terms);
+    const matches: Array<[number, number]> = [];
+    for (const m of text.matchAll(WORD)) {
+        const term = normalise(m[0]);
+        if (term && wanted.has(term)) matches.push([m.index, m.index + m[0].length]);
+    }
+
+    let start = 0;
+    if (matches.length && text.length > width) {
+        start = Math.max(0, Math.min(matches[0][0] - Math.floor(width / 3), text.length - width));
+        const space = text.lastIndexOf(' ', start);
+        start = space > 0 && start - space < 20 ? space + 1 : start;
+    }
+    let end = Math.min(text.length, start + width);
+    if (end < text.length) {
+        const space = text.lastIndexOf(' ', end);
+        if (space > start + width / 2) end = space;
+    }
+
+    const lead = start > 0 ? '…' : '';
+    const body = text.slice(start, end).replace(/\s+/g, ' ');
+    // Collapsing whitespace shifts offsets, so re-find matches in the window.
+    const highlights: Array<[number, number]> = [];
+    for (const m of body.matchAll(WORD)) {
+        const term = normalise(m[0]);
+        if (term && wanted.has(term)) highlights.push([lead.length + m.index, lead.length + m.index + m[0].length]);
+    }
+    return { text: lead + body + (end < text.length ? '…' : ''), highlights };
+}
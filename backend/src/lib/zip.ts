@@ -0,0 +1,240 @@
+/**
+ * Streaming ZIP writer (PKWARE APPNOTE 6.3, deflate, no ZIP64) — enough for
+ * data exports without buffering the archive or pulling in a dependency —
+ * and a small in-memory reader for importing them again.
+ *
+ * Entries are written one at a time from an async source. Sizes and CRC go in
+ * a data descriptor after each entry's data, so nothing has to be known up
+ * front; the central directory is written by `finish()`.
+ *
+ * Each entry's uncompressed SHA-256 is returned so callers can publish
+ * checksums (e.g. in a manifest) alongside the archive.
+ */
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { once } from 'events';
+
+export class ZipError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ZipError';
+    }
+}
+
+export interface ZipEntryInfo {
+    path: string;
+    /** Uncompressed size in bytes. */
+    bytes: number;
+    /** Hex SHA-256 of the uncompressed content. */
+    sha256: string;
+}
+
+export interface ZipWriter {
+    addEntry(path: string, source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>): Promise<ZipEntryInfo>;
+    finish(): Promise<void>;
+}
+
+const LIMIT = 0xffffffff;
+// bit 3: sizes in data descriptor; bit 11: UTF-8 names
+const FLAGS = 0x0808;
+const DEFLATE = 8;
+const VERSION = 20;
+
+interface CentralRecord {
+    name: Buffer;
+    crc: number;
+    compressed: number;
+    size: number;
+    offset: number;
+}
+
+function dosDateTime(d: Date): { time: number; date: number } {
+    return {
+        time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+        date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    };
+}
+
+/** Write a ZIP archive to `sink`, which should resolve once it can take more. */
+export function createZipWriter(sink: (chunk: Uint8Array) => Promise<void>, modified = new Date()): ZipWriter {
+    const records: CentralRecord[] = [];
+    const { time, date } = dosDateTime(modified);
+    let offset = 0;
+    let busy = false;
+
+    const write = async (chunk: Buffer) => {
+        offset += chunk.length;
+        if (offset > LIMIT) throw new ZipError('Archive larger than 4 GiB');
+        await sink(chunk);
+    };
+
+    async function addEntry(
+        path: string,
+        source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+    ): Promise<ZipEntryInfo> {
+        if (busy) throw new ZipError('Entries must be added one at a time');
+        if (records.length >= 0xffff) throw new ZipError('Too many entries');
+        busy = true;
+        try {
+            const name = Buffer.from(path, 'utf8');
+            const start = offset;
+
+            const header = Buffer.alloc(30);
+            header.writeUInt32LE(0x04034b50, 0);
+            header.writeUInt16LE(VERSION, 4);
+            header.writeUInt16LE(FLAGS, 6);
+            header.writeUInt16LE(DEFLATE, 8);
+            header.writeUInt16LE(time, 10);
+            header.writeUInt16LE(date, 12);
+            // crc, sizes: zero here, given in the data descriptor
+            header.writeUInt16LE(name.length, 26);
+            await write(Buffer.concat([header, name]));
+
+            const deflate = zlib.createDeflateRaw();
+            let compressed = 0;
+            const pump = (async () => {
+                for await (const chunk of deflate as AsyncIterable<Buffer>) {
+                    compressed += chunk.length;
+                    await write(chunk);
+                }
+            })();
+
+            const hash = crypto.createHash('sha256');
+            let crc = 0;
+            let size = 0;
+            try {
+                for await (const part of source) {
+                    const buf = typeof part === 'string' ? Buffer.from(part, 'utf8') : Buffer.from(part);
+                    if (buf.length === 0) continue;
+                    crc = zlib.crc32(buf, crc);
+                    size += buf.length;
+                    if (size > LIMIT) throw new ZipError(`Entry ${path} larger than 4 GiB`);
+                    hash.update(buf);
+                    if (!deflate.write(buf)) await once(deflate, 'drain');
+                }
+            } catch (e) {
+                deflate.destroy();
+                await pump.catch(() => undefined);
+                throw e;
+            }
+            deflate.end();
+            await pump;
+
+            const descriptor = Buffer.alloc(16);
+            descriptor.writeUInt32LE(0x08074b50, 0);
+            descriptor.writeUInt32LE(crc >>> 0, 4);
+            descriptor.writeUInt32LE(compressed, 8);
+            descriptor.writeUInt32LE(size, 12);
+            await write(descriptor);
+
+            records.push({ name, crc: crc >>> 0, compressed, size, offset: start });
+            return { path, bytes: size, sha256: hash.digest('hex') };
+        } finally {
+            busy = false;
+        }
+    }
+
+    async function finish(): Promise<void> {
+        const start = offset;
+        for (const r of records) {
+            const entry = Buffer.alloc(46);
+            entry.writeUInt32LE(0x02014b50, 0);
+            entry.writeUInt16LE(VERSION, 4); // made by
+            entry.writeUInt16LE(VERSION, 6); // needed
+            entry.writeUInt16LE(FLAGS, 8);
+            entry.writeUInt16LE(DEFLATE, 10);
+            entry.writeUInt16LE(time, 12);
+            entry.writeUInt16LE(date, 14);
+            entry.writeUInt32LE(r.crc, 16);
+            entry.writeUInt32LE(r.compressed, 20);
+            entry.writeUInt32LE(r.size, 24);
+            entry.writeUInt16LE(r.name.length, 28);
+            entry.writeUInt32LE(r.offset, 42);
+            await write(Buffer.concat([entry, r.name]));
+        }
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054b50, 0);
+        end.writeUInt16LE(records.length, 8);
+        end.writeUInt16LE(records.length, 10);
+        end.writeUInt32LE(offset - start, 12);
+        end.writeUInt32LE(start, 16);
+        await write(end);
+    }
+
+    return { addEntry, finish };
+}
+
+// ── Reading ───────────────────────────────────────────────────────────────
+
+const STORED = 0;
+
+export interface ZipReadLimits {
+    maxEntries: number;
+    /** Total uncompressed bytes across all entries. */
+    maxBytes: number;
+}
+
+/**
+ * Read every file in an archive into memory, keyed by path. Meant for
+ * uploads we wrote ourselves: stored or deflated entries, no ZIP64, no
+ * encryption. Sizes come from the central directory and are enforced while
+ * inflating, and each entry's CRC is checked, so a zip bomb or a damaged
+ * upload throws `ZipError` rather than exhausting memory.
+ */
+export function readZip(archive: Buffer, limits: ZipReadLimits): Map<string, Buffer> {
+    // End of central directory: last 22 bytes plus an optional comment.
+    let eocd = -1;
+    for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+        if (archive.readUInt32LE(i) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new ZipError('Not a ZIP archive');
+
+    const count = archive.readUInt16LE(eocd + 10);
+    let at = archive.readUInt32LE(eocd + 16);
+    if (count > limits.maxEntries) throw new ZipError('Too many entries');
+
+    const files = new Map<string, Buffer>();
+    let total = 0;
+    for (let n = 0; n < count; n++) {
+        if (at + 46 > archive.length || archive.readUInt32LE(at) !== 0x02014b50) {
+            throw new ZipError('Corrupt central directory');
+        }
+        const flags = archive.readUInt16LE(at + 8);
+        const method = archive.readUInt16LE(at + 10);
+        const crc = archive.readUInt32LE(at + 16);
+        const compressed = archive.readUInt32LE(at + 20);
+        const size = archive.readUInt32LE(at + 24);
+        const nameLen = archive.readUInt16LE(at + 28);
+        const extraLen = archive.readUInt16LE(at + 30);
+        const commentLen = archive.readUInt16LE(at + 32);
+        const local = archive.readUInt32LE(at + 42);
+        const path = archive.subarray(at + 46, at + 46 + nameLen).toString('utf8');
+        at += 46 + nameLen + extraLen + commentLen;
+
+        if (path.endsWith('/')) continue;
+        if (flags & 0x0001) throw new ZipError(`Entry ${path} is encrypted`);
+        if (method !== STORED && method !== DEFLATE) throw new ZipError(`Entry ${path} uses an unsupported method`);
+        total += size;
+        if (total > limits.maxBytes) throw new ZipError('Archive too large when uncompressed');
+
+        if (local + 30 > archive.length || archive.readUInt32LE(local) !== 0x04034b50) {
+            throw new ZipError(`Corrupt local header for ${path}`);
+        }
+        const start = local + 30 + archive.readUInt16LE(local + 26) + archive.readUInt16LE(local + 28);
+        if (start + compressed > archive.length) throw new ZipError(`Entry ${path} is truncated`);
+        const raw = archive.subarray(start, start + compressed);
+
+        let data: Buffer;
+        try {
+            data = method === STORED ? Buffer.from(raw) : zlib.inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+        } catch {
+            throw new ZipError(`Entry ${path} could not be inflated`);
+        }
+        if (data.length !== size || zlib.crc32(data) >>> 0 !== crc) throw new ZipError(`Entry ${path} failed its CRC check`);
+        files.set(path, data);
+    }
+    return files;
+}
@@ -0,0 +1,222 @@
+/**
+ * Sessions and one-time tokens for first-party auth (email/password + guest).
+ *
+ * Sessions: every sign-in creates an `AuthSession`. The client holds a
+ * 15-minute access JWT (carrying the session id) and an opaque refresh token.
+ * Each refresh rotates the refresh token; presenting an already-rotated token
+ * again revokes the whole session, since only a copy could still have it.
+ *
+ * One-time tokens: email verification and password reset links carry a random
+ * token whose SHA-256 is stored in `AuthToken`. They expire, and are consumed
+ * atomically so a link works exactly once.
+ */
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { ACCESS_TOKEN_TTL_SECONDS, signToken } from '@/lib/auth';
+import { sha256 } from '@/lib/encryption';
+import { audit } from '@/lib/audit';
+import { sendMail } from '@/lib/mailer';
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Two tabs refreshing at once both present the same token; the loser gets a
+// plain 401 (and re-reads storage) instead of tripping reuse detection.
+const ROTATION_GRACE_MS = 30_000;
+
+export type OneTimePurpose = 'email_verify' | 'password_reset';
+
+const ONE_TIME_TTL_MS: Record<OneTimePurpose, number> = {
+    email_verify: 24 * 60 * 60 * 1000,
+    password_reset: 30 * 60 * 1000,
+};
+
+export interface SessionTokens {
+    token: string;
+    refreshToken: string;
+    /** Access token lifetime, seconds. */
+    expiresIn: number;
+}
+
+const newSecret = () => crypto.randomBytes(32).toString('base64url');
+
+function userAgentOf(req?: NextRequest): string | null {
+    return req?.headers.get('user-agent')?.slice(0, 500) ?? null;
+}
+
+// ── Sessions ──────────────────────────────────────────────────────────────
+
+// Sign-ins and refreshes count as activity (guests expire without it).
+function touchUser(userId: string, now: Date) {
+    return prisma.user.update({ where: { id: userId }, data: { lastActiveAt: now } });
+}
+
+export async function startSession(user: { id: string; email: string }, req?: NextRequest): Promise<SessionTokens> {
+    const refreshToken = newSecret();
+    const now = new Date();
+    const [session] = await prisma.$transaction([
+        prisma.authSession.create({
+            data: {
+                userId: user.id,
+                refreshTokenHash: sha256(refreshToken),
+                userAgent: userAgentOf(req),
+                expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+            },
+        }),
+        touchUser(user.id, now),
+    ]);
+    return {
+        token: signToken({ userId: user.id, email: user.email, sid: session.id }),
+        refreshToken,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+}
+
+/**
+ * Exchange a refresh token for a new access + refresh pair. Null when the
+ * token is unknown, expired, revoked, or was already rotated.
+ */
+export async function rotateRefreshToken(refreshToken: string, req?: NextRequest): Promise<SessionTokens | null> {
+    const hash = sha256(refreshToken);
+    const now = new Date();
+
+    const session = await prisma.authSession.findUnique({
+        where: { refreshTokenHash: hash },
+        include: { user: { select: { email: true, deletedAt: true } } },
+    });
+
+    if (!session) {
+        const replayed = await prisma.authSession.findUnique({ where: { previousTokenHash: hash } });
+        if (replayed && !replayed.revokedAt && now.getTime() - replayed.lastUsedAt.getTime() > ROTATION_GRACE_MS) {
+            await prisma.authSession.update({ where: { id: replayed.id }, data: { revokedAt: now } });
+            await audit({
+                req,
+                userId: replayed.userId,
+                action: 'auth.refresh_reuse',
+                resource: `session:${replayed.id}`,
+            });
+        }
+        return null;
+    }
+    if (session.revokedAt || session.expiresAt <= now || session.user.deletedAt) return null;
+
+    const next = newSecret();
+    const rotated = await prisma.authSession.updateMany({
+        where: { id: session.id, refreshTokenHash: hash, revokedAt: null },
+        data: {
+            refreshTokenHash: sha256(next),
+            previousTokenHash: hash,
+            lastUsedAt: now,
+            expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+            userAgent: userAgentOf(req) ?? session.userAgent,
+        },
+    });
+    if (rotated.count === 0) return null;
+    await touchUser(session.userId, now);
+
+    return {
+        token: signToken({ userId: session.userId, email: session.user.email, sid: session.id }),
+        refreshToken: next,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+}
+
+export async function findSessionIdByRefreshToken(refreshToken: string): Promise<{ id: string; userId: string } | null> {
+    return prisma.authSession.findUnique({
+        where: { refreshTokenHash: sha256(refreshToken) },
+        select: { id: true, userId: true },
+    });
+}
+
+/** Revoke one session. True if it was live. */
+export async function revokeSession(sessionId: string): Promise<boolean> {
+    const r = await prisma.authSession.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt: new Date() },
+    });
+    return r.count > 0;
+}
+
+/** Revoke every live session of a user ("sign out all devices"). */
+export async function revokeAllSessions(userId: string): Promise<number> {
+    const r = await prisma.authSession.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+    });
+    return r.count;
+}
+
+// ── One-time tokens ───────────────────────────────────────────────────────
+
+/** Issue a fresh token, invalidating any earlier unused one for the same purpose. */
+export async function issueOneTimeToken(userId: string, purpose: OneTimePurpose): Promise<string> {
+    const token = newSecret();
+    const now = new Date();
+    await prisma.$transaction([
+        prisma.authToken.updateMany({
+            where: { userId, purpose, usedAt: null },
+            data: { usedAt: now },
+        }),
+        prisma.authToken.create({
+            data: {
+                userId,
+                purpose,
+                tokenHash: sha256(token),
+                expiresAt: new Date(now.getTime() + ONE_TIME_TTL_MS[purpose]),
+            },
+        }),
+    ]);
+    return token;
+}
+
+/** Consume a token. Returns its user id, or null if invalid, expired or already used. */
+export async function consumeOneTimeToken(token: string, purpose: OneTimePurpose): Promise<string | null> {
+    const tokenHash = sha256(token);
+    const now = new Date();
+    const claimed = await prisma.authToken.updateMany({
+        where: { tokenHash, purpose, usedAt: null, expiresAt: { gt: now } },
+        data: { usedAt: now },
+    });
+    if (claimed.count === 0) return null;
+    const row = await prisma.authToken.findUnique({ where: { tokenHash }, select: { userId: true } });
+    return row?.userId ?? null;
+}
+
+// ── Emails ────────────────────────────────────────────────────────────────
+
+function appUrl(pathname: string, token: string): string {
+    const base = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+    return `${base}${pathname}?token=${encodeURIComponent(token)}`;
+}
+
+export async function sendVerificationEmail(user: { id: string; email: string; name: string }): Promise<void> {
+    const token = await issueOneTimeToken(user.id, 'email_verify');
+    await sendMail({
+        to: user.email,
+        subject: 'Confirm your email for Silent Help',
+        text: [
+            `Hi ${user.name},`,
+            '',
+            'Please confirm this is your email address:',
+            appUrl('/auth/verify-email', token),
+            '',
+            'The link works once and expires in 24 hours. If you didn’t create an account, you can ignore this email.',
+        ].join('\n'),
+    });
+}
+
+export async function sendPasswordResetEmail(user: { id: string; email: string; name: string }): Promise<void> {
+    const token = await issueOneTimeToken(user.id, 'password_reset');
+    await sendMail({
+        to: user.email,
+        subject: 'Reset your Silent Help password',
+        text: [
+            `Hi ${user.name},`,
+            '',
+            'Someone (hopefully you) asked to reset your password. Choose a new one here:',
+            appUrl('/auth/reset-password', token),
+            '',
+            'The link works once and expires in 30 minutes. Resetting signs you out on every device.',
+            'If you didn’t ask for this, you can ignore this email — your password hasn’t changed.',
+        ].join('\n'),
+    });
+}
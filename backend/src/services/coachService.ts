@@ -2,19 +2,19 @@
  * Adaptive coach — picks the next 3-minute action most likely to help, based on:
  *   - user's current feeling (optional input),
  *   - recent mood trajectory,
- *   - tools that have actually helped them (mood delta > 0),
+ *   - tools that have actually helped them (see toolEffectivenessService),
  *   - fallback defaults per emotional direction.
  *
  * Output is safe-by-default: even without any data, returns a gentle suggestion.
  */
-import prisma from '@/lib/prisma';
 import { computeUserState } from '@/lib/ai-engine';
 import { generate } from '@/lib/ai/provider';
 import { logger } from '@/lib/logger';
+import { getToolEffectiveness, rankHelpfulTools } from '@/services/toolEffectivenessService';
 
 export interface CoachSuggestion {
     headline: string;        // "Try Box Breathing"
-    subhead: string;         // "It helped you 4/5 of the last times"
+    subhead: string;         // "On average it eased things by 2 points…"
     toolId: string | null;   // maps to frontend tool registry
     reason: string;          // human-readable reason
     source: 'learned' | 'default' | 'ai';
@@ -58,6 +58,21 @@ const TOOL_LABELS: Record<string, string> = {
     journal_prompt: 'a quick journal prompt',
     gratitude_three: 'Three Good Things',
     progressive_relaxation: 'Progressive Relaxation',
+    calm_breathing: 'Calm Breathing',
+    cyclic_sigh: 'the Cyclic Sigh',
+    deep_breaths: 'three deep breaths',
+    soft_breathing: 'Soft Breathing',
+    breathing_478: '4-7-8 Breathing',
+    coherent_breathing: 'Coherent Breathing',
+    grounding_333: '3-3-3 Grounding',
+    shoulder_jaw_release: 'a shoulder & jaw release',
+    shake_out: 'a quick shake-out',
+    posture_reset: 'a posture reset',
+    focus_timer: 'a short focus timer',
+    tipp: 'TIPP',
+    urge_surf: 'Urge Surfing',
+    self_compassion: 'a Self-Compassion Break',
+    diffusion: 'Cognitive Diffusion',
 };
 
 export async function suggestNext(params: {
@@ -73,41 +88,19 @@ export async function suggestNext(params: {
         logger.warn({ err: String(e) }, 'coach.computeUserState_failed');
     }
 
-    // ── Learned suggestion: pick the tool with the best mood-delta track record ──
+    // ── Learned suggestion: the tool with the best mood-delta track record ──
     try {
-        const usages = await prisma.toolUsage.findMany({
-            where: {
-                userId,
-                action: 'completed',
-                moodBefore: { not: null },
-                moodAfter: { not: null },
-            },
-            take: 100,
-            orderBy: { createdAt: 'desc' },
-        });
-        if (usages.length >= 2) {
-            const score: Record<string, { improved: number; total: number }> = {};
-            for (const u of usages) {
-                if (u.moodBefore == null || u.moodAfter == null) continue;
-                score[u.toolId] ??= { improved: 0, total: 0 };
-                score[u.toolId].total++;
-                if (u.moodAfter < u.moodBefore) score[u.toolId].improved++;
-            }
-            const ranked = Object.entries(score)
-                .filter(([, v]) => v.total >= 2 && v.improved / v.total >= 0.5)
-                .sort((a, b) => b[1].improved / b[1].total - a[1].improved / a[1].total);
-            const top = ranked[0];
-            if (top) {
-                const [toolId, stats] = top;
-                const pretty = TOOL_LABELS[toolId] ?? toolId.replace(/_/g, ' ');
-                return {
-                    headline: `Try ${pretty}`,
-                    subhead: `It helped you ${stats.improved}/${stats.total} of the last times.`,
-                    toolId,
-                    reason: `Your own history says this works for you.`,
-                    source: 'learned',
-                };
-            }
+        const [top] = rankHelpfulTools(await getToolEffectiveness(userId));
+        if (top?.moodDelta) {
+            const pretty = TOOL_LABELS[top.toolId] ?? top.toolId.replace(/_/g, ' ');
+            const points = top.moodDelta.mean.toFixed(1).replace(/\.0$/, '');
+            return {
+                headline: `Try ${pretty}`,
+                subhead: `On average it eased things by ${points} point${points === '1' ? '' : 's'} across your last ${top.moodDelta.n} times.`,
+                toolId: top.toolId,
+                reason: `Your own history says this works for you.`,
+                source: 'learned',
+            };
         }
     } catch (e) {
         logger.warn({ err: String(e) }, 'coach.learned_failed');
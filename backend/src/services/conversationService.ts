@@ -0,0 +1,737 @@
+/**
+ * Conversation service — chat history as a tree.
+ *
+ * Every message points at the message it follows (`parentId`). Sending
+ * appends to the active branch; editing a user message adds a sibling of it
+ * (same parent, new text) and regenerating a reply adds a sibling of that
+ * reply, so nothing is ever rewritten. `Conversation.activeLeafId` marks the
+ * branch being shown: the path from the root down to that leaf. If the leaf
+ * is gone (retention), the newest message stands in.
+ *
+ * Only ids and parents are loaded to walk the tree; content is fetched for
+ * the one path that is shown or sent to the model. Message content is sealed
+ * for its user like journal text (`sealMessage()` / `messageText()`), with a
+ * blind keyword index alongside (lib/searchIndex.ts). Titles are sealed the
+ * same way (`sealTitle()` / `titleText()`): they are drawn from the messages.
+ *
+ * The model sees a branch through `buildHistory()`: the newest turns verbatim
+ * within a token budget, and everything older as a rolling summary stored
+ * (encrypted) on the conversation. The summary records the last message it
+ * covers, so it is extended incrementally as turns fall out of the window,
+ * and rebuilt when the branch being answered no longer passes through it.
+ * That happens in `refreshSummary()` after a reply is stored, never while the
+ * user waits for the first token.
+ *
+ * Listing is keyset-paginated (pinned first, then most recently active), with
+ * archived conversations kept out of the inbox. Search fuses meaning (the
+ * embeddings stored for the user's messages) with keywords (the blind index
+ * on messages and on titles), one hit per conversation. Titles are the first
+ * message until the first reply lands, then an AI title — unless the user has
+ * named the conversation themselves.
+ */
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { embed, generate as aiGenerate, toPgVector, type ChatTurn } from '@/lib/ai/provider';
+import { vectorColumn } from '@/lib/ai/vectors';
+import { estimateTokens, fitFrom } from '@/lib/ai/history';
+import { decryptForUser, encryptForUser } from '@/lib/encryption';
+import { indexTokens, queryTokens, searchTerms, snippet } from '@/lib/searchIndex';
+import type { ConversationListQuery, ConversationUpdateInput } from '@/contracts/schemas';
+
+export class ChatBranchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ChatBranchError';
+    }
+}
+
+/** What `content` holds once the text is in `cipherText`. */
+const SEALED = '[encrypted]';
+
+/**
+ * Column values for storing a message of `userId`: the text sealed for them
+ * (plaintext only while encryption is off) and its keyword index tokens.
+ */
+export function sealMessage(
+    userId: string,
+    text: string,
+): { content: string; cipherText: string | null; searchTokens: string[] } {
+    const { cipherText, plaintextFallback } = encryptForUser(userId, text);
+    return {
+        content: cipherText ? SEALED : (plaintextFallback ?? text),
+        cipherText,
+        searchTokens: indexTokens(userId, text),
+    };
+}
+
+/** The text of a stored message (or memory), sealed or not. */
+export function messageText(userId: string, row: { content: string; cipherText: string | null }): string {
+    return decryptForUser(userId, row.cipherText, row.content);
+}
+
+/** Column values for storing a conversation title, sealed like a message. Null clears it. */
+export function sealTitle(
+    userId: string,
+    title: string | null,
+): { title: string | null; titleCipherText: string | null; titleTokens: string[] } {
+    if (!title) return { title: null, titleCipherText: null, titleTokens: [] };
+    const { content, cipherText, searchTokens } = sealMessage(userId, title);
+    return { title: content, titleCipherText: cipherText, titleTokens: searchTokens };
+}
+
+/** The title of a stored conversation, sealed or not; null while it has none. */
+export function titleText(userId: string, row: { title: string | null; titleCipherText: string | null }): string | null {
+    return decryptForUser(userId, row.titleCipherText, row.title) || null;
+}
+
+interface Node {
+    id: string;
+    parentId: string | null;
+    role: string;
+    createdAt: Date;
+}
+
+interface Tree {
+    nodes: Map<string, Node>;
+    /** Child ids per parent id (`''` for roots), oldest first. */
+    children: Map<string, string[]>;
+}
+
+async function loadTree(conversationId: string): Promise<Tree> {
+    const rows: Node[] = await prisma.message.findMany({
+        where: { conversationId },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        select: { id: true, parentId: true, role: true, createdAt: true },
+    });
+    const nodes = new Map(rows.map((r) => [r.id, r]));
+    const children = new Map<string, string[]>();
+    for (const r of rows) {
+        // A parent deleted by retention leaves its replies as roots.
+        const key = r.parentId && nodes.has(r.parentId) ? r.parentId : '';
+        children.set(key, [...(children.get(key) ?? []), r.id]);
+    }
+    return { nodes, children };
+}
+
+function siblingsOf(tree: Tree, node: Node): string[] {
+    const key = node.parentId && tree.nodes.has(node.parentId) ? node.parentId : '';
+    return tree.children.get(key) ?? [node.id];
+}
+
+/** The stored leaf, or the newest message when it is missing. */
+function activeLeaf(tree: Tree, activeLeafId: string | null): string | null {
+    if (activeLeafId && tree.nodes.has(activeLeafId)) return activeLeafId;
+    let newest: Node | null = null;
+    for (const n of tree.nodes.values()) if (!newest || n.createdAt >= newest.createdAt) newest = n;
+    return newest?.id ?? null;
+}
+
+/** Follow the newest child from `id` down to a leaf. */
+function newestLeafUnder(tree: Tree, id: string): string {
+    for (let kids = tree.children.get(id); kids?.length; kids = tree.children.get(id)) id = kids[kids.length - 1];
+    return id;
+}
+
+/** Root-first path ending at `leafId`. */
+function pathTo(tree: Tree, leafId: string | null): Node[] {
+    const path: Node[] = [];
+    const seen = new Set<string>();
+    for (let n = leafId ? tree.nodes.get(leafId) : undefined; n && !seen.has(n.id); ) {
+        seen.add(n.id);
+        path.push(n);
+        n = n.parentId ? tree.nodes.get(n.parentId) : undefined;
+    }
+    return path.reverse();
+}
+
+export interface BranchMessage {
+    id: string;
+    parentId: string | null;
+    role: string;
+    content: string;
+    createdAt: Date;
+    /** This message and its alternatives, oldest first (length 1 when there are none). */
+    siblingIds: string[];
+}
+
+async function withContent(userId: string, tree: Tree, path: Node[]): Promise<BranchMessage[]> {
+    const rows: Array<{ id: string; content: string; cipherText: string | null }> = await prisma.message.findMany({
+        where: { id: { in: path.map((n) => n.id) } },
+        select: { id: true, content: true, cipherText: true },
+    });
+    const content = new Map(rows.map((r) => [r.id, messageText(userId, r)]));
+    return path.map((n) => ({
+        id: n.id,
+        parentId: n.parentId,
+        role: n.role,
+        content: content.get(n.id) ?? '',
+        createdAt: n.createdAt,
+        siblingIds: siblingsOf(tree, n),
+    }));
+}
+
+/** The messages of the branch currently shown, root first. */
+export async function activeBranch(
+    userId: string,
+    conversationId: string,
+    activeLeafId: string | null,
+): Promise<BranchMessage[]> {
+    const tree = await loadTree(conversationId);
+    return withContent(userId, tree, pathTo(tree, activeLeaf(tree, activeLeafId)));
+}
+
+/**
+ * Show the branch through `messageId` (down to its newest reply). Null when
+ * the conversation isn't the user's or has no such message.
+ */
+export async function selectBranch(
+    userId: string,
+    conversationId: string,
+    messageId: string,
+): Promise<BranchMessage[] | null> {
+    const conversation = await prisma.conversation.findFirst({ where: { id: conversationId, userId } });
+    if (!conversation) return null;
+    const tree = await loadTree(conversationId);
+    if (!tree.nodes.has(messageId)) return null;
+    const leaf = newestLeafUnder(tree, messageId);
+    // Switching branches isn't activity: keep the conversation's place in the list.
+    await prisma.conversation.update({
+        where: { id: conversationId },
+        data: { activeLeafId: leaf, updatedAt: conversation.updatedAt },
+    });
+    return withContent(userId, tree, pathTo(tree, leaf));
+}
+
+export interface Turn {
+    /** The user message to reply to, when it already exists (regenerate). */
+    userMessageId: string | null;
+    /** Parent for a new user message. */
+    parentId: string | null;
+    content: string;
+    kind: 'append' | 'edit' | 'regenerate';
+}
+
+/**
+ * Work out where a new turn goes. Append follows the active leaf; `editOf`
+ * makes `content` a new version of that user message; `regenerate` answers
+ * the user message an assistant reply belongs to again. Throws
+ * `ChatBranchError` when the target isn't a message of the right kind here.
+ */
+export async function planTurn(
+    conversation: { id: string; userId: string; activeLeafId: string | null },
+    request: { content?: string; editOf?: string; regenerate?: string },
+): Promise<Turn> {
+    const tree = await loadTree(conversation.id);
+
+    if (request.regenerate) {
+        const reply = tree.nodes.get(request.regenerate);
+        const prompt = reply?.parentId ? tree.nodes.get(reply.parentId) : undefined;
+        if (!reply || reply.role !== 'assistant' || !prompt || prompt.role !== 'user') {
+            throw new ChatBranchError('Only a reply to one of your messages can be regenerated');
+        }
+        const stored = await prisma.message.findUniqueOrThrow({
+            where: { id: prompt.id },
+            select: { content: true, cipherText: true },
+        });
+        return {
+            userMessageId: prompt.id,
+            parentId: prompt.parentId,
+            content: messageText(conversation.userId, stored),
+            kind: 'regenerate',
+        };
+    }
+
+    const content = request.content ?? '';
+    if (request.editOf) {
+        const original = tree.nodes.get(request.editOf);
+        if (!original || original.role !== 'user') throw new ChatBranchError('Only your own messages can be edited');
+        const parentId = original.parentId && tree.nodes.has(original.parentId) ? original.parentId : null;
+        return { userMessageId: null, parentId, content, kind: 'edit' };
+    }
+
+    return { userMessageId: null, parentId: activeLeaf(tree, conversation.activeLeafId), content, kind: 'append' };
+}
+
+// ── History for the model ────────────────────────────────────────────────
+
+/**
+ * Default budget for verbatim turns plus summary, sized for the smaller
+ * self-hosted models. Callers sharing a conversation should share a budget,
+ * or each one's window would re-summarise the other's.
+ */
+export const HISTORY_TOKENS = 3000;
+const SUMMARY_MAX_TOKENS = 350;
+/**
+ * Share of the budget left for verbatim turns after a summary update, so the
+ * next few turns fit without summarising again.
+ */
+const SUMMARY_HEADROOM = 0.6;
+
+const SUMMARY_SYSTEM = `You keep a running summary of a conversation between a user and their mental-wellness companion, so the companion can continue it without the full transcript.
+
+Keep what the companion needs later:
+- What the user shared: events, feelings, the people involved (by role, e.g. "their manager")
+- What was tried, what helped and what didn't
+- Plans or commitments the user made
+- Any mention of self-harm, suicidal thoughts or risk, stated plainly
+
+Rules:
+- Update the existing summary with the new messages; keep facts that still matter, drop ones that were resolved.
+- Third person ("The user…"), plain prose, no headings or lists, under 200 words.
+- No diagnoses or judgements; record only what was said.
+Output: the updated summary, nothing else.`;
+
+export interface History {
+    /** Newest turns, verbatim and oldest first. */
+    turns: ChatTurn[];
+    /** Everything before `turns` on this branch, summarised; null when nothing was left out. */
+    summary: string | null;
+}
+
+async function summarise(previous: string | null, turns: ChatTurn[], forceLocal: boolean): Promise<string> {
+    const transcript = turns
+        .map((t) => `${t.role === 'user' ? 'User' : 'Companion'}: ${t.content.slice(0, 1500)}`)
+        .join('\n');
+    const r = await aiGenerate({
+        system: SUMMARY_SYSTEM,
+        turns: [
+            {
+                role: 'user',
+                content: `Summary so far:\n${previous ?? '(none yet)'}\n\nNew messages:\n${transcript}\n\nReturn the updated summary.`,
+            },
+        ],
+        maxTokens: SUMMARY_MAX_TOKENS,
+        temperature: 0.2,
+        forceLocal,
+    });
+    // The canned offline reply is not a summary.
+    if (r.provider === 'fallback' || !r.text.trim()) throw new Error('No model available to summarise');
+    return r.text.trim();
+}
+
+interface HistoryOptions {
+    userId: string;
+    conversationId: string;
+    leafId: string | null;
+    budget: number;
+    forceLocal?: boolean;
+}
+
+/** The branch's turns after the stored summary, and where the budget cuts them. */
+async function historyWindow(opts: HistoryOptions) {
+    const { userId, conversationId, budget } = opts;
+    const [tree, conversation] = await Promise.all([
+        loadTree(conversationId),
+        prisma.conversation.findUnique({
+            where: { id: conversationId },
+            select: {
+                activeLeafId: true,
+                summary: true,
+                summaryCipherText: true,
+                summaryThroughId: true,
+                updatedAt: true,
+            },
+        }),
+    ]);
+    if (!conversation) return null;
+
+    const path = pathTo(tree, opts.leafId ?? activeLeaf(tree, conversation.activeLeafId)).filter(
+        (n) => n.role === 'user' || n.role === 'assistant',
+    );
+    // A summary only applies to a branch that passes through its last message.
+    const through = conversation.summaryThroughId
+        ? path.findIndex((n) => n.id === conversation.summaryThroughId)
+        : -1;
+    const summary =
+        through >= 0 ? decryptForUser(userId, conversation.summaryCipherText, conversation.summary) || null : null;
+    const pending = (await withContent(userId, tree, path.slice(summary ? through + 1 : 0))).map((m) => ({
+        id: m.id,
+        turn: { role: m.role as ChatTurn['role'], content: m.content },
+    }));
+    const turns = pending.map((p) => p.turn);
+    const start = fitFrom(turns, budget - (summary ? estimateTokens(summary) : 0));
+    return { summary, pending, turns, start, updatedAt: conversation.updatedAt };
+}
+
+/**
+ * The branch ending at `leafId` (null: the active branch) as the model
+ * should see it: the stored summary and the newest turns that fit in
+ * `budget` tokens alongside it. Never calls a model, so it adds nothing to
+ * time-to-first-token; turns that no longer fit are left out until
+ * `refreshSummary()` folds them in.
+ */
+export async function buildHistory(opts: HistoryOptions): Promise<History> {
+    const window = await historyWindow(opts);
+    if (!window) return { turns: [], summary: null };
+    return { turns: window.turns.slice(window.start), summary: window.summary };
+}
+
+/**
+ * Fold the turns that have fallen out of `budget` since the summary was last
+ * written — plus some headroom — into it (honouring `forceLocal`). Run after
+ * the reply is stored; on failure it is simply retried after the next turn.
+ */
+export async function refreshSummary(opts: HistoryOptions): Promise<void> {
+    const window = await historyWindow(opts);
+    if (!window || window.start === 0) return;
+
+    const { summary, pending, turns } = window;
+    const cut = Math.max(window.start, fitFrom(turns, Math.floor((opts.budget - SUMMARY_MAX_TOKENS) * SUMMARY_HEADROOM)));
+    try {
+        const next = await summarise(summary, turns.slice(0, cut), !!opts.forceLocal);
+        const { cipherText, plaintextFallback } = encryptForUser(opts.userId, next);
+        // Summarising isn't activity: keep the conversation's place in the list.
+        await prisma.conversation.update({
+            where: { id: opts.conversationId },
+            data: {
+                summary: plaintextFallback,
+                summaryCipherText: cipherText,
+                summaryThroughId: pending[cut - 1].id,
+                updatedAt: window.updatedAt,
+            },
+        });
+    } catch (err) {
+        logger.warn({ err: String(err), conversationId: opts.conversationId }, 'chat.summary.failed');
+    }
+}
+
+// ── Listing, search and titles ───────────────────────────────────────────
+
+export type TitleSource = 'user' | 'ai';
+
+export interface ConversationPreview {
+    id: string;
+    title: string;
+    /** Who named it: the user, the AI, or null while it is still the first message. */
+    titleSource: TitleSource | null;
+    pinned: boolean;
+    archived: boolean;
+    lastMessage: string | null;
+    lastMessageRole: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PREVIEW_SELECT = {
+    id: true,
+    title: true,
+    titleCipherText: true,
+    titleSource: true,
+    pinned: true,
+    archived: true,
+    createdAt: true,
+    updatedAt: true,
+    messages: {
+        orderBy: { createdAt: 'desc' as const },
+        take: 1,
+        select: { content: true, cipherText: true, role: true },
+    },
+};
+
+type PreviewRow = Omit<ConversationPreview, 'title' | 'titleSource' | 'lastMessage' | 'lastMessageRole'> & {
+    title: string | null;
+    titleCipherText: string | null;
+    titleSource: string | null;
+    messages: Array<{ content: string; cipherText: string | null; role: string }>;
+};
+
+function toPreview(userId: string, c: PreviewRow): ConversationPreview {
+    const last = c.messages[0];
+    return {
+        id: c.id,
+        title: titleText(userId, c) || 'New conversation',
+        titleSource: c.titleSource as TitleSource | null,
+        pinned: c.pinned,
+        archived: c.archived,
+        lastMessage: last ? messageText(userId, last).slice(0, 100) || null : null,
+        lastMessageRole: last?.role || null,
+        createdAt: c.createdAt,
+        updatedAt: c.updatedAt,
+    };
+}
+
+const encodeCursor = (c: { pinned: boolean; updatedAt: Date; id: string }) =>
+    Buffer.from(JSON.stringify({ pinned: c.pinned, updatedAt: c.updatedAt.toISOString(), id: c.id })).toString(
+        'base64url',
+    );
+
+/** One page of the inbox (or the archive), pinned first, then newest activity. */
+export async function listConversations(
+    userId: string,
+    { cursor, limit, archived }: ConversationListQuery,
+): Promise<{ conversations: ConversationPreview[]; nextCursor: string | null }> {
+    // Rows after the cursor in (pinned DESC, updatedAt DESC, id DESC) order.
+    const after = cursor
+        ? {
+              OR: [
+                  ...(cursor.pinned ? [{ pinned: false }] : []),
+                  { pinned: cursor.pinned, updatedAt: { lt: cursor.updatedAt } },
+                  { pinned: cursor.pinned, updatedAt: cursor.updatedAt, id: { lt: cursor.id } },
+              ],
+          }
+        : {};
+    const rows: PreviewRow[] = await prisma.conversation.findMany({
+        where: { userId, archived, ...after },
+        orderBy: [{ pinned: 'desc' }, { updatedAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        select: PREVIEW_SELECT,
+    });
+    const page = rows.slice(0, limit);
+    return {
+        conversations: page.map((c) => toPreview(userId, c)),
+        nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+    };
+}
+
+const SEARCH_CANDIDATES = 50;
+/** Reciprocal-rank-fusion constant, as in journal search. */
+const RRF_K = 60;
+const MAX_QUERY_TERMS = 8;
+
+export interface ConversationSearchHit {
+    conversation: ConversationPreview;
+    score: number;
+    /** The message that matched best; null when only the title did. */
+    message: {
+        id: string;
+        role: string;
+        createdAt: Date;
+        similarity: number | null;
+        snippet: string;
+        /** [start, end) ranges in `snippet` matching the query. */
+        highlights: Array<[number, number]>;
+    } | null;
+}
+
+interface MessageRow {
+    id: string;
+    conversation_id: string;
+    role: string;
+    content: string;
+    cipher_text: string | null;
+    created_at: Date;
+}
+
+/**
+ * Search every conversation of the user, archived ones included. Only the
+ * user's own messages carry embeddings, so meaning finds what they said;
+ * keywords also find replies and titles (whole words, through the blind index).
+ */
+export async function searchConversations(
+    userId: string,
+    query: string,
+    limit = 10,
+): Promise<ConversationSearchHit[]> {
+    const terms = searchTerms(query).slice(0, MAX_QUERY_TERMS);
+    const perTerm = terms.map((t) => queryTokens(userId, t));
+
+    const [semantic, keyword, titles] = await Promise.all([
+        (async () => {
+            let literal: string;
+            let model: string;
+            try {
+                const e = await embed(query);
+                literal = toPgVector(e.vector);
+                model = e.model;
+            } catch (err) {
+                logger.warn({ err: String(err) }, 'chat.search.embed_failed');
+                return [];
+            }
+            const column = vectorColumn(model, 'm');
+            return prisma.$queryRaw<Array<MessageRow & { similarity: number }>>`
+                SELECT m.id, m.conversation_id, m.role, m.content, m.cipher_text, m.created_at,
+                       1 - (${column} <=> ${literal}::vector) AS similarity
+                FROM messages m
+                JOIN conversations c ON c.id = m.conversation_id
+                WHERE c.user_id = ${userId}::uuid AND ${column} IS NOT NULL AND m.embedding_model = ${model}
+                ORDER BY ${column} <=> ${literal}::vector
+                LIMIT ${SEARCH_CANDIDATES}
+            `;
+        })(),
+        perTerm.length
+            ? prisma.$queryRaw<MessageRow[]>`
+                  SELECT m.id, m.conversation_id, m.role, m.content, m.cipher_text, m.created_at
+                  FROM messages m
+                  JOIN conversations c ON c.id = m.conversation_id
+                  WHERE c.user_id = ${userId}::uuid AND m.search_tokens && ${perTerm.flat()}::text[]
+                  ORDER BY (${Prisma.join(
+                      perTerm.map((tokens) => Prisma.sql`(m.search_tokens && ${tokens}::text[])::int`),
+                      ' + ',
+                  )}) DESC, m.created_at DESC
+                  LIMIT ${SEARCH_CANDIDATES}
+              `
+            : Promise.resolve([]),
+        perTerm.length
+            ? prisma.$queryRaw<Array<{ id: string }>>`
+                  SELECT c.id
+                  FROM conversations c
+                  WHERE c.user_id = ${userId}::uuid AND c.title_tokens && ${perTerm.flat()}::text[]
+                  ORDER BY (${Prisma.join(
+                      perTerm.map((tokens) => Prisma.sql`(c.title_tokens && ${tokens}::text[])::int`),
+                      ' + ',
+                  )}) DESC, c.updated_at DESC
+                  LIMIT ${SEARCH_CANDIDATES}
+              `
+            : Promise.resolve([]),
+    ]);
+
+    // Fuse per message, then keep each conversation's best message.
+    const messages = new Map<string, { row: MessageRow; score: number; similarity: number | null }>();
+    const fuse = (row: MessageRow, rank: number, similarity: number | null) => {
+        const h = messages.get(row.id) ?? { row, score: 0, similarity: null };
+        h.score += 1 / (RRF_K + rank + 1);
+        if (similarity !== null) h.similarity = similarity;
+        messages.set(row.id, h);
+    };
+    semantic.forEach((r, rank) => fuse(r, rank, r.similarity));
+    keyword.forEach((r, rank) => fuse(r, rank, null));
+
+    const hits = new Map<string, { score: number; best: { row: MessageRow; similarity: number | null } | null }>();
+    for (const h of [...messages.values()].sort((a, b) => b.score - a.score)) {
+        if (!hits.has(h.row.conversation_id)) hits.set(h.row.conversation_id, { score: h.score, best: h });
+    }
+    titles.forEach((t, rank) => {
+        const h = hits.get(t.id) ?? { score: 0, best: null };
+        h.score += 1 / (RRF_K + rank + 1);
+        hits.set(t.id, h);
+    });
+
+    const top = [...hits.entries()].sort((a, b) => b[1].score - a[1].score).slice(0, limit);
+    const rows: PreviewRow[] = await prisma.conversation.findMany({
+        where: { userId, id: { in: top.map(([id]) => id) } },
+        select: PREVIEW_SELECT,
+    });
+    const byId = new Map(rows.map((r) => [r.id, r]));
+    return top.flatMap(([id, { score, best }]) => {
+        const row = byId.get(id);
+        if (!row) return [];
+        const cut = best
+            ? snippet(messageText(userId, { content: best.row.content, cipherText: best.row.cipher_text }), terms)
+            : null;
+        return [
+            {
+                conversation: toPreview(userId, row),
+                score,
+                message:
+                    best && cut
+                        ? {
+                              id: best.row.id,
+                              role: best.row.role,
+                              createdAt: best.row.created_at,
+                              similarity: best.similarity,
+                              snippet: cut.text,
+                              highlights: cut.highlights,
+                          }
+                        : null,
+            },
+        ];
+    });
+}
+
+const TITLE_SYSTEM = `You name conversations between a user and their mental-wellness companion, so the user can find them again in a list.
+
+Rules:
+- 2 to 6 words, sentence case, no quotes, no emojis, no full stop.
+- Name the topic, gently and plainly ("Sleep and work stress", "Missing my sister").
+- Never a diagnosis or label ("Anxiety disorder", "Depressive episode").
+- No names of people or places; use roles ("my manager").
+- Write it in the language the user wrote in.
+Output: the title, nothing else.`;
+
+/** The first message, cut down, as the title until a better one exists. */
+export function placeholderTitle(firstMessage: string): string {
+    return firstMessage.slice(0, 60) + (firstMessage.length > 60 ? '…' : '');
+}
+
+/**
+ * Name the conversation from its opening exchange with `generate()`
+ * (honouring `forceLocal`), unless the user has named it. Returns the new
+ * title, or null when no model could write one.
+ */
+export async function generateTitle(opts: {
+    userId: string;
+    conversationId: string;
+    userMessage: string;
+    reply: string;
+    forceLocal: boolean;
+    /** Keep the conversation's place by recency (naming isn't activity). */
+    updatedAt?: Date;
+}): Promise<string | null> {
+    const r = await aiGenerate({
+        system: TITLE_SYSTEM,
+        turns: [
+            {
+                role: 'user',
+                content: `User: ${opts.userMessage.slice(0, 800)}\n\nCompanion: ${opts.reply.slice(0, 800)}\n\nTitle this conversation.`,
+            },
+        ],
+        maxTokens: 24,
+        temperature: 0.3,
+        forceLocal: opts.forceLocal,
+    });
+    if (r.provider === 'fallback') return null;
+    const title = r.text
+        .split(/\r?\n/)[0]
+        .replace(/^(title:\s*)/i, '')
+        .replace(/^["'“‘]+|["'”’.!]+$/g, '')
+        .trim()
+        .slice(0, 80);
+    if (title.length < 2) return null;
+    // A rename that landed meanwhile wins.
+    const updated = await prisma.conversation.updateMany({
+        where: { id: opts.conversationId, OR: [{ titleSource: null }, { titleSource: 'ai' }] },
+        data: {
+            ...sealTitle(opts.userId, title),
+            titleSource: 'ai',
+            ...(opts.updatedAt ? { updatedAt: opts.updatedAt } : {}),
+        },
+    });
+    return updated.count > 0 ? title : null;
+}
+
+/**
+ * Rename, pin or archive. Not activity, so the conversation keeps its place
+ * by recency. A null title hands naming back to the app. Null when the
+ * conversation isn't the user's.
+ */
+export async function updateConversation(
+    userId: string,
+    conversationId: string,
+    patch: ConversationUpdateInput,
+    opts: { forceLocal: boolean },
+): Promise<ConversationPreview | null> {
+    const conversation = await prisma.conversation.findFirst({ where: { id: conversationId, userId } });
+    if (!conversation) return null;
+
+    const data: Record<string, unknown> = { updatedAt: conversation.updatedAt };
+    if (patch.pinned !== undefined) data.pinned = patch.pinned;
+    if (patch.archived !== undefined) data.archived = patch.archived;
+    if (patch.title) Object.assign(data, { ...sealTitle(userId, patch.title), titleSource: 'user' });
+
+    let opening: BranchMessage[] = [];
+    if (patch.title === null) {
+        opening = (await activeBranch(userId, conversationId, conversation.activeLeafId)).slice(0, 2);
+        Object.assign(data, {
+            ...sealTitle(userId, opening[0] ? placeholderTitle(opening[0].content) : null),
+            titleSource: null,
+        });
+    }
+    await prisma.conversation.update({ where: { id: conversationId }, data });
+
+    if (opening[0]?.role === 'user' && opening[1]?.role === 'assistant') {
+        await generateTitle({
+            userId,
+            conversationId,
+            userMessage: opening[0].content,
+            reply: opening[1].content,
+            forceLocal: opts.forceLocal,
+            updatedAt: conversation.updatedAt,
+        }).catch((err) => logger.warn({ err: String(err), conversationId }, 'chat.title.failed'));
+    }
+    const row: PreviewRow = await prisma.conversation.findUniqueOrThrow({
+        where: { id: conversationId },
+        select: PREVIEW_SELECT,
+    });
+    return toPreview(userId, row);
+}
@@ -0,0 +1,136 @@
+/**
+ * Conversation crisis risk.
+ *
+ * The composite check (crisisService) sees one message at a time, so
+ * escalation over several — "I'm tired" → "nothing helps" → "I just want it
+ * to stop" — never trips it. Every user turn's `signal` is kept on the
+ * conversation (the last RISK_WINDOW, none older than a day) and combined as
+ * independent evidence, 1 − Π(1 − weight × decay), with each signal's weight
+ * halving every RISK_HALF_LIFE_MS. A few weak signals close together add up;
+ * a quiet stretch cools the conversation down. Any flagged message alone is
+ * enough for `elevated`.
+ *
+ * Reaching `elevated` stamps the user's `lastCrisisFlag` (the adaptive prompt
+ * stays gentle for a few days, see ai-engine.ts) and the conversation's
+ * `crisisElevatedAt`; the chat keeps SOS in view for SOS_VISIBLE_MS after it.
+ * Only weights and sources are stored — never text.
+ */
+import prisma from '@/lib/prisma';
+import type { CompositeCrisisResult } from '@/services/crisisService';
+
+const RISK_WINDOW = 8;
+const RISK_WINDOW_MS = 24 * 60 * 60 * 1000;
+const RISK_HALF_LIFE_MS = 2 * 60 * 60 * 1000;
+const SOS_VISIBLE_MS = 6 * 60 * 60 * 1000;
+
+export type RiskLevel = 'none' | 'watch' | 'elevated' | 'high';
+
+/** Lowest score for each level, highest first. */
+const LEVELS: Array<[number, RiskLevel]> = [
+    [0.85, 'high'],
+    [0.6, 'elevated'],
+    [0.3, 'watch'],
+];
+
+// A type rather than an interface so a list of them is a Prisma JSON value.
+export type CrisisSignal = {
+    at: string;
+    weight: number;
+    source: CompositeCrisisResult['source'];
+};
+
+export interface ConversationRisk {
+    level: RiskLevel;
+    /** 0..1, decayed to now. */
+    score: number;
+    /** Signals still in the window. */
+    signals: number;
+    elevatedAt: string | null;
+    /** Whether the chat should keep SOS in view (elevated within SOS_VISIBLE_MS). */
+    keepSosVisible: boolean;
+}
+
+interface RiskRow {
+    crisisSignals: unknown;
+    crisisElevatedAt: Date | null;
+}
+
+function inWindow(signals: CrisisSignal[], now: number): CrisisSignal[] {
+    return signals.filter((s) => now - Date.parse(s.at) < RISK_WINDOW_MS).slice(-RISK_WINDOW);
+}
+
+export function riskScore(signals: CrisisSignal[], now = Date.now()): number {
+    const quiet = signals.reduce(
+        (q, s) => q * (1 - s.weight * 0.5 ** (Math.max(0, now - Date.parse(s.at)) / RISK_HALF_LIFE_MS)),
+        1,
+    );
+    return Math.round((1 - quiet) * 1000) / 1000;
+}
+
+function levelOf(score: number): RiskLevel {
+    return LEVELS.find(([min]) => score >= min)?.[1] ?? 'none';
+}
+
+function describe(signals: CrisisSignal[], elevatedAt: Date | null, now: number): ConversationRisk {
+    const score = riskScore(signals, now);
+    return {
+        level: levelOf(score),
+        score,
+        signals: signals.length,
+        elevatedAt: elevatedAt?.toISOString() ?? null,
+        keepSosVisible: !!elevatedAt && now - elevatedAt.getTime() < SOS_VISIBLE_MS,
+    };
+}
+
+/** A conversation's risk as of now, from its stored columns. */
+export function riskOf(row: RiskRow, now = Date.now()): ConversationRisk {
+    const signals = Array.isArray(row.crisisSignals) ? (row.crisisSignals as CrisisSignal[]) : [];
+    return describe(inWindow(signals, now), row.crisisElevatedAt, now);
+}
+
+/**
+ * Add this turn's crisis check to the conversation's risk and return the
+ * result. A missing check (the detector failed) adds nothing but still lets
+ * older signals decay.
+ */
+export async function recordCrisisSignal(params: {
+    userId: string;
+    conversationId: string;
+    crisis: CompositeCrisisResult | null;
+}): Promise<ConversationRisk> {
+    const now = Date.now();
+    // Lock the row so two turns posted close together (two tabs) append in
+    // turn instead of both reading the same signals and one write losing the other.
+    const risk = await prisma.$transaction(async (tx) => {
+        const [row] = await tx.$queryRaw<Array<{ crisis_signals: unknown; crisis_elevated_at: Date | null }>>`
+            SELECT crisis_signals, crisis_elevated_at FROM conversations
+            WHERE id = ${params.conversationId}::uuid AND user_id = ${params.userId}::uuid
+            FOR UPDATE
+        `;
+        if (!row) return null;
+
+        const stored = Array.isArray(row.crisis_signals) ? (row.crisis_signals as CrisisSignal[]) : [];
+        const signal = params.crisis?.signal ?? 0;
+        const signals = inWindow(
+            signal > 0
+                ? [...stored, { at: new Date(now).toISOString(), weight: Math.round(signal * 1000) / 1000, source: params.crisis!.source }]
+                : stored,
+            now,
+        );
+        const level = levelOf(riskScore(signals, now));
+        const elevated = level === 'elevated' || level === 'high';
+        const elevatedAt = elevated ? new Date(now) : row.crisis_elevated_at;
+
+        await tx.conversation.update({
+            where: { id: params.conversationId },
+            data: { crisisSignals: signals, crisisElevatedAt: elevatedAt },
+        });
+        return { signals, elevated, elevatedAt };
+    });
+    if (!risk) return describe([], null, now);
+
+    if (risk.elevated) {
+        await prisma.userState.updateMany({ where: { userId: params.userId }, data: { lastCrisisFlag: risk.elevatedAt } });
+    }
+    return describe(risk.signals, risk.elevatedAt, now);
+}
@@ -7,11 +7,20 @@
  *
  * Backwards-compatible: existing code keeps importing `checkForCrisis` from
  * `@/lib/crisis`; new code can opt into the enriched async version.
+ *
+ * Besides the verdict, every result carries a `signal` — how strong the
+ * evidence was, flagged or not, including below-threshold classifier scores
+ * and distress markers — which conversation risk accumulates across turns
+ * (services/crisisRiskService.ts).
  */
 import { checkForCrisis as keywordCheck } from '@/lib/crisis';
 import { detectSubtleCrisis } from '@/lib/ai/crisis-llm';
 import { aiMode, classifyCrisisLocal } from '@/lib/ai/local';
 
+/** LLM verdict confidence needed to flag, and to call it high severity. Tune with `npm run eval:crisis`. */
+export const LLM_CRISIS_FLAG = 0.65;
+export const LLM_CRISIS_HIGH = 0.85;
+
 export interface CompositeCrisisResult {
     isCrisis: boolean;
     severity: 'none' | 'low' | 'medium' | 'high';
@@ -19,10 +28,27 @@ export interface CompositeCrisisResult {
     matchedKeywords: string[];
     llmConfidence: number;
     reason: string;
+    /** Evidence of crisis in this message, 0..1, whether or not it was flagged. */
+    signal: number;
+    /** Distress markers the keyword gate found. */
+    distress: string[];
 }
 
-export async function checkForCrisisEnriched(text: string): Promise<CompositeCrisisResult> {
-    const kw = keywordCheck(text);
+const KEYWORD_SIGNAL = { none: 0, low: 0.7, medium: 0.85, high: 1 } as const;
+/**
+ * Distress markers: one, or more than one. Three single-marker turns in a row
+ * make an elevated conversation; one turn alone stays below that.
+ */
+const DISTRESS_SIGNAL = [0, 0.3, 0.4] as const;
+
+/** `language` is the reply language, whose keywords are checked as well as the message's own. */
+export async function checkForCrisisEnriched(
+    text: string,
+    opts: { language?: string | null } = {},
+): Promise<CompositeCrisisResult> {
+    const kw = keywordCheck(text, { language: opts.language });
+    const distressSignal = DISTRESS_SIGNAL[Math.min(2, kw.distress.length)];
+    const evidence = (signal: number) => ({ signal: Math.max(signal, distressSignal), distress: kw.distress });
     if (kw.isCrisis) {
         return {
             isCrisis: true,
@@ -31,6 +57,7 @@ export async function checkForCrisisEnriched(text: string): Promise<CompositeCri
             matchedKeywords: kw.matchedKeywords,
             llmConfidence: 1,
             reason: 'keyword_match',
+            ...evidence(KEYWORD_SIGNAL[kw.severity]),
         };
     }
 
@@ -43,10 +70,13 @@ export async function checkForCrisisEnriched(text: string): Promise<CompositeCri
             matchedKeywords: [],
             llmConfidence: 0,
             reason: 'short_or_empty',
+            ...evidence(0),
         };
     }
 
     const mode = aiMode();
+    // A "low" local score counts for half even when not flagged.
+    let localSignal = 0;
 
     // Preferred: self-hosted zero-shot MNLI classifier (fast, CPU, no vendor).
     if (mode !== 'cloud') {
@@ -61,8 +91,10 @@ export async function checkForCrisisEnriched(text: string): Promise<CompositeCri
                         matchedKeywords: [],
                         llmConfidence: local.confidence,
                         reason: local.reason,
+                        ...evidence(local.confidence),
                     };
                 }
+                if (local.severity === 'low') localSignal = local.confidence / 2;
                 // Local says not-crisis. In strict-local mode, trust it.
                 if (mode === 'local') {
                     return {
@@ -72,6 +104,7 @@ export async function checkForCrisisEnriched(text: string): Promise<CompositeCri
                         matchedKeywords: [],
                         llmConfidence: local.confidence,
                         reason: local.reason,
+                        ...evidence(localSignal),
                     };
                 }
                 // Hybrid mode: let the cloud LLM be a quieter second-opinion below.
@@ -82,14 +115,16 @@ export async function checkForCrisisEnriched(text: string): Promise<CompositeCri
     }
 
     const llm = await detectSubtleCrisis(text);
-    const flagged = llm.flagged && llm.confidence >= 0.65;
+    const flagged = llm.flagged && llm.confidence >= LLM_CRISIS_FLAG;
     return {
         isCrisis: flagged,
-        severity: flagged ? (llm.confidence >= 0.85 ? 'high' : 'medium') : 'none',
+        severity: flagged ? (llm.confidence >= LLM_CRISIS_HIGH ? 'high' : 'medium') : 'none',
         source: flagged ? 'llm' : 'none',
         matchedKeywords: [],
         llmConfidence: llm.confidence,
         reason: llm.reason,
+        // A below-threshold "yes" counts for half.
+        ...evidence(Math.max(localSignal, llm.flagged ? (flagged ? llm.confidence : llm.confidence / 2) : 0)),
     };
 }
 
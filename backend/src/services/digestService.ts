@@ -27,6 +27,17 @@ export function currentWeekKey(d = new Date()): string {
     return `${date.getUTCFullYear()}-W${String(weekNum).padStart(2, '0')}`;
 }
 
+/**
+ * Drop cached weekly digests that may quote something written at `at` — a
+ * digest looks back 7 days from when it was generated, so that is the week
+ * of `at` and the week after. They regenerate on next view.
+ */
+export async function dropDigestsCovering(userId: string, at: Date): Promise<number> {
+    const weeks = [currentWeekKey(at), currentWeekKey(new Date(at.getTime() + 7 * 24 * 60 * 60 * 1000))];
+    const r = await prisma.digestCache.deleteMany({ where: { userId, period: 'weekly', periodKey: { in: weeks } } });
+    return r.count;
+}
+
 export async function getOrGenerateWeeklyDigest(userId: string, force = false): Promise<WeeklyDigest> {
     const periodKey = currentWeekKey();
 
@@ -74,7 +85,9 @@ export async function getOrGenerateWeeklyDigest(userId: string, force = false):
     const moodText = moodLogs
         .map((m) => `- ${m.mood} (${m.intensity}/10)${m.note ? ` — ${m.note.slice(0, 60)}` : ''}`)
         .join('\n');
-    const chatText = messages.map((m) => `- "${m.content.slice(0, 160)}"`).join('\n');
+    const chatText = messages
+        .map((m) => `- "${decryptForUser(userId, m.cipherText, m.content).slice(0, 160)}"`)
+        .join('\n');
 
     const system = `You are a compassionate wellness companion writing a private weekly reflection for ONE user. Read their week's inputs and write a warm, honest digest.
 
@@ -144,6 +157,27 @@ Average mood: ${avg ?? 'n/a'}/10. Trend: ${trend ?? 'n/a'}.`;
     return payload;
 }
 
+/**
+ * Users worth pre-generating a digest for: consented, not soft-deleted, and
+ * with at least one mood log, journal entry or chat in the last 7 days.
+ */
+export async function listDigestCandidates(): Promise<string[]> {
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const rows = await prisma.user.findMany({
+        where: {
+            consentedAt: { not: null },
+            deletedAt: null,
+            OR: [
+                { moodLogs: { some: { createdAt: { gte: since } } } },
+                { journalEntries: { some: { createdAt: { gte: since } } } },
+                { conversations: { some: { updatedAt: { gte: since } } } },
+            ],
+        },
+        select: { id: true },
+    });
+    return rows.map((r) => r.id);
+}
+
 function computeTrend(values: number[]): WeeklyDigest['moodTrend'] {
     if (values.length < 3) return null;
     const avg = values.reduce((a, b) => a + b, 0) / values.length;
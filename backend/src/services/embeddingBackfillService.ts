@@ -0,0 +1,237 @@
+/**
+ * Embedding backfill — moves every stored vector onto the preferred
+ * embedding model (see `preferredEmbeddingModel()` in lib/ai/provider.ts).
+ *
+ * Retrieval only compares vectors of one model, so a row embedded by another
+ * (a hash vector written while the local model was still loading, or an
+ * OpenAI vector from before a switch to local) is invisible to RAG and search
+ * until it is re-embedded here. Rows with no vector at all are picked up too.
+ *
+ * Driven by the worker like key rotation: the nightly `embeddings.backfill`
+ * job re-embeds one batch of one table, then enqueues its successor with a
+ * cursor (last id seen). Each row is written back only if its model is still
+ * the one it was read with, so a concurrent edit that re-embedded it wins. If
+ * `embed()` hands back anything but the preferred model, that model is down:
+ * the run stops and the next night's run starts over.
+ *
+ * Every embedded table is listed in `TARGETS` — adding one is a single entry.
+ */
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { embed, preferredEmbeddingModel } from '@/lib/ai/provider';
+import { storedEmbedding, type StoredEmbedding } from '@/lib/ai/vectors';
+import { decryptForUser } from '@/lib/encryption';
+
+const BACKFILL_BATCH = 100;
+
+export type EmbeddedTable = 'journalEntries' | 'memories' | 'messages';
+
+interface StaleRow {
+    id: string;
+    text: string;
+    /** The model the row was read with; null when it has no vector. */
+    model: string | null;
+}
+
+interface BackfillTarget {
+    table: EmbeddedTable;
+    /** Rows not embedded by `model` (or not embedded at all). */
+    count(model: string): Promise<number>;
+    /** Those rows after the cursor, in id order. */
+    batch(model: string, after: string): Promise<StaleRow[]>;
+    /** Store the vector if the row is still on `was`. True if written. */
+    write(id: string, vector: StoredEmbedding, was: string | null): Promise<boolean>;
+}
+
+/** Not embedded by `model`, or not embedded at all. */
+const stale = (model: string) =>
+    Prisma.sql`(embedding_model IS DISTINCT FROM ${model} OR (embedding IS NULL AND embedding_local IS NULL))`;
+
+const TARGETS: BackfillTarget[] = [
+    {
+        table: 'journalEntries',
+        count: async (model) =>
+            (
+                await prisma.$queryRaw<{ n: number }[]>`
+                    SELECT COUNT(*)::int AS n FROM journal_entries
+                    WHERE ${stale(model)}
+                `
+            )[0].n,
+        batch: async (model, after) =>
+            (
+                await prisma.$queryRaw<
+                    { id: string; user_id: string; content: string; cipher_text: string | null; embedding_model: string | null }[]
+                >`
+                    SELECT id, user_id, content, cipher_text, embedding_model FROM journal_entries
+                    WHERE ${stale(model)} AND id::text > ${after}
+                    ORDER BY id LIMIT ${BACKFILL_BATCH}
+                `
+            ).map((r) => ({
+                id: r.id,
+                // No plaintext fallback for sealed rows: a placeholder must not be embedded.
+                text: r.cipher_text ? decryptForUser(r.user_id, r.cipher_text, null) : r.content,
+                model: r.embedding_model,
+            })),
+        // Raw SQL leaves `updated_at` alone: re-embedding isn't an edit.
+        write: async (id, vector, was) =>
+            (await prisma.$executeRaw`
+                UPDATE journal_entries
+                SET embedding = ${vector.wide}::vector, embedding_local = ${vector.local}::vector,
+                    embedding_model = ${vector.model}
+                WHERE id = ${id}::uuid AND embedding_model IS NOT DISTINCT FROM ${was}
+            `) > 0,
+    },
+    {
+        table: 'memories',
+        count: async (model) =>
+            (
+                await prisma.$queryRaw<{ n: number }[]>`
+                    SELECT COUNT(*)::int AS n FROM memories
+                    WHERE ${stale(model)}
+                `
+            )[0].n,
+        batch: async (model, after) =>
+            (
+                await prisma.$queryRaw<
+                    { id: string; user_id: string; content: string; cipher_text: string | null; embedding_model: string | null }[]
+                >`
+                    SELECT id, user_id, content, cipher_text, embedding_model FROM memories
+                    WHERE ${stale(model)} AND id::text > ${after}
+                    ORDER BY id LIMIT ${BACKFILL_BATCH}
+                `
+            ).map((r) => ({
+                id: r.id,
+                text: r.cipher_text ? decryptForUser(r.user_id, r.cipher_text, null) : r.content,
+                model: r.embedding_model,
+            })),
+        write: async (id, vector, was) =>
+            (await prisma.$executeRaw`
+                UPDATE memories
+                SET embedding = ${vector.wide}::vector, embedding_local = ${vector.local}::vector,
+                    embedding_model = ${vector.model}
+                WHERE id = ${id}::uuid AND embedding_model IS NOT DISTINCT FROM ${was}
+            `) > 0,
+    },
+    {
+        // Only the user's own messages are embedded (see the chat route).
+        table: 'messages',
+        count: async (model) =>
+            (
+                await prisma.$queryRaw<{ n: number }[]>`
+                    SELECT COUNT(*)::int AS n FROM messages
+                    WHERE role = 'user' AND ${stale(model)}
+                `
+            )[0].n,
+        batch: async (model, after) =>
+            (
+                await prisma.$queryRaw<
+                    { id: string; user_id: string; content: string; cipher_text: string | null; embedding_model: string | null }[]
+                >`
+                    SELECT id, (SELECT user_id FROM conversations c WHERE c.id = conversation_id) AS user_id,
+                           content, cipher_text, embedding_model
+                    FROM messages
+                    WHERE role = 'user' AND ${stale(model)}
+                      AND id::text > ${after}
+                    ORDER BY id LIMIT ${BACKFILL_BATCH}
+                `
+            ).map((r) => ({
+                id: r.id,
+                text: r.cipher_text ? decryptForUser(r.user_id, r.cipher_text, null) : r.content,
+                model: r.embedding_model,
+            })),
+        write: async (id, vector, was) =>
+            (await prisma.$executeRaw`
+                UPDATE messages
+                SET embedding = ${vector.wide}::vector, embedding_local = ${vector.local}::vector,
+                    embedding_model = ${vector.model}
+                WHERE id = ${id}::uuid AND embedding_model IS NOT DISTINCT FROM ${was}
+            `) > 0,
+    },
+];
+
+export const EMBEDDED_TABLES = TARGETS.map((t) => t.table);
+
+export interface EmbeddingStaleness {
+    preferredModel: string;
+    tables: Array<{ table: EmbeddedTable; stale: number }>;
+    stale: number;
+}
+
+/** How many rows, per table, are not (yet) on the preferred model. */
+export async function embeddingStaleness(): Promise<EmbeddingStaleness> {
+    const preferredModel = preferredEmbeddingModel();
+    const tables = await Promise.all(
+        TARGETS.map(async (t) => ({ table: t.table, stale: await t.count(preferredModel) })),
+    );
+    return { preferredModel, tables, stale: tables.reduce((a, t) => a + t.stale, 0) };
+}
+
+export interface BackfillStep {
+    table: EmbeddedTable;
+    embedded: number;
+    failed: number;
+    /** Cursor for the next batch of this table; null when the table is done. */
+    after: string | null;
+    /** The preferred model isn't answering; stop the run. */
+    unavailable: boolean;
+}
+
+/** Re-embed one batch of `table` after the cursor. */
+export async function backfillBatch(table: EmbeddedTable, after: string | null): Promise<BackfillStep> {
+    const target = TARGETS.find((t) => t.table === table);
+    if (!target) throw new Error(`Unknown embedded table "${table}"`);
+    const model = preferredEmbeddingModel();
+
+    const rows = await target.batch(model, after ?? '');
+    let embedded = 0;
+    let failed = 0;
+    for (const row of rows) {
+        // Nothing to embed (e.g. a row that can't be decrypted): leave it be.
+        if (!row.text.trim()) continue;
+        let e: Awaited<ReturnType<typeof embed>>;
+        try {
+            e = await embed(row.text);
+        } catch (err) {
+            failed++;
+            logger.warn({ err: String(err), table, id: row.id }, 'embeddings.backfill.row_failed');
+            continue;
+        }
+        if (e.model !== model) {
+            logger.warn({ table, preferred: model, got: e.model }, 'embeddings.backfill.model_unavailable');
+            return { table, embedded, failed, after: null, unavailable: true };
+        }
+        if (await target.write(row.id, storedEmbedding(e), row.model)) embedded++;
+    }
+    return {
+        table,
+        embedded,
+        failed,
+        after: rows.length === BACKFILL_BATCH ? rows[rows.length - 1].id : null,
+        unavailable: false,
+    };
+}
+
+export interface BackfillJob {
+    table: EmbeddedTable;
+    after: string | null;
+    /** Running totals across the whole run. */
+    embedded: number;
+    failed: number;
+}
+
+/** The first job of a run. */
+export function firstBackfillJob(): BackfillJob {
+    return { table: EMBEDDED_TABLES[0], after: null, embedded: 0, failed: 0 };
+}
+
+/** The job that continues a run after `step`, or null once it is over. */
+export function nextBackfillJob(
+    step: BackfillStep,
+    totals: { embedded: number; failed: number },
+): BackfillJob | null {
+    if (step.unavailable) return null;
+    if (step.after) return { table: step.table, after: step.after, ...totals };
+    const table = EMBEDDED_TABLES[EMBEDDED_TABLES.indexOf(step.table) + 1];
+    return table ? { table, after: null, ...totals } : null;
+}
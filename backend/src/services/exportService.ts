@@ -0,0 +1,311 @@
+/**
+ * GDPR data export (Art 15 / Art 20) — every row we hold for a user, as a
+ * streamed ZIP:
+ *
+ *   <table>.json        array of rows, encrypted content decrypted
+ *   <table>.csv         same rows; nested values as JSON text
+ *   manifest.json       schema version, per-table row counts, sizes, SHA-256
+ *   checksums.sha256    `sha256sum -c` compatible
+ *
+ * Every user-owned table is listed in `TABLES` — adding a model means adding
+ * an entry here, or the export silently stops being complete. Rows are read
+ * in id-ordered pages, so memory stays flat however much a user has written.
+ *
+ * Never exported: password hashes, token hashes, push-subscription keys and
+ * ciphertexts (their plaintext is exported instead), embeddings.
+ */
+import prisma from '@/lib/prisma';
+import { decryptForUser } from '@/lib/encryption';
+import { createZipWriter, type ZipEntryInfo } from '@/lib/zip';
+import { openFields } from '@/services/journalService';
+
+/** v2: ZIP with per-table JSON + CSV (v1 was a single JSON document). */
+export const EXPORT_SCHEMA_VERSION = 2;
+
+const PAGE = 500;
+
+type Row = Record<string, unknown>;
+
+interface ExportTable {
+    name: string;
+    description: string;
+    columns: string[];
+    /** One page of rows after the cursor (ordered by id); single-row tables ignore it. */
+    page(userId: string, after: string | null): Promise<Row[]>;
+    /** Rows need `cipherText` swapped for decrypted `content`. */
+    encrypted?: boolean;
+    /** Rows need `fieldsCipherText` swapped for decrypted `fields` (journal templates). */
+    encryptedFields?: boolean;
+    /** Other sealed columns: plaintext column → the ciphertext column it is decrypted from. */
+    sealedColumns?: Record<string, string>;
+}
+
+const pick = (columns: string[], extra: string[] = []) =>
+    Object.fromEntries([...columns, ...extra].map((c) => [c, true]));
+
+const cursor = (after: string | null) => (after ? { id: { gt: after } } : {});
+
+/** A table of rows keyed by `userId`, read page by page. */
+function owned(
+    name: string,
+    description: string,
+    columns: string[],
+    findMany: (args: object) => Promise<Row[]>,
+    options: { encrypted?: boolean; encryptedFields?: boolean; sealedColumns?: Record<string, string> } = {},
+): ExportTable {
+    return {
+        name,
+        description,
+        columns,
+        encrypted: options.encrypted,
+        encryptedFields: options.encryptedFields,
+        sealedColumns: options.sealedColumns,
+        page: (userId, after) =>
+            findMany({
+                where: { userId, ...cursor(after) },
+                orderBy: { id: 'asc' },
+                take: PAGE,
+                select: pick(columns, [
+                    ...(options.encrypted ? ['cipherText'] : []),
+                    ...(options.encryptedFields ? ['fieldsCipherText'] : []),
+                    ...Object.values(options.sealedColumns ?? {}),
+                ]),
+            }),
+    };
+}
+
+/** A table with at most one row per user. */
+function single(
+    name: string,
+    description: string,
+    columns: string[],
+    find: (args: { where: { userId: string }; select: Record<string, boolean> }) => Promise<Row | null>,
+): ExportTable {
+    return {
+        name,
+        description,
+        columns,
+        page: async (userId, after) => {
+            if (after) return [];
+            const row = await find({ where: { userId }, select: pick(columns) });
+            return row ? [row] : [];
+        },
+    };
+}
+
+const PROFILE_COLUMNS = [
+    'id', 'email', 'name', 'avatarUrl', 'createdAt', 'updatedAt', 'emailVerifiedAt', 'lastActiveAt',
+    'birthYear', 'childMode', 'consentedAt', 'consentVersion', 'retentionPolicy', 'region', 'locale',
+    'timezone', 'quietHoursStart', 'quietHoursEnd',
+];
+
+const TABLES: ExportTable[] = [
+    {
+        name: 'profile',
+        description: 'Your account and settings',
+        columns: PROFILE_COLUMNS,
+        page: async (userId, after) => {
+            if (after) return [];
+            const user = await prisma.user.findUnique({ where: { id: userId }, select: pick(PROFILE_COLUMNS) });
+            return user ? [user] : [];
+        },
+    },
+    single('wellness_profile', 'Your onboarding answers and the profile built from them', [
+        'id', 'energy', 'concern', 'context', 'approach', 'supportStyle', 'timeAvailable', 'profile', 'aiInsight',
+        'adaptiveAnswers', 'createdAt', 'updatedAt',
+    ], (a) => prisma.wellnessProfile.findUnique(a)),
+    single('user_state', 'What the app has inferred about how you are doing', [
+        'id', 'currentArchetype', 'emotionalTrajectory', 'sessionCount', 'lastCrisisFlag', 'copingStrength',
+        'engagementPattern', 'contextWindow', 'computedAt', 'createdAt', 'updatedAt',
+    ], (a) => prisma.userState.findUnique(a)),
+    single('safety_plan', 'Your safety plan', [
+        'id', 'warningSigns', 'copingStrategies', 'reasonsToLive', 'supportPeople', 'professionals', 'safeSpaces',
+        'createdAt', 'updatedAt',
+    ], (a) => prisma.safetyPlan.findUnique(a)),
+    owned('conversations', 'Chat conversations, with the running summary of older turns', [
+        'id', 'title', 'titleSource', 'pinned', 'archived', 'activeLeafId', 'summary', 'summaryThroughId',
+        'crisisSignals', 'crisisElevatedAt', 'createdAt', 'updatedAt',
+    ], (a) => prisma.conversation.findMany(a), {
+        sealedColumns: { title: 'titleCipherText', summary: 'summaryCipherText' },
+    }),
+    {
+        name: 'messages',
+        description: 'Every message in your conversations (yours and the assistant’s)',
+        columns: ['id', 'conversationId', 'parentId', 'role', 'content', 'createdAt'],
+        encrypted: true,
+        page: (userId, after) =>
+            prisma.message.findMany({
+                where: { conversation: { userId }, ...cursor(after) },
+                orderBy: { id: 'asc' },
+                take: PAGE,
+                select: pick(['id', 'conversationId', 'parentId', 'role', 'content', 'createdAt'], ['cipherText']),
+            }),
+    },
+    owned('journal_entries', 'Journal entries, with template answers and tags', [
+        'id', 'content', 'mood', 'template', 'fields', 'tags', 'createdAt', 'updatedAt',
+    ], (a) => prisma.journalEntry.findMany(a), { encrypted: true, encryptedFields: true }),
+    owned('journal_revisions', 'Earlier versions of journal entries you edited', [
+        'id', 'entryId', 'content', 'mood', 'writtenAt', 'createdAt',
+    ], (a) => prisma.journalRevision.findMany(a), { encrypted: true }),
+    owned('mood_logs', 'Mood check-ins', ['id', 'mood', 'intensity', 'note', 'createdAt'], (a) =>
+        prisma.moodLog.findMany(a),
+    ),
+    owned('tool_usage', 'Wellness tools you started, finished or skipped', [
+        'id', 'toolId', 'action', 'duration', 'moodBefore', 'moodAfter', 'createdAt',
+    ], (a) => prisma.toolUsage.findMany(a)),
+    owned('memories', 'Things the assistant remembers about you', [
+        'id', 'kind', 'content', 'salience', 'source', 'lastUsedAt', 'createdAt', 'updatedAt',
+    ], (a) => prisma.memory.findMany(a), { encrypted: true }),
+    owned('reminders', 'Reminders', [
+        'id', 'kind', 'message', 'dueAt', 'rrule', 'status', 'deferredUntil', 'refireAt', 'deliveredAt', 'createdAt',
+    ], (a) => prisma.reminder.findMany(a)),
+    owned('push_subscriptions', 'Devices receiving notifications (encryption keys omitted)', [
+        'id', 'endpoint', 'userAgent', 'lastSuccessAt', 'createdAt',
+    ], (a) => prisma.pushSubscription.findMany(a)),
+    owned('gratitude_entries', 'Gratitude entries', ['id', 'content', 'dayKey', 'createdAt'], (a) =>
+        prisma.gratitudeEntry.findMany(a), { encrypted: true },
+    ),
+    owned('future_letters', 'Letters to your future self, including sealed ones', [
+        'id', 'content', 'deliverAt', 'delivered', 'createdAt',
+    ], (a) => prisma.futureLetter.findMany(a), { encrypted: true }),
+    owned('clinical_results', 'PHQ-9 / GAD-7 questionnaire results', [
+        'id', 'instrument', 'score', 'severity', 'answers', 'createdAt',
+    ], (a) => prisma.clinicalResult.findMany(a)),
+    owned('digests', 'Weekly digests generated for you', ['id', 'period', 'periodKey', 'payload', 'createdAt'], (a) =>
+        prisma.digestCache.findMany(a),
+    ),
+    owned('affirmations', 'Daily affirmations generated for you', ['id', 'dayKey', 'content', 'tone', 'createdAt'], (a) =>
+        prisma.affirmationCache.findMany(a),
+    ),
+    owned('consent_logs', 'Every consent you gave or withdrew', [
+        'id', 'event', 'consentVersion', 'retention', 'ipHash', 'userAgent', 'createdAt',
+    ], (a) => prisma.consentLog.findMany(a)),
+    owned('audit_logs', 'Actions recorded on your account', ['id', 'action', 'resource', 'ipHash', 'meta', 'createdAt'], (a) =>
+        prisma.auditLog.findMany(a),
+    ),
+    owned('sessions', 'Devices signed in to your account', [
+        'id', 'userAgent', 'createdAt', 'lastUsedAt', 'expiresAt', 'revokedAt',
+    ], (a) => prisma.authSession.findMany(a)),
+    owned('email_tokens', 'Verification and password-reset links sent to you (tokens omitted)', [
+        'id', 'purpose', 'expiresAt', 'usedAt', 'createdAt',
+    ], (a) => prisma.authToken.findMany(a)),
+];
+
+async function* rows(table: ExportTable, userId: string): AsyncGenerator<Row> {
+    let after: string | null = null;
+    for (;;) {
+        const page = await table.page(userId, after);
+        for (const row of page) {
+            let out = row;
+            for (const [column, cipherColumn] of Object.entries(table.sealedColumns ?? {})) {
+                const { [cipherColumn]: cipherText, ...rest } = out;
+                out = { ...rest, [column]: decryptForUser(userId, cipherText as string | null, out[column] as string | null) || null };
+            }
+            if (table.encryptedFields) {
+                const { fieldsCipherText, fields, ...rest } = out;
+                out = { ...rest, fields: openFields(userId, fieldsCipherText as string | null, fields) };
+            }
+            if (!table.encrypted) {
+                yield out;
+                continue;
+            }
+            const { cipherText, content, ...rest } = out;
+            yield { ...rest, content: decryptForUser(userId, cipherText as string | null, content as string | null) };
+        }
+        if (page.length < PAGE) return;
+        after = page[page.length - 1].id as string;
+    }
+}
+
+// ── Formats ───────────────────────────────────────────────────────────────
+
+function ordered(columns: string[], row: Row): Row {
+    return Object.fromEntries(columns.map((c) => [c, row[c] ?? null]));
+}
+
+function csvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    let text =
+        value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    // Spreadsheets execute cells starting with these; quote them out.
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvLine = (values: unknown[]) => values.map(csvCell).join(',') + '\r\n';
+
+async function* jsonFile(source: AsyncIterable<Row>, columns: string[], counter: { rows: number }) {
+    yield '[';
+    for await (const row of source) {
+        yield `${counter.rows === 0 ? '\n' : ',\n'}  ${JSON.stringify(ordered(columns, row))}`;
+        counter.rows++;
+    }
+    yield counter.rows ? '\n]\n' : ']\n';
+}
+
+async function* csvFile(source: AsyncIterable<Row>, columns: string[], counter: { rows: number }) {
+    yield '\uFEFF' + csvLine(columns);
+    for await (const row of source) {
+        yield csvLine(columns.map((c) => row[c]));
+        counter.rows++;
+    }
+}
+
+// ── Archive ───────────────────────────────────────────────────────────────
+
+export interface ExportSummary {
+    rows: Record<string, number>;
+    files: ZipEntryInfo[];
+}
+
+/**
+ * Write the export ZIP to `sink`. Each table is read twice (once per format)
+ * rather than held in memory, so each file's row count is recorded on its own
+ * in case a write lands between the two reads.
+ */
+export async function writeExport(
+    userId: string,
+    sink: (chunk: Uint8Array) => Promise<void>,
+    now = new Date(),
+): Promise<ExportSummary> {
+    const zip = createZipWriter(sink, now);
+    const files: ZipEntryInfo[] = [];
+    const counts: Record<string, number> = {};
+    const tables = [];
+
+    for (const table of TABLES) {
+        const jsonRows = { rows: 0 };
+        const csvRows = { rows: 0 };
+        const json = await zip.addEntry(`${table.name}.json`, jsonFile(rows(table, userId), table.columns, jsonRows));
+        const csv = await zip.addEntry(`${table.name}.csv`, csvFile(rows(table, userId), table.columns, csvRows));
+        files.push(json, csv);
+        counts[table.name] = jsonRows.rows;
+        tables.push({
+            name: table.name,
+            description: table.description,
+            columns: table.columns,
+            rows: jsonRows.rows,
+            files: [
+                { ...json, rows: jsonRows.rows },
+                { ...csv, rows: csvRows.rows },
+            ],
+        });
+    }
+
+    const manifest = {
+        schemaVersion: EXPORT_SCHEMA_VERSION,
+        exportedAt: now.toISOString(),
+        userId,
+        formats: {
+            json: 'UTF-8 JSON array of objects; timestamps ISO-8601 UTC.',
+            csv: 'UTF-8 with BOM, RFC 4180, CRLF; nested values as JSON text; cells starting with = + - @ are prefixed with an apostrophe.',
+        },
+        tables,
+    };
+    const manifestInfo = await zip.addEntry('manifest.json', [JSON.stringify(manifest, null, 2) + '\n']);
+    files.push(manifestInfo);
+
+    await zip.addEntry('checksums.sha256', files.map((f) => `${f.sha256}  ${f.path}\n`));
+    await zip.finish();
+    return { rows: counts, files };
+}
@@ -0,0 +1,89 @@
+/**
+ * Guest expiry — guest accounts have no consent record and no retention
+ * choice, so they are kept only while in use.
+ *
+ * A guest is "active" whenever it signs in or refreshes its token
+ * (`User.lastActiveAt`). After `GUEST_INACTIVITY_DAYS` (default 30) without
+ * activity the nightly `guests.sweep` job fans out one `guests.expire` job per
+ * guest, which hard-deletes the user row; everything it owns cascades.
+ *
+ * The app warns from `GUEST_EXPIRY_WARNING_DAYS` (default 7) before the date
+ * and offers an export; signing up and merging (see guestMergeService) keeps
+ * the data for good.
+ *
+ * The audit row for an expiry carries no user id — only what happened and
+ * under which policy — since the person behind a guest is never identified.
+ */
+import prisma from '@/lib/prisma';
+import { GUEST_PASSWORD_HASH } from '@/lib/auth';
+import { audit } from '@/lib/audit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_BATCH = 1000;
+
+function envDays(name: string, fallback: number): number {
+    const n = Number(process.env[name]);
+    return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+export const guestInactivityDays = () => envDays('GUEST_INACTIVITY_DAYS', 30);
+export const guestWarningDays = () => Math.min(envDays('GUEST_EXPIRY_WARNING_DAYS', 7), guestInactivityDays());
+
+export interface GuestExpiry {
+    inactivityDays: number;
+    lastActiveAt: Date;
+    expiresAt: Date;
+    /** From when the app should warn about the coming deletion. */
+    warnFrom: Date;
+}
+
+export function guestExpiry(lastActiveAt: Date): GuestExpiry {
+    const expiresAt = new Date(lastActiveAt.getTime() + guestInactivityDays() * DAY_MS);
+    return {
+        inactivityDays: guestInactivityDays(),
+        lastActiveAt,
+        expiresAt,
+        warnFrom: new Date(expiresAt.getTime() - guestWarningDays() * DAY_MS),
+    };
+}
+
+const inactiveGuests = (now: Date) => ({
+    passwordHash: GUEST_PASSWORD_HASH,
+    lastActiveAt: { lt: new Date(now.getTime() - guestInactivityDays() * DAY_MS) },
+});
+
+/** Guests past the inactivity window, oldest first. */
+export async function listExpiredGuestIds(now = new Date()): Promise<string[]> {
+    const rows = await prisma.user.findMany({
+        where: inactiveGuests(now),
+        orderBy: { lastActiveAt: 'asc' },
+        take: SWEEP_BATCH,
+        select: { id: true },
+    });
+    return rows.map((r) => r.id);
+}
+
+/**
+ * Hard-delete one expired guest. The delete re-checks the window, so a guest
+ * that came back after the sweep listed it is left alone. True if deleted.
+ */
+export async function expireGuest(userId: string, now = new Date()): Promise<boolean> {
+    const user = await prisma.user.findFirst({
+        where: { id: userId, ...inactiveGuests(now) },
+        select: { lastActiveAt: true },
+    });
+    if (!user) return false;
+
+    const deleted = await prisma.user.deleteMany({ where: { id: userId, ...inactiveGuests(now) } });
+    if (deleted.count === 0) return false;
+
+    await audit({
+        userId: null,
+        action: 'guest.expired',
+        meta: {
+            inactivityDays: guestInactivityDays(),
+            inactiveForDays: Math.floor((now.getTime() - user.lastActiveAt.getTime()) / DAY_MS),
+        },
+    });
+    return true;
+}
@@ -0,0 +1,356 @@
+/**
+ * Guest → account merge: when someone who started as a guest signs in to a
+ * full account, everything they wrote as the guest moves over in one
+ * transaction and the guest user is deleted.
+ *
+ * Encrypted rows (journal, gratitude, future letters, chat messages and
+ * titles, memories) can't simply be
+ * re-pointed: the per-user key is derived with the user id as salt, so each
+ * ciphertext is decrypted with the guest's key and sealed again with the
+ * account's. A ciphertext that won't open aborts the whole merge — nothing is
+ * moved and nothing is lost.
+ *
+ * Single-row tables are resolved, not overwritten:
+ *   - safety plan, wellness profile — the more recently updated one wins
+ *   - user state — the account's wins (it is recomputed from activity anyway)
+ *   - digest / affirmation caches — the account's wins where both cover the
+ *     same period (they are regenerated on demand)
+ */
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { GUEST_PASSWORD_HASH } from '@/lib/auth';
+import { audit } from '@/lib/audit';
+import { decryptForUser, reencryptForUser } from '@/lib/encryption';
+import { indexTokens } from '@/lib/searchIndex';
+
+// Large guest histories re-encrypt row by row inside the transaction.
+const MERGE_TIMEOUT_MS = 60_000;
+
+export class GuestMergeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GuestMergeError';
+    }
+}
+
+export type MergedTable =
+    | 'conversations'
+    | 'messages'
+    | 'journalEntries'
+    | 'journalRevisions'
+    | 'moodLogs'
+    | 'gratitude'
+    | 'futureLetters'
+    | 'memories'
+    | 'toolUsage'
+    | 'clinicalResults'
+    | 'reminders'
+    | 'pushSubscriptions'
+    | 'digests'
+    | 'affirmations'
+    | 'consentLogs'
+    | 'auditLogs'
+    | 'safetyPlan'
+    | 'wellnessProfile'
+    | 'userState';
+
+export type MergeCounts = Record<MergedTable, number>;
+
+type Tx = Prisma.TransactionClient;
+
+interface EncryptedRow {
+    id: string;
+    cipherText: string | null;
+}
+
+/** Move encrypted rows one by one, re-sealing each ciphertext for the new owner. */
+async function moveEncrypted<T extends EncryptedRow>(
+    rows: T[],
+    from: string,
+    to: string,
+    update: (id: string, cipherText: string | null, row: T) => Promise<unknown>,
+): Promise<number> {
+    for (const row of rows) {
+        await update(row.id, row.cipherText ? reencryptForUser(from, to, row.cipherText) : null, row);
+    }
+    return rows.length;
+}
+
+/** Move a single-row table; `keepGuest` decides when both users have one. */
+async function moveSingleton<T extends { id: string; updatedAt: Date }>(
+    guestRow: T | null,
+    targetRow: T | null,
+    keepGuest: (guest: T, target: T) => boolean,
+    remove: (id: string) => Promise<unknown>,
+    reassign: (id: string) => Promise<unknown>,
+): Promise<number> {
+    if (!guestRow) return 0;
+    if (targetRow && !keepGuest(guestRow, targetRow)) {
+        await remove(guestRow.id);
+        return 0;
+    }
+    if (targetRow) await remove(targetRow.id);
+    await reassign(guestRow.id);
+    return 1;
+}
+
+const newer = <T extends { updatedAt: Date }>(guest: T, target: T) => guest.updatedAt > target.updatedAt;
+
+async function mergeRows(tx: Tx, from: string, to: string): Promise<MergeCounts> {
+    const owned = { where: { userId: from }, data: { userId: to } };
+    const encrypted = { where: { userId: from }, select: { id: true, cipherText: true } };
+
+    const journalEntries = await moveEncrypted<EncryptedRow & { content: string; fieldsCipherText: string | null }>(
+        await tx.journalEntry.findMany({
+            ...encrypted,
+            select: { ...encrypted.select, content: true, fieldsCipherText: true },
+        }),
+        from,
+        to,
+        (id, cipherText, row) =>
+            tx.journalEntry.update({
+                where: { id },
+                data: {
+                    userId: to,
+                    cipherText,
+                    // Template answers are sealed separately.
+                    fieldsCipherText: row.fieldsCipherText ? reencryptForUser(from, to, row.fieldsCipherText) : null,
+                    // Keyword index tokens are keyed per user.
+                    searchTokens: indexTokens(to, decryptForUser(from, row.cipherText, row.content)),
+                },
+            }),
+    );
+    const journalRevisions = await moveEncrypted(
+        await tx.journalRevision.findMany(encrypted),
+        from,
+        to,
+        (id, cipherText) => tx.journalRevision.update({ where: { id }, data: { userId: to, cipherText } }),
+    );
+    const gratitude = await moveEncrypted(await tx.gratitudeEntry.findMany(encrypted), from, to, (id, cipherText) =>
+        tx.gratitudeEntry.update({ where: { id }, data: { userId: to, cipherText } }),
+    );
+    const futureLetters = await moveEncrypted(await tx.futureLetter.findMany(encrypted), from, to, (id, cipherText) =>
+        tx.futureLetter.update({ where: { id }, data: { userId: to, cipherText } }),
+    );
+    const memories = await moveEncrypted(await tx.memory.findMany(encrypted), from, to, (id, cipherText) =>
+        tx.memory.update({ where: { id }, data: { userId: to, cipherText } }),
+    );
+    // Messages follow their conversation, which moves below.
+    const messages = await moveEncrypted<EncryptedRow & { content: string }>(
+        await tx.message.findMany({
+            where: { conversation: { userId: from } },
+            select: { id: true, cipherText: true, content: true },
+        }),
+        from,
+        to,
+        (id, cipherText, row) =>
+            tx.message.update({
+                where: { id },
+                data: { cipherText, searchTokens: indexTokens(to, decryptForUser(from, row.cipherText, row.content)) },
+            }),
+    );
+
+    // Titles are sealed on the conversation itself, which moves below.
+    const titled = await tx.conversation.findMany({
+        where: { userId: from, title: { not: null } },
+        select: { id: true, title: true, titleCipherText: true },
+    });
+    for (const c of titled) {
+        await tx.conversation.update({
+            where: { id: c.id },
+            data: {
+                titleCipherText: c.titleCipherText ? reencryptForUser(from, to, c.titleCipherText) : null,
+                titleTokens: indexTokens(to, decryptForUser(from, c.titleCipherText, c.title)),
+            },
+        });
+    }
+
+    // Caches keyed per period: drop the guest's copy where the account has one.
+    const [targetDigests, targetAffirmations] = await Promise.all([
+        tx.digestCache.findMany({ where: { userId: to }, select: { period: true, periodKey: true } }),
+        tx.affirmationCache.findMany({ where: { userId: to }, select: { dayKey: true } }),
+    ]);
+    if (targetDigests.length) {
+        await tx.digestCache.deleteMany({
+            where: { userId: from, OR: targetDigests.map((d) => ({ period: d.period, periodKey: d.periodKey })) },
+        });
+    }
+    await tx.affirmationCache.deleteMany({
+        where: { userId: from, dayKey: { in: targetAffirmations.map((a) => a.dayKey) } },
+    });
+
+    const [
+        conversations,
+        moodLogs,
+        toolUsage,
+        clinicalResults,
+        reminders,
+        pushSubscriptions,
+        digests,
+        affirmations,
+        consentLogs,
+        auditLogs,
+    ] = await Promise.all([
+        // The rolling summary is sealed for the guest; the next turn rebuilds it.
+        tx.conversation.updateMany({
+            ...owned,
+            data: { ...owned.data, summary: null, summaryCipherText: null, summaryThroughId: null },
+        }),
+        tx.moodLog.updateMany(owned),
+        tx.toolUsage.updateMany(owned),
+        tx.clinicalResult.updateMany(owned),
+        tx.reminder.updateMany(owned),
+        tx.pushSubscription.updateMany(owned),
+        tx.digestCache.updateMany(owned),
+        tx.affirmationCache.updateMany(owned),
+        tx.consentLog.updateMany(owned),
+        tx.auditLog.updateMany(owned),
+    ]);
+
+    const safetyPlan = await moveSingleton(
+        await tx.safetyPlan.findUnique({ where: { userId: from } }),
+        await tx.safetyPlan.findUnique({ where: { userId: to } }),
+        newer,
+        (id) => tx.safetyPlan.delete({ where: { id } }),
+        (id) => tx.safetyPlan.update({ where: { id }, data: { userId: to } }),
+    );
+    const wellnessProfile = await moveSingleton(
+        await tx.wellnessProfile.findUnique({ where: { userId: from } }),
+        await tx.wellnessProfile.findUnique({ where: { userId: to } }),
+        newer,
+        (id) => tx.wellnessProfile.delete({ where: { id } }),
+        (id) => tx.wellnessProfile.update({ where: { id }, data: { userId: to } }),
+    );
+    const userState = await moveSingleton(
+        await tx.userState.findUnique({ where: { userId: from } }),
+        await tx.userState.findUnique({ where: { userId: to } }),
+        () => false,
+        (id) => tx.userState.delete({ where: { id } }),
+        (id) => tx.userState.update({ where: { id }, data: { userId: to } }),
+    );
+
+    return {
+        conversations: conversations.count,
+        messages,
+        journalEntries,
+        journalRevisions,
+        moodLogs: moodLogs.count,
+        gratitude,
+        futureLetters,
+        memories,
+        toolUsage: toolUsage.count,
+        clinicalResults: clinicalResults.count,
+        reminders: reminders.count,
+        pushSubscriptions: pushSubscriptions.count,
+        digests: digests.count,
+        affirmations: affirmations.count,
+        consentLogs: consentLogs.count,
+        auditLogs: auditLogs.count,
+        safetyPlan,
+        wellnessProfile,
+        userState,
+    };
+}
+
+/**
+ * Settings the guest chose that the account hasn't: consent, retention,
+ * locale, notification preferences. Children's Code mode is sticky — if
+ * either side is in it, the merged account is too.
+ */
+type MergeableUser = Prisma.UserGetPayload<{
+    select: {
+        birthYear: true;
+        childMode: true;
+        consentedAt: true;
+        consentVersion: true;
+        retentionPolicy: true;
+        region: true;
+        locale: true;
+        timezone: true;
+        quietHoursStart: true;
+        quietHoursEnd: true;
+    };
+}>;
+
+function inheritedSettings(guest: MergeableUser, target: MergeableUser): Prisma.UserUpdateInput {
+    const data: Prisma.UserUpdateInput = {};
+    if (guest.childMode && !target.childMode) data.childMode = true;
+    if (target.birthYear == null && guest.birthYear != null) data.birthYear = guest.birthYear;
+    if (!target.consentedAt && guest.consentedAt) {
+        data.consentedAt = guest.consentedAt;
+        data.consentVersion = guest.consentVersion;
+    }
+    if (!target.retentionPolicy && guest.retentionPolicy) data.retentionPolicy = guest.retentionPolicy;
+    if (!target.region && guest.region) data.region = guest.region;
+    if (!target.locale && guest.locale) data.locale = guest.locale;
+    if (!target.timezone && guest.timezone) data.timezone = guest.timezone;
+    if (target.quietHoursStart == null && guest.quietHoursStart != null) {
+        data.quietHoursStart = guest.quietHoursStart;
+        data.quietHoursEnd = guest.quietHoursEnd;
+    }
+    return data;
+}
+
+const MERGEABLE_SELECT = {
+    id: true,
+    passwordHash: true,
+    deletedAt: true,
+    birthYear: true,
+    childMode: true,
+    consentedAt: true,
+    consentVersion: true,
+    retentionPolicy: true,
+    region: true,
+    locale: true,
+    timezone: true,
+    quietHoursStart: true,
+    quietHoursEnd: true,
+} as const;
+
+/**
+ * Move everything the guest owns into `targetId` and delete the guest.
+ * The target must be a live, non-guest account. Audited on the target with
+ * per-table counts (the guest id is recorded so the trail stays joinable).
+ */
+export async function mergeGuestInto(
+    guestId: string,
+    targetId: string,
+    req?: NextRequest,
+): Promise<{ counts: MergeCounts; total: number }> {
+    if (guestId === targetId) throw new GuestMergeError('Cannot merge an account into itself');
+
+    const counts: MergeCounts = await prisma.$transaction(
+        async (tx) => {
+            const [guest, target] = await Promise.all([
+                tx.user.findUnique({ where: { id: guestId }, select: MERGEABLE_SELECT }),
+                tx.user.findUnique({ where: { id: targetId }, select: MERGEABLE_SELECT }),
+            ]);
+            if (!guest || guest.deletedAt || guest.passwordHash !== GUEST_PASSWORD_HASH) {
+                throw new GuestMergeError('Guest session not found');
+            }
+            if (!target || target.deletedAt) throw new GuestMergeError('Account not found');
+            if (target.passwordHash === GUEST_PASSWORD_HASH) {
+                throw new GuestMergeError('Sign in to a full account before merging');
+            }
+
+            const moved = await mergeRows(tx, guestId, targetId);
+            const settings = inheritedSettings(guest, target);
+            if (Object.keys(settings).length) await tx.user.update({ where: { id: targetId }, data: settings });
+            // Cascades the guest's sessions and one-time tokens.
+            await tx.user.delete({ where: { id: guestId } });
+            return moved;
+        },
+        { timeout: MERGE_TIMEOUT_MS },
+    );
+
+    const total = Object.values(counts).reduce((a, b) => a + b, 0);
+    await audit({
+        req,
+        userId: targetId,
+        action: 'auth.guest_merge',
+        resource: `user:${guestId}`,
+        meta: { counts, total },
+    });
+    return { counts, total };
+}
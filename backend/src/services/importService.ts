@@ -0,0 +1,601 @@
+/**
+ * Data import — loads a Silent Help export (see exportService) into the
+ * signed-in account, e.g. when someone moves to a new account.
+ *
+ * Accepts the v2 ZIP (manifest + per-table JSON; the CSVs are ignored) and
+ * the older v1 single JSON document. Each JSON file must match the SHA-256 in
+ * the manifest, and every row is validated before anything is written: a
+ * damaged or hand-edited export is rejected whole, never half-imported.
+ *
+ * Rows get new ids derived from (account, table, original id). Importing the
+ * same export twice therefore inserts nothing the second time, and messages
+ * still find their conversation after the renaming. Everything is written in
+ * one transaction.
+ *
+ * Journal entries (template answers included) and their revisions, gratitude,
+ * letters, chat messages and memories are encrypted under the importing
+ * user's key. Embeddings are not part of an export; the
+ * `imports.embed` job recomputes them with `embed()` afterwards.
+ *
+ * Not imported: the profile (the account has its own), inferred state,
+ * generated caches, push subscriptions, sessions and email tokens, and the
+ * consent and audit trails — those belong to the account they were recorded on.
+ */
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { embed } from '@/lib/ai/provider';
+import { storedEmbedding, type StoredEmbedding } from '@/lib/ai/vectors';
+import { decryptForUser, encryptForUser } from '@/lib/encryption';
+import { nextOccurrence, parseRRule } from '@/lib/recurrence';
+import { indexTokens } from '@/lib/searchIndex';
+import { readZip, ZipError } from '@/lib/zip';
+import { enqueue } from '@/lib/jobs';
+import { sealTitle } from '@/services/conversationService';
+import { userTimeZone } from '@/services/reminderService';
+import {
+    ImportManifestSchema,
+    ImportRowSchemas,
+    type ImportRow,
+    type ImportTableName,
+} from '@/contracts/schemas';
+
+/** Largest upload the route accepts. */
+export const MAX_IMPORT_BYTES = 25 * 1024 * 1024;
+const MAX_UNCOMPRESSED_BYTES = 200 * 1024 * 1024;
+const MAX_ENTRIES = 200;
+// A big history is thousands of inserts plus one encryption per entry.
+const IMPORT_TIMEOUT_MS = 120_000;
+const CHUNK = 500;
+const EMBED_PAGE = 50;
+const MAX_ISSUES = 10;
+
+type Tx = Prisma.TransactionClient;
+
+export class ImportError extends Error {
+    constructor(
+        message: string,
+        readonly issues: string[] = [],
+    ) {
+        super(message);
+        this.name = 'ImportError';
+    }
+}
+
+type RawTables = Partial<Record<ImportTableName, unknown[]>>;
+type Rows = { [T in ImportTableName]: ImportRow<T>[] };
+
+interface ParsedExport {
+    schemaVersion: 1 | 2;
+    exportedAt: string | null;
+    tables: RawTables;
+    /** Tables present in the export that are deliberately not imported. */
+    ignored: string[];
+}
+
+// ── Reading ───────────────────────────────────────────────────────────────
+
+function parseJson(text: string, what: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new ImportError(`${what} is not valid JSON`);
+    }
+}
+
+function fromZip(upload: Buffer): ParsedExport {
+    let files: Map<string, Buffer>;
+    try {
+        files = readZip(upload, { maxEntries: MAX_ENTRIES, maxBytes: MAX_UNCOMPRESSED_BYTES });
+    } catch (e) {
+        if (e instanceof ZipError) throw new ImportError(`Unreadable archive: ${e.message}`);
+        throw e;
+    }
+    const manifestFile = files.get('manifest.json');
+    if (!manifestFile) throw new ImportError('manifest.json is missing — is this a Silent Help export?');
+    const manifest = ImportManifestSchema.safeParse(parseJson(manifestFile.toString('utf8'), 'manifest.json'));
+    if (!manifest.success) throw new ImportError('Unsupported or damaged manifest.json');
+
+    const tables: RawTables = {};
+    const ignored: string[] = [];
+    for (const table of manifest.data.tables) {
+        if (!(table.name in ImportRowSchemas)) {
+            ignored.push(table.name);
+            continue;
+        }
+        const entry = table.files.find((f) => f.path === `${table.name}.json`);
+        const data = entry && files.get(entry.path);
+        if (!entry || !data) throw new ImportError(`${table.name}.json is missing from the archive`);
+        if (crypto.createHash('sha256').update(data).digest('hex') !== entry.sha256) {
+            throw new ImportError(`${entry.path} does not match its checksum`);
+        }
+        const rows = parseJson(data.toString('utf8'), entry.path);
+        if (!Array.isArray(rows)) throw new ImportError(`${entry.path} is not an array of rows`);
+        tables[table.name as ImportTableName] = rows;
+    }
+    return { schemaVersion: 2, exportedAt: manifest.data.exportedAt, tables, ignored };
+}
+
+const list = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+const one = (v: unknown): unknown[] => (v && typeof v === 'object' ? [v] : []);
+
+/** v1: one JSON document, messages nested in their conversation. */
+function fromJson(upload: Buffer): ParsedExport {
+    const doc = parseJson(upload.toString('utf8'), 'The upload');
+    if (!doc || typeof doc !== 'object' || (doc as { schemaVersion?: unknown }).schemaVersion !== 1) {
+        throw new ImportError('Not a Silent Help export (expected the ZIP from “Export data”)');
+    }
+    const v1 = doc as Record<string, unknown>;
+    const conversations = list(v1.conversations);
+    return {
+        schemaVersion: 1,
+        exportedAt: typeof v1.exportedAt === 'string' ? v1.exportedAt : null,
+        tables: {
+            conversations,
+            messages: conversations.flatMap((c) => {
+                const { id, messages } = (c ?? {}) as { id?: unknown; messages?: unknown };
+                return list(messages).map((m) => ({ ...(m as object), conversationId: id }));
+            }),
+            journal_entries: list(v1.journalEntries),
+            mood_logs: list(v1.moodLogs),
+            tool_usage: list(v1.toolUsage),
+            memories: list(v1.memories),
+            reminders: list(v1.reminders),
+            safety_plan: one(v1.safetyPlan),
+            wellness_profile: one(v1.wellnessProfile),
+        },
+        ignored: ['user', 'userState'].filter((k) => v1[k] != null),
+    };
+}
+
+export function parseExport(upload: Buffer): ParsedExport {
+    // Local file header signature: PK\3\4
+    return upload.length >= 4 && upload.readUInt32LE(0) === 0x04034b50 ? fromZip(upload) : fromJson(upload);
+}
+
+/** Validate every row of every table; throws with the first few problems. */
+function validate(tables: RawTables): Rows {
+    const issues: string[] = [];
+    const out = {} as Record<ImportTableName, unknown[]>;
+    for (const name of Object.keys(ImportRowSchemas) as ImportTableName[]) {
+        const schema = ImportRowSchemas[name];
+        out[name] = (tables[name] ?? []).map((row, i) => {
+            const parsed = schema.safeParse(row);
+            if (parsed.success) return parsed.data;
+            for (const issue of parsed.error.issues) {
+                if (issues.length < MAX_ISSUES) issues.push(`${name}[${i}].${issue.path.join('.')}: ${issue.message}`);
+            }
+            return null;
+        });
+    }
+    if (issues.length) throw new ImportError('The export contains rows that could not be read', issues);
+    return out as Rows;
+}
+
+// ── Writing ───────────────────────────────────────────────────────────────
+
+export interface TableImport {
+    received: number;
+    imported: number;
+    /** Already imported by an earlier run of the same export. */
+    duplicates: number;
+    /** Left out on purpose, e.g. the account already has a safety plan. */
+    skipped: number;
+}
+
+export interface ImportSummary {
+    schemaVersion: 1 | 2;
+    exportedAt: string | null;
+    tables: Record<ImportTableName, TableImport>;
+    /** Tables in the export that are never imported. */
+    ignored: string[];
+    /** False when the embedding job could not be queued; search misses the rows until a retry. */
+    embeddingsQueued: boolean;
+}
+
+/** Stable UUID for a row imported into `userId`, so a replay collides with itself. */
+export function importedId(userId: string, table: ImportTableName, sourceId: string): string {
+    const h = crypto.createHash('sha256').update(`silent-help:import:${userId}:${table}:${sourceId}`).digest();
+    h[6] = (h[6] & 0x0f) | 0x50; // name-based UUID (v5 layout)
+    h[8] = (h[8] & 0x3f) | 0x80;
+    const hex = h.subarray(0, 16).toString('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+async function createAll<T>(
+    data: T[],
+    createMany: (args: { data: T[]; skipDuplicates: true }) => Promise<{ count: number }>,
+): Promise<TableImport> {
+    let imported = 0;
+    for (let i = 0; i < data.length; i += CHUNK) {
+        imported += (await createMany({ data: data.slice(i, i + CHUNK), skipDuplicates: true })).count;
+    }
+    return { received: data.length, imported, duplicates: data.length - imported, skipped: 0 };
+}
+
+/** Encrypt for the importing user, in the same shape the create endpoints store. */
+function seal(userId: string, content: string, placeholder: string) {
+    const { cipherText, plaintextFallback } = encryptForUser(userId, content);
+    return { content: plaintextFallback ?? placeholder, cipherText };
+}
+
+/** Template answers, sealed like the entry text (see journalService). */
+function sealFields(userId: string, fields: Record<string, string> | null) {
+    if (!fields) return { fields: Prisma.DbNull, fieldsCipherText: null };
+    const { cipherText } = encryptForUser(userId, JSON.stringify(fields));
+    return cipherText ? { fields: Prisma.DbNull, fieldsCipherText: cipherText } : { fields, fieldsCipherText: null };
+}
+
+/**
+ * Reminders that fell due while the export sat on disk: a recurring one moves
+ * on to its next occurrence, a one-off is canceled rather than fired late.
+ */
+function rearm(
+    reminder: Pick<ImportRow<'reminders'>, 'status' | 'dueAt' | 'rrule' | 'deferredUntil'>,
+    timeZone: string,
+    now: Date,
+) {
+    const { status, dueAt, rrule } = reminder;
+    const deferredUntil = reminder.deferredUntil && reminder.deferredUntil > now ? reminder.deferredUntil : null;
+    if (status !== 'pending' || dueAt > now) return { status, dueAt, deferredUntil };
+    const rule = rrule ? parseRRule(rrule) : null;
+    const next = rule ? nextOccurrence(rule, dueAt, timeZone, now) : null;
+    return next ? { status, dueAt: next, deferredUntil: null } : { status: 'canceled', dueAt, deferredUntil: null };
+}
+
+/**
+ * Messages with every parent resolved and written before its replies (the
+ * self-reference is checked per insert). Exports from before branching have
+ * no `parentId`: each message follows the previous one in its conversation.
+ * A parent missing from the export, or in another conversation, makes a root.
+ */
+function threaded(messages: ImportRow<'messages'>[]): Array<ImportRow<'messages'> & { parentId: string | null }> {
+    const byId = new Map(messages.map((m) => [m.id, m]));
+    const previous = new Map<string, string>();
+    const last = new Map<string, string>();
+    for (const m of [...messages].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+        const before = last.get(m.conversationId);
+        if (before) previous.set(m.id, before);
+        last.set(m.conversationId, m.id);
+    }
+    const parentOf = (m: ImportRow<'messages'>): string | null => {
+        const parentId = m.parentId === undefined ? previous.get(m.id) : m.parentId;
+        const parent = parentId ? byId.get(parentId) : undefined;
+        return parent && parent.conversationId === m.conversationId ? parent.id : null;
+    };
+
+    const out: Array<ImportRow<'messages'> & { parentId: string | null }> = [];
+    const placed = new Set<string>();
+    for (const m of messages) {
+        // Walk up to the first placed ancestor, then place the chain top-down.
+        const chain: ImportRow<'messages'>[] = [];
+        for (let n: ImportRow<'messages'> | undefined = m; n && !placed.has(n.id); ) {
+            placed.add(n.id);
+            chain.push(n);
+            const parentId = parentOf(n);
+            n = parentId ? byId.get(parentId) : undefined;
+        }
+        for (const n of chain.reverse()) out.push({ ...n, parentId: parentOf(n) });
+    }
+    return out;
+}
+
+async function singleRow(
+    existing: { id: string } | null,
+    id: string,
+    create: () => Promise<unknown>,
+): Promise<TableImport> {
+    if (!existing) {
+        await create();
+        return { received: 1, imported: 1, duplicates: 0, skipped: 0 };
+    }
+    const replay = existing.id === id;
+    return { received: 1, imported: 0, duplicates: replay ? 1 : 0, skipped: replay ? 0 : 1 };
+}
+
+const none: TableImport = { received: 0, imported: 0, duplicates: 0, skipped: 0 };
+
+async function writeRows(tx: Tx, userId: string, rows: Rows, timeZone: string, now: Date) {
+    const id = (table: ImportTableName, sourceId: string) => importedId(userId, table, sourceId);
+
+    const conversations = await createAll(
+        rows.conversations.map((c) => ({
+            id: id('conversations', c.id),
+            userId,
+            ...sealTitle(userId, c.title),
+            titleSource: c.titleSource,
+            pinned: c.pinned,
+            archived: c.archived,
+            activeLeafId: c.activeLeafId ? id('messages', c.activeLeafId) : null,
+            createdAt: c.createdAt,
+            updatedAt: c.updatedAt ?? c.createdAt,
+        })),
+        (a) => tx.conversation.createMany(a),
+    );
+
+    // Only messages whose conversation is in this export; a replay maps them
+    // onto the conversations the first run created.
+    const sourceConversations = new Set(rows.conversations.map((c) => c.id));
+    const attached = threaded(rows.messages.filter((m) => sourceConversations.has(m.conversationId)));
+    const messages = await createAll(
+        attached.map((m) => ({
+            id: id('messages', m.id),
+            conversationId: id('conversations', m.conversationId),
+            parentId: m.parentId && id('messages', m.parentId),
+            role: m.role,
+            ...seal(userId, m.content, '[encrypted]'),
+            searchTokens: indexTokens(userId, m.content),
+            createdAt: m.createdAt,
+        })),
+        (a) => tx.message.createMany(a),
+    );
+    messages.received = rows.messages.length;
+    messages.skipped = rows.messages.length - attached.length;
+
+    const journal_entries = await createAll(
+        rows.journal_entries.map((j) => ({
+            id: id('journal_entries', j.id),
+            userId,
+            ...seal(userId, j.content, '[encrypted]'),
+            mood: j.mood,
+            template: j.template,
+            tags: j.tags,
+            ...sealFields(userId, j.template ? j.fields : null),
+            searchTokens: indexTokens(userId, j.content),
+            createdAt: j.createdAt,
+            updatedAt: j.updatedAt ?? j.createdAt,
+        })),
+        (a) => tx.journalEntry.createMany(a),
+    );
+
+    // Like messages: only versions of entries in this export.
+    const sourceEntries = new Set(rows.journal_entries.map((j) => j.id));
+    const versioned = rows.journal_revisions.filter((r) => sourceEntries.has(r.entryId));
+    const journal_revisions = await createAll(
+        versioned.map((r) => ({
+            id: id('journal_revisions', r.id),
+            entryId: id('journal_entries', r.entryId),
+            userId,
+            ...seal(userId, r.content, '[encrypted]'),
+            mood: r.mood,
+            writtenAt: r.writtenAt,
+            createdAt: r.createdAt,
+        })),
+        (a) => tx.journalRevision.createMany(a),
+    );
+    journal_revisions.received = rows.journal_revisions.length;
+    journal_revisions.skipped = rows.journal_revisions.length - versioned.length;
+
+    const gratitude_entries = await createAll(
+        rows.gratitude_entries.map((g) => ({
+            id: id('gratitude_entries', g.id),
+            userId,
+            ...seal(userId, g.content, '[encrypted]'),
+            dayKey: g.dayKey,
+            createdAt: g.createdAt,
+        })),
+        (a) => tx.gratitudeEntry.createMany(a),
+    );
+
+    const future_letters = await createAll(
+        rows.future_letters.map((l) => ({
+            id: id('future_letters', l.id),
+            userId,
+            ...seal(userId, l.content, '[sealed]'),
+            deliverAt: l.deliverAt,
+            delivered: l.delivered,
+            createdAt: l.createdAt,
+        })),
+        (a) => tx.futureLetter.createMany(a),
+    );
+
+    const mood_logs = await createAll(
+        rows.mood_logs.map(({ id: sourceId, ...m }) => ({ ...m, id: id('mood_logs', sourceId), userId })),
+        (a) => tx.moodLog.createMany(a),
+    );
+
+    const tool_usage = await createAll(
+        rows.tool_usage.map(({ id: sourceId, ...t }) => ({ ...t, id: id('tool_usage', sourceId), userId })),
+        (a) => tx.toolUsage.createMany(a),
+    );
+
+    const memories = await createAll(
+        rows.memories.map(({ id: sourceId, updatedAt, content, ...m }) => ({
+            ...m,
+            ...seal(userId, content, '[encrypted]'),
+            id: id('memories', sourceId),
+            userId,
+            updatedAt: updatedAt ?? m.createdAt,
+        })),
+        (a) => tx.memory.createMany(a),
+    );
+
+    const clinical_results = await createAll(
+        rows.clinical_results.map(({ id: sourceId, ...r }) => ({ ...r, id: id('clinical_results', sourceId), userId })),
+        (a) => tx.clinicalResult.createMany(a),
+    );
+
+    const reminders = await createAll(
+        rows.reminders.map(({ id: sourceId, ...r }) => ({
+            ...r,
+            ...rearm(r, timeZone, now),
+            id: id('reminders', sourceId),
+            userId,
+        })),
+        (a) => tx.reminder.createMany(a),
+    );
+
+    // One per user: an account that already has its own keeps it.
+    const [plan] = rows.safety_plan;
+    const safety_plan = plan
+        ? await singleRow(
+              await tx.safetyPlan.findUnique({ where: { userId }, select: { id: true } }),
+              id('safety_plan', plan.id),
+              () =>
+                  tx.safetyPlan.create({
+                      data: {
+                          ...plan,
+                          id: id('safety_plan', plan.id),
+                          userId,
+                          updatedAt: plan.updatedAt ?? plan.createdAt,
+                      },
+                  }),
+          )
+        : none;
+
+    const [wellness] = rows.wellness_profile;
+    const wellness_profile = wellness
+        ? await singleRow(
+              await tx.wellnessProfile.findUnique({ where: { userId }, select: { id: true } }),
+              id('wellness_profile', wellness.id),
+              () =>
+                  tx.wellnessProfile.create({
+                      data: {
+                          ...wellness,
+                          id: id('wellness_profile', wellness.id),
+                          userId,
+                          adaptiveAnswers: wellness.adaptiveAnswers ?? Prisma.JsonNull,
+                          updatedAt: wellness.updatedAt ?? wellness.createdAt,
+                      },
+                  }),
+          )
+        : none;
+
+    return {
+        conversations,
+        messages,
+        journal_entries,
+        journal_revisions,
+        mood_logs,
+        tool_usage,
+        memories,
+        reminders,
+        gratitude_entries,
+        future_letters,
+        clinical_results,
+        safety_plan,
+        wellness_profile,
+    };
+}
+
+/**
+ * Parse, validate and write an uploaded export into `userId`'s account, then
+ * queue the embeddings for what came in.
+ */
+export async function importExport(userId: string, upload: Buffer, now = new Date()): Promise<ImportSummary> {
+    const parsed = parseExport(upload);
+    const rows = validate(parsed.tables);
+    const timeZone = await userTimeZone(userId);
+
+    const tables: Record<ImportTableName, TableImport> = await prisma.$transaction(
+        (tx) => writeRows(tx, userId, rows, timeZone, now),
+        { timeout: IMPORT_TIMEOUT_MS },
+    );
+    const imported = Object.values(tables).some((t) => t.imported > 0);
+    const jobId = imported ? await enqueue('imports.embed', { userId }, { singletonKey: userId }) : null;
+    return {
+        schemaVersion: parsed.schemaVersion,
+        exportedAt: parsed.exportedAt,
+        tables,
+        ignored: parsed.ignored,
+        embeddingsQueued: !imported || jobId !== null,
+    };
+}
+
+// ── Embeddings ────────────────────────────────────────────────────────────
+
+interface EmbedTarget {
+    table: string;
+    /** Rows of `userId` without an embedding, after the cursor, in id order. */
+    page(userId: string, after: string): Promise<{ id: string; text: string }[]>;
+    write(id: string, vector: StoredEmbedding): Promise<unknown>;
+}
+
+const EMBED_TARGETS: EmbedTarget[] = [
+    {
+        table: 'journal_entries',
+        page: async (userId, after) =>
+            (
+                await prisma.$queryRaw<{ id: string; content: string; cipher_text: string | null }[]>`
+                    SELECT id, content, cipher_text FROM journal_entries
+                    WHERE user_id = ${userId}::uuid AND embedding IS NULL AND embedding_local IS NULL
+                      AND id::text > ${after}
+                    ORDER BY id LIMIT ${EMBED_PAGE}
+                `
+            ).map((r) => ({ id: r.id, text: decryptForUser(userId, r.cipher_text, r.content) })),
+        write: (id, vector) => prisma.$executeRaw`
+            UPDATE journal_entries
+            SET embedding = ${vector.wide}::vector, embedding_local = ${vector.local}::vector,
+                embedding_model = ${vector.model}
+            WHERE id = ${id}::uuid
+        `,
+    },
+    {
+        table: 'memories',
+        page: async (userId, after) =>
+            (
+                await prisma.$queryRaw<{ id: string; content: string; cipher_text: string | null }[]>`
+                    SELECT id, content, cipher_text FROM memories
+                    WHERE user_id = ${userId}::uuid AND embedding IS NULL AND embedding_local IS NULL
+                      AND id::text > ${after}
+                    ORDER BY id LIMIT ${EMBED_PAGE}
+                `
+            ).map((r) => ({ id: r.id, text: decryptForUser(userId, r.cipher_text, r.content) })),
+        write: (id, vector) => prisma.$executeRaw`
+            UPDATE memories
+            SET embedding = ${vector.wide}::vector, embedding_local = ${vector.local}::vector,
+                embedding_model = ${vector.model}
+            WHERE id = ${id}::uuid
+        `,
+    },
+    {
+        // Only the user's own messages are embedded (see the chat route).
+        table: 'messages',
+        page: async (userId, after) =>
+            (
+                await prisma.$queryRaw<{ id: string; content: string; cipher_text: string | null }[]>`
+                    SELECT m.id, m.content, m.cipher_text FROM messages m
+                    JOIN conversations c ON c.id = m.conversation_id
+                    WHERE c.user_id = ${userId}::uuid AND m.role = 'user'
+                      AND m.embedding IS NULL AND m.embedding_local IS NULL AND m.id::text > ${after}
+                    ORDER BY m.id LIMIT ${EMBED_PAGE}
+                `
+            ).map((r) => ({ id: r.id, text: decryptForUser(userId, r.cipher_text, r.content) })),
+        write: (id, vector) => prisma.$executeRaw`
+            UPDATE messages
+            SET embedding = ${vector.wide}::vector, embedding_local = ${vector.local}::vector,
+                embedding_model = ${vector.model}
+            WHERE id = ${id}::uuid
+        `,
+    },
+];
+
+/**
+ * Compute embeddings for `userId`'s journal entries, memories and own chat
+ * messages that have none — after an import, the imported rows. Each table is
+ * walked by id, so a row whose embedding fails is logged and passed over, and
+ * a retry only redoes what is still missing.
+ */
+export async function embedMissing(userId: string): Promise<{ embedded: number; failed: number }> {
+    let embedded = 0;
+    let failed = 0;
+    for (const target of EMBED_TARGETS) {
+        for (let after = ''; ; ) {
+            const rows = await target.page(userId, after);
+            for (const row of rows) {
+                try {
+                    const e = await embed(row.text);
+                    await target.write(row.id, storedEmbedding(e));
+                    embedded++;
+                } catch (err) {
+                    failed++;
+                    logger.warn({ err: String(err), table: target.table, id: row.id }, 'import.embed_failed');
+                }
+            }
+            if (rows.length < EMBED_PAGE) break;
+            after = rows[rows.length - 1].id;
+        }
+    }
+    return { embedded, failed };
+}
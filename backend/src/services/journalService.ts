@@ -1,117 +1,495 @@
 /**
  * Journal service — encrypted at rest, embedded for semantic search.
+ *
+ * Entries are free text or a guided template (lib/journalTemplates.ts). A
+ * templated entry's answers are sealed like its text, in `fieldsCipherText`,
+ * and `content` is their rendering, so readers of journal text need no
+ * template awareness. Tags stay plaintext so `GET /api/journal` can filter
+ * on them.
+ *
+ * Search is hybrid: pgvector similarity and a blind keyword index
+ * (lib/searchIndex.ts — content is encrypted, so Postgres FTS can't see it),
+ * fused with reciprocal rank fusion. Both are written with the entry.
+ *
+ * Edits keep the previous version as a `JournalRevision` (its ciphertext is
+ * copied as-is, so history is encrypted exactly like the entry) and
+ * re-embed the new text. Deleting an entry removes its history too. Chat RAG
+ * reads entries live, so neither leaves a stale copy in retrieval; cached
+ * weekly digests that may quote the old text are dropped.
  */
+import { Prisma } from '@prisma/client';
 import prisma from '@/lib/prisma';
 import { encryptForUser, decryptForUser, isEncryptionEnabled } from '@/lib/encryption';
 import { embed, toPgVector } from '@/lib/ai/provider';
+import { storedEmbedding, vectorColumn } from '@/lib/ai/vectors';
 import { logger } from '@/lib/logger';
+import { cleanFields, renderTemplate, JournalTemplateError } from '@/lib/journalTemplates';
+import { indexTokens, queryTokens, searchTerms, snippet } from '@/lib/searchIndex';
+import type { JournalTemplateId } from '@/contracts/schemas';
+import { dropDigestsCovering } from '@/services/digestService';
+
+/** Earlier versions kept per entry; the oldest go first. */
+const MAX_REVISIONS = 20;
+
+export class JournalEditConflictError extends Error {
+    constructor() {
+        super('This entry was changed elsewhere — reload it and try again');
+        this.name = 'JournalEditConflictError';
+    }
+}
+
+export { JournalTemplateError };
 
 export interface JournalDto {
     id: string;
     content: string;
     mood: string | null;
+    template: JournalTemplateId | null;
+    tags: string[];
+    /** Template answers by field id; null for free-text entries. */
+    fields: Record<string, string> | null;
     createdAt: Date;
     updatedAt: Date;
     encrypted: boolean;
 }
 
-export async function listJournal(userId: string, limit = 50): Promise<JournalDto[]> {
+type TemplateFields = Record<string, string>;
+
+/** How template answers are stored: sealed, or plaintext when encryption is off. */
+function sealFields(userId: string, fields: TemplateFields | null) {
+    if (!fields) return { fields: null, fieldsCipherText: null };
+    const { cipherText } = encryptForUser(userId, JSON.stringify(fields));
+    return cipherText ? { fields: null, fieldsCipherText: cipherText } : { fields, fieldsCipherText: null };
+}
+
+/** Template answers back from storage; null if there are none or they can't be opened. */
+export function openFields(userId: string, fieldsCipherText: string | null, fields: unknown): TemplateFields | null {
+    if (!fieldsCipherText) return (fields as TemplateFields | null) ?? null;
+    const json = decryptForUser(userId, fieldsCipherText, null);
+    return json ? (JSON.parse(json) as TemplateFields) : null;
+}
+
+interface JournalRow {
+    id: string;
+    content: string;
+    cipher_text: string | null;
+    mood: string | null;
+    template: string | null;
+    tags: string[];
+    fields: unknown;
+    fields_cipher_text: string | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/** A Prisma-loaded entry in the raw-query row shape. */
+const fromEntry = (e: {
+    id: string;
+    content: string;
+    cipherText: string | null;
+    mood: string | null;
+    template: string | null;
+    tags: string[];
+    fields: unknown;
+    fieldsCipherText: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}): JournalRow => ({
+    id: e.id,
+    content: e.content,
+    cipher_text: e.cipherText,
+    mood: e.mood,
+    template: e.template,
+    tags: e.tags,
+    fields: e.fields,
+    fields_cipher_text: e.fieldsCipherText,
+    created_at: e.createdAt,
+    updated_at: e.updatedAt,
+});
+
+const RETURNED = Prisma.sql`id, content, cipher_text, mood, template, tags, fields, fields_cipher_text, created_at, updated_at`;
+
+function toDto(userId: string, r: JournalRow): JournalDto {
+    return {
+        id: r.id,
+        content: decryptForUser(userId, r.cipher_text, r.content),
+        mood: r.mood,
+        template: r.template as JournalTemplateId | null,
+        tags: r.tags,
+        fields: openFields(userId, r.fields_cipher_text, r.fields),
+        createdAt: r.created_at,
+        updatedAt: r.updated_at,
+        encrypted: Boolean(r.cipher_text),
+    };
+}
+
+/** Newest first; with `tags`, only entries carrying all of them. */
+export async function listJournal(
+    userId: string,
+    filter: { tags?: string[]; template?: JournalTemplateId; limit?: number } = {},
+): Promise<JournalDto[]> {
+    const { tags = [], template, limit = 50 } = filter;
     const rows = await prisma.journalEntry.findMany({
-        where: { userId },
+        where: {
+            userId,
+            ...(tags.length ? { tags: { hasEvery: tags } } : {}),
+            ...(template ? { template } : {}),
+        },
         orderBy: { createdAt: 'desc' },
         take: limit,
     });
-    return rows.map((r) => ({
-        id: r.id,
-        content: decryptForUser(userId, r.cipherText, r.content),
-        mood: r.mood,
-        createdAt: r.createdAt,
-        updatedAt: r.updatedAt,
-        encrypted: Boolean(r.cipherText),
-    }));
+    return rows.map((r) => toDto(userId, fromEntry(r)));
+}
+
+/** Every tag the user has used, most used first. */
+export async function listTags(userId: string): Promise<Array<{ tag: string; count: number }>> {
+    return prisma.$queryRaw<Array<{ tag: string; count: number }>>`
+        SELECT tag, COUNT(*)::int AS count
+        FROM journal_entries, unnest(tags) AS tag
+        WHERE user_id = ${userId}::uuid
+        GROUP BY tag
+        ORDER BY count DESC, tag
+        LIMIT 200
+    `;
 }
 
+/**
+ * New entry: free `content`, or a `template` with `fields` (rendered into
+ * `content`). Throws `JournalTemplateError` for fields the template lacks.
+ */
 export async function createJournal(params: {
     userId: string;
-    content: string;
+    content?: string;
     mood: string | null;
+    tags?: string[];
+    template?: JournalTemplateId;
+    fields?: TemplateFields;
 }): Promise<JournalDto> {
-    const { userId, content, mood } = params;
+    const { userId, mood, tags = [] } = params;
+    const template = params.template ?? null;
+    const fields = template ? cleanFields(template, params.fields ?? {}) : null;
+    const content = template && fields ? renderTemplate(template, fields) : (params.content ?? '');
+    const answers = sealFields(userId, fields);
     const { cipherText, plaintextFallback } = encryptForUser(userId, content);
     const useCipher = cipherText !== null;
 
-    let vectorLiteral: string | null = null;
-    let model: string | null = null;
+    let vector = storedEmbedding(null);
     try {
-        const e = await embed(content);
-        vectorLiteral = toPgVector(e.vector);
-        model = e.model;
+        vector = storedEmbedding(await embed(content));
     } catch (err) {
         logger.warn({ err: String(err) }, 'journal.embed_failed');
     }
 
-    const rows = await prisma.$queryRaw<{
-        id: string;
-        content: string;
-        cipher_text: string | null;
-        mood: string | null;
-        created_at: Date;
-        updated_at: Date;
-    }[]>`
-        INSERT INTO journal_entries (id, user_id, content, cipher_text, mood, embedding, embedding_model, created_at, updated_at)
+    const rows = await prisma.$queryRaw<JournalRow[]>`
+        INSERT INTO journal_entries (
+            id, user_id, content, cipher_text, mood, template, tags, fields, fields_cipher_text,
+            search_tokens, embedding, embedding_local, embedding_model, created_at, updated_at
+        )
         VALUES (
             gen_random_uuid(),
             ${userId}::uuid,
             ${useCipher ? '[encrypted]' : (plaintextFallback ?? content)},
             ${cipherText},
             ${mood},
-            ${vectorLiteral}::vector,
-            ${model},
+            ${template},
+            ${tags}::text[],
+            ${answers.fields ? JSON.stringify(answers.fields) : null}::jsonb,
+            ${answers.fieldsCipherText},
+            ${indexTokens(userId, content)}::text[],
+            ${vector.wide}::vector,
+            ${vector.local}::vector,
+            ${vector.model},
             NOW(),
             NOW()
         )
-        RETURNING id, content, cipher_text, mood, created_at, updated_at
+        RETURNING ${RETURNED}
     `;
-    const row = rows[0];
-    return {
-        id: row.id,
-        content: decryptForUser(userId, row.cipher_text, row.content),
-        mood: row.mood,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-        encrypted: Boolean(row.cipher_text),
-    };
+    return toDto(userId, rows[0]);
 }
 
-export async function searchJournalSemantic(userId: string, query: string, limit = 8): Promise<Array<JournalDto & { similarity: number }>> {
-    const { vector } = await embed(query);
-    const literal = toPgVector(vector);
-    const rows = await prisma.$queryRaw<{
-        id: string;
-        content: string;
-        cipher_text: string | null;
-        mood: string | null;
-        created_at: Date;
-        updated_at: Date;
-        similarity: number;
-    }[]>`
-        SELECT id, content, cipher_text, mood, created_at, updated_at,
-               1 - (embedding <=> ${literal}::vector) AS similarity
-        FROM journal_entries
-        WHERE user_id = ${userId}::uuid
-          AND embedding IS NOT NULL
-        ORDER BY embedding <=> ${literal}::vector
-        LIMIT ${limit}
-    `;
-    return rows.map((r) => ({
+/**
+ * Edit an entry the user owns. The current version becomes a revision; a
+ * content change is re-encrypted and re-embedded (an embedding that fails is
+ * cleared rather than left pointing at the old text). A templated entry is
+ * edited through `fields`, never `content`. Retagging alone isn't a new
+ * version: no revision, and `updatedAt` is left alone. Null if not found.
+ */
+export async function updateJournal(params: {
+    userId: string;
+    id: string;
+    content?: string;
+    mood?: string | null;
+    tags?: string[];
+    fields?: TemplateFields;
+}): Promise<JournalDto | null> {
+    const { userId, id } = params;
+    const entry = await prisma.journalEntry.findFirst({ where: { id, userId } });
+    if (!entry) return null;
+    const template = entry.template as JournalTemplateId | null;
+    if (params.fields && !template) throw new JournalTemplateError('This entry has no template to fill in');
+    if (params.content !== undefined && template) {
+        throw new JournalTemplateError('Edit a templated entry through its fields');
+    }
+
+    const current = decryptForUser(userId, entry.cipherText, entry.content);
+    const fields = params.fields && template ? cleanFields(template, params.fields) : null;
+    const content = fields && template ? renderTemplate(template, fields) : (params.content ?? current);
+    const mood = params.mood === undefined ? entry.mood : params.mood;
+    const tags = params.tags ?? entry.tags;
+    const retagged = tags.join(',') !== entry.tags.join(',');
+
+    if (content === current && mood === entry.mood) {
+        if (!retagged) return toDto(userId, fromEntry(entry));
+        const updated = await prisma.journalEntry.update({
+            where: { id },
+            data: { tags, updatedAt: entry.updatedAt },
+        });
+        return toDto(userId, fromEntry(updated));
+    }
+
+    let sealed = { content: entry.content, cipherText: entry.cipherText };
+    let answers = { fields: entry.fields, fieldsCipherText: entry.fieldsCipherText };
+    let vector = storedEmbedding(null);
+    const reembed = content !== current;
+    if (reembed) {
+        const { cipherText, plaintextFallback } = encryptForUser(userId, content);
+        sealed = { content: cipherText ? '[encrypted]' : (plaintextFallback ?? content), cipherText };
+        if (fields) answers = sealFields(userId, fields);
+        try {
+            vector = storedEmbedding(await embed(content));
+        } catch (err) {
+            logger.warn({ err: String(err) }, 'journal.embed_failed');
+        }
+    }
+
+    const row = await prisma.$transaction(async (tx) => {
+        await tx.journalRevision.create({
+            data: {
+                entryId: id,
+                userId,
+                content: entry.content,
+                cipherText: entry.cipherText,
+                mood: entry.mood,
+                writtenAt: entry.updatedAt,
+            },
+        });
+        // Only if nobody else changed the entry since we read it.
+        const rows = await tx.$queryRaw<JournalRow[]>`
+            UPDATE journal_entries
+            SET content = ${sealed.content},
+                cipher_text = ${sealed.cipherText},
+                mood = ${mood},
+                tags = ${tags}::text[],
+                fields = ${answers.fields === null ? null : JSON.stringify(answers.fields)}::jsonb,
+                fields_cipher_text = ${answers.fieldsCipherText},
+                search_tokens = CASE WHEN ${reembed} THEN ${indexTokens(userId, content)}::text[] ELSE search_tokens END,
+                embedding = CASE WHEN ${reembed} THEN ${vector.wide}::vector ELSE embedding END,
+                embedding_local = CASE WHEN ${reembed} THEN ${vector.local}::vector ELSE embedding_local END,
+                embedding_model = CASE WHEN ${reembed} THEN ${vector.model} ELSE embedding_model END,
+                updated_at = NOW()
+            WHERE id = ${id}::uuid
+              AND user_id = ${userId}::uuid
+              AND content = ${entry.content}
+              AND cipher_text IS NOT DISTINCT FROM ${entry.cipherText}
+              AND mood IS NOT DISTINCT FROM ${entry.mood}
+            RETURNING ${RETURNED}
+        `;
+        if (rows.length === 0) throw new JournalEditConflictError();
+
+        const stale = await tx.journalRevision.findMany({
+            where: { entryId: id },
+            orderBy: { createdAt: 'desc' },
+            skip: MAX_REVISIONS,
+            select: { id: true },
+        });
+        if (stale.length) await tx.journalRevision.deleteMany({ where: { id: { in: stale.map((r) => r.id) } } });
+        return rows[0];
+    });
+
+    if (reembed) await dropDigestsCovering(userId, entry.createdAt);
+    return toDto(userId, row);
+}
+
+/**
+ * Delete an entry the user owns, with its revisions. Null if not found;
+ * otherwise how many revisions went with it.
+ */
+export async function deleteJournal(userId: string, id: string): Promise<{ revisions: number } | null> {
+    const entry = await prisma.journalEntry.findFirst({
+        where: { id, userId },
+        select: { createdAt: true, _count: { select: { revisions: true } } },
+    });
+    if (!entry) return null;
+    const deleted = await prisma.journalEntry.deleteMany({ where: { id, userId } });
+    if (deleted.count === 0) return null;
+    await dropDigestsCovering(userId, entry.createdAt);
+    return { revisions: entry._count.revisions };
+}
+
+export interface JournalRevisionDto {
+    id: string;
+    content: string;
+    mood: string | null;
+    /** When this version was written. */
+    writtenAt: Date;
+    /** When it was replaced by the next one. */
+    replacedAt: Date;
+}
+
+/** Earlier versions of an entry, newest first. Null if the entry isn't the user's. */
+export async function listRevisions(userId: string, id: string): Promise<JournalRevisionDto[] | null> {
+    const entry = await prisma.journalEntry.findFirst({
+        where: { id, userId },
+        select: { revisions: { orderBy: { createdAt: 'desc' } } },
+    });
+    if (!entry) return null;
+    return entry.revisions.map((r) => ({
         id: r.id,
-        content: decryptForUser(userId, r.cipher_text, r.content),
+        content: decryptForUser(userId, r.cipherText, r.content),
         mood: r.mood,
-        createdAt: r.created_at,
-        updatedAt: r.updated_at,
-        encrypted: Boolean(r.cipher_text),
-        similarity: r.similarity,
+        writtenAt: r.writtenAt,
+        replacedAt: r.createdAt,
     }));
 }
 
+/** Ranks from each search leg that count toward fusion. */
+const SEARCH_CANDIDATES = 50;
+/** Reciprocal rank fusion constant (Cormack et al.): 1 / (k + rank). */
+const RRF_K = 60;
+const MAX_QUERY_TERMS = 8;
+
+export interface JournalSearchFilter {
+    from?: Date;
+    to?: Date;
+    mood?: string;
+    tags?: string[];
+}
+
+export interface JournalSearchHit extends JournalDto {
+    /** Fused score; higher is better. */
+    score: number;
+    /** Cosine similarity, when the entry was among the vector candidates. */
+    similarity: number | null;
+    /** How many distinct query words the entry contains. */
+    matchedTerms: number;
+    snippet: string;
+    /** [start, end) ranges in `snippet` matching the query. */
+    highlights: Array<[number, number]>;
+}
+
+/**
+ * Hybrid search over the user's journal: the nearest entries by embedding and
+ * the entries sharing the most query words (blind index), each leg cut to
+ * its top 50 and fused by reciprocal rank. Either leg alone still answers —
+ * a failed embedding, or a query of nothing but stopwords.
+ */
+export async function searchJournal(
+    userId: string,
+    query: string,
+    options: JournalSearchFilter & { limit?: number } = {},
+): Promise<JournalSearchHit[]> {
+    const { limit = 8, from, to, mood, tags = [] } = options;
+    const where = Prisma.sql`user_id = ${userId}::uuid
+        ${from ? Prisma.sql`AND created_at >= ${from}` : Prisma.empty}
+        ${to ? Prisma.sql`AND created_at <= ${to}` : Prisma.empty}
+        ${mood ? Prisma.sql`AND lower(mood) = lower(${mood})` : Prisma.empty}
+        ${tags.length ? Prisma.sql`AND tags @> ${tags}::text[]` : Prisma.empty}`;
+
+    const terms = searchTerms(query).slice(0, MAX_QUERY_TERMS);
+    const [semantic, keyword] = await Promise.all([
+        (async () => {
+            let literal: string;
+            let model: string;
+            try {
+                const e = await embed(query);
+                literal = toPgVector(e.vector);
+                model = e.model;
+            } catch (err) {
+                logger.warn({ err: String(err) }, 'journal.search.embed_failed');
+                return [];
+            }
+            const column = vectorColumn(model);
+            return prisma.$queryRaw<Array<JournalRow & { similarity: number }>>`
+                SELECT ${RETURNED}, 1 - (${column} <=> ${literal}::vector) AS similarity
+                FROM journal_entries
+                WHERE ${where} AND ${column} IS NOT NULL AND embedding_model = ${model}
+                ORDER BY ${column} <=> ${literal}::vector
+                LIMIT ${SEARCH_CANDIDATES}
+            `;
+        })(),
+        (async () => {
+            if (terms.length === 0) return [];
+            const perTerm = terms.map((t) => queryTokens(userId, t));
+            const matched = Prisma.join(
+                perTerm.map((tokens) => Prisma.sql`(search_tokens && ${tokens}::text[])::int`),
+                ' + ',
+            );
+            return prisma.$queryRaw<Array<JournalRow & { matched: number }>>`
+                SELECT ${RETURNED}, (${matched}) AS matched
+                FROM journal_entries
+                WHERE ${where} AND search_tokens && ${perTerm.flat()}::text[]
+                ORDER BY matched DESC, created_at DESC
+                LIMIT ${SEARCH_CANDIDATES}
+            `;
+        })(),
+    ]);
+
+    const fused = new Map<string, { row: JournalRow; score: number; similarity: number | null; matchedTerms: number }>();
+    const hit = (row: JournalRow) => {
+        let h = fused.get(row.id);
+        if (!h) fused.set(row.id, (h = { row, score: 0, similarity: null, matchedTerms: 0 }));
+        return h;
+    };
+    semantic.forEach((r, rank) => {
+        const h = hit(r);
+        h.score += 1 / (RRF_K + rank + 1);
+        h.similarity = r.similarity;
+    });
+    keyword.forEach((r, rank) => {
+        const h = hit(r);
+        h.score += 1 / (RRF_K + rank + 1);
+        h.matchedTerms = r.matched;
+    });
+
+    return [...fused.values()]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ row, score, similarity, matchedTerms }) => {
+            const entry = toDto(userId, row);
+            const { text, highlights } = snippet(entry.content, terms);
+            return { ...entry, score, similarity, matchedTerms, snippet: text, highlights };
+        });
+}
+
+const INDEX_BATCH = 200;
+
+/**
+ * Fill in the keyword index for entries that have none (written before it
+ * existed), one id-ordered batch after `after`. Entries whose text yields no
+ * words come round again each run, which is harmless. Returns the cursor for
+ * the next batch, or null when done.
+ */
+export async function indexJournalBatch(after: string | null): Promise<{ indexed: number; after: string | null }> {
+    const rows = await prisma.journalEntry.findMany({
+        where: { searchTokens: { isEmpty: true }, ...(after ? { id: { gt: after } } : {}) },
+        orderBy: { id: 'asc' },
+        take: INDEX_BATCH,
+        select: { id: true, userId: true, content: true, cipherText: true, updatedAt: true },
+    });
+    let indexed = 0;
+    for (const r of rows) {
+        // No plaintext fallback for sealed rows: a placeholder must not be indexed.
+        const text = r.cipherText ? decryptForUser(r.userId, r.cipherText, null) : r.content;
+        const searchTokens = indexTokens(r.userId, text);
+        if (searchTokens.length === 0) continue;
+        const updated = await prisma.journalEntry.updateMany({
+            where: { id: r.id, cipherText: r.cipherText, searchTokens: { isEmpty: true } },
+            // Indexing isn't an edit: keep `updatedAt` as the user left it.
+            data: { searchTokens, updatedAt: r.updatedAt },
+        });
+        indexed += updated.count;
+    }
+    return { indexed, after: rows.length === INDEX_BATCH ? rows[rows.length - 1].id : null };
+}
+
 export { isEncryptionEnabled };
@@ -0,0 +1,374 @@
+/**
+ * Encryption key rotation — moves every stored ciphertext onto the primary
+ * key (see lib/encryption.ts for the key ring and format).
+ *
+ * Driven by the worker: `POST /api/admin/encryption/rotate` enqueues one
+ * `encryption.rotate` job, which re-seals one batch of one table and then
+ * enqueues its successor with a cursor (last id seen). A crash or retry picks
+ * up from that cursor, and rows already on the primary key are never
+ * selected, so a fresh start after an abandoned run also resumes rather than
+ * redoing work. Each row is written back only if its ciphertext is unchanged,
+ * so a concurrent user edit always wins.
+ *
+ * Rows that can't be opened (unknown key, corrupt data) are skipped and
+ * counted, never blanked; they stay visible in `rotationProgress()` until
+ * someone looks at them.
+ *
+ * Every encrypted table is listed in `TARGETS` — adding one is a single entry.
+ */
+import prisma from '@/lib/prisma';
+import { audit } from '@/lib/audit';
+import { logger } from '@/lib/logger';
+import { CHAIN_KEY, enqueue } from '@/lib/jobs';
+import {
+    LEGACY_KEY_ID,
+    cipherPrefix,
+    decryptForUser,
+    encryptionKeyIds,
+    primaryKeyId,
+    reencryptForUser,
+} from '@/lib/encryption';
+import { indexTokens } from '@/lib/searchIndex';
+
+const ROTATE_BATCH = 200;
+
+export type EncryptedTable =
+    | 'journalEntries'
+    | 'journalFields'
+    | 'journalRevisions'
+    | 'gratitude'
+    | 'futureLetters'
+    | 'conversationSummaries'
+    | 'conversationTitles'
+    | 'messages'
+    | 'memories';
+
+interface EncryptedRow {
+    id: string;
+    userId: string;
+    cipherText: string | null;
+    updatedAt?: Date;
+}
+
+type CipherFilter = { not: null } | { startsWith: string } | { not: { startsWith: string } };
+
+interface RotationTarget {
+    table: EncryptedTable;
+    count(cipherText: CipherFilter): Promise<number>;
+    /** Rows not yet on `prefix`, after the cursor, in id order. */
+    batch(prefix: string, after: string | null): Promise<EncryptedRow[]>;
+    /** Swap the ciphertext if it is still `from`. True if written. */
+    swap(row: EncryptedRow, from: string, to: string): Promise<boolean>;
+}
+
+const pending = (prefix: string, after: string | null) => ({
+    AND: [{ cipherText: { not: null } }, { NOT: { cipherText: { startsWith: prefix } } }],
+    ...(after ? { id: { gt: after } } : {}),
+});
+
+const page = { orderBy: { id: 'asc' as const }, take: ROTATE_BATCH };
+
+const TARGETS: RotationTarget[] = [
+    {
+        table: 'journalEntries',
+        count: (cipherText) => prisma.journalEntry.count({ where: { cipherText } }),
+        batch: (prefix, after) =>
+            prisma.journalEntry.findMany({
+                where: pending(prefix, after),
+                ...page,
+                select: { id: true, userId: true, cipherText: true, updatedAt: true },
+            }),
+        // Re-sealing isn't an edit: keep `updatedAt` as the user left it. The
+        // keyword index moves to the primary key along with the text.
+        swap: async (row, from, to) =>
+            (
+                await prisma.journalEntry.updateMany({
+                    where: { id: row.id, cipherText: from },
+                    data: {
+                        cipherText: to,
+                        searchTokens: indexTokens(row.userId, decryptForUser(row.userId, to, null)),
+                        updatedAt: row.updatedAt,
+                    },
+                })
+            ).count > 0,
+    },
+    {
+        // Template answers: a second ciphertext on journal_entries.
+        table: 'journalFields',
+        count: (fieldsCipherText) => prisma.journalEntry.count({ where: { fieldsCipherText } }),
+        batch: async (prefix, after) => {
+            const rows = await prisma.journalEntry.findMany({
+                where: {
+                    AND: [{ fieldsCipherText: { not: null } }, { NOT: { fieldsCipherText: { startsWith: prefix } } }],
+                    ...(after ? { id: { gt: after } } : {}),
+                },
+                ...page,
+                select: { id: true, userId: true, fieldsCipherText: true, updatedAt: true },
+            });
+            return rows.map((r) => ({ id: r.id, userId: r.userId, cipherText: r.fieldsCipherText, updatedAt: r.updatedAt }));
+        },
+        swap: async (row, from, to) =>
+            (
+                await prisma.journalEntry.updateMany({
+                    where: { id: row.id, fieldsCipherText: from },
+                    data: { fieldsCipherText: to, updatedAt: row.updatedAt },
+                })
+            ).count > 0,
+    },
+    {
+        table: 'journalRevisions',
+        count: (cipherText) => prisma.journalRevision.count({ where: { cipherText } }),
+        batch: (prefix, after) =>
+            prisma.journalRevision.findMany({
+                where: pending(prefix, after),
+                ...page,
+                select: { id: true, userId: true, cipherText: true },
+            }),
+        swap: async (row, from, to) =>
+            (await prisma.journalRevision.updateMany({ where: { id: row.id, cipherText: from }, data: { cipherText: to } }))
+                .count > 0,
+    },
+    {
+        table: 'gratitude',
+        count: (cipherText) => prisma.gratitudeEntry.count({ where: { cipherText } }),
+        batch: (prefix, after) =>
+            prisma.gratitudeEntry.findMany({
+                where: pending(prefix, after),
+                ...page,
+                select: { id: true, userId: true, cipherText: true },
+            }),
+        swap: async (row, from, to) =>
+            (await prisma.gratitudeEntry.updateMany({ where: { id: row.id, cipherText: from }, data: { cipherText: to } }))
+                .count > 0,
+    },
+    {
+        table: 'futureLetters',
+        count: (cipherText) => prisma.futureLetter.count({ where: { cipherText } }),
+        batch: (prefix, after) =>
+            prisma.futureLetter.findMany({
+                where: pending(prefix, after),
+                ...page,
+                select: { id: true, userId: true, cipherText: true },
+            }),
+        swap: async (row, from, to) =>
+            (await prisma.futureLetter.updateMany({ where: { id: row.id, cipherText: from }, data: { cipherText: to } }))
+                .count > 0,
+    },
+    {
+        // The rolling chat summary (conversationService). Conversations have
+        // no `cipherText` of their own, so this reads `summaryCipherText`.
+        table: 'conversationSummaries',
+        count: (summaryCipherText) => prisma.conversation.count({ where: { summaryCipherText } }),
+        batch: async (prefix, after) => {
+            const rows = await prisma.conversation.findMany({
+                where: {
+                    AND: [{ summaryCipherText: { not: null } }, { NOT: { summaryCipherText: { startsWith: prefix } } }],
+                    ...(after ? { id: { gt: after } } : {}),
+                },
+                ...page,
+                select: { id: true, userId: true, summaryCipherText: true, updatedAt: true },
+            });
+            return rows.map((r) => ({ id: r.id, userId: r.userId, cipherText: r.summaryCipherText, updatedAt: r.updatedAt }));
+        },
+        swap: async (row, from, to) =>
+            (
+                await prisma.conversation.updateMany({
+                    where: { id: row.id, summaryCipherText: from },
+                    data: { summaryCipherText: to, updatedAt: row.updatedAt },
+                })
+            ).count > 0,
+    },
+    {
+        // Titles sit on the conversation too, in `titleCipherText`, with
+        // their keyword index.
+        table: 'conversationTitles',
+        count: (titleCipherText) => prisma.conversation.count({ where: { titleCipherText } }),
+        batch: async (prefix, after) => {
+            const rows = await prisma.conversation.findMany({
+                where: {
+                    AND: [{ titleCipherText: { not: null } }, { NOT: { titleCipherText: { startsWith: prefix } } }],
+                    ...(after ? { id: { gt: after } } : {}),
+                },
+                ...page,
+                select: { id: true, userId: true, titleCipherText: true, updatedAt: true },
+            });
+            return rows.map((r) => ({ id: r.id, userId: r.userId, cipherText: r.titleCipherText, updatedAt: r.updatedAt }));
+        },
+        swap: async (row, from, to) =>
+            (
+                await prisma.conversation.updateMany({
+                    where: { id: row.id, titleCipherText: from },
+                    data: {
+                        titleCipherText: to,
+                        titleTokens: indexTokens(row.userId, decryptForUser(row.userId, to, null)),
+                        updatedAt: row.updatedAt,
+                    },
+                })
+            ).count > 0,
+    },
+    {
+        // Messages belong to a user through their conversation.
+        table: 'messages',
+        count: (cipherText) => prisma.message.count({ where: { cipherText } }),
+        batch: async (prefix, after) => {
+            const rows: Array<{ id: string; cipherText: string | null; conversation: { userId: string } }> =
+                await prisma.message.findMany({
+                    where: pending(prefix, after),
+                    ...page,
+                    select: { id: true, cipherText: true, conversation: { select: { userId: true } } },
+                });
+            return rows.map((r) => ({ id: r.id, userId: r.conversation.userId, cipherText: r.cipherText }));
+        },
+        // Like journal entries, the keyword index moves with the text.
+        swap: async (row, from, to) =>
+            (
+                await prisma.message.updateMany({
+                    where: { id: row.id, cipherText: from },
+                    data: {
+                        cipherText: to,
+                        searchTokens: indexTokens(row.userId, decryptForUser(row.userId, to, null)),
+                    },
+                })
+            ).count > 0,
+    },
+    {
+        table: 'memories',
+        count: (cipherText) => prisma.memory.count({ where: { cipherText } }),
+        batch: (prefix, after) =>
+            prisma.memory.findMany({
+                where: pending(prefix, after),
+                ...page,
+                select: { id: true, userId: true, cipherText: true, updatedAt: true },
+            }),
+        swap: async (row, from, to) =>
+            (
+                await prisma.memory.updateMany({
+                    where: { id: row.id, cipherText: from },
+                    data: { cipherText: to, updatedAt: row.updatedAt },
+                })
+            ).count > 0,
+    },
+];
+
+export const ENCRYPTED_TABLES = TARGETS.map((t) => t.table);
+
+export class KeyRotationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'KeyRotationError';
+    }
+}
+
+function requirePrimary(): string {
+    const primary = primaryKeyId();
+    if (!primary) throw new KeyRotationError('Encryption is not configured — nothing to rotate');
+    return primary;
+}
+
+export interface TableProgress {
+    table: EncryptedTable;
+    encrypted: number;
+    /** Ciphertexts per key id; `k0` includes rows from before key ids existed. */
+    byKey: Record<string, number>;
+    remaining: number;
+}
+
+export interface RotationProgress {
+    primaryKeyId: string;
+    keyIds: string[];
+    tables: TableProgress[];
+    remaining: number;
+}
+
+/** How many ciphertexts are still on a non-primary key, per table and key. */
+export async function rotationProgress(): Promise<RotationProgress> {
+    const primary = requirePrimary();
+    const keyIds = encryptionKeyIds();
+
+    const tables = await Promise.all(
+        TARGETS.map(async (t): Promise<TableProgress> => {
+            const [encrypted, unversioned, ...perKey] = await Promise.all([
+                t.count({ not: null }),
+                t.count({ not: { startsWith: 'v1:' } }),
+                ...keyIds.map((id) => t.count({ startsWith: cipherPrefix(id) })),
+            ]);
+            const byKey = Object.fromEntries(keyIds.map((id, i) => [id, perKey[i]]));
+            // Primary first in keyIds. Unversioned rows count as remaining even
+            // when k0 is primary: they still get re-sealed with a key id.
+            const remaining = encrypted - perKey[0];
+            byKey[LEGACY_KEY_ID] = (byKey[LEGACY_KEY_ID] ?? 0) + unversioned;
+            return { table: t.table, encrypted, byKey, remaining };
+        }),
+    );
+    return { primaryKeyId: primary, keyIds, tables, remaining: tables.reduce((a, t) => a + t.remaining, 0) };
+}
+
+export interface RotationStep {
+    table: EncryptedTable;
+    rotated: number;
+    failed: number;
+    /** Cursor for the next batch of this table; null when the table is done. */
+    after: string | null;
+}
+
+/** Re-seal one batch of `table` after the cursor. */
+export async function rotateBatch(table: EncryptedTable, after: string | null): Promise<RotationStep> {
+    const target = TARGETS.find((t) => t.table === table);
+    if (!target) throw new KeyRotationError(`Unknown encrypted table "${table}"`);
+    const prefix = cipherPrefix(requirePrimary());
+
+    const rows = await target.batch(prefix, after);
+    let rotated = 0;
+    let failed = 0;
+    for (const row of rows) {
+        if (!row.cipherText) continue;
+        let next: string;
+        try {
+            next = reencryptForUser(row.userId, row.userId, row.cipherText);
+        } catch (e) {
+            failed++;
+            logger.error({ err: String(e), table, id: row.id }, 'encryption.rotate.row_failed');
+            continue;
+        }
+        if (await target.swap(row, row.cipherText, next)) rotated++;
+    }
+    return {
+        table,
+        rotated,
+        failed,
+        after: rows.length === ROTATE_BATCH ? rows[rows.length - 1].id : null,
+    };
+}
+
+export interface RotateJob {
+    table: EncryptedTable;
+    after: string | null;
+    /** Running totals across the whole run. */
+    rotated: number;
+    failed: number;
+}
+
+/** The job that continues a run after `step`, or null once every table is done. */
+export function nextRotateJob(step: RotationStep, totals: { rotated: number; failed: number }): RotateJob | null {
+    if (step.after) return { table: step.table, after: step.after, ...totals };
+    const table = ENCRYPTED_TABLES[ENCRYPTED_TABLES.indexOf(step.table) + 1];
+    return table ? { table, after: null, ...totals } : null;
+}
+
+/**
+ * Start (or resume) a rotation run. No job when nothing is left to rotate, or
+ * when the queue refused it (unavailable, or the run already has a batch queued).
+ */
+export async function startRotation(): Promise<{ jobId: string | null; progress: RotationProgress }> {
+    const progress = await rotationProgress();
+    if (progress.remaining === 0) return { jobId: null, progress };
+    const first: RotateJob = { table: ENCRYPTED_TABLES[0], after: null, rotated: 0, failed: 0 };
+    const jobId = await enqueue('encryption.rotate', { ...first }, { singletonKey: CHAIN_KEY });
+    if (jobId) {
+        await audit({
+            action: 'encryption.rotate_started',
+            meta: { primaryKeyId: progress.primaryKeyId, remaining: progress.remaining },
+        });
+    }
+    return { jobId, progress };
+}
@@ -0,0 +1,28 @@
+/**
+ * Letter to future you — unsealing. The worker's hourly `letters.unseal` job
+ * persists `delivered = true` once `deliverAt` has passed, so delivery is a
+ * recorded event rather than something inferred at read time.
+ */
+import prisma from '@/lib/prisma';
+import { audit } from '@/lib/audit';
+
+const UNSEAL_BATCH = 1000;
+
+export async function unsealDueLetters(now = new Date()): Promise<{ unsealed: number }> {
+    const due = await prisma.futureLetter.findMany({
+        where: { delivered: false, deliverAt: { lte: now } },
+        orderBy: { deliverAt: 'asc' },
+        take: UNSEAL_BATCH,
+        select: { id: true, userId: true },
+    });
+    if (due.length === 0) return { unsealed: 0 };
+
+    const r = await prisma.futureLetter.updateMany({
+        where: { id: { in: due.map((l) => l.id) }, delivered: false },
+        data: { delivered: true },
+    });
+    for (const l of due) {
+        await audit({ userId: l.userId, action: 'letter.unseal', resource: `letter:${l.id}` });
+    }
+    return { unsealed: r.count };
+}
@@ -17,8 +17,11 @@
  *    blocks the user's reply.
  */
 import prisma from '@/lib/prisma';
-import { generate as aiGenerate, embed, toPgVector } from '@/lib/ai/provider';
+import { generate as aiGenerate, embed } from '@/lib/ai/provider';
+import { storedEmbedding } from '@/lib/ai/vectors';
+import { encryptForUser } from '@/lib/encryption';
 import { logger } from '@/lib/logger';
+import { buildHistory, HISTORY_TOKENS } from '@/services/conversationService';
 
 const CONSOLIDATE_EVERY_N_EXCHANGES = 6;
 const MAX_MEMORIES_PER_CONSOLIDATION = 3;
@@ -104,17 +107,12 @@ export async function maybeConsolidate(params: {
             return { created: 0 };
         }
 
-        // Pull the most recent 24 messages of this conversation for the summariser.
-        const history = await prisma.message.findMany({
-            where: { conversationId },
-            orderBy: { createdAt: 'desc' },
-            take: 24,
-            select: { role: true, content: true },
-        });
-        const transcript = history
-            .reverse()
-            .map((m) => `${m.role === 'user' ? 'User' : 'Companion'}: ${m.content.slice(0, 500)}`)
-            .join('\n');
+        // The branch being shown, as the chat sees it: recent turns plus the summary of the rest.
+        const history = await buildHistory({ userId, conversationId, leafId: null, budget: HISTORY_TOKENS, forceLocal });
+        const transcript = [
+            ...(history.summary ? [`Earlier (summary): ${history.summary}`] : []),
+            ...history.turns.map((m) => `${m.role === 'user' ? 'User' : 'Companion'}: ${m.content.slice(0, 500)}`),
+        ].join('\n');
 
         const r = await aiGenerate({
             system: CONSOLIDATOR_SYSTEM,
@@ -140,10 +138,12 @@ export async function maybeConsolidate(params: {
                 : 'context';
             // Compute embedding so the memory can be retrieved by future RAG.
             const vec = await embed(content).catch(() => null);
+            const { cipherText, plaintextFallback } = encryptForUser(userId, content);
             const row = await prisma.memory.create({
                 data: {
                     userId,
-                    content,
+                    content: cipherText ? '[encrypted]' : (plaintextFallback ?? content),
+                    cipherText,
                     kind,
                     source: 'ai',
                     embeddingModel: vec?.model ?? null,
@@ -152,10 +152,11 @@ export async function maybeConsolidate(params: {
                 select: { id: true },
             });
             if (vec) {
+                const vector = storedEmbedding(vec);
                 try {
                     await prisma.$executeRaw`
                         UPDATE memories
-                        SET embedding = ${toPgVector(vec.vector)}::vector
+                        SET embedding = ${vector.wide}::vector, embedding_local = ${vector.local}::vector
                         WHERE id = ${row.id}::uuid
                     `;
                 } catch (err) {
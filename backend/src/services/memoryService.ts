@@ -1,9 +1,12 @@
 /**
  * Memory service — CRUD for user-blessed long-term memories,
  * backed by pgvector for semantic retrieval during chat.
+ * Content is encrypted per user like journal text; records come back decrypted.
  */
 import prisma from '@/lib/prisma';
 import { embed, toPgVector } from '@/lib/ai/provider';
+import { storedEmbedding, vectorColumn } from '@/lib/ai/vectors';
+import { decryptForUser, encryptForUser } from '@/lib/encryption';
 import type { MemoryKind } from '@/contracts/schemas';
 import { logger } from '@/lib/logger';
 
@@ -18,6 +21,31 @@ export interface MemoryRecord {
     lastUsedAt: Date | null;
 }
 
+interface MemoryRow {
+    id: string;
+    content: string;
+    cipher_text: string | null;
+    kind: string;
+    salience: number;
+    source: string;
+    created_at: Date;
+    updated_at: Date;
+    last_used_at: Date | null;
+}
+
+function toRecord(userId: string, r: MemoryRow): MemoryRecord {
+    return {
+        id: r.id,
+        content: decryptForUser(userId, r.cipher_text, r.content),
+        kind: r.kind,
+        salience: r.salience,
+        source: r.source,
+        createdAt: r.created_at,
+        updatedAt: r.updated_at,
+        lastUsedAt: r.last_used_at,
+    };
+}
+
 export async function createMemory(params: {
     userId: string;
     content: string;
@@ -26,42 +54,25 @@ export async function createMemory(params: {
 }): Promise<MemoryRecord> {
     const { userId, content, kind, source = 'user' } = params;
 
-    let vectorLiteral: string | null = null;
-    let model: string | null = null;
+    let vector = storedEmbedding(null);
     try {
-        const e = await embed(content);
-        vectorLiteral = toPgVector(e.vector);
-        model = e.model;
+        vector = storedEmbedding(await embed(content));
     } catch (err) {
         logger.warn({ err: String(err) }, 'memory.embed_failed');
     }
 
-    const rows = await prisma.$queryRaw<{
-        id: string;
-        content: string;
-        kind: string;
-        salience: number;
-        source: string;
-        created_at: Date;
-        updated_at: Date;
-        last_used_at: Date | null;
-    }[]>`
-        INSERT INTO memories (id, user_id, content, kind, salience, source, embedding, embedding_model, created_at, updated_at)
-        VALUES (gen_random_uuid(), ${userId}::uuid, ${content}, ${kind}, 1.0, ${source},
-                ${vectorLiteral}::vector, ${model}, NOW(), NOW())
-        RETURNING id, content, kind, salience, source, created_at, updated_at, last_used_at
+    const { cipherText, plaintextFallback } = encryptForUser(userId, content);
+    const rows = await prisma.$queryRaw<MemoryRow[]>`
+        INSERT INTO memories (
+            id, user_id, content, cipher_text, kind, salience, source,
+            embedding, embedding_local, embedding_model, created_at, updated_at
+        )
+        VALUES (gen_random_uuid(), ${userId}::uuid, ${cipherText ? '[encrypted]' : (plaintextFallback ?? content)},
+                ${cipherText}, ${kind}, 1.0, ${source},
+                ${vector.wide}::vector, ${vector.local}::vector, ${vector.model}, NOW(), NOW())
+        RETURNING id, content, cipher_text, kind, salience, source, created_at, updated_at, last_used_at
     `;
-    const r = rows[0];
-    return {
-        id: r.id,
-        content: r.content,
-        kind: r.kind,
-        salience: r.salience,
-        source: r.source,
-        createdAt: r.created_at,
-        updatedAt: r.updated_at,
-        lastUsedAt: r.last_used_at,
-    };
+    return toRecord(userId, rows[0]);
 }
 
 export async function listMemories(userId: string, limit = 100): Promise<MemoryRecord[]> {
@@ -72,6 +83,7 @@ export async function listMemories(userId: string, limit = 100): Promise<MemoryR
         select: {
             id: true,
             content: true,
+            cipherText: true,
             kind: true,
             salience: true,
             source: true,
@@ -80,7 +92,10 @@ export async function listMemories(userId: string, limit = 100): Promise<MemoryR
             lastUsedAt: true,
         },
     });
-    return rows;
+    return rows.map(({ cipherText, ...r }: MemoryRecord & { cipherText: string | null }) => ({
+        ...r,
+        content: decryptForUser(userId, cipherText, r.content),
+    }));
 }
 
 export async function deleteMemory(userId: string, id: string): Promise<boolean> {
@@ -89,7 +104,8 @@ export async function deleteMemory(userId: string, id: string): Promise<boolean>
 }
 
 /**
- * Find memories most relevant to `text` via cosine similarity.
+ * Find memories most relevant to `text` via cosine similarity, among those
+ * embedded by the same model as `text`.
  * Returns top-K rows, updates lastUsedAt for analytics.
  */
 export async function retrieveRelevantMemories(
@@ -97,25 +113,17 @@ export async function retrieveRelevantMemories(
     text: string,
     k = 4,
 ): Promise<MemoryRecord[]> {
-    const { vector } = await embed(text);
+    const { vector, model } = await embed(text);
     const literal = toPgVector(vector);
-    const rows = await prisma.$queryRaw<{
-        id: string;
-        content: string;
-        kind: string;
-        salience: number;
-        source: string;
-        created_at: Date;
-        updated_at: Date;
-        last_used_at: Date | null;
-        similarity: number;
-    }[]>`
-        SELECT id, content, kind, salience, source, created_at, updated_at, last_used_at,
-               1 - (embedding <=> ${literal}::vector) AS similarity
+    const column = vectorColumn(model);
+    const rows = await prisma.$queryRaw<Array<MemoryRow & { similarity: number }>>`
+        SELECT id, content, cipher_text, kind, salience, source, created_at, updated_at, last_used_at,
+               1 - (${column} <=> ${literal}::vector) AS similarity
         FROM memories
         WHERE user_id = ${userId}::uuid
-          AND embedding IS NOT NULL
-        ORDER BY embedding <=> ${literal}::vector
+          AND ${column} IS NOT NULL
+          AND embedding_model = ${model}
+        ORDER BY ${column} <=> ${literal}::vector
         LIMIT ${k}
     `;
     if (rows.length > 0) {
@@ -125,14 +133,5 @@ export async function retrieveRelevantMemories(
             data: { lastUsedAt: new Date() },
         });
     }
-    return rows.map((r) => ({
-        id: r.id,
-        content: r.content,
-        kind: r.kind,
-        salience: r.salience,
-        source: r.source,
-        createdAt: r.created_at,
-        updatedAt: r.updated_at,
-        lastUsedAt: r.last_used_at,
-    }));
+    return rows.map((r) => toRecord(userId, r));
 }
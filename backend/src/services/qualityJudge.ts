@@ -13,8 +13,10 @@
  *
  * If the draft fails, we patch it with a deterministic prefix/suffix so the
  * user still gets a reply. We intentionally do not regenerate on every fail —
- * that would blow the latency budget.
+ * that would blow the latency budget. The crisis suffix lists the lines for
+ * the user's region from the shared crisis directory (lib/crisis.ts).
  */
+import { crisisLinesText } from '@/lib/crisis';
 
 const METHOD_WORDS = [
     'overdose',
@@ -70,6 +72,8 @@ export interface JudgeReport {
 export function judgeReply(params: {
     reply: string;
     crisis: boolean;
+    /** Whose crisis lines to append (see `crisisRegion()`); default UK. */
+    region?: string | null;
 }): JudgeReport {
     const reply = params.reply || '';
     const replyLower = reply.toLowerCase();
@@ -89,8 +93,7 @@ export function judgeReply(params: {
     // Build a deterministic patch — we don't regenerate, we wrap.
     const patch: { prefix?: string; suffix?: string } = {};
     if (params.crisis) {
-        patch.suffix =
-            '\n\nIf you are in crisis right now, please reach out: **Samaritans** 116 123 (free, 24/7), **Shout** text "SHOUT" to 85258, **NHS 111** option 2, or **999** in an emergency. You are not alone.';
+        patch.suffix = `\n\nIf you are in crisis right now, please reach out: ${crisisLinesText(params.region)}. You are not alone.`;
     }
     if (diagHit) {
         patch.prefix =
@@ -7,6 +7,7 @@
  */
 import prisma from '@/lib/prisma';
 import { embed, toPgVector } from '@/lib/ai/provider';
+import { vectorColumn } from '@/lib/ai/vectors';
 import { decryptForUser } from '@/lib/encryption';
 import { retrieveRelevantMemories } from '@/services/memoryService';
 
@@ -33,8 +34,12 @@ const MAX_MEMORIES = 4;
 const MAX_CHARS = 2400;
 
 export async function buildRagContext(userId: string, query: string): Promise<RagContext> {
-    const { vector } = await embed(query);
+    // Vectors are only comparable within one model: rows embedded by another
+    // are skipped until the backfill job re-embeds them.
+    const { vector, model } = await embed(query);
     const literal = toPgVector(vector);
+    const column = vectorColumn(model);
+    const messageColumn = vectorColumn(model, 'm');
 
     const [memories, journals, messages] = await Promise.all([
         retrieveRelevantMemories(userId, query, MAX_MEMORIES),
@@ -47,27 +52,30 @@ export async function buildRagContext(userId: string, query: string): Promise<Ra
             similarity: number;
         }[]>`
             SELECT id, content, cipher_text, mood, created_at,
-                   1 - (embedding <=> ${literal}::vector) AS similarity
+                   1 - (${column} <=> ${literal}::vector) AS similarity
             FROM journal_entries
             WHERE user_id = ${userId}::uuid
-              AND embedding IS NOT NULL
-            ORDER BY embedding <=> ${literal}::vector
+              AND ${column} IS NOT NULL
+              AND embedding_model = ${model}
+            ORDER BY ${column} <=> ${literal}::vector
             LIMIT ${MAX_JOURNAL}
         `,
         prisma.$queryRaw<{
             id: string;
             content: string;
+            cipher_text: string | null;
             created_at: Date;
             similarity: number;
         }[]>`
-            SELECT m.id, m.content, m.created_at,
-                   1 - (m.embedding <=> ${literal}::vector) AS similarity
+            SELECT m.id, m.content, m.cipher_text, m.created_at,
+                   1 - (${messageColumn} <=> ${literal}::vector) AS similarity
             FROM messages m
             JOIN conversations c ON c.id = m.conversation_id
             WHERE c.user_id = ${userId}::uuid
               AND m.role = 'user'
-              AND m.embedding IS NOT NULL
-            ORDER BY m.embedding <=> ${literal}::vector
+              AND ${messageColumn} IS NOT NULL
+              AND m.embedding_model = ${model}
+            ORDER BY ${messageColumn} <=> ${literal}::vector
             LIMIT ${MAX_MESSAGES}
         `,
     ]);
@@ -120,14 +128,15 @@ export async function buildRagContext(userId: string, query: string): Promise<Ra
         pieces.push('');
         pieces.push('Related things they said to you before:');
         for (const msg of messages) {
+            const plaintext = decryptForUser(userId, msg.cipher_text, msg.content);
             usedMessageIds.push(msg.id);
-            pieces.push(`• ${formatWhen(msg.created_at)}: "${truncate(msg.content, 160)}"`);
+            pieces.push(`• ${formatWhen(msg.created_at)}: "${truncate(plaintext, 160)}"`);
             if (typeof msg.similarity === 'number' && msg.similarity >= 0.3) {
                 citations.push({
                     kind: 'message',
                     id: msg.id,
                     label: `past chat · ${formatWhen(msg.created_at)}`,
-                    preview: truncate(msg.content, 140),
+                    preview: truncate(plaintext, 140),
                     when: formatWhen(msg.created_at),
                     similarity: Math.max(0, Math.min(1, msg.similarity)),
                 });
@@ -0,0 +1,325 @@
+/**
+ * Reminder delivery — driven by the background worker, never by a request.
+ *
+ * `reminders.dispatch` runs every minute and fans out one `reminders.deliver`
+ * job per due reminder, so a single failing delivery retries (and eventually
+ * dead-letters) on its own without blocking the rest of the batch.
+ *
+ * Delivery is Web Push to every subscribed device. A reminder that falls in
+ * the user's quiet hours is deferred (`deferredUntil`) rather than dropped; one
+ * for a user with no devices is marked `undeliverable` so it stops being
+ * dispatched.
+ *
+ * A recurring reminder (`rrule`, see lib/recurrence.ts) is one row for the
+ * whole series: once an occurrence is handled it goes back to `pending` with
+ * `dueAt` on the next occurrence. Snoozes use `deferredUntil`, like quiet
+ * hours, so they never shift the series; snoozing an occurrence that was just
+ * delivered sets `refireAt` instead, a one-shot re-send beside the series.
+ */
+import prisma from '@/lib/prisma';
+import { audit } from '@/lib/audit';
+import { logger } from '@/lib/logger';
+import { PushError, sendPush, type PushPayload } from '@/lib/push';
+import { quietHoursEndAt } from '@/lib/quietHours';
+import {
+    firstOccurrence,
+    formatRRule,
+    fromInput,
+    nextOccurrence,
+    parseRRule,
+    toInput,
+    type RecurrenceInput,
+} from '@/lib/recurrence';
+
+const DISPATCH_BATCH = 500;
+
+export type DeliveryOutcome = 'delivered' | 'deferred' | 'undeliverable' | 'skipped';
+
+export class ReminderScheduleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReminderScheduleError';
+    }
+}
+
+// Where tapping the notification lands. Only these paths are ever sent —
+// the service worker enforces the same allow-list.
+const DEEP_LINK: Record<string, string> = {
+    journal: '/journal',
+    tool: '/tools',
+    check_in: '/chat',
+    custom: '/chat',
+};
+
+const TITLE: Record<string, string> = {
+    journal: 'Time to write',
+    tool: 'A moment for yourself',
+    check_in: 'Checking in',
+    custom: 'Silent Help',
+};
+
+/** Ids of pending reminders whose `dueAt` (and any deferral) or `refireAt` has passed, oldest first. */
+export async function findDueReminderIds(now = new Date()): Promise<string[]> {
+    const rows = await prisma.reminder.findMany({
+        where: {
+            status: 'pending',
+            OR: [
+                { dueAt: { lte: now }, OR: [{ deferredUntil: null }, { deferredUntil: { lte: now } }] },
+                { refireAt: { lte: now } },
+            ],
+        },
+        orderBy: { dueAt: 'asc' },
+        take: DISPATCH_BATCH,
+        select: { id: true },
+    });
+    return rows.map((r) => r.id);
+}
+
+export async function userTimeZone(userId: string): Promise<string> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } });
+    return user?.timezone ?? 'UTC';
+}
+
+/** API view of a reminder: the stored rule decoded into `recurrence`. */
+export function presentReminder<T extends { rrule: string | null }>(reminder: T) {
+    const rule = reminder.rrule ? parseRRule(reminder.rrule) : null;
+    return { ...reminder, recurrence: rule ? toInput(rule) : null };
+}
+
+/**
+ * Resolve `dueAt` + optional recurrence into what gets stored. A recurring
+ * reminder starts at its first occurrence on or after `dueAt` (or now, if
+ * that has passed); a one-off must be in the future.
+ */
+export function planSchedule(
+    dueAt: Date,
+    recurrence: RecurrenceInput | null | undefined,
+    timeZone: string,
+    now = new Date(),
+): { dueAt: Date; rrule: string | null } {
+    if (isNaN(dueAt.getTime())) throw new ReminderScheduleError('dueAt must be a valid timestamp');
+    if (!recurrence) {
+        if (dueAt.getTime() < now.getTime() - 60_000) {
+            throw new ReminderScheduleError('dueAt must be a valid future timestamp');
+        }
+        return { dueAt, rrule: null };
+    }
+    const rule = fromInput(recurrence, dueAt, timeZone);
+    const first = firstOccurrence(rule, dueAt > now ? dueAt : now, timeZone);
+    if (!first) throw new ReminderScheduleError('Recurrence ends before its first occurrence');
+    return { dueAt: first, rrule: formatRRule(rule) };
+}
+
+/**
+ * After an occurrence is handled, put a recurring reminder back to `pending`
+ * on its next occurrence. Occurrences missed while the worker was down are
+ * skipped rather than sent in a burst. No-op for one-offs and finished series.
+ */
+async function continueSeries(
+    reminder: { id: string; dueAt: Date; rrule: string | null },
+    timeZone: string,
+    now: Date,
+): Promise<Date | null> {
+    const rule = reminder.rrule ? parseRRule(reminder.rrule) : null;
+    if (!rule) return null;
+    const next = nextOccurrence(rule, reminder.dueAt, timeZone, now);
+    if (!next) return null;
+    await prisma.reminder.updateMany({
+        where: { id: reminder.id, status: { in: ['delivered', 'undeliverable'] } },
+        data: { status: 'pending', dueAt: next, deferredUntil: null },
+    });
+    return next;
+}
+
+/**
+ * After a snoozed re-send, put a recurring reminder back to waiting for the
+ * occurrence `dueAt` already holds. A one-off stays delivered.
+ */
+async function resumeSeries(reminderId: string): Promise<void> {
+    await prisma.reminder.updateMany({
+        where: { id: reminderId, rrule: { not: null }, status: { in: ['delivered', 'undeliverable'] } },
+        data: { status: 'pending' },
+    });
+}
+
+export function reminderPayload(reminder: { id: string; kind: string; message: string }): PushPayload {
+    return {
+        title: TITLE[reminder.kind] ?? TITLE.custom,
+        body: reminder.message,
+        url: DEEP_LINK[reminder.kind] ?? DEEP_LINK.custom,
+        tag: `reminder:${reminder.id}`,
+    };
+}
+
+/**
+ * Deliver one reminder. Idempotent: the reminder is claimed with a
+ * status-guarded update before anything is sent, so a retried or duplicated
+ * job never notifies twice. If nothing was sent and a device failed with a
+ * retryable error (network, 429, 5xx) the claim is released and the error
+ * rethrown for pg-boss to retry. Permanent failures — a subscription the push
+ * service rejects (dropped), or no VAPID config — end as `undeliverable`, so
+ * the dispatcher doesn't pick the occurrence up again every minute.
+ */
+export async function deliverReminder(reminderId: string, now = new Date()): Promise<DeliveryOutcome> {
+    const reminder = await prisma.reminder.findUnique({
+        where: { id: reminderId },
+        select: {
+            id: true,
+            userId: true,
+            kind: true,
+            message: true,
+            status: true,
+            dueAt: true,
+            deferredUntil: true,
+            refireAt: true,
+            rrule: true,
+            user: { select: { timezone: true, quietHoursStart: true, quietHoursEnd: true, deletedAt: true } },
+        },
+    });
+    if (!reminder || reminder.status !== 'pending' || reminder.user.deletedAt) return 'skipped';
+    // A stale job for an occurrence that has since moved (snoozed, skipped,
+    // or already delivered and advanced).
+    const occurrenceDue = reminder.dueAt <= now && !(reminder.deferredUntil && reminder.deferredUntil > now);
+    // A snoozed re-send of the last occurrence: the series is left alone.
+    const refire = !occurrenceDue && !!reminder.refireAt && reminder.refireAt <= now;
+    if (!occurrenceDue && !refire) return 'skipped';
+
+    const { timezone, quietHoursStart, quietHoursEnd } = reminder.user;
+    const quiet = quietHoursStart != null && quietHoursEnd != null ? { start: quietHoursStart, end: quietHoursEnd } : null;
+    const resumeAt = quietHoursEndAt(now, quiet, timezone ?? 'UTC');
+    if (resumeAt) {
+        await prisma.reminder.updateMany({
+            where: { id: reminderId, status: 'pending' },
+            data: refire ? { refireAt: resumeAt } : { deferredUntil: resumeAt },
+        });
+        return 'deferred';
+    }
+
+    const subscriptions = await prisma.pushSubscription.findMany({
+        where: { userId: reminder.userId },
+        select: { id: true, endpoint: true, p256dh: true, auth: true },
+    });
+
+    const claimed = await prisma.reminder.updateMany({
+        where: { id: reminderId, status: 'pending' },
+        data: subscriptions.length
+            ? { status: 'delivered', deliveredAt: now, refireAt: null }
+            : { status: 'undeliverable', refireAt: null },
+    });
+    if (claimed.count === 0) return 'skipped';
+
+    if (subscriptions.length === 0) {
+        await (refire ? resumeSeries(reminder.id) : continueSeries(reminder, timezone ?? 'UTC', now));
+        await audit({
+            userId: reminder.userId,
+            action: 'reminder.undeliverable',
+            resource: `reminder:${reminder.id}`,
+            meta: { kind: reminder.kind, reason: 'no_push_subscription' },
+        });
+        return 'undeliverable';
+    }
+
+    const payload = reminderPayload(reminder);
+    let sent = 0;
+    let gone = 0;
+    let rejected = 0;
+    let lastError: unknown = null;
+    for (const sub of subscriptions) {
+        try {
+            const result = await sendPush(sub, payload);
+            if (result === 'gone') {
+                gone++;
+                await prisma.pushSubscription.deleteMany({ where: { id: sub.id } });
+            } else {
+                sent++;
+                await prisma.pushSubscription.update({ where: { id: sub.id }, data: { lastSuccessAt: now } });
+            }
+        } catch (e) {
+            const permanent = e instanceof PushError && !e.retryable;
+            logger.warn(
+                { err: String(e), status: e instanceof PushError ? e.statusCode : null, permanent, reminderId },
+                'reminders.push_failed',
+            );
+            if (!permanent) {
+                lastError = e;
+            } else if (e.statusCode != null) {
+                // The push service won't take this subscription again (e.g.
+                // it was made under old VAPID keys): drop it like a 410.
+                rejected++;
+                await prisma.pushSubscription.deleteMany({ where: { id: sub.id } });
+            }
+        }
+    }
+
+    if (sent === 0 && lastError) {
+        // Nothing reached a device and at least one failure is retryable:
+        // release the claim so the retry can deliver.
+        await prisma.reminder.updateMany({
+            where: { id: reminderId, status: 'delivered' },
+            data: { status: 'pending', deliveredAt: null, ...(refire ? { refireAt: reminder.refireAt } : {}) },
+        });
+        throw lastError;
+    }
+    if (sent === 0) {
+        await prisma.reminder.updateMany({
+            where: { id: reminderId },
+            data: { status: 'undeliverable', deliveredAt: null },
+        });
+    }
+    await (refire ? resumeSeries(reminder.id) : continueSeries(reminder, timezone ?? 'UTC', now));
+
+    await audit({
+        userId: reminder.userId,
+        action: sent > 0 ? 'reminder.delivered' : 'reminder.undeliverable',
+        resource: `reminder:${reminder.id}`,
+        meta: { kind: reminder.kind, devices: subscriptions.length, sent, gone, rejected },
+    });
+    return sent > 0 ? 'delivered' : 'undeliverable';
+}
+
+// ── User actions ──────────────────────────────────────────────────────────
+
+/**
+ * Skip the upcoming occurrence of a recurring reminder. Returns the updated
+ * reminder — `canceled` if that was the last occurrence — or null if the
+ * user has no such pending reminder.
+ */
+export async function skipOccurrence(userId: string, reminderId: string, now = new Date()) {
+    const reminder = await prisma.reminder.findFirst({ where: { id: reminderId, userId, status: 'pending' } });
+    if (!reminder) return null;
+    const rule = reminder.rrule ? parseRRule(reminder.rrule) : null;
+    if (!rule) throw new ReminderScheduleError('Only recurring reminders can be skipped — cancel it instead');
+
+    const next = nextOccurrence(rule, reminder.dueAt, await userTimeZone(userId), now);
+    return prisma.reminder.update({
+        where: { id: reminder.id },
+        data: next ? { dueAt: next, deferredUntil: null } : { status: 'canceled', deferredUntil: null },
+    });
+}
+
+/**
+ * Hold the reminder for `minutes`: a pending one is pushed back from its due
+ * time (or from now, if already due); a one-off that was just delivered is
+ * re-armed to fire again. A recurring one that was just delivered — its
+ * `dueAt` already on the next occurrence — is re-sent once `minutes` from now,
+ * and the series keeps its schedule.
+ */
+export async function snoozeReminder(userId: string, reminderId: string, minutes: number, now = new Date()) {
+    const reminder = await prisma.reminder.findFirst({ where: { id: reminderId, userId } });
+    if (!reminder) return null;
+    const rearm = reminder.status === 'delivered' && !reminder.rrule;
+    if (reminder.status !== 'pending' && !rearm) {
+        throw new ReminderScheduleError('Reminder is no longer active');
+    }
+    if (reminder.rrule && reminder.deliveredAt && reminder.dueAt > now) {
+        return prisma.reminder.update({
+            where: { id: reminder.id },
+            data: { refireAt: new Date(now.getTime() + minutes * 60_000) },
+        });
+    }
+    const from = Math.max(now.getTime(), reminder.dueAt.getTime(), reminder.deferredUntil?.getTime() ?? 0);
+    return prisma.reminder.update({
+        where: { id: reminder.id },
+        data: { status: 'pending', deferredUntil: new Date(from + minutes * 60_000) },
+    });
+}
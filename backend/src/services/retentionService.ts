@@ -0,0 +1,213 @@
+/**
+ * Retention purge — enforces each user's `forever | 1y | 90d` choice.
+ *
+ * Driven by the worker: `retention.sweep` runs nightly and fans out one
+ * `retention.purge` job per user with a finite policy. Deletes only rows
+ * older than `retentionCutoff()`; `forever` users are never touched.
+ *
+ * Every user-owned content table is listed in `TARGETS` — adding a new one is
+ * a single entry, and the dry-run preview (`GET /api/me/retention`) shares the
+ * exact same filters as the real purge so what we show is what we delete.
+ *
+ * Deliberately NOT purged here:
+ *   - safety plan, wellness profile, user state — single living rows, not history
+ *   - pending reminders — the user still expects them
+ *   - consent_logs (6y) and audit_logs (2y) — statutory accountability retention
+ */
+import prisma from '@/lib/prisma';
+import { retentionCutoff, type RetentionPolicy } from '@/lib/consent';
+import { audit } from '@/lib/audit';
+import { QUEUES } from '@/lib/jobs';
+
+export type RetentionTable =
+    | 'conversationSummaries'
+    | 'messages'
+    | 'conversations'
+    | 'journalEntries'
+    | 'journalRevisions'
+    | 'moodLogs'
+    | 'gratitude'
+    | 'memories'
+    | 'toolUsage'
+    | 'clinicalResults'
+    | 'digests'
+    | 'affirmations';
+
+interface RetentionTarget {
+    table: RetentionTable;
+    count(userId: string, cutoff: Date): Promise<number>;
+    purge(userId: string, cutoff: Date): ReturnType<typeof prisma.moodLog.deleteMany>;
+}
+
+const before = (cutoff: Date) => ({ lt: cutoff });
+
+const summarised = { OR: [{ summary: { not: null } }, { summaryCipherText: { not: null } }] };
+const noSummary = { summary: null, summaryCipherText: null, summaryThroughId: null };
+
+// Order matters: summaries go before the messages they retell, and messages
+// before their (now possibly empty) conversations.
+const TARGETS: RetentionTarget[] = [
+    {
+        // A summary may retell purged messages: drop it, the chat rebuilds it
+        // from what is left.
+        table: 'conversationSummaries',
+        count: (userId, cutoff) =>
+            prisma.conversation.count({
+                where: { userId, ...summarised, messages: { some: { createdAt: before(cutoff) } } },
+            }),
+        purge: (userId, cutoff) =>
+            prisma.conversation.updateMany({
+                where: { userId, ...summarised, messages: { some: { createdAt: before(cutoff) } } },
+                data: noSummary,
+            }),
+    },
+    {
+        table: 'messages',
+        count: (userId, cutoff) =>
+            prisma.message.count({ where: { conversation: { userId }, createdAt: before(cutoff) } }),
+        purge: (userId, cutoff) =>
+            prisma.message.deleteMany({ where: { conversation: { userId }, createdAt: before(cutoff) } }),
+    },
+    {
+        // Only conversations that are stale AND will have no messages left.
+        table: 'conversations',
+        count: (userId, cutoff) =>
+            prisma.conversation.count({
+                where: { userId, updatedAt: before(cutoff), messages: { none: { createdAt: { gte: cutoff } } } },
+            }),
+        purge: (userId, cutoff) =>
+            prisma.conversation.deleteMany({
+                where: { userId, updatedAt: before(cutoff), messages: { none: { createdAt: { gte: cutoff } } } },
+            }),
+    },
+    {
+        // Versions replaced before the cutoff (even if the entry is kept), and
+        // all versions of entries about to go.
+        table: 'journalRevisions',
+        count: (userId, cutoff) =>
+            prisma.journalRevision.count({
+                where: { userId, OR: [{ createdAt: before(cutoff) }, { entry: { createdAt: before(cutoff) } }] },
+            }),
+        purge: (userId, cutoff) =>
+            prisma.journalRevision.deleteMany({
+                where: { userId, OR: [{ createdAt: before(cutoff) }, { entry: { createdAt: before(cutoff) } }] },
+            }),
+    },
+    {
+        table: 'journalEntries',
+        count: (userId, cutoff) => prisma.journalEntry.count({ where: { userId, createdAt: before(cutoff) } }),
+        purge: (userId, cutoff) => prisma.journalEntry.deleteMany({ where: { userId, createdAt: before(cutoff) } }),
+    },
+    {
+        table: 'moodLogs',
+        count: (userId, cutoff) => prisma.moodLog.count({ where: { userId, createdAt: before(cutoff) } }),
+        purge: (userId, cutoff) => prisma.moodLog.deleteMany({ where: { userId, createdAt: before(cutoff) } }),
+    },
+    {
+        table: 'gratitude',
+        count: (userId, cutoff) => prisma.gratitudeEntry.count({ where: { userId, createdAt: before(cutoff) } }),
+        purge: (userId, cutoff) => prisma.gratitudeEntry.deleteMany({ where: { userId, createdAt: before(cutoff) } }),
+    },
+    {
+        table: 'memories',
+        count: (userId, cutoff) => prisma.memory.count({ where: { userId, createdAt: before(cutoff) } }),
+        purge: (userId, cutoff) => prisma.memory.deleteMany({ where: { userId, createdAt: before(cutoff) } }),
+    },
+    {
+        table: 'toolUsage',
+        count: (userId, cutoff) => prisma.toolUsage.count({ where: { userId, createdAt: before(cutoff) } }),
+        purge: (userId, cutoff) => prisma.toolUsage.deleteMany({ where: { userId, createdAt: before(cutoff) } }),
+    },
+    {
+        table: 'clinicalResults',
+        count: (userId, cutoff) => prisma.clinicalResult.count({ where: { userId, createdAt: before(cutoff) } }),
+        purge: (userId, cutoff) => prisma.clinicalResult.deleteMany({ where: { userId, createdAt: before(cutoff) } }),
+    },
+    {
+        table: 'digests',
+        count: (userId, cutoff) => prisma.digestCache.count({ where: { userId, createdAt: before(cutoff) } }),
+        purge: (userId, cutoff) => prisma.digestCache.deleteMany({ where: { userId, createdAt: before(cutoff) } }),
+    },
+    {
+        table: 'affirmations',
+        count: (userId, cutoff) => prisma.affirmationCache.count({ where: { userId, createdAt: before(cutoff) } }),
+        purge: (userId, cutoff) =>
+            prisma.affirmationCache.deleteMany({ where: { userId, createdAt: before(cutoff) } }),
+    },
+];
+
+export type RetentionCounts = Record<RetentionTable, number>;
+
+export interface RetentionReport {
+    policy: RetentionPolicy | null;
+    cutoff: Date | null;
+    counts: RetentionCounts | null;
+    total: number;
+}
+
+/** Users whose retention choice makes some of their rows eligible for deletion. */
+export async function listUsersWithFiniteRetention(): Promise<string[]> {
+    const rows = await prisma.user.findMany({
+        where: { retentionPolicy: { in: ['1y', '90d'] } },
+        select: { id: true },
+    });
+    return rows.map((r) => r.id);
+}
+
+async function policyFor(userId: string): Promise<RetentionPolicy | null> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { retentionPolicy: true },
+    });
+    return (user?.retentionPolicy ?? null) as RetentionPolicy | null;
+}
+
+function sum(counts: RetentionCounts): number {
+    return Object.values(counts).reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Dry run — what the next purge would remove if it ran now. The cutoff keeps
+ * moving, so this is a lower bound for tonight's run.
+ */
+export async function previewPurge(userId: string): Promise<RetentionReport> {
+    const policy = await policyFor(userId);
+    const cutoff = retentionCutoff(policy);
+    if (!cutoff) return { policy, cutoff: null, counts: null, total: 0 };
+
+    const values = await Promise.all(TARGETS.map((t) => t.count(userId, cutoff)));
+    const counts = Object.fromEntries(TARGETS.map((t, i) => [t.table, values[i]])) as RetentionCounts;
+    return { policy, cutoff, counts, total: sum(counts) };
+}
+
+/**
+ * Delete everything past the user's cutoff in one transaction, then audit the
+ * per-table counts. Nothing is audited when there was nothing to remove, so
+ * nightly no-op runs don't flood `audit_logs`.
+ */
+export async function purgeExpiredForUser(userId: string): Promise<RetentionReport> {
+    const policy = await policyFor(userId);
+    const cutoff = retentionCutoff(policy);
+    if (!cutoff) return { policy, cutoff: null, counts: null, total: 0 };
+
+    const results = await prisma.$transaction(TARGETS.map((t) => t.purge(userId, cutoff)));
+    const counts = Object.fromEntries(TARGETS.map((t, i) => [t.table, results[i].count])) as RetentionCounts;
+    const total = sum(counts);
+
+    if (total > 0) {
+        await audit({
+            userId,
+            action: 'retention.purge',
+            meta: { policy, cutoff: cutoff.toISOString(), counts, total },
+        });
+    }
+    return { policy, cutoff, counts, total };
+}
+
+/** Next time the nightly sweep will run, derived from its cron (`m h * * *`, UTC). */
+export function nextPurgeAt(now = new Date()): Date {
+    const [minute, hour] = (QUEUES['retention.sweep'].cron ?? '0 3 * * *').split(' ').map(Number);
+    const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hour, minute));
+    if (next.getTime() <= now.getTime()) next.setUTCDate(next.getUTCDate() + 1);
+    return next;
+}
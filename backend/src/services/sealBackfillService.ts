@@ -0,0 +1,187 @@
+/**
+ * Seal backfill — encrypts chat messages, conversation titles and memories
+ * stored before they were encrypted at rest, the way new ones are written
+ * (see `sealMessage()` / `sealTitle()` in conversationService and
+ * `createMemory()`): the text moves to the ciphertext column and the
+ * plaintext one keeps a placeholder. Messages and titles get their blind
+ * keyword index at the same time, which is what makes them findable by
+ * conversation search.
+ *
+ * Driven by the worker like key rotation: `POST /api/admin/encryption/seal`
+ * enqueues one `encryption.seal` job, which seals one batch of one table and
+ * then enqueues its successor with a cursor (last id seen). Only rows without
+ * a ciphertext are selected, so a retry or a fresh start resumes. Each row is
+ * written back only if it is still the plaintext that was read.
+ *
+ * Every table is listed in `TARGETS` — adding one is a single entry.
+ */
+import prisma from '@/lib/prisma';
+import { audit } from '@/lib/audit';
+import { CHAIN_KEY, enqueue } from '@/lib/jobs';
+import { encryptForUser, isEncryptionEnabled } from '@/lib/encryption';
+import { indexTokens } from '@/lib/searchIndex';
+
+const SEAL_BATCH = 200;
+
+export type PlaintextTable = 'messages' | 'conversationTitles' | 'memories';
+
+interface PlaintextRow {
+    id: string;
+    userId: string;
+    content: string;
+    updatedAt?: Date;
+}
+
+interface SealTarget {
+    table: PlaintextTable;
+    count(): Promise<number>;
+    /** Rows with no ciphertext after the cursor, in id order. */
+    batch(after: string | null): Promise<PlaintextRow[]>;
+    /** Store `cipherText` if the row still holds the plaintext it was read with. True if written. */
+    seal(row: PlaintextRow, cipherText: string): Promise<boolean>;
+}
+
+const plaintext = (after: string | null) => ({ cipherText: null, ...(after ? { id: { gt: after } } : {}) });
+
+const page = { orderBy: { id: 'asc' as const }, take: SEAL_BATCH };
+
+const TARGETS: SealTarget[] = [
+    {
+        // Messages belong to a user through their conversation.
+        table: 'messages',
+        count: () => prisma.message.count({ where: { cipherText: null } }),
+        batch: async (after) => {
+            const rows: Array<{ id: string; content: string; conversation: { userId: string } }> =
+                await prisma.message.findMany({
+                    where: plaintext(after),
+                    ...page,
+                    select: { id: true, content: true, conversation: { select: { userId: true } } },
+                });
+            return rows.map((r) => ({ id: r.id, userId: r.conversation.userId, content: r.content }));
+        },
+        seal: async (row, cipherText) =>
+            (
+                await prisma.message.updateMany({
+                    where: { id: row.id, cipherText: null, content: row.content },
+                    data: { content: '[encrypted]', cipherText, searchTokens: indexTokens(row.userId, row.content) },
+                })
+            ).count > 0,
+    },
+    {
+        // Conversations have no `cipherText` of their own: this seals `title`.
+        table: 'conversationTitles',
+        count: () => prisma.conversation.count({ where: { title: { not: null }, titleCipherText: null } }),
+        batch: async (after) => {
+            const rows = await prisma.conversation.findMany({
+                where: { title: { not: null }, titleCipherText: null, ...(after ? { id: { gt: after } } : {}) },
+                ...page,
+                select: { id: true, userId: true, title: true, updatedAt: true },
+            });
+            return rows.map((r) => ({ id: r.id, userId: r.userId, content: r.title ?? '', updatedAt: r.updatedAt }));
+        },
+        seal: async (row, cipherText) =>
+            (
+                await prisma.conversation.updateMany({
+                    where: { id: row.id, titleCipherText: null, title: row.content },
+                    data: {
+                        title: '[encrypted]',
+                        titleCipherText: cipherText,
+                        titleTokens: indexTokens(row.userId, row.content),
+                        updatedAt: row.updatedAt,
+                    },
+                })
+            ).count > 0,
+    },
+    {
+        table: 'memories',
+        count: () => prisma.memory.count({ where: { cipherText: null } }),
+        batch: (after) =>
+            prisma.memory.findMany({
+                where: plaintext(after),
+                ...page,
+                select: { id: true, userId: true, content: true, updatedAt: true },
+            }),
+        // Sealing isn't an edit: keep `updatedAt` as it was.
+        seal: async (row, cipherText) =>
+            (
+                await prisma.memory.updateMany({
+                    where: { id: row.id, cipherText: null, content: row.content },
+                    data: { content: '[encrypted]', cipherText, updatedAt: row.updatedAt },
+                })
+            ).count > 0,
+    },
+];
+
+export const PLAINTEXT_TABLES = TARGETS.map((t) => t.table);
+
+export class SealBackfillError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SealBackfillError';
+    }
+}
+
+function requireEncryption(): void {
+    if (!isEncryptionEnabled()) throw new SealBackfillError('Encryption is not configured — nothing to seal');
+}
+
+export interface SealProgress {
+    tables: Array<{ table: PlaintextTable; plaintext: number }>;
+    remaining: number;
+}
+
+/** How many rows, per table, are still stored in plaintext. */
+export async function sealProgress(): Promise<SealProgress> {
+    const tables = await Promise.all(TARGETS.map(async (t) => ({ table: t.table, plaintext: await t.count() })));
+    return { tables, remaining: tables.reduce((a, t) => a + t.plaintext, 0) };
+}
+
+export interface SealStep {
+    table: PlaintextTable;
+    sealed: number;
+    /** Cursor for the next batch of this table; null when the table is done. */
+    after: string | null;
+}
+
+/** Encrypt one batch of `table` after the cursor. */
+export async function sealBatch(table: PlaintextTable, after: string | null): Promise<SealStep> {
+    const target = TARGETS.find((t) => t.table === table);
+    if (!target) throw new SealBackfillError(`Unknown plaintext table "${table}"`);
+    requireEncryption();
+
+    const rows = await target.batch(after);
+    let sealed = 0;
+    for (const row of rows) {
+        const { cipherText } = encryptForUser(row.userId, row.content);
+        if (cipherText && (await target.seal(row, cipherText))) sealed++;
+    }
+    return { table, sealed, after: rows.length === SEAL_BATCH ? rows[rows.length - 1].id : null };
+}
+
+export interface SealJob {
+    table: PlaintextTable;
+    after: string | null;
+    /** Running total across the whole run. */
+    sealed: number;
+}
+
+/** The job that continues a run after `step`, or null once every table is done. */
+export function nextSealJob(step: SealStep, sealed: number): SealJob | null {
+    if (step.after) return { table: step.table, after: step.after, sealed };
+    const table = PLAINTEXT_TABLES[PLAINTEXT_TABLES.indexOf(step.table) + 1];
+    return table ? { table, after: null, sealed } : null;
+}
+
+/**
+ * Start (or resume) a backfill. No job when nothing is left in plaintext, or
+ * when the queue refused it (unavailable, or the run already has a batch queued).
+ */
+export async function startSealing(): Promise<{ jobId: string | null; progress: SealProgress }> {
+    requireEncryption();
+    const progress = await sealProgress();
+    if (progress.remaining === 0) return { jobId: null, progress };
+    const first: SealJob = { table: PLAINTEXT_TABLES[0], after: null, sealed: 0 };
+    const jobId = await enqueue('encryption.seal', { ...first }, { singletonKey: CHAIN_KEY });
+    if (jobId) await audit({ action: 'encryption.seal_started', meta: { remaining: progress.remaining } });
+    return { jobId, progress };
+}
@@ -0,0 +1,189 @@
+/**
+ * Tool effectiveness — what tends to help *this* user, from their own
+ * `ToolUsage` history (written by `POST /api/tools/usage`).
+ *
+ * Mood is the 1-10 intensity scale (1 = calm, 10 = overwhelmed), so the
+ * per-session delta is `moodBefore - moodAfter`: positive means it helped.
+ *
+ * Ranking uses a shrunk mean (`sum / (n + PRIOR_SESSIONS)`) rather than the
+ * raw average, so one lucky session can't outrank a tool that has helped
+ * steadily ten times. Shared by the effectiveness endpoint, the coach and
+ * `computeEngagement()` so every surface agrees on what "helps".
+ */
+import prisma from '@/lib/prisma';
+import { localMinutes } from '@/lib/quietHours';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface ToolUsageRow {
+    toolId: string;
+    action: string;
+    duration: number | null;
+    moodBefore: number | null;
+    moodAfter: number | null;
+    createdAt: Date;
+}
+
+export interface MoodDeltaStats {
+    n: number;
+    mean: number;
+    /** 95% confidence interval (Student's t); null until there are 2+ rated sessions. */
+    ci95: [number, number] | null;
+}
+
+export interface TimeOfDayStats {
+    sessions: number;
+    completed: number;
+    meanDelta: number | null;
+}
+
+export interface ToolEffectiveness {
+    toolId: string;
+    started: number;
+    completed: number;
+    skipped: number;
+    completionRate: number | null;
+    medianDurationSec: number | null;
+    moodDelta: MoodDeltaStats | null;
+    timeOfDay: Record<TimeOfDay, TimeOfDayStats>;
+    /** Shrunk mean delta used for ranking; 0 when there is no mood data. */
+    score: number;
+    helpful: boolean;
+    lastUsedAt: Date;
+}
+
+const PRIOR_SESSIONS = 2;
+const MIN_RATED_SESSIONS = 2;
+const HISTORY_LIMIT = 500;
+
+// Two-sided 95% t critical values by degrees of freedom (1..30); 1.96 beyond.
+const T95 = [
+    12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+    2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+    2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+const round = (x: number, dp = 2) => Math.round(x * 10 ** dp) / 10 ** dp;
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function deltaStats(deltas: number[]): MoodDeltaStats | null {
+    const n = deltas.length;
+    if (n === 0) return null;
+    const mean = deltas.reduce((a, b) => a + b, 0) / n;
+    if (n < 2) return { n, mean: round(mean), ci95: null };
+    const variance = deltas.reduce((s, d) => s + (d - mean) ** 2, 0) / (n - 1);
+    const t = T95[n - 2] ?? 1.96;
+    const half = t * Math.sqrt(variance / n);
+    return { n, mean: round(mean), ci95: [round(mean - half), round(mean + half)] };
+}
+
+/** Same buckets as `computeUserState().timeOfDay`, evaluated in the user's timezone. */
+export function timeOfDayFor(d: Date, timeZone = 'UTC'): TimeOfDay {
+    const hour = Math.floor(localMinutes(d, timeZone) / 60);
+    return hour < 6 ? 'night' : hour < 12 ? 'morning' : hour < 18 ? 'afternoon' : hour < 22 ? 'evening' : 'night';
+}
+
+interface Bucket {
+    started: number;
+    completed: number;
+    skipped: number;
+    deltas: number[];
+}
+
+const emptyBuckets = (): Record<TimeOfDay, Bucket> => ({
+    morning: { started: 0, completed: 0, skipped: 0, deltas: [] },
+    afternoon: { started: 0, completed: 0, skipped: 0, deltas: [] },
+    evening: { started: 0, completed: 0, skipped: 0, deltas: [] },
+    night: { started: 0, completed: 0, skipped: 0, deltas: [] },
+});
+
+/** Pure aggregation over usage rows — sorted best-first. */
+export function computeToolEffectiveness(rows: ToolUsageRow[], timeZone = 'UTC'): ToolEffectiveness[] {
+    const byTool = new Map<string, ToolUsageRow[]>();
+    for (const r of rows) {
+        const list = byTool.get(r.toolId) ?? [];
+        list.push(r);
+        byTool.set(r.toolId, list);
+    }
+
+    const out: ToolEffectiveness[] = [];
+    for (const [toolId, list] of byTool) {
+        let started = 0, completed = 0, skipped = 0;
+        const durations: number[] = [];
+        const deltas: number[] = [];
+        const buckets = emptyBuckets();
+        let lastUsedAt = list[0].createdAt;
+
+        for (const r of list) {
+            if (r.createdAt > lastUsedAt) lastUsedAt = r.createdAt;
+            const bucket = buckets[timeOfDayFor(r.createdAt, timeZone)];
+            if (r.action === 'started') {
+                started++;
+                bucket.started++;
+            } else if (r.action === 'skipped') {
+                skipped++;
+                bucket.skipped++;
+            } else if (r.action === 'completed') {
+                completed++;
+                bucket.completed++;
+                if (r.duration != null) durations.push(r.duration);
+                if (r.moodBefore != null && r.moodAfter != null) {
+                    const d = r.moodBefore - r.moodAfter;
+                    deltas.push(d);
+                    bucket.deltas.push(d);
+                }
+            }
+        }
+
+        // Older clients only sent terminal events, so a run is whichever is larger.
+        const runs = Math.max(started, completed + skipped);
+        const moodDelta = deltaStats(deltas);
+        const score = deltas.length > 0 ? round(deltas.reduce((a, b) => a + b, 0) / (deltas.length + PRIOR_SESSIONS)) : 0;
+
+        const timeOfDay = {} as Record<TimeOfDay, TimeOfDayStats>;
+        for (const [k, v] of Object.entries(buckets) as [TimeOfDay, Bucket][]) {
+            timeOfDay[k] = {
+                sessions: Math.max(v.started, v.completed + v.skipped),
+                completed: v.completed,
+                meanDelta: v.deltas.length ? round(v.deltas.reduce((a, b) => a + b, 0) / v.deltas.length) : null,
+            };
+        }
+
+        out.push({
+            toolId,
+            started,
+            completed,
+            skipped,
+            completionRate: runs > 0 ? round(completed / runs) : null,
+            medianDurationSec: median(durations),
+            moodDelta,
+            timeOfDay,
+            score,
+            helpful: (moodDelta?.n ?? 0) >= MIN_RATED_SESSIONS && score > 0,
+            lastUsedAt,
+        });
+    }
+
+    return out.sort((a, b) => b.score - a.score || b.completed - a.completed);
+}
+
+/** Tools that measurably help, best first — what the coach and AI context use. */
+export function rankHelpfulTools(stats: ToolEffectiveness[]): ToolEffectiveness[] {
+    return stats.filter((s) => s.helpful);
+}
+
+export async function getToolEffectiveness(userId: string, timeZone = 'UTC'): Promise<ToolEffectiveness[]> {
+    const rows = await prisma.toolUsage.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: HISTORY_LIMIT,
+        select: { toolId: true, action: true, duration: true, moodBefore: true, moodAfter: true, createdAt: true },
+    });
+    return computeToolEffectiveness(rows, timeZone);
+}
@@ -0,0 +1,218 @@
+/**
+ * Silent Help background worker — `npm run worker`.
+ *
+ * Runs alongside the Next.js backend against the same Postgres (pg-boss keeps
+ * its state in the `pgboss` schema, so no Redis or broker is needed). Owns all
+ * scheduled work:
+ *
+ *   reminders.dispatch → reminders.deliver   every minute
+ *   letters.unseal                            hourly
+ *   retention.sweep    → retention.purge      nightly
+ *   digests.sweep      → digests.generate     weekly (Mon)
+ *   guests.sweep       → guests.expire        nightly
+ *   encryption.rotate  → encryption.rotate    on demand, one batch per job
+ *   encryption.seal    → encryption.seal      on demand, one batch per job
+ *   imports.embed                             after a data import
+ *   journal.index                             nightly, until every entry is indexed
+ *   embeddings.backfill → embeddings.backfill nightly, one batch per job
+ *   jobs.dead                                 audit + log exhausted jobs
+ *
+ * Safe to run more than one replica: cron is de-duplicated by pg-boss and
+ * every handler is idempotent.
+ */
+import type { Job, PgBoss } from 'pg-boss';
+import { logger } from '@/lib/logger';
+import { audit } from '@/lib/audit';
+import { CHAIN_KEY, DEAD_LETTER_QUEUE, ensureQueues, getBoss, scheduleRecurring, type QueueName } from '@/lib/jobs';
+import { deliverReminder, findDueReminderIds } from '@/services/reminderService';
+import { unsealDueLetters } from '@/services/letterService';
+import { listUsersWithFiniteRetention, purgeExpiredForUser } from '@/services/retentionService';
+import { currentWeekKey, getOrGenerateWeeklyDigest, listDigestCandidates } from '@/services/digestService';
+import { expireGuest, listExpiredGuestIds } from '@/services/guestExpiryService';
+import { nextRotateJob, rotateBatch, type RotateJob } from '@/services/keyRotationService';
+import { nextSealJob, sealBatch, type SealJob } from '@/services/sealBackfillService';
+import { embedMissing } from '@/services/importService';
+import { indexJournalBatch } from '@/services/journalService';
+import {
+    backfillBatch,
+    firstBackfillJob,
+    nextBackfillJob,
+    type BackfillJob,
+} from '@/services/embeddingBackfillService';
+import { primaryKeyId } from '@/lib/encryption';
+
+interface UserJob {
+    userId: string;
+}
+
+interface ReminderJob {
+    reminderId: string;
+}
+
+/**
+ * Fan a list of ids out into one job each. A key that is already waiting is
+ * skipped (`stately`, see lib/jobs.ts), so a sweep that re-runs before the
+ * last one drained doesn't queue the same work again.
+ */
+async function fanOut(boss: PgBoss, queue: QueueName, items: { data: object; key: string }[]): Promise<number> {
+    if (items.length === 0) return 0;
+    await boss.insert(
+        queue,
+        items.map((i) => ({ data: i.data, singletonKey: i.key })),
+    );
+    return items.length;
+}
+
+async function register(boss: PgBoss) {
+    await boss.work('reminders.dispatch', async () => {
+        const ids = await findDueReminderIds();
+        const n = await fanOut(
+            boss,
+            'reminders.deliver',
+            ids.map((reminderId) => ({ data: { reminderId }, key: reminderId })),
+        );
+        if (n > 0) logger.info({ count: n }, 'jobs.reminders.dispatched');
+    });
+
+    await boss.work<ReminderJob>('reminders.deliver', async ([job]) => {
+        const outcome = await deliverReminder(job.data.reminderId);
+        logger.debug({ reminderId: job.data.reminderId, outcome }, 'jobs.reminders.deliver');
+    });
+
+    await boss.work('letters.unseal', async () => {
+        const { unsealed } = await unsealDueLetters();
+        if (unsealed > 0) logger.info({ unsealed }, 'jobs.letters.unsealed');
+    });
+
+    await boss.work('retention.sweep', async () => {
+        const userIds = await listUsersWithFiniteRetention();
+        const day = new Date().toISOString().slice(0, 10);
+        const n = await fanOut(
+            boss,
+            'retention.purge',
+            userIds.map((userId) => ({ data: { userId }, key: `${userId}:${day}` })),
+        );
+        logger.info({ users: n }, 'jobs.retention.swept');
+    });
+
+    await boss.work<UserJob>('retention.purge', async ([job]) => {
+        const { counts, total } = await purgeExpiredForUser(job.data.userId);
+        if (total > 0) logger.info({ userId: job.data.userId, counts, total }, 'jobs.retention.purged');
+    });
+
+    await boss.work('digests.sweep', async () => {
+        const userIds = await listDigestCandidates();
+        const week = currentWeekKey();
+        const n = await fanOut(
+            boss,
+            'digests.generate',
+            userIds.map((userId) => ({ data: { userId }, key: `${userId}:${week}` })),
+        );
+        logger.info({ users: n, week }, 'jobs.digests.swept');
+    });
+
+    await boss.work<UserJob>('digests.generate', async ([job]) => {
+        await getOrGenerateWeeklyDigest(job.data.userId);
+    });
+
+    await boss.work('guests.sweep', async () => {
+        const userIds = await listExpiredGuestIds();
+        const n = await fanOut(
+            boss,
+            'guests.expire',
+            userIds.map((userId) => ({ data: { userId }, key: userId })),
+        );
+        logger.info({ guests: n }, 'jobs.guests.swept');
+    });
+
+    await boss.work<UserJob>('guests.expire', async ([job]) => {
+        const deleted = await expireGuest(job.data.userId);
+        logger.debug({ deleted }, 'jobs.guests.expire');
+    });
+
+    await boss.work<RotateJob>('encryption.rotate', async ([job]) => {
+        const step = await rotateBatch(job.data.table, job.data.after);
+        const totals = { rotated: job.data.rotated + step.rotated, failed: job.data.failed + step.failed };
+        const next = nextRotateJob(step, totals);
+        if (next) {
+            await boss.send('encryption.rotate', { ...next }, { singletonKey: CHAIN_KEY });
+            return;
+        }
+        logger.info(totals, 'jobs.encryption.rotated');
+        await audit({ action: 'encryption.rotated', meta: { primaryKeyId: primaryKeyId(), ...totals } });
+    });
+
+    await boss.work<SealJob>('encryption.seal', async ([job]) => {
+        const step = await sealBatch(job.data.table, job.data.after);
+        const sealed = job.data.sealed + step.sealed;
+        const next = nextSealJob(step, sealed);
+        if (next) {
+            await boss.send('encryption.seal', { ...next }, { singletonKey: CHAIN_KEY });
+            return;
+        }
+        logger.info({ sealed }, 'jobs.encryption.sealed');
+        await audit({ action: 'encryption.sealed', meta: { sealed } });
+    });
+
+    await boss.work<UserJob>('imports.embed', async ([job]) => {
+        const { embedded, failed } = await embedMissing(job.data.userId);
+        logger.info({ embedded, failed }, 'jobs.imports.embedded');
+    });
+
+    // Bounded per run; whatever is left waits for the next night.
+    await boss.work('journal.index', async () => {
+        let indexed = 0;
+        let after: string | null = null;
+        for (let batch = 0; batch < 50; batch++) {
+            const step: { indexed: number; after: string | null } = await indexJournalBatch(after);
+            indexed += step.indexed;
+            after = step.after;
+            if (!after) break;
+        }
+        if (indexed > 0) logger.info({ indexed }, 'jobs.journal.indexed');
+    });
+
+    // The cron run carries no data and starts from the first table.
+    await boss.work<Partial<BackfillJob>>('embeddings.backfill', async ([job]) => {
+        const data: BackfillJob = job.data?.table ? (job.data as BackfillJob) : firstBackfillJob();
+        const step = await backfillBatch(data.table, data.after);
+        const totals = { embedded: data.embedded + step.embedded, failed: data.failed + step.failed };
+        const next = nextBackfillJob(step, totals);
+        if (next) {
+            await boss.send('embeddings.backfill', { ...next }, { singletonKey: CHAIN_KEY });
+            return;
+        }
+        if (totals.embedded > 0 || totals.failed > 0 || step.unavailable) {
+            logger.info({ ...totals, stopped: step.unavailable }, 'jobs.embeddings.backfilled');
+        }
+    });
+
+    await boss.work<Record<string, unknown>>(DEAD_LETTER_QUEUE, async (jobs: Job<Record<string, unknown>>[]) => {
+        for (const job of jobs) {
+            const userId = typeof job.data?.userId === 'string' ? job.data.userId : null;
+            logger.error({ jobId: job.id, data: job.data }, 'jobs.dead_letter');
+            await audit({ userId, action: 'job.dead_letter', resource: `job:${job.id}`, meta: { data: job.data } });
+        }
+    });
+}
+
+async function main() {
+    const boss = await getBoss('worker');
+    await ensureQueues(boss);
+    await scheduleRecurring(boss);
+    await register(boss);
+    logger.info('worker.started');
+
+    const shutdown = async (signal: string) => {
+        logger.info({ signal }, 'worker.stopping');
+        await boss.stop({ graceful: true, timeout: 20_000 });
+        process.exit(0);
+    };
+    process.on('SIGTERM', () => void shutdown('SIGTERM'));
+    process.on('SIGINT', () => void shutdown('SIGINT'));
+}
+
+main().catch((e) => {
+    logger.fatal({ err: String(e) }, 'worker.failed_to_start');
+    process.exit(1);
+});
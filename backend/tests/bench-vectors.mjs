@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+
+/**
+ * Vector retrieval benchmark — native 384-dim columns vs the old zero-padded
+ * 1536-dim layout, HNSW vs exact scan, with the per-user filter every real
+ * query has.
+ *
+ * Works in a scratch `bench_vectors` schema on DATABASE_URL (pgvector 0.8+),
+ * which it drops afterwards; the app's tables are never touched. Vectors are
+ * random unit vectors, so recall here is a floor — real embeddings cluster.
+ *
+ * Run: npm run bench:vectors
+ *
+ *   BENCH_ROWS     rows to insert                    (default 100000)
+ *   BENCH_USERS    users they are spread over        (default 200)
+ *   BENCH_QUERIES  queries per variant               (default 200)
+ *   BENCH_K        neighbours per query              (default 5)
+ *   BENCH_KEEP=1   keep the schema for poking around
+ */
+
+import pg from 'pg';
+
+const ROWS = Number(process.env.BENCH_ROWS || 100_000);
+const USERS = Number(process.env.BENCH_USERS || 200);
+const QUERIES = Number(process.env.BENCH_QUERIES || 200);
+const K = Number(process.env.BENCH_K || 5);
+
+if (!process.env.DATABASE_URL) {
+    console.error('DATABASE_URL is required');
+    process.exit(1);
+}
+
+const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+
+async function timed(label, sql) {
+    const start = process.hrtime.bigint();
+    await client.query(sql);
+    const ms = Number(process.hrtime.bigint() - start) / 1e6;
+    console.log(`${label.padEnd(34)} ${(ms / 1000).toFixed(1)} s`);
+}
+
+async function size(relation) {
+    const { rows } = await client.query('SELECT pg_size_pretty(pg_total_relation_size($1::regclass)) AS s', [relation]);
+    return rows[0].s;
+}
+
+function randomUnit(dim) {
+    const v = Array.from({ length: dim }, () => Math.random() * 2 - 1);
+    const norm = Math.hypot(...v) || 1;
+    return v.map((x) => x / norm);
+}
+
+const literal = (v) => `[${v.map((x) => x.toFixed(6)).join(',')}]`;
+const padded = (v) => literal([...v, ...new Array(1536 - v.length).fill(0)]);
+
+function percentile(sorted, p) {
+    return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+/**
+ * Latency percentiles and result ids for one query shape over `queries`.
+ * Exact: index scans off, so the user's rows come from a bitmap scan and get
+ * sorted. HNSW: `user_id + 0` keeps the planner off the user_id index.
+ */
+async function run(column, queries, { exact }) {
+    await client.query('BEGIN');
+    await client.query(`SET LOCAL enable_indexscan = ${exact ? 'off' : 'on'}`);
+    await client.query('SET LOCAL hnsw.iterative_scan = strict_order');
+    await client.query('SET LOCAL hnsw.ef_search = 100');
+    const times = [];
+    const results = [];
+    for (const q of queries) {
+        const start = process.hrtime.bigint();
+        const { rows } = await client.query(
+            `SELECT id FROM bench_vectors.items
+             WHERE ${exact ? 'user_id' : 'user_id + 0'} = $1 AND ${column} IS NOT NULL
+             ORDER BY ${column} <=> $2::vector LIMIT ${K}`,
+            [q.userId, column === 'embedding_local' ? q.local : q.padded],
+        );
+        times.push(Number(process.hrtime.bigint() - start) / 1e6);
+        results.push(rows.map((r) => r.id));
+    }
+    await client.query('COMMIT');
+    times.sort((a, b) => a - b);
+    return { p50: percentile(times, 50), p95: percentile(times, 95), results };
+}
+
+function recall(approx, exact) {
+    let hit = 0;
+    let total = 0;
+    approx.forEach((ids, i) => {
+        const truth = new Set(exact[i]);
+        total += truth.size;
+        hit += ids.filter((id) => truth.has(id)).length;
+    });
+    return total ? hit / total : 1;
+}
+
+async function main() {
+    await client.connect();
+    console.log(`${ROWS} rows over ${USERS} users, ${QUERIES} queries, k=${K}\n`);
+
+    await client.query('CREATE EXTENSION IF NOT EXISTS vector');
+    await client.query('DROP SCHEMA IF EXISTS bench_vectors CASCADE');
+    await client.query('CREATE SCHEMA bench_vectors');
+    await client.query(`
+        CREATE TABLE bench_vectors.items (
+            id serial PRIMARY KEY,
+            user_id int NOT NULL,
+            embedding_local vector(384),
+            embedding vector(1536)
+        )`);
+
+    // Generated server-side: one random unit vector per row, stored both
+    // natively and zero-padded the way it used to be.
+    await timed(
+        'insert',
+        `INSERT INTO bench_vectors.items (user_id, embedding_local, embedding)
+         SELECT g % ${USERS}, l2_normalize(v::vector), l2_normalize((v || array_fill(0::real, ARRAY[1152]))::vector)
+         FROM generate_series(1, ${ROWS}) g,
+              LATERAL (SELECT array_agg(random()::real * 2 - 1) AS v FROM generate_series(1, 384 + 0 * g)) r`,
+    );
+    await timed('index user_id', 'CREATE INDEX ON bench_vectors.items (user_id)');
+    await timed(
+        'hnsw 384 (native)',
+        'CREATE INDEX items_local_hnsw ON bench_vectors.items USING hnsw (embedding_local vector_cosine_ops)',
+    );
+    await timed(
+        'hnsw 1536 (zero-padded)',
+        'CREATE INDEX items_padded_hnsw ON bench_vectors.items USING hnsw (embedding vector_cosine_ops)',
+    );
+    await client.query('ANALYZE bench_vectors.items');
+
+    console.log(`\ntable                              ${await size('bench_vectors.items')}`);
+    console.log(`hnsw 384 index                     ${await size('bench_vectors.items_local_hnsw')}`);
+    console.log(`hnsw 1536 index                    ${await size('bench_vectors.items_padded_hnsw')}\n`);
+
+    const queries = Array.from({ length: QUERIES }, () => {
+        const v = randomUnit(384);
+        return { userId: Math.floor(Math.random() * USERS), local: literal(v), padded: padded(v) };
+    });
+
+    const exact = await run('embedding_local', queries, { exact: true });
+    const local = await run('embedding_local', queries, { exact: false });
+    const wide = await run('embedding', queries, { exact: false });
+
+    const line = (label, r, truth) =>
+        console.log(
+            `${label.padEnd(34)} p50 ${r.p50.toFixed(2)} ms  p95 ${r.p95.toFixed(2)} ms` +
+                (truth ? `  recall@${K} ${(recall(r.results, truth.results) * 100).toFixed(1)}%` : ''),
+        );
+    line('exact (user_id bitmap + sort)', exact);
+    line('hnsw 384 (native)', local, exact);
+    line('hnsw 1536 (zero-padded)', wide, exact);
+
+    if (!process.env.BENCH_KEEP) await client.query('DROP SCHEMA bench_vectors CASCADE');
+}
+
+main()
+    .catch((e) => {
+        console.error(e);
+        process.exitCode = 1;
+    })
+    .finally(() => client.end());
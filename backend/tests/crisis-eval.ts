@@ -0,0 +1,242 @@
+#!/usr/bin/env -S npx tsx
+
+/**
+ * Crisis detection evaluation — runs a labelled corpus through each tier of
+ * `checkForCrisisEnriched()` (keyword gate, local MNLI, LLM classifier) and
+ * through the composite, reporting precision / recall / F1 and latency per
+ * tier, how often each kind of message was flagged, and for the scored tiers
+ * a threshold sweep — so a threshold change can point at numbers.
+ *
+ * The corpus (`crisis-eval-corpus.json`) labels each message crisis or not,
+ * and tags it explicit or subtle (positives), hard_negative ("this traffic is
+ * killing me") or benign. Tiers that can't run here are skipped: local needs
+ * AI_MODE other than cloud and the model download, the LLM needs a provider.
+ *
+ * Run: npm run eval:crisis
+ *
+ *   EVAL_TIERS      keyword,local,llm,composite       (default all four)
+ *   EVAL_CORPUS     another corpus in the same format
+ *   EVAL_OUT        also write the report as JSON, e.g. to keep as a baseline
+ *   EVAL_BASELINE   a saved report: exit 1 if a tier's F1 or recall falls
+ *                   more than EVAL_TOLERANCE (default 0.02) below it
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+type Kind = 'explicit' | 'subtle' | 'hard_negative' | 'benign';
+type Tier = 'keyword' | 'local' | 'llm' | 'composite';
+
+interface Example {
+    text: string;
+    crisis: boolean;
+    kind: Kind;
+}
+
+interface Verdict {
+    flagged: boolean;
+    /** What the tier's threshold applies to; null when it has none. */
+    score: number | null;
+    /** The tier gave no answer (model missing, timeout, provider error). */
+    unanswered?: boolean;
+}
+
+interface Scores {
+    precision: number;
+    recall: number;
+    f1: number;
+}
+
+interface TierReport extends Scores {
+    tier: Tier;
+    confusion: { tp: number; fp: number; fn: number; tn: number };
+    latencyMs: { p50: number; p95: number; mean: number };
+    flaggedByKind: Partial<Record<Kind, string>>;
+    unanswered: number;
+    threshold: number | null;
+    sweep: Array<Scores & { threshold: number }> | null;
+}
+
+interface Report {
+    corpus: string;
+    examples: number;
+    tiers: TierReport[];
+    skipped: Array<{ tier: Tier; reason: string }>;
+}
+
+const TIERS: Tier[] = ['keyword', 'local', 'llm', 'composite'];
+const SWEEP = Array.from({ length: 12 }, (_, i) => Math.round((0.4 + i * 0.05) * 100) / 100);
+
+const CORPUS = process.env.EVAL_CORPUS || path.join(__dirname, 'crisis-eval-corpus.json');
+const ONLY = (process.env.EVAL_TIERS || TIERS.join(',')).split(',').map((t) => t.trim()) as Tier[];
+const TOLERANCE = Number(process.env.EVAL_TOLERANCE || 0.02);
+
+function scores(pairs: Array<{ predicted: boolean; actual: boolean }>) {
+    const tp = pairs.filter((p) => p.predicted && p.actual).length;
+    const fp = pairs.filter((p) => p.predicted && !p.actual).length;
+    const fn = pairs.filter((p) => !p.predicted && p.actual).length;
+    const tn = pairs.length - tp - fp - fn;
+    const precision = tp + fp ? tp / (tp + fp) : 0;
+    const recall = tp + fn ? tp / (tp + fn) : 0;
+    const f1 = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+    return { confusion: { tp, fp, fn, tn }, precision, recall, f1 };
+}
+
+function percentile(sorted: number[], p: number): number {
+    return sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] : 0;
+}
+
+const round = (n: number, places = 3) => Math.round(n * 10 ** places) / 10 ** places;
+
+async function main() {
+    // Keep pino quiet unless asked; must be set before the app modules load.
+    process.env.LOG_LEVEL ||= 'error';
+    const { checkForCrisis } = await import('@/lib/crisis');
+    const { aiMode, classifyCrisisLocal, CRISIS_MED } = await import('@/lib/ai/local');
+    const { detectSubtleCrisis } = await import('@/lib/ai/crisis-llm');
+    const { hasGemini, hasLocalLlm, hasOpenAI } = await import('@/lib/ai/provider');
+    const { checkForCrisisEnriched, LLM_CRISIS_FLAG } = await import('@/services/crisisService');
+
+    const examples = JSON.parse(fs.readFileSync(CORPUS, 'utf8')) as Example[];
+    const hasLlm = hasGemini() || hasOpenAI() || (aiMode() !== 'cloud' && hasLocalLlm());
+
+    const runners: Record<Tier, { unavailable: string | null; threshold: number | null; run(text: string): Promise<Verdict> }> = {
+        keyword: {
+            unavailable: null,
+            threshold: null,
+            run: async (text) => ({ flagged: checkForCrisis(text).isCrisis, score: null }),
+        },
+        local: {
+            unavailable: aiMode() === 'cloud' ? 'AI_MODE=cloud' : null,
+            threshold: CRISIS_MED,
+            run: async (text) => {
+                const r = await classifyCrisisLocal(text);
+                return r ? { flagged: r.flagged, score: r.confidence } : { flagged: false, score: 0, unanswered: true };
+            },
+        },
+        llm: {
+            unavailable: hasLlm ? null : 'no LLM provider configured',
+            threshold: LLM_CRISIS_FLAG,
+            run: async (text) => {
+                const v = await detectSubtleCrisis(text);
+                const score = v.flagged ? v.confidence : 0;
+                return { flagged: score >= LLM_CRISIS_FLAG, score, unanswered: ['timeout', 'error', 'unparseable'].includes(v.reason) };
+            },
+        },
+        composite: {
+            unavailable: null,
+            threshold: null,
+            run: async (text) => ({ flagged: (await checkForCrisisEnriched(text)).isCrisis, score: null }),
+        },
+    };
+
+    const report: Report = { corpus: path.basename(CORPUS), examples: examples.length, tiers: [], skipped: [] };
+
+    for (const tier of TIERS.filter((t) => ONLY.includes(t))) {
+        const runner = runners[tier];
+        if (runner.unavailable) {
+            report.skipped.push({ tier, reason: runner.unavailable });
+            continue;
+        }
+        const results: Array<Verdict & { example: Example; ms: number }> = [];
+        for (const example of examples) {
+            const start = performance.now();
+            const verdict = await runner.run(example.text);
+            results.push({ ...verdict, example, ms: performance.now() - start });
+        }
+        const unanswered = results.filter((r) => r.unanswered).length;
+        if (unanswered === results.length) {
+            report.skipped.push({ tier, reason: 'no answers (model or provider unavailable)' });
+            continue;
+        }
+
+        const ms = results.map((r) => r.ms).sort((a, b) => a - b);
+        const flaggedByKind: TierReport['flaggedByKind'] = {};
+        for (const kind of [...new Set(examples.map((e) => e.kind))]) {
+            const ofKind = results.filter((r) => r.example.kind === kind);
+            flaggedByKind[kind] = `${ofKind.filter((r) => r.flagged).length}/${ofKind.length}`;
+        }
+        const scored = results.every((r) => r.score !== null);
+        const { confusion, precision, recall, f1 } = scores(results.map((r) => ({ predicted: r.flagged, actual: r.example.crisis })));
+        report.tiers.push({
+            tier,
+            precision: round(precision),
+            recall: round(recall),
+            f1: round(f1),
+            confusion,
+            latencyMs: {
+                p50: round(percentile(ms, 0.5), 1),
+                p95: round(percentile(ms, 0.95), 1),
+                mean: round(ms.reduce((a, b) => a + b, 0) / ms.length, 1),
+            },
+            flaggedByKind,
+            unanswered,
+            threshold: runner.threshold,
+            sweep: scored
+                ? SWEEP.map((threshold) => {
+                      const s = scores(results.map((r) => ({ predicted: (r.score ?? 0) >= threshold, actual: r.example.crisis })));
+                      return { threshold, precision: round(s.precision), recall: round(s.recall), f1: round(s.f1) };
+                  })
+                : null,
+        });
+    }
+
+    print(report);
+    if (process.env.EVAL_OUT) fs.writeFileSync(process.env.EVAL_OUT, JSON.stringify(report, null, 2) + '\n');
+    if (process.env.EVAL_BASELINE) {
+        const regressions = compare(report, JSON.parse(fs.readFileSync(process.env.EVAL_BASELINE, 'utf8')) as Report);
+        if (regressions.length) {
+            console.error(`\nRegressed against ${process.env.EVAL_BASELINE}:\n  ${regressions.join('\n  ')}`);
+            process.exit(1);
+        }
+        console.log(`\nNo regressions against ${process.env.EVAL_BASELINE} (tolerance ${TOLERANCE})`);
+    }
+}
+
+function print(report: Report) {
+    const kinds = [...new Set(report.tiers.flatMap((t) => Object.keys(t.flaggedByKind)))];
+    console.log(`Corpus ${report.corpus}: ${report.examples} examples\n`);
+    console.log(
+        ['tier'.padEnd(10), 'P'.padStart(6), 'R'.padStart(6), 'F1'.padStart(6), 'p50 ms'.padStart(8), 'p95 ms'.padStart(8), ...kinds.map((k) => k.padStart(14))].join(''),
+    );
+    for (const t of report.tiers) {
+        console.log(
+            [
+                t.tier.padEnd(10),
+                t.precision.toFixed(2).padStart(6),
+                t.recall.toFixed(2).padStart(6),
+                t.f1.toFixed(2).padStart(6),
+                t.latencyMs.p50.toFixed(1).padStart(8),
+                t.latencyMs.p95.toFixed(1).padStart(8),
+                ...kinds.map((k) => (t.flaggedByKind[k as Kind] ?? '-').padStart(14)),
+            ].join('') + (t.unanswered ? `   (${t.unanswered} unanswered)` : ''),
+        );
+    }
+    for (const t of report.tiers.filter((t) => t.sweep)) {
+        console.log(`\n${t.tier} threshold sweep (current ${t.threshold}):`);
+        for (const s of t.sweep!) {
+            const mark = s.threshold === t.threshold ? ' ◄' : '';
+            console.log(`  ${s.threshold.toFixed(2)}   P ${s.precision.toFixed(2)}   R ${s.recall.toFixed(2)}   F1 ${s.f1.toFixed(2)}${mark}`);
+        }
+    }
+    for (const s of report.skipped) console.log(`\nskipped ${s.tier}: ${s.reason}`);
+}
+
+function compare(current: Report, baseline: Report): string[] {
+    const regressions: string[] = [];
+    for (const base of baseline.tiers) {
+        const now = current.tiers.find((t) => t.tier === base.tier);
+        if (!now) continue;
+        for (const metric of ['f1', 'recall'] as const) {
+            if (now[metric] < base[metric] - TOLERANCE) {
+                regressions.push(`${base.tier} ${metric} ${base[metric]} → ${now[metric]}`);
+            }
+        }
+    }
+    return regressions;
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
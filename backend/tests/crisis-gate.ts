@@ -0,0 +1,67 @@
+#!/usr/bin/env -S npx tsx
+
+/**
+ * Crisis keyword gate check — runs the per-language corpus in
+ * `crisis-gate-corpus.json` through `checkForCrisis()` and fails if the gate
+ * misses a crisis message or flags a safe one. Where a language lists them,
+ * `distress` messages must carry a distress marker and `notDistress` ones
+ * (ordinary words a marker is the start of) must not.
+ *
+ * Crisis messages must be caught both with and without their language as the
+ * reply language (a French message from a user whose locale is English still
+ * has to trip the gate). Every language we reply in must have a corpus entry
+ * and a lexicon.
+ *
+ * Run: npm run test:crisis-gate
+ */
+
+import corpus from './crisis-gate-corpus.json';
+import { checkForCrisis } from '@/lib/crisis';
+import { CRISIS_LEXICONS } from '@/lib/crisisLexicons';
+import { SUPPORTED_LANGUAGES } from '@/lib/locale';
+
+const CORPUS = corpus as Record<
+    string,
+    { crisis: string[]; safe: string[]; distress?: string[]; notDistress?: string[] }
+>;
+
+const failures: string[] = [];
+
+for (const language of SUPPORTED_LANGUAGES) {
+    if (!CORPUS[language]) failures.push(`${language}: no corpus entry`);
+    if (!CRISIS_LEXICONS[language]) failures.push(`${language}: no lexicon`);
+}
+
+for (const [language, { crisis, safe, distress = [], notDistress = [] }] of Object.entries(CORPUS)) {
+    let passed = 0;
+    for (const text of crisis) {
+        for (const hint of [language, null]) {
+            const result = checkForCrisis(text, { language: hint });
+            if (result.isCrisis) passed++;
+            else failures.push(`${language}: missed ${JSON.stringify(text)} (reply language ${hint ?? 'none'}, detected [${result.languages}])`);
+        }
+    }
+    for (const text of safe) {
+        const result = checkForCrisis(text, { language });
+        if (!result.isCrisis) passed++;
+        else failures.push(`${language}: flagged ${JSON.stringify(text)} (matched ${result.matchedKeywords.join(', ')})`);
+    }
+    for (const text of distress) {
+        const result = checkForCrisis(text, { language });
+        if (result.distress.length) passed++;
+        else failures.push(`${language}: no distress in ${JSON.stringify(text)}`);
+    }
+    for (const text of notDistress) {
+        const result = checkForCrisis(text, { language });
+        if (!result.distress.length) passed++;
+        else failures.push(`${language}: distress in ${JSON.stringify(text)} (matched ${result.distress.join(', ')})`);
+    }
+    const total = crisis.length * 2 + safe.length + distress.length + notDistress.length;
+    console.log(`${language.padEnd(4)} ${passed}/${total}`);
+}
+
+if (failures.length) {
+    console.error(`\n${failures.length} failure(s):\n  ${failures.join('\n  ')}`);
+    process.exit(1);
+}
+console.log('\nCrisis gate: all languages pass');
@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+
+/**
+ * Local Web Push stub — stands in for a browser vendor's push service so
+ * reminder delivery can be tested without a real browser.
+ *
+ * On start it generates a subscription keypair and prints the JSON to
+ * register with `POST /api/push/subscriptions`. Every push it receives is
+ * decrypted (RFC 8291, aes128gcm) and kept in memory.
+ *
+ * Run: npm run push:stub   (PUSH_STUB_PORT to change the port, default 4010)
+ *
+ *   POST /push/<name>   accept a push (201)
+ *   POST /push/gone     answer 410, like an expired subscription
+ *   POST /push/fail     answer 500, like a push service outage
+ *   GET  /received      everything received so far, decrypted
+ */
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PUSH_STUB_PORT || 4010);
+
+const ecdh = crypto.createECDH('prime256v1');
+ecdh.generateKeys();
+const authSecret = crypto.randomBytes(16);
+const uaPublic = ecdh.getPublicKey();
+
+const received = [];
+
+function hmac(key, data) {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 8291 §3.4 + RFC 8188: one record, keyid = the sender's public key.
+function decrypt(body) {
+  const salt = body.subarray(0, 16);
+  const idlen = body[20];
+  const asPublic = body.subarray(21, 21 + idlen);
+  const ciphertext = body.subarray(21 + idlen);
+
+  const ecdhSecret = ecdh.computeSecret(asPublic);
+  const prkKey = hmac(authSecret, ecdhSecret);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), uaPublic, asPublic, Buffer.from([1])]);
+  const ikm = hmac(prkKey, keyInfo);
+  const prk = hmac(salt, ikm);
+  const cek = hmac(prk, Buffer.from('Content-Encoding: aes128gcm\0\x01')).subarray(0, 16);
+  const nonce = hmac(prk, Buffer.from('Content-Encoding: nonce\0\x01')).subarray(0, 12);
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', cek, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+
+  // Strip the padding delimiter (0x02 for the last record) and trailing zeros.
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+  return padded.subarray(0, end).toString('utf8');
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'GET' && url.pathname === '/received') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(received, null, 2));
+    return;
+  }
+
+  if (req.method !== 'POST' || !url.pathname.startsWith('/push/')) {
+    res.writeHead(404).end();
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', (c) => chunks.push(c));
+  req.on('end', () => {
+    const name = url.pathname.slice('/push/'.length);
+    if (name === 'gone') return res.writeHead(410).end();
+    if (name === 'fail') return res.writeHead(500).end();
+
+    const entry = {
+      name,
+      at: new Date().toISOString(),
+      ttl: req.headers.ttl,
+      urgency: req.headers.urgency,
+      vapid: Boolean(req.headers.authorization?.startsWith('vapid ')),
+    };
+    try {
+      entry.payload = JSON.parse(decrypt(Buffer.concat(chunks)));
+    } catch (e) {
+      entry.error = `could not decrypt: ${e.message}`;
+    }
+    received.push(entry);
+    console.log('📨', JSON.stringify(entry));
+    res.writeHead(201).end();
+  });
+});
+
+server.listen(PORT, () => {
+  const subscription = {
+    endpoint: `http://localhost:${PORT}/push/stub`,
+    keys: {
+      p256dh: uaPublic.toString('base64url'),
+      auth: authSecret.toString('base64url'),
+    },
+  };
+  console.log(`\n🔔 Push stub listening on http://localhost:${PORT}\n`);
+  console.log('Register this subscription (keys are new on every start):\n');
+  console.log(`curl -X POST http://localhost:4000/api/push/subscriptions \\
+  -H "Authorization: Bearer $TOKEN" -H "Content-Type: application/json" \\
+  -d '${JSON.stringify(subscription)}'\n`);
+});
@@ -33,7 +33,7 @@ async function testRegister() {
 
     if (response.ok) {
       console.log('\n✅ Registration successful!');
-      return data.token;
+      return data;
     } else {
       console.log('\n❌ Registration failed');
       return null;
@@ -76,12 +76,42 @@ async function testLogin() {
   }
 }
 
+// Test refresh rotation + logout revoking the session
+async function testSessions(session) {
+  console.log('\n🔄 Testing Refresh & Logout...\n');
+
+  const post = (path, body, token) =>
+    fetch(`${BASE_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify(body),
+    });
+  const me = (token) => fetch(`${BASE_URL}/api/auth/me`, { headers: { Authorization: `Bearer ${token}` } });
+
+  try {
+    const refreshed = await (await post('/api/auth/refresh', { refreshToken: session.refreshToken })).json();
+    console.log(refreshed.refreshToken && refreshed.refreshToken !== session.refreshToken
+      ? '✅ Refresh rotated the refresh token'
+      : '❌ Refresh did not rotate');
+
+    const replay = await post('/api/auth/refresh', { refreshToken: session.refreshToken });
+    console.log(replay.status === 401 ? '✅ Old refresh token rejected' : `❌ Old refresh token accepted (${replay.status})`);
+
+    await post('/api/auth/logout', {}, refreshed.token);
+    const after = await me(refreshed.token);
+    console.log(after.status === 401 ? '✅ Access token revoked by logout' : `❌ Token still works after logout (${after.status})`);
+  } catch (error) {
+    console.error('❌ Error:', error.message);
+  }
+}
+
 // Run tests
 async function runTests() {
   console.log('🚀 Starting Auth API Tests...');
   console.log(`Target: ${BASE_URL}`);
   
-  await testRegister();
+  const session = await testRegister();
+  if (session) await testSessions(session);
   // Wait a moment before testing login
   setTimeout(() => {
     testLogin();
@@ -6,6 +6,8 @@
 //   - Navigation requests: network-first, falling back to the cached shell.
 //   - Everything else: stale-while-revalidate.
 //   - API requests (/api/*) are never cached — they always hit the network.
+//   - Push: shows reminder notifications; tapping one opens /journal, /tools
+//     or /chat (nothing else, whatever the payload says).
 //
 // Never caches auth pages or any user-specific data.
 
@@ -89,3 +91,41 @@ self.addEventListener('fetch', (event) => {
         }),
     );
 });
+
+// ── Reminders (Web Push) ────────────────────────────────────────────────────
+
+const NOTIFICATION_PATHS = ['/journal', '/tools', '/chat'];
+
+self.addEventListener('push', (event) => {
+    let data = {};
+    try {
+        data = event.data ? event.data.json() : {};
+    } catch {
+        /* non-JSON payload — fall back to a generic reminder */
+    }
+    event.waitUntil(
+        self.registration.showNotification(data.title || 'Silent Help', {
+            body: data.body || 'A gentle reminder.',
+            tag: data.tag,
+            icon: '/favicon.ico',
+            data: { url: NOTIFICATION_PATHS.includes(data.url) ? data.url : '/chat' },
+        }),
+    );
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const path = event.notification.data && event.notification.data.url;
+    const target = new URL(NOTIFICATION_PATHS.includes(path) ? path : '/chat', self.location.origin).href;
+
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+            // Reuse an open tab of ours rather than stacking new ones.
+            const existing = windows.find((w) => new URL(w.url).origin === self.location.origin);
+            if (existing) {
+                return existing.focus().then((w) => (w && 'navigate' in w ? w.navigate(target) : undefined));
+            }
+            return self.clients.openWindow(target);
+        }),
+    );
+});
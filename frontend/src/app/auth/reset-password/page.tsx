@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { KeyRound } from 'lucide-react';
+import { Aurora, NoiseOverlay } from '@/components/ui/aurora';
+import { Button } from '@/components/ui/button';
+import { confirmPasswordReset } from '@/lib/api';
+
+export default function ResetPasswordPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token'));
+  }, []);
+
+  const mismatch = confirm.length > 0 && password !== confirm;
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || mismatch || password.length < 6) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await confirmPasswordReset(token, password);
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reset your password.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative min-h-screen overflow-hidden">
+      <Aurora intensity="soft" />
+      <NoiseOverlay />
+      <main className="relative mx-auto max-w-md px-6 py-24">
+        <KeyRound className="h-8 w-8 text-[color:var(--color-fg-muted)]" />
+        <h1 className="mt-4 text-3xl font-semibold tracking-tight">Choose a new password</h1>
+
+        {done ? (
+          <p className="mt-4 text-[color:var(--color-fg-muted)]">
+            Your password has been changed and you&apos;ve been signed out on every device. Sign in again
+            with your new password.
+          </p>
+        ) : (
+          <form onSubmit={submit} className="mt-6 space-y-4">
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="New password (6+ characters)"
+              className="w-full rounded-lg border border-white/10 bg-white/[0.03] px-3 py-2 text-sm"
+            />
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              placeholder="Repeat new password"
+              className="w-full rounded-lg border border-white/10 bg-white/[0.03] px-3 py-2 text-sm"
+            />
+            {mismatch && <p className="text-xs text-rose-300">Passwords don&apos;t match.</p>}
+            {!token && <p className="text-xs text-rose-300">This link is missing its token.</p>}
+            {error && <p className="text-xs text-rose-300">{error}</p>}
+            <Button type="submit" disabled={saving || !token || mismatch || password.length < 6}>
+              Set new password
+            </Button>
+          </form>
+        )}
+
+        <Link href="/" className="mt-8 inline-block text-sm underline">
+          Back to Silent Help
+        </Link>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { Aurora, NoiseOverlay } from '@/components/ui/aurora';
+import { verifyEmail } from '@/lib/api';
+
+type State = 'checking' | 'verified' | 'failed';
+
+export default function VerifyEmailPage() {
+  const [state, setState] = useState<State>('checking');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('token');
+    (token ? verifyEmail(token) : Promise.reject(new Error('This link is missing its token.')))
+      .then(() => setState('verified'))
+      .catch((e) => {
+        setState('failed');
+        setError(e instanceof Error ? e.message : 'Could not verify your email.');
+      });
+  }, []);
+
+  return (
+    <div className="relative min-h-screen overflow-hidden">
+      <Aurora intensity="soft" />
+      <NoiseOverlay />
+      <main className="relative mx-auto max-w-md px-6 py-24 text-center">
+        {state === 'checking' && <p className="text-[color:var(--color-fg-muted)]">Confirming your email…</p>}
+        {state === 'verified' && (
+          <>
+            <CheckCircle2 className="mx-auto h-10 w-10 text-emerald-300" />
+            <h1 className="mt-4 text-3xl font-semibold tracking-tight">Email confirmed</h1>
+            <p className="mt-2 text-[color:var(--color-fg-muted)]">Thank you. You can close this tab.</p>
+          </>
+        )}
+        {state === 'failed' && (
+          <>
+            <XCircle className="mx-auto h-10 w-10 text-rose-300" />
+            <h1 className="mt-4 text-3xl font-semibold tracking-tight">Link didn&apos;t work</h1>
+            <p className="mt-2 text-[color:var(--color-fg-muted)]">{error}</p>
+          </>
+        )}
+        <Link href="/" className="mt-8 inline-block text-sm underline">
+          Back to Silent Help
+        </Link>
+      </main>
+    </div>
+  );
+}
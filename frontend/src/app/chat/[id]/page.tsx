@@ -11,9 +11,13 @@ import {
   ArrowLeft,
   BookOpen,
   Brain,
+  ChevronLeft,
+  ChevronRight,
   LifeBuoy,
   MessageCircleHeart,
   Mic,
+  Pencil,
+  RefreshCw,
   Send,
   Sparkles,
   Square,
@@ -23,14 +27,17 @@ import {
 } from 'lucide-react';
 import {
   getConversation,
+  selectBranch,
   sendMessage,
   type ChatCitation,
   type ChatLocaleInfo,
   type ChatPersona,
   type ChatProactiveNudge,
   type ChatProvider,
+  type ChatRisk,
   type ChatToolInvocation,
   type CrisisInfo,
+  type CrisisRegionResources,
   type GroundingAction,
   type Message,
 } from '@/lib/api';
@@ -43,6 +50,7 @@ import { Badge } from '@/components/ui/badge';
 import { useWellness } from '@/components/wellness/WellnessProvider';
 import { resolveEmotion } from '@/lib/emotion-theme';
 import { cn } from '@/lib/cn';
+import { resourceHref } from '@/lib/crisis-resources';
 
 interface AssistantMeta {
   persona?: ChatPersona;
@@ -72,6 +80,11 @@ const PROVIDER_LABEL: Record<ChatProvider, { label: string; tone: 'private' | 'c
   fallback: { label: 'Offline fallback', tone: 'warn' },
 };
 
+/** Placeholders the page adds before (or instead of) a stored message. */
+const isStored = (m: Message) => !/^(temp|msg|error)-/.test(m.id);
+
+type Branch = { editOf?: string; regenerate?: string };
+
 export default function ConversationPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params);
   const router = useRouter();
@@ -89,6 +102,8 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
   const [liveMeta, setLiveMeta] = useState<AssistantMeta | null>(null);
   const [latestPersona, setLatestPersona] = useState<ChatPersona | null>(null);
   const [crisisBanner, setCrisisBanner] = useState<CrisisInfo | null>(null);
+  // Once the conversation's risk is elevated, SOS stays in view for the rest of the visit.
+  const [sosPin, setSosPin] = useState<{ resources: CrisisRegionResources | null } | null>(null);
   const [latestSuggestions, setLatestSuggestions] = useState<string[]>([]);
   const [latestGrounding, setLatestGrounding] = useState<GroundingAction[]>([]);
   const [liveProvider, setLiveProvider] = useState<ChatProvider | null>(null);
@@ -153,16 +168,21 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
     }
   }, [useOnDevice, dictation.transcript, browserIsListening, browserTranscript]);
 
+  const pinSos = useCallback((risk?: ChatRisk) => {
+    if (risk?.keepSosVisible) setSosPin((p) => ({ resources: risk.resources ?? p?.resources ?? null }));
+  }, []);
+
   const loadConversation = useCallback(async () => {
     try {
       const data = await getConversation(id);
       setMessages(data.conversation.messages);
+      pinSos(data.conversation.risk);
     } catch (err) {
       console.error('Failed to load conversation:', err);
     } finally {
       setIsLoading(false);
     }
-  }, [id]);
+  }, [id, pinSos]);
 
   useEffect(() => {
     loadConversation();
@@ -173,9 +193,9 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
   }, [messages, streamingContent, latestSuggestions]);
 
   const doSend = useCallback(
-    async (text: string) => {
-      if (!text.trim() || isSending) return;
-      setInput('');
+    async (text: string, branch: Branch = {}) => {
+      if ((!text.trim() && !branch.regenerate) || isSending) return;
+      if (!branch.editOf && !branch.regenerate) setInput('');
       setIsSending(true);
       setStreamingContent('');
       setLiveMeta(null);
@@ -185,13 +205,24 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
       setLiveProvider(null);
       liveProviderRef.current = null;
 
-      const userMsg: Message = {
-        id: `temp-${Date.now()}`,
-        role: 'user',
-        content: text,
-        createdAt: new Date().toISOString(),
+      // An edit or a regeneration replaces everything from the target down.
+      const target = branch.editOf ?? branch.regenerate;
+      const before = (prev: Message[]) => {
+        const i = target ? prev.findIndex((m) => m.id === target) : -1;
+        return i >= 0 ? prev.slice(0, i) : prev;
       };
-      setMessages((prev) => [...prev, userMsg]);
+      const tempUserId = `temp-${Date.now()}`;
+      if (branch.regenerate) {
+        setMessages(before);
+      } else {
+        const userMsg: Message = {
+          id: tempUserId,
+          role: 'user',
+          content: text,
+          createdAt: new Date().toISOString(),
+        };
+        setMessages((prev) => [...before(prev), userMsg]);
+      }
       if (textareaRef.current) textareaRef.current.style.height = 'auto';
 
       streamingContentRef.current = '';
@@ -213,6 +244,7 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
           liveMetaRef.current = nextMeta;
           setLiveMeta(nextMeta);
           setLatestPersona(meta.persona);
+          pinSos(meta.risk);
           if (meta.proactiveNudges) setLiveNudges(meta.proactiveNudges);
         },
         onProviderMeta: (pm) => {
@@ -239,9 +271,13 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
           };
           const snapshotMeta = liveMetaRef.current;
           const provider = data.provider ?? liveProviderRef.current ?? undefined;
-          setMessages((msgs) =>
-            msgs.some((m) => m.id === assistantId) ? msgs : [...msgs, assistantMsg],
-          );
+          const userMessageId = data.userMessageId;
+          setMessages((msgs) => {
+            const withUser = userMessageId
+              ? msgs.map((m) => (m.id === tempUserId ? { ...m, id: userMessageId } : m))
+              : msgs;
+            return withUser.some((m) => m.id === assistantId) ? withUser : [...withUser, assistantMsg];
+          });
           setMetaByMessageId((m) =>
             m[assistantId]
               ? m
@@ -267,11 +303,14 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
           liveProviderRef.current = null;
           setStreamingContent('');
           if (data.crisis) setCrisisBanner(data.crisis);
+          pinSos(data.risk);
           setLatestSuggestions(data.suggestions ?? []);
           setLatestGrounding(data.groundingActions ?? []);
           setLiveMeta(null);
           setLiveProvider(null);
           setIsSending(false);
+          // Pick up the new alternatives for the branch switcher.
+          if (target) void loadConversation();
         },
         onError: () => {
           setMessages((prev) => [
@@ -287,9 +326,24 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
           setLiveMeta(null);
           setIsSending(false);
         },
-      });
+      }, branch);
     },
-    [id, isSending, autoSpeak, speak],
+    [id, isSending, autoSpeak, speak, loadConversation, pinSos],
+  );
+
+  const handleSelectBranch = useCallback(
+    async (messageId: string) => {
+      if (isSending) return;
+      try {
+        const data = await selectBranch(id, messageId);
+        setMessages(data.messages);
+        setLatestSuggestions([]);
+        setLatestGrounding([]);
+      } catch (err) {
+        console.error('Failed to switch branch:', err);
+      }
+    },
+    [id, isSending],
   );
 
   // Auto-submit prompt from URL once conversation is loaded
@@ -421,8 +475,10 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
 
         <div className="flex flex-col gap-6">
           <AnimatePresence initial={false}>
-            {messages.map((msg) => {
+            {messages.map((msg, idx) => {
               const meta = msg.role === 'assistant' ? metaByMessageId[msg.id] : undefined;
+              const canBranch = !isSending && isStored(msg);
+              const isLastReply = idx === messages.length - 1 && msg.role === 'assistant';
               return (
                 <MessageBubble
                   key={msg.id}
@@ -431,6 +487,9 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
                   initials={initials}
                   userImage={user?.imageUrl}
                   meta={meta}
+                  onEdit={canBranch && msg.role === 'user' ? (text) => void doSend(text, { editOf: msg.id }) : undefined}
+                  onRegenerate={canBranch && isLastReply ? () => void doSend('', { regenerate: msg.id }) : undefined}
+                  onSelectBranch={canBranch ? (messageId) => void handleSelectBranch(messageId) : undefined}
                 />
               );
             })}
@@ -531,8 +590,23 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
               <div className="font-medium text-[color:var(--color-fg)]">
                 {crisisBanner.safetyMessage || "It sounds like you're in a tough place."}
               </div>
+              {crisisBanner.resources ? (
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                  {crisisBanner.resources.resources.map((r) => (
+                    <a
+                      key={r.key}
+                      href={resourceHref(r)}
+                      className="rounded-full border border-[color:var(--color-danger)]/30 px-2.5 py-0.5 text-xs text-[color:var(--color-fg)] hover:bg-[color:var(--color-danger)]/15"
+                    >
+                      {r.title}
+                    </a>
+                  ))}
+                </div>
+              ) : null}
               <div className="mt-1 text-xs text-[color:var(--color-fg-muted)]">
-                Open the SOS screen for local crisis lines. You are not alone in this.
+                {crisisBanner.resources
+                  ? `Lines for ${crisisBanner.resources.countryName} — the SOS screen has other countries. You are not alone in this.`
+                  : 'Open the SOS screen for local crisis lines. You are not alone in this.'}
               </div>
             </div>
             <Link href="/sos">
@@ -544,6 +618,28 @@ export default function ConversationPage({ params }: { params: Promise<{ id: str
         )}
       </AnimatePresence>
 
+      {/* Pinned SOS — the conversation's risk was elevated at some point this visit */}
+      {sosPin && !crisisBanner && (
+        <div className="mb-3 flex flex-wrap items-center gap-2 rounded-2xl border border-[color:var(--color-danger)]/25 bg-[color:var(--color-danger)]/5 px-3 py-2 text-xs">
+          <LifeBuoy className="h-4 w-4 shrink-0 text-[color:var(--color-danger)]" />
+          <span className="text-[color:var(--color-fg-muted)]">Support is here whenever you need it</span>
+          {sosPin.resources?.resources.map((r) => (
+            <a
+              key={r.key}
+              href={resourceHref(r)}
+              className="rounded-full border border-[color:var(--color-danger)]/30 px-2.5 py-0.5 text-[color:var(--color-fg)] hover:bg-[color:var(--color-danger)]/15"
+            >
+              {r.title}
+            </a>
+          ))}
+          <Link href="/sos" className="ml-auto">
+            <Button variant="danger" size="sm">
+              Open SOS
+            </Button>
+          </Link>
+        </div>
+      )}
+
       {/* Proactive nudge card (chat v2 — shown once per reply when heuristics fire) */}
       <AnimatePresence>
         {!isSending && liveNudges.length > 0 && (
@@ -696,6 +792,9 @@ function MessageBubble({
   streaming,
   meta,
   liveProvider,
+  onEdit,
+  onRegenerate,
+  onSelectBranch,
 }: {
   message: Message;
   accent: string;
@@ -704,8 +803,18 @@ function MessageBubble({
   streaming?: boolean;
   meta?: AssistantMeta;
   liveProvider?: ChatProvider | null;
+  /** Send `text` as a new version of this (user) message. */
+  onEdit?: (text: string) => void;
+  /** Ask again for this (assistant) reply. */
+  onRegenerate?: () => void;
+  /** Show the branch through one of this message's alternatives. */
+  onSelectBranch?: (messageId: string) => void;
 }) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
   const isUser = message.role === 'user';
+  const siblings = message.siblingIds ?? [];
+  const siblingIndex = siblings.indexOf(message.id);
   const citations = meta?.citations ?? [];
   const inlineCrisis = meta?.crisis;
   const provider = meta?.provider ?? (streaming ? liveProvider ?? null : null);
@@ -818,7 +927,38 @@ function MessageBubble({
               : undefined
           }
         >
-          {isUser ? (
+          {isUser && editing ? (
+            <div className="flex min-w-[16rem] flex-col gap-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={3}
+                autoFocus
+                className="w-full resize-y rounded-lg bg-white/40 px-2 py-1.5 text-sm text-slate-950 outline-none"
+              />
+              <div className="flex justify-end gap-2 text-xs">
+                <button
+                  onClick={() => {
+                    setEditing(false);
+                    setDraft(message.content);
+                  }}
+                  className="rounded-full px-3 py-1 hover:bg-white/30"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => {
+                    setEditing(false);
+                    if (draft.trim() && draft.trim() !== message.content) onEdit?.(draft.trim());
+                  }}
+                  disabled={!draft.trim()}
+                  className="rounded-full bg-slate-950/80 px-3 py-1 text-white disabled:opacity-40"
+                >
+                  Send
+                </button>
+              </div>
+            </div>
+          ) : isUser ? (
             message.content.split('\n').map((line, i) => (
               <p key={i} className={i > 0 ? 'mt-2' : ''}>
                 {line}
@@ -861,6 +1001,58 @@ function MessageBubble({
             </div>
           )}
         </div>
+
+        {/* Branch switcher + edit / regenerate (stored messages only) */}
+        {!streaming && !editing && ((siblings.length > 1 && onSelectBranch) || onEdit || onRegenerate) && (
+          <div className="flex items-center gap-1 text-[11px] text-[color:var(--color-fg-muted)]">
+            {siblings.length > 1 && onSelectBranch && (
+              <span className="inline-flex items-center gap-0.5">
+                <button
+                  onClick={() => onSelectBranch(siblings[siblingIndex - 1])}
+                  disabled={siblingIndex <= 0}
+                  className="rounded-full p-1 hover:bg-white/[0.06] disabled:opacity-30"
+                  aria-label="Previous version"
+                >
+                  <ChevronLeft className="h-3 w-3" />
+                </button>
+                <span className="tabular-nums">
+                  {siblingIndex + 1}/{siblings.length}
+                </span>
+                <button
+                  onClick={() => onSelectBranch(siblings[siblingIndex + 1])}
+                  disabled={siblingIndex >= siblings.length - 1}
+                  className="rounded-full p-1 hover:bg-white/[0.06] disabled:opacity-30"
+                  aria-label="Next version"
+                >
+                  <ChevronRight className="h-3 w-3" />
+                </button>
+              </span>
+            )}
+            {onEdit && (
+              <button
+                onClick={() => {
+                  setDraft(message.content);
+                  setEditing(true);
+                }}
+                className="inline-flex items-center gap-1 rounded-full px-2 py-1 hover:bg-white/[0.06] hover:text-[color:var(--color-fg)]"
+                title="Edit — starts a new branch from here"
+              >
+                <Pencil className="h-3 w-3" />
+                Edit
+              </button>
+            )}
+            {onRegenerate && (
+              <button
+                onClick={onRegenerate}
+                className="inline-flex items-center gap-1 rounded-full px-2 py-1 hover:bg-white/[0.06] hover:text-[color:var(--color-fg)]"
+                title="Ask again — the current reply stays available"
+              >
+                <RefreshCw className="h-3 w-3" />
+                Regenerate
+              </button>
+            )}
+          </div>
+        )}
       </div>
       {isUser && (
         <Avatar className="h-8 w-8 shrink-0">
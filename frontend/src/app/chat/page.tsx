@@ -1,13 +1,19 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useUser } from '@clerk/nextjs';
 import { motion } from 'framer-motion';
 import {
+  Archive,
+  ArchiveRestore,
   ArrowRight,
   Clock,
   MessageSquare,
+  MoreHorizontal,
+  Pencil,
+  Pin,
+  PinOff,
   Plus,
   Search,
   Sparkles,
@@ -20,13 +26,24 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Highlighted } from '@/components/ui/highlighted';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useWellness } from '@/components/wellness/WellnessProvider';
 import { resolveEmotion } from '@/lib/emotion-theme';
 import {
   createConversation,
   deleteConversation,
   listConversations,
+  searchConversations,
+  updateConversation,
   type ConversationPreview,
+  type ConversationSearchHit,
 } from '@/lib/api';
 import { toast } from 'sonner';
 import { cn } from '@/lib/cn';
@@ -44,16 +61,94 @@ export default function ChatIndexPage() {
   const { profile } = useWellness();
   const searchParams = useSearchParams();
   const [conversations, setConversations] = useState<ConversationPreview[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
   const [search, setSearch] = useState('');
+  const [results, setResults] = useState<ConversationSearchHit[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
   const theme = resolveEmotion(profile?.emotionalProfile);
 
   useEffect(() => {
-    listConversations()
-      .then((d) => setConversations(d.conversations))
-      .catch(() => setConversations([]))
+    setLoading(true);
+    listConversations({ archived: showArchived })
+      .then((d) => {
+        setConversations(d.conversations);
+        setNextCursor(d.nextCursor);
+      })
+      .catch(() => {
+        setConversations([]);
+        setNextCursor(null);
+      })
       .finally(() => setLoading(false));
-  }, []);
+  }, [showArchived]);
+
+  // Server search (meaning + keywords across every message), debounced.
+  useEffect(() => {
+    const q = search.trim();
+    if (q.length < 2) {
+      setResults(null);
+      return;
+    }
+    setSearching(true);
+    const timer = setTimeout(() => {
+      searchConversations(q)
+        .then((d) => setResults(d.results))
+        .catch(() => setResults([]))
+        .finally(() => setSearching(false));
+    }, 350);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const d = await listConversations({ cursor: nextCursor, archived: showArchived });
+      setConversations((prev) => [...prev, ...d.conversations]);
+      setNextCursor(d.nextCursor);
+    } catch (e) {
+      toast.error('Could not load more', { description: (e as Error).message });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const update = useCallback(
+    async (id: string, patch: { title?: string | null; pinned?: boolean; archived?: boolean }) => {
+      try {
+        const { conversation } = await updateConversation(id, patch);
+        setConversations((prev) => {
+          // Archiving (or restoring) moves it to the other list.
+          if (patch.archived !== undefined) return prev.filter((c) => c.id !== id);
+          const next = prev.map((c) => (c.id === id ? conversation : c));
+          return patch.pinned === undefined
+            ? next
+            : [...next].sort(
+                (a, b) =>
+                  Number(b.pinned ?? false) - Number(a.pinned ?? false) ||
+                  Date.parse(b.updatedAt) - Date.parse(a.updatedAt),
+              );
+        });
+        setResults((prev) =>
+          prev ? prev.map((r) => (r.conversation.id === id ? { ...r, conversation } : r)) : prev,
+        );
+        if (patch.archived !== undefined) toast.success(patch.archived ? 'Archived' : 'Back in your conversations');
+      } catch (e) {
+        toast.error('Could not update', { description: (e as Error).message });
+      }
+    },
+    [],
+  );
+
+  const saveRename = async () => {
+    if (!renaming) return;
+    const title = renaming.title.trim();
+    setRenaming(null);
+    await update(renaming.id, { title: title || null });
+  };
 
   useEffect(() => {
     if (searchParams.get('new') === '1') void startNew();
@@ -76,18 +171,16 @@ export default function ChatIndexPage() {
     try {
       await deleteConversation(id);
       setConversations((prev) => prev.filter((c) => c.id !== id));
+      setResults((prev) => (prev ? prev.filter((r) => r.conversation.id !== id) : prev));
       toast.success('Conversation removed');
     } catch (e) {
       toast.error('Could not remove', { description: (e as Error).message });
     }
   };
 
-  const filtered = conversations.filter(
-    (c) =>
-      !search.trim() ||
-      c.title?.toLowerCase().includes(search.toLowerCase()) ||
-      (c.lastMessage ?? '').toLowerCase().includes(search.toLowerCase()),
-  );
+  const rows: Array<{ conversation: ConversationPreview; hit?: ConversationSearchHit }> = results
+    ? results.map((hit) => ({ conversation: hit.conversation, hit }))
+    : conversations.map((conversation) => ({ conversation }));
 
   const hour = new Date().getHours();
   const greet = hour < 12 ? 'Good morning' : hour < 18 ? 'Good afternoon' : 'Good evening';
@@ -107,30 +200,62 @@ export default function ChatIndexPage() {
         <div className="relative mt-4">
           <Search className="pointer-events-none absolute left-3.5 top-1/2 h-4 w-4 -translate-y-1/2 text-[color:var(--color-fg-subtle)]" />
           <Input
-            placeholder="Search threads…"
+            placeholder="Search everything you've said…"
             value={search}
             onChange={(e) => setSearch(e.target.value)}
             className="pl-10"
           />
         </div>
 
-        <div className="mt-4 space-y-2 overflow-y-auto pr-1 lg:max-h-[calc(100%-118px)]">
-          {loading
+        <div className="mt-3 flex items-center justify-between text-xs text-[color:var(--color-fg-muted)]">
+          <span>
+            {results
+              ? searching
+                ? 'Searching…'
+                : `${results.length} match${results.length === 1 ? '' : 'es'} · archived included`
+              : showArchived
+                ? 'Archived'
+                : 'Pinned first, then most recent'}
+          </span>
+          {!results && (
+            <button
+              onClick={() => setShowArchived((v) => !v)}
+              className="inline-flex items-center gap-1 hover:text-[color:var(--color-fg)]"
+            >
+              {showArchived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+              {showArchived ? 'Back to conversations' : 'Archived'}
+            </button>
+          )}
+        </div>
+
+        <div className="mt-3 space-y-2 overflow-y-auto pr-1 lg:max-h-[calc(100%-140px)]">
+          {loading && !results
             ? Array.from({ length: 5 }).map((_, i) => <Skeleton key={i} className="h-16" />)
-            : filtered.length === 0
+            : rows.length === 0
               ? (
                 <div className="rounded-[var(--radius-md)] border border-dashed border-white/10 p-6 text-center text-sm text-[color:var(--color-fg-muted)]">
-                  No conversations yet. Start the first one.
+                  {results
+                    ? searching
+                      ? 'Searching…'
+                      : 'Nothing matched. Try other words.'
+                    : showArchived
+                      ? 'Nothing archived.'
+                      : 'No conversations yet. Start the first one.'}
                 </div>
               )
-              : filtered.map((c, i) => (
-                <motion.button
+              : rows.map(({ conversation: c, hit }, i) => (
+                <motion.div
                   key={c.id}
                   initial={{ opacity: 0, y: 4 }}
                   animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: i * 0.02 }}
-                  onClick={() => router.push(`/chat/${c.id}`)}
-                  className="group relative flex w-full items-start gap-3 rounded-[var(--radius-md)] border border-white/[0.05] bg-white/[0.02] p-3 text-left transition-all hover:border-white/15 hover:bg-white/[0.05]"
+                  transition={{ delay: Math.min(i, 10) * 0.02 }}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => renaming?.id !== c.id && router.push(`/chat/${c.id}`)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && renaming?.id !== c.id) router.push(`/chat/${c.id}`);
+                  }}
+                  className="group relative flex w-full cursor-pointer items-start gap-3 rounded-[var(--radius-md)] border border-white/[0.05] bg-white/[0.02] p-3 text-left transition-all hover:border-white/15 hover:bg-white/[0.05]"
                 >
                   <div
                     className="mt-0.5 flex h-8 w-8 shrink-0 items-center justify-center rounded-lg border border-white/10"
@@ -139,29 +264,83 @@ export default function ChatIndexPage() {
                     <MessageSquare className="h-4 w-4" style={{ color: theme.accent }} />
                   </div>
                   <div className="min-w-0 flex-1">
-                    <div className="truncate text-sm font-medium text-[color:var(--color-fg)]">
-                      {c.title || 'Untitled'}
-                    </div>
-                    <div className="truncate text-xs text-[color:var(--color-fg-muted)]">
-                      {c.lastMessage || 'No messages yet'}
+                    {renaming?.id === c.id ? (
+                      <Input
+                        autoFocus
+                        value={renaming.title}
+                        placeholder="Leave empty to let the app name it"
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => setRenaming({ id: c.id, title: e.target.value })}
+                        onKeyDown={(e) => {
+                          e.stopPropagation();
+                          if (e.key === 'Enter') void saveRename();
+                          if (e.key === 'Escape') setRenaming(null);
+                        }}
+                        onBlur={() => void saveRename()}
+                        maxLength={120}
+                        className="h-8 text-sm"
+                      />
+                    ) : (
+                      <div className="flex items-center gap-1.5 truncate text-sm font-medium text-[color:var(--color-fg)]">
+                        {c.pinned && <Pin className="h-3 w-3 shrink-0" style={{ color: theme.accent }} />}
+                        <span className="truncate">{c.title || 'Untitled'}</span>
+                        {c.archived && hit && (
+                          <Badge variant="outline" className="px-1.5 py-0 text-[10px]">
+                            archived
+                          </Badge>
+                        )}
+                      </div>
+                    )}
+                    <div className="line-clamp-2 text-xs text-[color:var(--color-fg-muted)]">
+                      {hit?.message ? (
+                        <Highlighted text={hit.message.snippet} ranges={hit.message.highlights} />
+                      ) : (
+                        c.lastMessage || 'No messages yet'
+                      )}
                     </div>
                     <div className="mt-1 flex items-center gap-1 text-[10px] uppercase tracking-wider text-[color:var(--color-fg-subtle)]">
                       <Clock className="h-3 w-3" />
-                      {new Date(c.updatedAt).toLocaleDateString()}
+                      {new Date(hit?.message?.createdAt ?? c.updatedAt).toLocaleDateString()}
                     </div>
                   </div>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      remove(c.id);
-                    }}
-                    className="opacity-0 transition-opacity group-hover:opacity-100"
-                    aria-label="Delete"
-                  >
-                    <Trash2 className="h-4 w-4 text-[color:var(--color-fg-subtle)] hover:text-[color:var(--color-danger)]" />
-                  </button>
-                </motion.button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger
+                      onClick={(e) => e.stopPropagation()}
+                      className="rounded-md p-1 opacity-0 transition-opacity focus:opacity-100 group-hover:opacity-100"
+                      aria-label="Conversation actions"
+                    >
+                      <MoreHorizontal className="h-4 w-4 text-[color:var(--color-fg-subtle)]" />
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                      <DropdownMenuItem onSelect={() => setRenaming({ id: c.id, title: c.titleSource === 'user' ? c.title : '' })}>
+                        <Pencil className="h-4 w-4" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => void update(c.id, { pinned: !c.pinned })}>
+                        {c.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                        {c.pinned ? 'Unpin' : 'Pin to top'}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => void update(c.id, { archived: !c.archived })}>
+                        {c.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                        {c.archived ? 'Unarchive' : 'Archive'}
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        onSelect={() => void remove(c.id)}
+                        className="text-[color:var(--color-danger)]"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </motion.div>
               ))}
+          {!results && nextCursor && !loading && (
+            <Button variant="ghost" size="sm" className="w-full" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore ? 'Loading…' : 'Show older conversations'}
+            </Button>
+          )}
         </div>
       </aside>
 
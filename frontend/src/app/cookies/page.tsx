@@ -45,14 +45,24 @@ export default function CookiePolicy() {
               <tbody className="divide-y divide-white/5">
                 <tr>
                   <td className="py-2 font-mono text-xs">sh_guest_token</td>
-                  <td className="py-2">Authenticates your guest session.</td>
-                  <td className="py-2">7 days</td>
+                  <td className="py-2">Authenticates your guest session (short-lived, renewed automatically).</td>
+                  <td className="py-2">15 minutes</td>
+                </tr>
+                <tr>
+                  <td className="py-2 font-mono text-xs">sh_guest_refresh</td>
+                  <td className="py-2">Renews your guest session without signing in again.</td>
+                  <td className="py-2">30 days from last use</td>
                 </tr>
                 <tr>
                   <td className="py-2 font-mono text-xs">sh_guest_name</td>
                   <td className="py-2">Remembers your chosen guest display name.</td>
                   <td className="py-2">Until you clear it</td>
                 </tr>
+                <tr>
+                  <td className="py-2 font-mono text-xs">sh_guest_expiry_dismissed</td>
+                  <td className="py-2">Hides the guest data-expiry notice after you dismiss it.</td>
+                  <td className="py-2">Until the next day</td>
+                </tr>
                 <tr>
                   <td className="py-2 font-mono text-xs">sh_country</td>
                   <td className="py-2">Remembers your SOS country preference.</td>
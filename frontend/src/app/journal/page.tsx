@@ -11,15 +11,28 @@ import {
   Search,
   Loader2,
   Calendar as CalendarIcon,
+  Pencil,
+  History,
+  Trash2,
+  Tag,
+  Wand2,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import {
   listJournalEntries,
   createJournalEntry,
+  updateJournalEntry,
+  deleteJournalEntry,
+  listJournalRevisions,
+  listJournalTemplates,
+  listJournalTags,
   getJournalInsight,
   searchJournal,
   detectDistortions,
   type JournalEntry,
+  type JournalRevision,
+  type JournalTemplate,
+  type JournalTemplateField,
   type JournalSearchHit,
   type DistortionResponse,
 } from '@/lib/api';
@@ -29,9 +42,10 @@ import { detectDistortionsOnDevice, preloadOnDeviceAi } from '@/lib/on-device-ai
 import { CBT_TO_SERVER, CBT_REFRAMES } from '@/lib/ai-types';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import { Input, Textarea } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Highlighted } from '@/components/ui/highlighted';
 import { cn } from '@/lib/cn';
 
 const MOODS = [
@@ -67,6 +81,21 @@ function formatTime(dateStr: string) {
   });
 }
 
+/** "Work stress, sleep" → ['work-stress', 'sleep'] — the same shape the server stores. */
+function parseTags(text: string): string[] {
+  const tags = text
+    .split(',')
+    .map((t) => t.trim().toLowerCase().replace(/\s+/g, '-'))
+    .filter(Boolean);
+  return [...new Set(tags)].slice(0, 10);
+}
+
+function omit<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const next = { ...record };
+  delete next[key];
+  return next;
+}
+
 export default function JournalPage() {
   const [entries, setEntries] = useState<JournalEntry[]>([]);
   const [content, setContent] = useState('');
@@ -80,7 +109,22 @@ export default function JournalPage() {
   const [query, setQuery] = useState('');
   const [semanticResults, setSemanticResults] = useState<JournalSearchHit[] | null>(null);
   const [semanticLoading, setSemanticLoading] = useState(false);
+  const [searchMood, setSearchMood] = useState('');
+  const [searchFrom, setSearchFrom] = useState('');
+  const [searchTo, setSearchTo] = useState('');
   const [promptIdx, setPromptIdx] = useState(0);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [history, setHistory] = useState<Record<string, JournalRevision[]>>({});
+  const [templates, setTemplates] = useState<JournalTemplate[]>([]);
+  const [template, setTemplate] = useState<JournalTemplate | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [assisting, setAssisting] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [allTags, setAllTags] = useState<Array<{ tag: string; count: number }>>([]);
+  const [editFields, setEditFields] = useState<Record<string, string>>({});
+  const [editTags, setEditTags] = useState('');
 
   const { isListening, transcript, startListening, stopListening, isSupported: isMicSupported } =
     useSpeechRecognition();
@@ -96,9 +140,12 @@ export default function JournalPage() {
 
   useEffect(() => {
     let active = true;
+    setLoading(true);
+    // Search results were fetched for the old tag; fall back to the list.
+    setSemanticResults(null);
     (async () => {
       try {
-        const data = await listJournalEntries();
+        const data = await listJournalEntries({ tags: tagFilter ? [tagFilter] : [] });
         if (active) setEntries(data.entries);
       } catch (err) {
         console.error(err);
@@ -109,16 +156,44 @@ export default function JournalPage() {
     return () => {
       active = false;
     };
+  }, [tagFilter]);
+
+  const refreshTags = () => {
+    listJournalTags()
+      .then(({ tags }) => setAllTags(tags))
+      .catch(() => undefined);
+  };
+
+  useEffect(() => {
+    refreshTags();
+    listJournalTemplates()
+      .then(({ templates }) => setTemplates(templates))
+      .catch((err) => console.error(err));
   }, []);
 
+  const hasAnswers = Object.values(answers).some((a) => a.trim());
+  const canSave = template ? hasAnswers : Boolean(content.trim());
+
+  const chooseTemplate = (next: JournalTemplate | null) => {
+    if (hasAnswers && !window.confirm('Switch templates? What you have written in this one will be cleared.')) return;
+    setTemplate(next);
+    setAnswers({});
+  };
+
   const handleSave = async () => {
-    if (!content.trim()) return;
+    if (!canSave) return;
     setSaving(true);
     try {
-      const data = await createJournalEntry(content, selectedMood || undefined);
-      setEntries((prev) => [data.entry, ...prev]);
+      const tags = parseTags(tagDraft);
+      const data = template
+        ? await createJournalEntry('', selectedMood || undefined, { tags, template: template.id, fields: answers })
+        : await createJournalEntry(content, selectedMood || undefined, { tags });
+      if (!tagFilter || data.entry.tags?.includes(tagFilter)) setEntries((prev) => [data.entry, ...prev]);
       setContent('');
+      setAnswers({});
+      setTagDraft('');
       setSelectedMood(null);
+      if (tags.length) refreshTags();
       recordActivity();
       toast.success('Entry saved', { description: 'A quiet win. Come back anytime.' });
     } catch (err) {
@@ -129,6 +204,77 @@ export default function JournalPage() {
     }
   };
 
+  const patchEntry = (id: string, change: (e: JournalEntry) => JournalEntry | null) => {
+    const apply = <T extends JournalEntry>(list: T[]) =>
+      list.flatMap((e) => (e.id === id ? ((change(e) as T | null) ?? []) : [e]));
+    setEntries(apply);
+    setSemanticResults((prev) => (prev ? apply(prev) : prev));
+  };
+
+  const startEditing = (entry: JournalEntry) => {
+    setEditingId(entry.id);
+    setEditDraft(entry.content);
+    setEditFields(entry.fields ?? {});
+    setEditTags((entry.tags ?? []).join(', '));
+  };
+
+  const handleEditSave = async (entry: JournalEntry) => {
+    const patch: Parameters<typeof updateJournalEntry>[1] = {};
+    const entryTemplate = templates.find((t) => t.id === entry.template);
+    if (entryTemplate) {
+      const changed = entryTemplate.fields.some((f) => (editFields[f.id] ?? '') !== (entry.fields?.[f.id] ?? ''));
+      if (changed && Object.values(editFields).some((v) => v.trim())) patch.fields = editFields;
+    } else {
+      const text = editDraft.trim();
+      if (text && text !== entry.content) patch.content = text;
+    }
+    const tags = parseTags(editTags);
+    if (tags.join(',') !== (entry.tags ?? []).join(',')) patch.tags = tags;
+    if (Object.keys(patch).length === 0) {
+      setEditingId(null);
+      return;
+    }
+    try {
+      const { entry: updated } = await updateJournalEntry(entry.id, patch);
+      patchEntry(entry.id, (e) => ({ ...e, ...updated }));
+      setHistory((h) => omit(h, entry.id));
+      setEditingId(null);
+      if (patch.tags) refreshTags();
+      toast.success('Entry updated', {
+        description: patch.content || patch.fields ? 'The earlier version is kept in its history.' : undefined,
+      });
+    } catch (err) {
+      toast.error('Could not update entry', { description: (err as Error).message });
+    }
+  };
+
+  const handleDelete = async (entry: JournalEntry) => {
+    const ok = window.confirm('Delete this entry and its edit history? This cannot be undone.');
+    if (!ok) return;
+    try {
+      await deleteJournalEntry(entry.id);
+      patchEntry(entry.id, () => null);
+      if (entry.tags?.length) refreshTags();
+      toast.success('Entry deleted');
+    } catch (err) {
+      toast.error('Could not delete entry', { description: (err as Error).message });
+    }
+  };
+
+  const toggleHistory = async (id: string) => {
+    if (history[id]) {
+      setHistory((h) => omit(h, id));
+      return;
+    }
+    try {
+      const { revisions } = await listJournalRevisions(id);
+      setHistory((h) => ({ ...h, [id]: revisions }));
+      if (revisions.length === 0) toast('No earlier versions', { description: 'This entry has not been edited.' });
+    } catch (err) {
+      toast.error('History unavailable', { description: (err as Error).message });
+    }
+  };
+
   const loadInsight = async () => {
     setInsightLoading(true);
     try {
@@ -195,37 +341,68 @@ export default function JournalPage() {
     }
   };
 
+  // Thought record: the server's distortion check reads the situation and
+  // feelings, and the thoughts it flags become the "automatic thought".
+  const fillFromDistortions = async (field: JournalTemplateField) => {
+    const source = (field.assistFrom ?? [])
+      .map((id) => answers[id]?.trim())
+      .filter(Boolean)
+      .join('\n');
+    if (source.length < 10) {
+      toast('Write a little more first', { description: 'Describe the situation and how it felt, then try again.' });
+      return;
+    }
+    setAssisting(field.id);
+    try {
+      const res = await detectDistortions(source);
+      setDistortions(res);
+      if (res.distortions.length === 0) {
+        toast('No automatic thought stood out', { description: 'Put it in your own words — what went through your mind?' });
+        return;
+      }
+      const lines = res.distortions.map((d) => `“${d.evidence}” — ${d.label.replace(/_/g, ' ')}`).join('\n');
+      setAnswers((a) => ({ ...a, [field.id]: a[field.id]?.trim() ? `${a[field.id].trim()}\n${lines}` : lines }));
+    } catch (err) {
+      console.error(err);
+      toast.error('CBT analysis unavailable right now');
+    } finally {
+      setAssisting(null);
+    }
+  };
+
   // Warm the on-device model on idle so the first click is fast.
   useEffect(() => {
     preloadOnDeviceAi();
   }, []);
 
-  const filtered = useMemo(() => {
-    if (semanticResults) {
-      return semanticResults.map((r) => ({
-        id: r.id,
-        content: r.content,
-        mood: r.mood,
-        createdAt: r.createdAt,
-      })) as JournalEntry[];
-    }
+  const filtered = useMemo<Array<JournalEntry | JournalSearchHit>>(() => {
+    if (semanticResults) return semanticResults;
     const q = query.trim().toLowerCase();
-    if (!q) return entries;
+    // Same bounds the server applies: a `to` date includes that whole day.
+    const day = (e: JournalEntry) => e.createdAt.slice(0, 10);
     return entries.filter(
       (e) =>
-        e.content.toLowerCase().includes(q) || (e.mood ?? '').toLowerCase().includes(q),
+        (!q || e.content.toLowerCase().includes(q) || (e.mood ?? '').toLowerCase().includes(q)) &&
+        (!searchMood || e.mood === searchMood) &&
+        (!searchFrom || day(e) >= searchFrom) &&
+        (!searchTo || day(e) <= searchTo),
     );
-  }, [entries, query, semanticResults]);
+  }, [entries, query, semanticResults, searchMood, searchFrom, searchTo]);
 
   const runSemanticSearch = async () => {
     const q = query.trim();
     if (q.length < 2) return;
     setSemanticLoading(true);
     try {
-      const { results } = await searchJournal(q, 10);
+      const { results } = await searchJournal(q, 10, {
+        mood: searchMood || undefined,
+        from: searchFrom || undefined,
+        to: searchTo || undefined,
+        tag: tagFilter ?? undefined,
+      });
       setSemanticResults(results);
       if (results.length === 0) {
-        toast('No semantically similar entries yet', { description: 'Keep writing — I will learn your patterns.' });
+        toast('Nothing matched', { description: 'Try other words, or widen the filters.' });
       }
     } catch (err) {
       console.error(err);
@@ -243,7 +420,11 @@ export default function JournalPage() {
   const moodInfo = MOODS.find((m) => m.label === selectedMood);
   const accent = moodInfo?.color ?? '#7dd3fc';
 
-  const wordCount = useMemo(() => content.trim().split(/\s+/).filter(Boolean).length, [content]);
+  const wordCount = useMemo(
+    () =>
+      (template ? Object.values(answers).join(' ') : content).trim().split(/\s+/).filter(Boolean).length,
+    [content, answers, template],
+  );
 
   return (
     <div className="mx-auto max-w-4xl px-6 pt-6 sm:px-10">
@@ -284,32 +465,113 @@ export default function JournalPage() {
             style={{ background: `radial-gradient(circle, ${accent}, transparent 70%)` }}
           />
           <CardContent className="relative p-6 sm:p-8">
+            {templates.length > 0 && (
+              <div className="mb-4 flex flex-wrap gap-1.5" role="radiogroup" aria-label="Entry type">
+                {[null, ...templates].map((t) => {
+                  const selected = (template?.id ?? null) === (t?.id ?? null);
+                  return (
+                    <button
+                      key={t?.id ?? 'free'}
+                      role="radio"
+                      aria-checked={selected}
+                      title={t?.description ?? 'A blank page, with a prompt if you want one'}
+                      onClick={() => !selected && chooseTemplate(t)}
+                      className={cn(
+                        'rounded-full border px-3 py-1 text-xs transition-colors',
+                        selected
+                          ? 'border-white/30 bg-white/[0.08] text-[color:var(--color-fg)]'
+                          : 'border-white/10 bg-white/[0.02] text-[color:var(--color-fg-muted)] hover:border-white/20 hover:text-[color:var(--color-fg)]',
+                      )}
+                    >
+                      {t?.name ?? 'Free write'}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
             <div className="mb-3 flex items-center justify-between text-xs text-[color:var(--color-fg-subtle)]">
-              <button
-                onClick={() => setPromptIdx((i) => (i + 1) % PROMPTS.length)}
-                className="inline-flex items-center gap-1.5 rounded-full border border-white/10 bg-white/[0.03] px-3 py-1 text-[11px] transition-colors hover:border-white/20 hover:text-[color:var(--color-fg-muted)]"
-              >
-                <Sparkles className="h-3 w-3" />
-                Prompt · tap for another
-              </button>
+              {template ? (
+                <span>{template.description}</span>
+              ) : (
+                <button
+                  onClick={() => setPromptIdx((i) => (i + 1) % PROMPTS.length)}
+                  className="inline-flex items-center gap-1.5 rounded-full border border-white/10 bg-white/[0.03] px-3 py-1 text-[11px] transition-colors hover:border-white/20 hover:text-[color:var(--color-fg-muted)]"
+                >
+                  <Sparkles className="h-3 w-3" />
+                  Prompt · tap for another
+                </button>
+              )}
               <span>{wordCount} words</span>
             </div>
-            <div className="mb-4 font-display text-lg italic text-[color:var(--color-fg-muted)]">
-              “{PROMPTS[promptIdx]}”
-            </div>
 
-            <textarea
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              placeholder="Start here. No one is reading over your shoulder…"
-              rows={6}
-              className={cn(
-                'w-full resize-y rounded-2xl border bg-[color:var(--color-bg)] px-5 py-4 text-base leading-relaxed outline-none transition-colors placeholder:text-[color:var(--color-fg-subtle)]',
-                isListening
-                  ? 'border-[color:var(--color-danger)] ring-2 ring-[color:var(--color-danger)]/30'
-                  : 'border-white/[0.08] focus:border-white/20',
-              )}
-            />
+            {template ? (
+              <div className="space-y-4">
+                {template.fields.map((field) => (
+                  <div key={field.id}>
+                    <div className="mb-1.5 flex items-center justify-between gap-2">
+                      <label htmlFor={`field-${field.id}`} className="text-sm font-medium tracking-tight">
+                        {field.label}
+                      </label>
+                      {field.assist === 'distortions' && (
+                        <Button
+                          variant="ghost"
+                          size="xs"
+                          onClick={() => fillFromDistortions(field)}
+                          disabled={assisting !== null}
+                          title="Run the CBT check over what you wrote above and fill in the thoughts it spots"
+                        >
+                          {assisting === field.id ? (
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                          ) : (
+                            <Wand2 className="h-3.5 w-3.5" />
+                          )}
+                          Spot the thought
+                        </Button>
+                      )}
+                    </div>
+                    <Textarea
+                      id={`field-${field.id}`}
+                      value={answers[field.id] ?? ''}
+                      onChange={(e) => setAnswers((a) => ({ ...a, [field.id]: e.target.value }))}
+                      placeholder={field.prompt}
+                      rows={3}
+                      maxLength={1500}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <>
+                <div className="mb-4 font-display text-lg italic text-[color:var(--color-fg-muted)]">
+                  “{PROMPTS[promptIdx]}”
+                </div>
+
+                <textarea
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  placeholder="Start here. No one is reading over your shoulder…"
+                  rows={6}
+                  className={cn(
+                    'w-full resize-y rounded-2xl border bg-[color:var(--color-bg)] px-5 py-4 text-base leading-relaxed outline-none transition-colors placeholder:text-[color:var(--color-fg-subtle)]',
+                    isListening
+                      ? 'border-[color:var(--color-danger)] ring-2 ring-[color:var(--color-danger)]/30'
+                      : 'border-white/[0.08] focus:border-white/20',
+                  )}
+                />
+              </>
+            )}
+
+            <div className="relative mt-4">
+              <Tag className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-[color:var(--color-fg-subtle)]" />
+              <Input
+                value={tagDraft}
+                onChange={(e) => setTagDraft(e.target.value)}
+                placeholder="Tags, comma-separated (e.g. work, sleep)"
+                aria-label="Tags"
+                className="pl-9"
+              />
+            </div>
 
             <div className="mt-5 flex flex-wrap items-center gap-3">
               <div className="flex flex-wrap gap-1.5">
@@ -344,7 +606,7 @@ export default function JournalPage() {
               </div>
 
               <div className="ml-auto flex items-center gap-2">
-                {isMicSupported && (
+                {isMicSupported && !template && (
                   <Button
                     variant={isListening ? 'danger' : 'ghost'}
                     size="icon"
@@ -361,30 +623,32 @@ export default function JournalPage() {
                     {isListening ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
                   </Button>
                 )}
-                <Button
-                  variant="ghost"
-                  size="lg"
-                  onClick={analyseDistortions}
-                  disabled={distortionsLoading || content.trim().length < 10}
-                  title="Let a CBT lens gently check for distorted thinking patterns"
-                >
-                  {distortionsLoading ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      Reading…
-                    </>
-                  ) : (
-                    <>
-                      <Sparkles className="h-4 w-4" />
-                      Check thoughts
-                    </>
-                  )}
-                </Button>
+                {!template && (
+                  <Button
+                    variant="ghost"
+                    size="lg"
+                    onClick={analyseDistortions}
+                    disabled={distortionsLoading || content.trim().length < 10}
+                    title="Let a CBT lens gently check for distorted thinking patterns"
+                  >
+                    {distortionsLoading ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Reading…
+                      </>
+                    ) : (
+                      <>
+                        <Sparkles className="h-4 w-4" />
+                        Check thoughts
+                      </>
+                    )}
+                  </Button>
+                )}
                 <Button
                   variant="primary"
                   size="lg"
                   onClick={handleSave}
-                  disabled={!content.trim() || saving}
+                  disabled={!canSave || saving}
                 >
                   {saving ? (
                     <>
@@ -580,7 +844,7 @@ export default function JournalPage() {
                 onKeyDown={(e) => {
                   if (e.key === 'Enter') runSemanticSearch();
                 }}
-                placeholder="Search text, or press Enter for meaning"
+                placeholder="Search text, or press Enter to search everything"
                 className="pl-9"
               />
             </div>
@@ -591,14 +855,84 @@ export default function JournalPage() {
             ) : (
               <Button variant="secondary" size="sm" onClick={runSemanticSearch} disabled={semanticLoading || query.trim().length < 2}>
                 {semanticLoading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Sparkles className="h-3.5 w-3.5" />}
-                Meaning
+                Search all
               </Button>
             )}
           </div>
         </div>
+        <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-[color:var(--color-fg-muted)]">
+          <label className="flex items-center gap-2">
+            Mood
+            <select
+              value={searchMood}
+              onChange={(e) => {
+                setSearchMood(e.target.value);
+                setSemanticResults(null);
+              }}
+              className="rounded-lg border border-white/10 bg-white/[0.03] px-2.5 py-1 text-xs text-[color:var(--color-fg)] focus:outline-none focus:ring-1 focus:ring-white/30"
+            >
+              <option value="">Any</option>
+              {MOODS.map((m) => (
+                <option key={m.label} value={m.label}>
+                  {m.emoji} {m.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            From
+            <input
+              type="date"
+              value={searchFrom}
+              max={searchTo || undefined}
+              onChange={(e) => {
+                setSearchFrom(e.target.value);
+                setSemanticResults(null);
+              }}
+              className="rounded-lg border border-white/10 bg-white/[0.03] px-2.5 py-1 text-xs"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Until
+            <input
+              type="date"
+              value={searchTo}
+              min={searchFrom || undefined}
+              onChange={(e) => {
+                setSearchTo(e.target.value);
+                setSemanticResults(null);
+              }}
+              className="rounded-lg border border-white/10 bg-white/[0.03] px-2.5 py-1 text-xs"
+            />
+          </label>
+        </div>
+        {allTags.length > 0 && (
+          <div className="mt-3 flex flex-wrap items-center gap-1.5" aria-label="Filter by tag">
+            <Tag className="h-3.5 w-3.5 text-[color:var(--color-fg-subtle)]" />
+            {allTags.map(({ tag, count }) => {
+              const selected = tagFilter === tag;
+              return (
+                <button
+                  key={tag}
+                  aria-pressed={selected}
+                  onClick={() => setTagFilter(selected ? null : tag)}
+                  className={cn(
+                    'rounded-full border px-2.5 py-0.5 text-xs transition-colors',
+                    selected
+                      ? 'border-white/30 bg-white/[0.08] text-[color:var(--color-fg)]'
+                      : 'border-white/10 text-[color:var(--color-fg-muted)] hover:border-white/20',
+                  )}
+                >
+                  #{tag} <span className="text-[color:var(--color-fg-subtle)]">{count}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
         {semanticResults && (
           <p className="mt-2 text-xs text-[color:var(--color-fg-subtle)]">
-            Showing {semanticResults.length} semantic matches for <span className="italic">“{query}”</span>, ranked by similarity.
+            Showing {semanticResults.length} matches for <span className="italic">“{query}”</span>, ranked by keywords and
+            meaning.{tagFilter ? ` Tagged #${tagFilter}.` : ''}
           </p>
         )}
 
@@ -615,7 +949,11 @@ export default function JournalPage() {
                   <CalendarIcon className="h-5 w-5 text-[color:var(--color-fg-muted)]" />
                 </div>
                 <p className="mt-3 text-sm text-[color:var(--color-fg-muted)]">
-                  {query ? 'No entries match that search.' : 'Your first entry will live here.'}
+                  {query
+                    ? 'No entries match that search.'
+                    : tagFilter
+                      ? `No entries tagged #${tagFilter}.`
+                      : 'Your first entry will live here.'}
                 </p>
               </CardContent>
             </Card>
@@ -624,6 +962,7 @@ export default function JournalPage() {
           {!loading &&
             filtered.map((entry, i) => {
               const mood = MOODS.find((m) => m.label === entry.mood);
+              const entryTemplate = templates.find((t) => t.id === entry.template);
               return (
                 <motion.div
                   key={entry.id}
@@ -653,13 +992,115 @@ export default function JournalPage() {
                             <div className="text-xs text-[color:var(--color-fg-subtle)]">
                               {formatTime(entry.createdAt)}
                               {entry.mood ? <> · <span style={{ color: mood?.color }}>{entry.mood}</span></> : null}
+                              {entry.updatedAt && entry.updatedAt !== entry.createdAt ? ' · edited' : null}
+                              {entryTemplate ? ` · ${entryTemplate.name}` : null}
                             </div>
                           </div>
                         </div>
+                        {editingId !== entry.id && (
+                          <div className="flex gap-1 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                            <Button
+                              variant="ghost"
+                              size="icon-sm"
+                              aria-label="Edit entry"
+                              onClick={() => startEditing(entry)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon-sm"
+                              aria-label="Show edit history"
+                              onClick={() => toggleHistory(entry.id)}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon-sm"
+                              aria-label="Delete entry"
+                              onClick={() => handleDelete(entry)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
-                      <p className="mt-3 whitespace-pre-wrap text-sm leading-relaxed text-[color:var(--color-fg-muted)]">
-                        {entry.content}
-                      </p>
+                      {editingId === entry.id ? (
+                        <div className="mt-3 space-y-2">
+                          {entryTemplate ? (
+                            entryTemplate.fields.map((field, fi) => (
+                              <div key={field.id}>
+                                <label
+                                  htmlFor={`edit-${entry.id}-${field.id}`}
+                                  className="mb-1 block text-xs font-medium text-[color:var(--color-fg-muted)]"
+                                >
+                                  {field.label}
+                                </label>
+                                <Textarea
+                                  id={`edit-${entry.id}-${field.id}`}
+                                  value={editFields[field.id] ?? ''}
+                                  onChange={(e) => setEditFields((f) => ({ ...f, [field.id]: e.target.value }))}
+                                  placeholder={field.prompt}
+                                  rows={2}
+                                  maxLength={1500}
+                                  autoFocus={fi === 0}
+                                />
+                              </div>
+                            ))
+                          ) : (
+                            <Textarea
+                              value={editDraft}
+                              onChange={(e) => setEditDraft(e.target.value)}
+                              rows={5}
+                              maxLength={8000}
+                              autoFocus
+                            />
+                          )}
+                          <Input
+                            value={editTags}
+                            onChange={(e) => setEditTags(e.target.value)}
+                            placeholder="Tags, comma-separated"
+                            aria-label="Tags"
+                          />
+                          <div className="flex justify-end gap-2">
+                            <Button variant="ghost" size="xs" onClick={() => setEditingId(null)}>
+                              Cancel
+                            </Button>
+                            <Button variant="primary" size="xs" onClick={() => handleEditSave(entry)}>
+                              Save changes
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <p className="mt-3 whitespace-pre-wrap text-sm leading-relaxed text-[color:var(--color-fg-muted)]">
+                          {'snippet' in entry ? <Highlighted text={entry.snippet} ranges={entry.highlights} /> : entry.content}
+                        </p>
+                      )}
+                      {editingId !== entry.id && entry.tags?.length ? (
+                        <div className="mt-3 flex flex-wrap gap-1.5">
+                          {entry.tags.map((tag) => (
+                            <button key={tag} onClick={() => setTagFilter(tag)} title={`Show entries tagged #${tag}`}>
+                              <Badge className="hover:border-white/20">#{tag}</Badge>
+                            </button>
+                          ))}
+                        </div>
+                      ) : null}
+                      {history[entry.id]?.length ? (
+                        <div className="mt-4 space-y-3 border-t border-white/5 pt-3">
+                          {history[entry.id].map((rev) => (
+                            <div key={rev.id}>
+                              <div className="text-xs text-[color:var(--color-fg-subtle)]">
+                                Version from {formatDateLong(rev.writtenAt)}, {formatTime(rev.writtenAt)}
+                                {rev.mood ? ` · ${rev.mood}` : ''}
+                              </div>
+                              <p className="mt-1 whitespace-pre-wrap text-xs leading-relaxed text-[color:var(--color-fg-subtle)]">
+                                {rev.content}
+                              </p>
+                            </div>
+                          ))}
+                        </div>
+                      ) : null}
                     </CardContent>
                   </Card>
                 </motion.div>
@@ -1,13 +1,13 @@
 'use client';
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { AlertTriangle, Download, ShieldCheck, Trash2 } from 'lucide-react';
+import { AlertTriangle, Download, ShieldCheck, Trash2, Upload } from 'lucide-react';
 import { Aurora, NoiseOverlay } from '@/components/ui/aurora';
 import { Button } from '@/components/ui/button';
-import { authHeaders, clearGuestAuth } from '@/lib/api';
+import { authHeaders, clearGuestAuth, exportMyData, importMyData } from '@/lib/api';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
 
@@ -24,6 +24,45 @@ interface ConsentState {
   locale: string | null;
 }
 
+interface RetentionPreview {
+  retention: Retention | null;
+  cutoff: string | null;
+  nextRunAt: string | null;
+  counts: Record<string, number> | null;
+  total: number;
+}
+
+const PREVIEW_LABEL: Record<string, string> = {
+  conversationSummaries: 'conversation summaries',
+  messages: 'chat messages',
+  conversations: 'empty conversations',
+  journalEntries: 'journal entries',
+  journalRevisions: 'earlier journal versions',
+  moodLogs: 'mood logs',
+  gratitude: 'gratitude entries',
+  memories: 'memories',
+  toolUsage: 'tool sessions',
+  clinicalResults: 'check-in results',
+  digests: 'weekly digests',
+  affirmations: 'affirmations',
+};
+
+const IMPORT_LABEL: Record<string, string> = {
+  conversations: 'conversations',
+  messages: 'chat messages',
+  journal_entries: 'journal entries',
+  journal_revisions: 'earlier journal versions',
+  mood_logs: 'mood logs',
+  tool_usage: 'tool sessions',
+  memories: 'memories',
+  reminders: 'reminders',
+  gratitude_entries: 'gratitude entries',
+  future_letters: 'letters',
+  clinical_results: 'check-in results',
+  safety_plan: 'safety plan',
+  wellness_profile: 'wellness profile',
+};
+
 const RETENTION_LABEL: Record<Retention, string> = {
   forever: 'Keep until I delete',
   '1y': 'Auto-delete after 1 year',
@@ -36,10 +75,16 @@ export default function SettingsDataPage() {
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [confirmDelete, setConfirmDelete] = useState('');
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
 
   const load = useCallback(async () => {
     const headers = await authHeaders();
-    const res = await fetch(`${API_BASE}/api/consent`, { headers });
+    const [res, previewRes] = await Promise.all([
+      fetch(`${API_BASE}/api/consent`, { headers }),
+      fetch(`${API_BASE}/api/me/retention`, { headers }),
+    ]);
+    if (previewRes.ok) setPreview(await previewRes.json());
     if (!res.ok) return;
     setState(await res.json());
   }, []);
@@ -73,22 +118,47 @@ export default function SettingsDataPage() {
   );
 
   const exportData = useCallback(async () => {
-    const headers = await authHeaders();
-    const res = await fetch(`${API_BASE}/api/me/export`, { headers });
-    if (!res.ok) {
+    const blob = await exportMyData().catch(() => null);
+    if (!blob) {
       setMessage('Could not export your data.');
       return;
     }
-    const blob = await res.blob();
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `silent-help-export-${Date.now()}.json`;
+    a.download = `silent-help-export-${new Date().toISOString().slice(0, 10)}.zip`;
     a.click();
     URL.revokeObjectURL(url);
     setMessage('Export downloaded.');
   }, []);
 
+  const importData = useCallback(
+    async (file: File) => {
+      setSaving(true);
+      setMessage(null);
+      try {
+        const summary = await importMyData(file);
+        const tables = Object.entries(summary.tables).filter(([, t]) => t.received > 0);
+        const imported = tables
+          .filter(([, t]) => t.imported > 0)
+          .map(([table, t]) => `${t.imported} ${IMPORT_LABEL[table] ?? table}`);
+        const duplicates = tables.reduce((n, [, t]) => n + t.duplicates, 0);
+        setMessage(
+          imported.length
+            ? `Imported ${imported.join(', ')}.${duplicates ? ` ${duplicates} were already here.` : ''}`
+            : 'Nothing new to import — everything in that export is already here.',
+        );
+        await load();
+      } catch (e) {
+        setMessage(e instanceof Error ? e.message : 'Could not import that file.');
+      } finally {
+        setSaving(false);
+        if (fileInput.current) fileInput.current.value = '';
+      }
+    },
+    [load],
+  );
+
   const deleteAccount = useCallback(async () => {
     if (confirmDelete.trim().toLowerCase() !== 'delete my account') return;
     setSaving(true);
@@ -200,6 +270,18 @@ export default function SettingsDataPage() {
               </button>
             ))}
           </div>
+          {preview?.counts && preview.nextRunAt && (
+            <p className="mt-4 text-xs text-[color:var(--color-fg-muted)]">
+              {preview.total === 0
+                ? `Nothing is due for removal. Next check: ${new Date(preview.nextRunAt).toLocaleString()}.`
+                : `Next clean-up (${new Date(preview.nextRunAt).toLocaleString()}) will remove ${Object.entries(
+                    preview.counts,
+                  )
+                    .filter(([, n]) => n > 0)
+                    .map(([table, n]) => `${n} ${PREVIEW_LABEL[table] ?? table}`)
+                    .join(', ')}.`}
+            </p>
+          )}
         </section>
 
         <section className="mt-6 rounded-[var(--radius-lg)] border border-white/10 bg-white/[0.02] p-6">
@@ -208,12 +290,33 @@ export default function SettingsDataPage() {
           </div>
           <div className="mt-3 flex items-center justify-between gap-4">
             <p className="text-sm text-[color:var(--color-fg-muted)]">
-              Download every row we hold for you — assessment, mood, journal (decrypted), chat,
-              memories, safety plan, reminders — as one JSON file.
+              Download every row we hold for you — assessment, mood, journal, gratitude and letters
+              (decrypted), chat, memories, safety plan, reminders, check-ins, consent and account
+              history — as a ZIP with a JSON and a CSV file per table.
             </p>
             <Button onClick={exportData} variant="secondary" className="shrink-0">
               <Download className="mr-2 h-4 w-4" />
-              Export JSON
+              Export data
+            </Button>
+          </div>
+          <div className="mt-4 flex items-center justify-between gap-4 border-t border-white/5 pt-4">
+            <p className="text-sm text-[color:var(--color-fg-muted)]">
+              Moving from another account? Import a Silent Help export here. Importing the same
+              file twice won&apos;t create duplicates; an existing safety plan is kept.
+            </p>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".zip,.json,application/zip,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importData(file);
+              }}
+            />
+            <Button onClick={() => fileInput.current?.click()} disabled={saving} variant="ghost" className="shrink-0">
+              <Upload className="mr-2 h-4 w-4" />
+              Import data
             </Button>
           </div>
         </section>
@@ -263,6 +366,8 @@ export default function SettingsDataPage() {
         </section>
 
         <p className="mt-10 text-xs text-[color:var(--color-fg-subtle)]">
+          Reminder notifications and quiet hours live in{' '}
+          <Link href="/settings/notifications" className="underline">Settings → Notifications</Link>.
           Read the full{' '}
           <Link href="/privacy" className="underline">Privacy Notice</Link> · <Link href="/cookies" className="underline">Cookie Policy</Link> · <Link href="/terms" className="underline">Terms</Link>.
           Data protection queries: <a className="underline" href="mailto:privacy@silenthelp.app">privacy@silenthelp.app</a>.
@@ -0,0 +1,198 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { Bell, BellOff, Moon } from 'lucide-react';
+import { Aurora, NoiseOverlay } from '@/components/ui/aurora';
+import { Button } from '@/components/ui/button';
+import {
+  getNotificationSettings,
+  getPushStatus,
+  updateNotificationSettings,
+  type NotificationSettings,
+  type PushStatus,
+} from '@/lib/api';
+import { currentSubscription, disablePush, enablePush, pushSupport, type PushSupport } from '@/lib/push';
+
+const DEFAULT_QUIET = { start: '22:00', end: '07:00' };
+
+function browserTimeZone(): string | null {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+}
+
+export default function SettingsNotificationsPage() {
+  const [support, setSupport] = useState<PushSupport>('unsupported');
+  const [status, setStatus] = useState<PushStatus | null>(null);
+  const [subscribed, setSubscribed] = useState(false);
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [quiet, setQuiet] = useState(DEFAULT_QUIET);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setSupport(pushSupport());
+    const [s, n, sub] = await Promise.all([
+      getPushStatus().catch(() => null),
+      getNotificationSettings().catch(() => null),
+      currentSubscription().catch(() => null),
+    ]);
+    setStatus(s);
+    setSubscribed(Boolean(sub));
+    if (n) {
+      setSettings(n);
+      if (n.quietHours) setQuiet(n.quietHours);
+      // First visit: adopt the browser's timezone so quiet hours mean local time.
+      const tz = browserTimeZone();
+      if (!n.timezone && tz) {
+        setSettings(await updateNotificationSettings({ timezone: tz }).catch(() => n));
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const toggleDevice = useCallback(async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      if (subscribed) {
+        await disablePush();
+        setMessage('Notifications turned off on this device.');
+      } else {
+        await enablePush();
+        setMessage('Notifications are on for this device.');
+      }
+      await load();
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Could not change notifications.');
+    } finally {
+      setSaving(false);
+    }
+  }, [subscribed, load]);
+
+  const saveQuietHours = useCallback(
+    async (enabled: boolean) => {
+      setSaving(true);
+      setMessage(null);
+      try {
+        const next = await updateNotificationSettings({
+          quietHours: enabled ? quiet : null,
+          timezone: settings?.timezone ?? browserTimeZone(),
+        });
+        setSettings(next);
+        setMessage(enabled ? `Quiet hours set: ${quiet.start}–${quiet.end}.` : 'Quiet hours turned off.');
+      } catch {
+        setMessage('Could not save quiet hours. Please try again.');
+      } finally {
+        setSaving(false);
+      }
+    },
+    [quiet, settings],
+  );
+
+  return (
+    <div className="relative min-h-screen overflow-hidden">
+      <Aurora intensity="soft" />
+      <NoiseOverlay />
+      <main className="relative mx-auto max-w-3xl px-6 py-12">
+        <Link href="/dashboard" className="text-sm text-[color:var(--color-fg-muted)] hover:text-[color:var(--color-fg)]">
+          ← Back to dashboard
+        </Link>
+
+        <h1 className="mt-6 text-4xl font-semibold tracking-tight">Notifications</h1>
+        <p className="mt-2 text-[color:var(--color-fg-muted)]">
+          Reminders arrive as a short notification — never the content of your journal or chats.
+          Tapping one opens the journal, tools or chat.
+        </p>
+
+        {message && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-6 rounded-lg border border-emerald-400/30 bg-emerald-400/10 p-3 text-sm text-emerald-100"
+          >
+            {message}
+          </motion.div>
+        )}
+
+        <section className="mt-8 rounded-[var(--radius-lg)] border border-white/10 bg-white/[0.02] p-6">
+          <div className="text-xs uppercase tracking-[0.22em] text-[color:var(--color-fg-subtle)]">
+            This device
+          </div>
+          <div className="mt-3 flex items-center justify-between gap-4">
+            <p className="text-sm text-[color:var(--color-fg-muted)]">
+              {support === 'unsupported'
+                ? 'This browser can’t receive notifications. On iPhone, add Silent Help to your Home Screen first.'
+                : support === 'denied'
+                  ? 'Notifications are blocked for this site. Allow them in your browser settings, then come back.'
+                  : status && !status.enabled
+                    ? 'Notifications aren’t available on this server yet.'
+                    : subscribed
+                      ? `Reminders will appear here${status && status.devices > 1 ? ` and on ${status.devices - 1} other device(s)` : ''}.`
+                      : 'Turn on to get your reminders on this device.'}
+            </p>
+            <Button
+              onClick={toggleDevice}
+              variant={subscribed ? 'ghost' : 'secondary'}
+              disabled={saving || support !== 'supported' || (!subscribed && !status?.enabled)}
+              className="shrink-0"
+            >
+              {subscribed ? <BellOff className="mr-2 h-4 w-4" /> : <Bell className="mr-2 h-4 w-4" />}
+              {subscribed ? 'Turn off' : 'Turn on'}
+            </Button>
+          </div>
+        </section>
+
+        <section className="mt-6 rounded-[var(--radius-lg)] border border-white/10 bg-white/[0.02] p-6">
+          <div className="flex items-center gap-2 text-xs uppercase tracking-[0.22em] text-[color:var(--color-fg-subtle)]">
+            <Moon className="h-3.5 w-3.5" />
+            Quiet hours
+          </div>
+          <p className="mt-3 text-sm text-[color:var(--color-fg-muted)]">
+            Reminders due during quiet hours wait until they end
+            {settings?.timezone ? ` (${settings.timezone})` : ''}.
+          </p>
+          <div className="mt-4 flex flex-wrap items-end gap-4">
+            <label className="text-xs text-[color:var(--color-fg-muted)]">
+              From
+              <input
+                type="time"
+                value={quiet.start}
+                onChange={(e) => setQuiet((q) => ({ ...q, start: e.target.value }))}
+                className="mt-1 block rounded-lg border border-white/10 bg-white/[0.03] px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="text-xs text-[color:var(--color-fg-muted)]">
+              Until
+              <input
+                type="time"
+                value={quiet.end}
+                onChange={(e) => setQuiet((q) => ({ ...q, end: e.target.value }))}
+                className="mt-1 block rounded-lg border border-white/10 bg-white/[0.03] px-3 py-2 text-sm"
+              />
+            </label>
+            <Button onClick={() => saveQuietHours(true)} variant="secondary" disabled={saving}>
+              Save
+            </Button>
+            {settings?.quietHours && (
+              <Button onClick={() => saveQuietHours(false)} variant="ghost" disabled={saving}>
+                Turn off
+              </Button>
+            )}
+          </div>
+        </section>
+
+        <p className="mt-10 text-xs text-[color:var(--color-fg-subtle)]">
+          Manage what we store in <Link href="/settings/data" className="underline">Settings → Data</Link>.
+        </p>
+      </main>
+    </div>
+  );
+}
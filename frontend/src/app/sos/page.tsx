@@ -11,6 +11,7 @@ import {
   CRISIS_BY_COUNTRY,
   detectCountry,
   getCountryResources,
+  resourceHref,
   setCountry,
   type ResourceTone,
 } from '@/lib/crisis-resources';
@@ -108,10 +109,7 @@ export default function SOSPage() {
           <div className="grid gap-3 sm:grid-cols-2">
             {resources.resources.map((r, i) => {
               const tone = TONE[r.tone];
-              const href =
-                r.mode === 'call'
-                  ? `tel:${r.dest}`
-                  : `sms:${r.dest}${r.smsBody ? `?body=${encodeURIComponent(r.smsBody)}` : ''}`;
+              const href = resourceHref(r);
               return (
                 <motion.a
                   key={r.key}
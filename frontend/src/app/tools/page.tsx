@@ -17,6 +17,7 @@ import StepExercise, {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/cn';
+import { getToolEffectiveness, type TimeOfDay, type ToolEffectiveness } from '@/lib/api';
 
 type ToolId =
   | 'breathing'
@@ -156,6 +157,122 @@ const TOOLS: Tool[] = [
   },
 ];
 
+// Tool-usage ids (recorded by the activities) → library entry they belong to.
+const USAGE_TO_TOOL: Record<string, Exclude<ToolId, null>> = {
+  box_breathing: 'breathing',
+  grounding_54321: 'grounding',
+  progressive_relaxation: 'bodyscan',
+  soft_breathing: 'sleep',
+  focus_timer: 'focus',
+  breathing_478: '478-breath',
+  coherent_breathing: 'coherent',
+  tipp: 'tipp',
+  urge_surf: 'urge-surf',
+  self_compassion: 'self-compassion',
+  diffusion: 'diffusion',
+};
+
+const USAGE_LABEL: Record<string, string> = {
+  calm_breathing: 'Calm Breathing',
+  cyclic_sigh: 'Cyclic Sigh',
+  deep_breaths: '3 Deep Breaths',
+  grounding_333: '3-3-3 Grounding',
+  shoulder_jaw_release: 'Shoulder & Jaw Release',
+  shake_out: 'Shake It Out',
+  posture_reset: 'Posture Reset',
+};
+
+const TIME_OF_DAY_LABEL: Record<TimeOfDay, string> = {
+  morning: 'in the morning',
+  afternoon: 'in the afternoon',
+  evening: 'in the evening',
+  night: 'late at night',
+};
+
+function bestTimeOfDay(t: ToolEffectiveness): TimeOfDay | null {
+  const rated = (Object.entries(t.timeOfDay) as [TimeOfDay, ToolEffectiveness['timeOfDay'][TimeOfDay]][])
+    .filter(([, v]) => v.meanDelta != null && v.completed >= 2)
+    .sort((a, b) => (b[1].meanDelta ?? 0) - (a[1].meanDelta ?? 0));
+  return rated[0]?.[0] ?? null;
+}
+
+function formatDuration(sec: number | null): string | null {
+  if (sec == null) return null;
+  return sec < 60 ? `${Math.round(sec)}s` : `${Math.round(sec / 60)} min`;
+}
+
+function WhatHelpsCard({ onOpen }: { onOpen: (id: Exclude<ToolId, null>) => void }) {
+  const [tools, setTools] = useState<ToolEffectiveness[] | null>(null);
+
+  useEffect(() => {
+    getToolEffectiveness()
+      .then((r) => setTools(r.tools))
+      .catch(() => setTools([]));
+  }, []);
+
+  if (tools == null) return null;
+  const helpful = tools.filter((t) => t.helpful).slice(0, 3);
+
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="mt-8 rounded-[var(--radius-xl)] border border-white/[0.06] bg-white/[0.02] p-6"
+    >
+      <div className="text-xs uppercase tracking-[0.22em] text-[color:var(--color-fg-subtle)]">
+        What tends to help you
+      </div>
+      {helpful.length === 0 ? (
+        <p className="mt-3 text-sm text-[color:var(--color-fg-muted)]">
+          Rate how intense things feel before and after a practice. After a few sessions we&apos;ll show which ones
+          actually ease things for you.
+        </p>
+      ) : (
+        <ul className="mt-4 grid gap-3 sm:grid-cols-3">
+          {helpful.map((t) => {
+            const library = USAGE_TO_TOOL[t.toolId];
+            const name =
+              TOOLS.find((x) => x.id === library)?.name ?? USAGE_LABEL[t.toolId] ?? t.toolId.replace(/_/g, ' ');
+            const when = bestTimeOfDay(t);
+            const duration = formatDuration(t.medianDurationSec);
+            return (
+              <li key={t.toolId}>
+                <button
+                  type="button"
+                  disabled={!library}
+                  onClick={() => library && onOpen(library)}
+                  className="h-full w-full rounded-xl border border-white/10 bg-white/[0.02] p-4 text-left transition enabled:hover:border-white/20"
+                >
+                  <div className="font-medium">{name}</div>
+                  <div className="mt-1 text-sm text-emerald-200">
+                    Eases things by ~{t.moodDelta?.mean.toFixed(1)} / 10
+                  </div>
+                  <div className="mt-2 space-y-0.5 text-xs text-[color:var(--color-fg-muted)]">
+                    {t.moodDelta?.ci95 && (
+                      <div>
+                        Likely range {t.moodDelta.ci95[0].toFixed(1)} to {t.moodDelta.ci95[1].toFixed(1)} · {t.moodDelta.n}{' '}
+                        rated sessions
+                      </div>
+                    )}
+                    {t.completionRate != null && (
+                      <div>
+                        You finish it {Math.round(t.completionRate * 100)}% of the time
+                        {duration ? ` · usually ${duration}` : ''}
+                      </div>
+                    )}
+                    {when && <div>Works best for you {TIME_OF_DAY_LABEL[when]}</div>}
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </motion.section>
+  );
+}
+
 export default function ToolsPage() {
   const searchParams = useSearchParams();
   const [activeTool, setActiveTool] = useState<ToolId>(null);
@@ -231,6 +348,8 @@ export default function ToolsPage() {
         </div>
       </motion.div>
 
+      <WhatHelpsCard onOpen={setActiveTool} />
+
       <div className="mt-10 grid gap-5 sm:grid-cols-2 lg:grid-cols-3">
         {filtered.map((t, i) => (
           <motion.button
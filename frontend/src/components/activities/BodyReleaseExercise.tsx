@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useToolUsage } from '@/hooks/useToolUsage';
+import MoodCheck from './MoodCheck';
 
 /* ═══════════════════════════════════════════════════════════════
    Body Release Exercise — Guided Muscle Release & Movement
@@ -50,6 +52,14 @@ const POSTURE_STEPS: PostureStep[] = [
 
 type BodyReleaseVariant = 'pmr-short' | 'shoulder-jaw' | 'shake' | 'posture-reset';
 
+// Stable ids for /api/tools/usage — the coach ranks tools by these.
+const TOOL_IDS: Record<BodyReleaseVariant, string> = {
+    'pmr-short': 'progressive_relaxation',
+    'shoulder-jaw': 'shoulder_jaw_release',
+    'shake': 'shake_out',
+    'posture-reset': 'posture_reset',
+};
+
 interface BodyReleaseExerciseProps {
     variant: BodyReleaseVariant;
     accent: string;
@@ -58,6 +68,9 @@ interface BodyReleaseExerciseProps {
 }
 
 export default function BodyReleaseExercise({ variant, accent, onComplete, onCancel }: BodyReleaseExerciseProps) {
+    const usage = useToolUsage(TOOL_IDS[variant]);
+    const [moodBefore, setMoodBefore] = useState<number | undefined>(undefined);
+    const [moodAfter, setMoodAfter] = useState<number | undefined>(undefined);
     const [started, setStarted] = useState(false);
     const [stepIdx, setStepIdx] = useState(0);
     const [phase, setPhase] = useState<'tense' | 'release' | 'active'>('tense');
@@ -176,7 +189,10 @@ export default function BodyReleaseExercise({ variant, accent, onComplete, onCan
                 </div>
                 <h3 style={{ color: '#f8fafc', fontSize: '1.3rem', marginBottom: 8 }}>Tension released</h3>
                 <p style={{ color: '#94a3b8', fontSize: '0.9rem', marginBottom: 24 }}>Your body feels lighter now.</p>
-                <button onClick={onComplete} style={{
+                {moodBefore != null && (
+                    <MoodCheck label="How intense does it feel now?" accent={accent} value={moodAfter} onChange={setMoodAfter} />
+                )}
+                <button onClick={() => { usage.complete(moodAfter); onComplete(); }} style={{
                     padding: '12px 28px', borderRadius: 12, background: accent,
                     border: 'none', color: '#0f172a', fontWeight: 600, cursor: 'pointer'
                 }}>Continue</button>
@@ -196,11 +212,12 @@ export default function BodyReleaseExercise({ variant, accent, onComplete, onCan
                     {getVariantIcon()}
                 </div>
                 <h3 style={{ color: '#f8fafc', fontSize: '1.3rem', marginBottom: 8 }}>{getVariantName()}</h3>
-                <p style={{ color: '#94a3b8', fontSize: '0.9rem', marginBottom: 32 }}>
+                <p style={{ color: '#94a3b8', fontSize: '0.9rem', marginBottom: 24 }}>
                     ~{getTotalDuration()} seconds
                 </p>
+                <MoodCheck label="How intense does it feel right now?" accent={accent} value={moodBefore} onChange={setMoodBefore} />
                 <div style={{ display: 'flex', gap: 12, justifyContent: 'center' }}>
-                    <button onClick={() => setStarted(true)} style={{
+                    <button onClick={() => { usage.start(moodBefore); setStarted(true); }} style={{
                         padding: '14px 32px', borderRadius: 14, background: accent,
                         border: 'none', color: '#0f172a', fontWeight: 600, cursor: 'pointer'
                     }}>Begin</button>
@@ -236,7 +253,7 @@ export default function BodyReleaseExercise({ variant, accent, onComplete, onCan
                 <div style={{ width: '80%', maxWidth: 300, height: 6, borderRadius: 3, background: 'rgba(255,255,255,0.05)', margin: '0 auto 24px' }}>
                     <div style={{ width: `${(timer / 30) * 100}%`, height: '100%', borderRadius: 3, background: accent, transition: 'width 1s linear' }} />
                 </div>
-                <button onClick={onCancel} style={{
+                <button onClick={() => { usage.skip(); onCancel(); }} style={{
                     padding: '10px 20px', borderRadius: 99, background: 'transparent',
                     border: '1px solid rgba(255,255,255,0.1)', color: '#64748b', cursor: 'pointer'
                 }}>End early</button>
@@ -270,7 +287,7 @@ export default function BodyReleaseExercise({ variant, accent, onComplete, onCan
                 <div style={{ fontSize: '2.5rem', fontWeight: 700, color: accent, fontVariantNumeric: 'tabular-nums', marginBottom: 24 }}>
                     {step.duration - timer}
                 </div>
-                <button onClick={onCancel} style={{
+                <button onClick={() => { usage.skip(); onCancel(); }} style={{
                     padding: '10px 20px', borderRadius: 99, background: 'transparent',
                     border: '1px solid rgba(255,255,255,0.1)', color: '#64748b', cursor: 'pointer'
                 }}>End early</button>
@@ -335,7 +352,7 @@ export default function BodyReleaseExercise({ variant, accent, onComplete, onCan
                 Region {stepIdx + 1} of {regions.length}
             </p>
 
-            <button onClick={onCancel} style={{
+            <button onClick={() => { usage.skip(); onCancel(); }} style={{
                 padding: '10px 20px', borderRadius: 99, background: 'transparent',
                 border: '1px solid rgba(255,255,255,0.1)', color: '#64748b', cursor: 'pointer'
             }}>End early</button>
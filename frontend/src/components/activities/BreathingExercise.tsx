@@ -1,7 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { soundManager } from '@/lib/audio';
+import { useToolUsage } from '@/hooks/useToolUsage';
+import MoodCheck from './MoodCheck';
 
 /* ═══════════════════════════════════════════════════════════════
    Breathing Exercise — Animated Guided Breathing
@@ -90,6 +92,17 @@ const PATTERNS: Record<string, BreathPattern> = {
 
 export type BreathingVariant = keyof typeof PATTERNS;
 
+// Stable ids for /api/tools/usage — the coach ranks tools by these.
+const TOOL_IDS: Record<string, string> = {
+    'calm-60': 'calm_breathing',
+    'cyclic': 'cyclic_sigh',
+    'box': 'box_breathing',
+    'deep-3': 'deep_breaths',
+    'soft': 'soft_breathing',
+    '4-7-8': 'breathing_478',
+    'coherent': 'coherent_breathing',
+};
+
 interface BreathingExerciseProps {
     variant: BreathingVariant;
     accent: string;
@@ -99,7 +112,10 @@ interface BreathingExerciseProps {
 
 export default function BreathingExercise({ variant, accent, onComplete, onCancel }: BreathingExerciseProps) {
     const pattern = PATTERNS[variant] || PATTERNS['calm-60'];
+    const usage = useToolUsage(TOOL_IDS[variant] ?? 'calm_breathing');
     
+    const [moodBefore, setMoodBefore] = useState<number | undefined>(undefined);
+    const [moodAfter, setMoodAfter] = useState<number | undefined>(undefined);
     const [started, setStarted] = useState(false);
     const [currentCycle, setCurrentCycle] = useState(0);
     const [currentPhaseIdx, setCurrentPhaseIdx] = useState(0);
@@ -171,13 +187,19 @@ export default function BreathingExercise({ variant, accent, onComplete, onCance
     const remainingSeconds = Math.max(0, totalDuration - totalElapsed);
     const formatTime = (s: number) => `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
 
-    // Auto-complete callback
+    const finish = useCallback(() => {
+        usage.complete(moodAfter);
+        onComplete();
+    }, [usage, moodAfter, onComplete]);
+
+    // Auto-complete callback — held back when the user rated their mood
+    // beforehand, so they get a chance to answer the "after" check too.
     useEffect(() => {
-        if (isComplete) {
-            const t = setTimeout(onComplete, 3000);
+        if (isComplete && moodBefore == null) {
+            const t = setTimeout(finish, 3000);
             return () => clearTimeout(t);
         }
-    }, [isComplete, onComplete]);
+    }, [isComplete, moodBefore, finish]);
 
     if (isComplete) {
         return (
@@ -194,9 +216,12 @@ export default function BreathingExercise({ variant, accent, onComplete, onCance
                     </svg>
                 </div>
                 <h3 style={{ color: '#f8fafc', fontSize: '1.4rem', marginBottom: 8 }}>Well done</h3>
-                <p style={{ color: '#94a3b8', fontSize: '0.95rem' }}>You completed {pattern.name}. How do you feel?</p>
-                <div style={{ display: 'flex', gap: 12, justifyContent: 'center', marginTop: 24 }}>
-                    <button onClick={onComplete} style={{
+                <p style={{ color: '#94a3b8', fontSize: '0.95rem', marginBottom: 24 }}>You completed {pattern.name}. How do you feel?</p>
+                {moodBefore != null && (
+                    <MoodCheck label="How intense does it feel now?" accent={accent} value={moodAfter} onChange={setMoodAfter} />
+                )}
+                <div style={{ display: 'flex', gap: 12, justifyContent: 'center' }}>
+                    <button onClick={finish} style={{
                         padding: '12px 24px', borderRadius: 12, background: accent,
                         border: 'none', color: '#0f172a', fontWeight: 600, cursor: 'pointer'
                     }}>
@@ -223,11 +248,12 @@ export default function BreathingExercise({ variant, accent, onComplete, onCance
                 <p style={{ color: '#94a3b8', fontSize: '0.9rem', marginBottom: 8 }}>
                     {pattern.cycles} cycles &middot; ~{Math.ceil(totalDuration / 10) * 10}s
                 </p>
-                <p style={{ color: '#64748b', fontSize: '0.85rem', marginBottom: 32 }}>
+                <p style={{ color: '#64748b', fontSize: '0.85rem', marginBottom: 24 }}>
                     Find a comfortable position and focus on the circle.
                 </p>
+                <MoodCheck label="How intense does it feel right now?" accent={accent} value={moodBefore} onChange={setMoodBefore} />
                 <div style={{ display: 'flex', gap: 12, justifyContent: 'center' }}>
-                    <button onClick={() => setStarted(true)} style={{
+                    <button onClick={() => { usage.start(moodBefore); setStarted(true); }} style={{
                         padding: '14px 32px', borderRadius: 14, background: accent,
                         border: 'none', color: '#0f172a', fontWeight: 600, cursor: 'pointer',
                         fontSize: '1rem',
@@ -325,7 +351,7 @@ export default function BreathingExercise({ variant, accent, onComplete, onCance
             </div>
 
             {/* Cancel button */}
-            <button onClick={onCancel} style={{
+            <button onClick={() => { usage.skip(); onCancel(); }} style={{
                 padding: '10px 20px', borderRadius: 99, background: 'transparent',
                 border: '1px solid rgba(255,255,255,0.1)', color: '#64748b',
                 cursor: 'pointer', fontSize: '0.85rem',
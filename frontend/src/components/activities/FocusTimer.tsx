@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { soundManager } from '@/lib/audio';
+import { useToolUsage } from '@/hooks/useToolUsage';
+import MoodCheck from './MoodCheck';
 
 /* ═══════════════════════════════════════════════════════════════
    Focus Timer — SVG Progress Ring Timer
@@ -32,6 +34,9 @@ interface FocusTimerProps {
 }
 
 export default function FocusTimer({ duration, label, accent, onComplete, onCancel }: FocusTimerProps) {
+    const usage = useToolUsage('focus_timer');
+    const [moodBefore, setMoodBefore] = useState<number | undefined>(undefined);
+    const [moodAfter, setMoodAfter] = useState<number | undefined>(undefined);
     const [started, setStarted] = useState(false);
     const [elapsed, setElapsed] = useState(0);
     const [isComplete, setIsComplete] = useState(false);
@@ -90,7 +95,10 @@ export default function FocusTimer({ duration, label, accent, onComplete, onCanc
                 <p style={{ color: '#94a3b8', fontSize: '0.9rem', marginBottom: 24 }}>
                     You stayed focused for {formatTime(duration)}. That&apos;s real progress.
                 </p>
-                <button onClick={onComplete} style={{
+                {moodBefore != null && (
+                    <MoodCheck label="How intense does it feel now?" accent={accent} value={moodAfter} onChange={setMoodAfter} />
+                )}
+                <button onClick={() => { usage.complete(moodAfter); onComplete(); }} style={{
                     padding: '12px 28px', borderRadius: 12, background: accent,
                     border: 'none', color: '#0f172a', fontWeight: 600, cursor: 'pointer'
                 }}>Continue</button>
@@ -123,11 +131,12 @@ export default function FocusTimer({ duration, label, accent, onComplete, onCanc
                 <h3 style={{ color: '#f8fafc', fontSize: '1.2rem', marginBottom: 8 }}>
                     {label || `${Math.floor(duration / 60)}-minute focus`}
                 </h3>
-                <p style={{ color: '#94a3b8', fontSize: '0.9rem', marginBottom: 32 }}>
+                <p style={{ color: '#94a3b8', fontSize: '0.9rem', marginBottom: 24 }}>
                     You only need to begin. You don&apos;t need to finish.
                 </p>
+                <MoodCheck label="How intense does it feel right now?" accent={accent} value={moodBefore} onChange={setMoodBefore} />
                 <div style={{ display: 'flex', gap: 12, justifyContent: 'center' }}>
-                    <button onClick={() => setStarted(true)} style={{
+                    <button onClick={() => { usage.start(moodBefore); setStarted(true); }} style={{
                         padding: '14px 32px', borderRadius: 14, background: accent,
                         border: 'none', color: '#0f172a', fontWeight: 600, cursor: 'pointer', fontSize: '1rem'
                     }}>Start</button>
@@ -1,6 +1,8 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useToolUsage } from '@/hooks/useToolUsage';
+import MoodCheck from './MoodCheck';
 
 /* ═══════════════════════════════════════════════════════════════
    Grounding Exercise — Interactive Step-Through Guide
@@ -38,6 +40,12 @@ const GROUNDING_PATTERNS: Record<string, { name: string; steps: GroundingStep[]
     },
 };
 
+// Stable ids for /api/tools/usage — the coach ranks tools by these.
+const TOOL_IDS: Record<string, string> = {
+    '5-4-3-2-1': 'grounding_54321',
+    '3-3-3': 'grounding_333',
+};
+
 interface GroundingExerciseProps {
     variant: keyof typeof GROUNDING_PATTERNS;
     accent: string;
@@ -51,6 +59,14 @@ export default function GroundingExercise({ variant, accent, onComplete, onCance
     const [itemsDone, setItemsDone] = useState(0);
     const [isComplete, setIsComplete] = useState(false);
     const [fadeKey, setFadeKey] = useState(0);
+    const [moodBefore, setMoodBefore] = useState<number | undefined>(undefined);
+    const [moodAfter, setMoodAfter] = useState<number | undefined>(undefined);
+    const usage = useToolUsage(TOOL_IDS[variant] ?? 'grounding_54321');
+
+    // Grounding starts straight away; the "before" check sits on the first step.
+    useEffect(() => {
+        usage.start();
+    }, [usage]);
 
     const step = pattern.steps[currentStep];
     const totalSteps = pattern.steps.length;
@@ -90,7 +106,10 @@ export default function GroundingExercise({ variant, accent, onComplete, onCance
                 <p style={{ color: '#94a3b8', fontSize: '0.9rem', marginBottom: 24 }}>
                     You brought yourself back to the present moment.
                 </p>
-                <button onClick={onComplete} style={{
+                {moodBefore != null && (
+                    <MoodCheck label="How intense does it feel now?" accent={accent} value={moodAfter} onChange={setMoodAfter} />
+                )}
+                <button onClick={() => { usage.complete(moodAfter, moodBefore); onComplete(); }} style={{
                     padding: '12px 28px', borderRadius: 12, background: accent,
                     border: 'none', color: '#0f172a', fontWeight: 600, cursor: 'pointer'
                 }}>
@@ -163,6 +182,12 @@ export default function GroundingExercise({ variant, accent, onComplete, onCance
                 ))}
             </div>
 
+            {currentStep === 0 && itemsDone === 0 && (
+                <div style={{ textAlign: 'center' }}>
+                    <MoodCheck label="How intense does it feel right now?" accent={accent} value={moodBefore} onChange={setMoodBefore} />
+                </div>
+            )}
+
             {/* Action buttons */}
             <div style={{ display: 'flex', gap: 12, justifyContent: 'center' }}>
                 <button onClick={handleItemDone} style={{
@@ -172,7 +197,7 @@ export default function GroundingExercise({ variant, accent, onComplete, onCance
                 }}>
                     {itemsDone < step.count - 1 ? `Got ${itemsDone + 1}` : 'Done'}
                 </button>
-                <button onClick={onCancel} style={{
+                <button onClick={() => { usage.skip(); onCancel(); }} style={{
                     padding: '14px 20px', borderRadius: 14, background: 'transparent',
                     border: '1px solid rgba(255,255,255,0.1)', color: '#64748b',
                     cursor: 'pointer', fontSize: '0.85rem',
@@ -0,0 +1,50 @@
+'use client';
+
+/**
+ * Optional 1–10 intensity check shown before and after an activity.
+ * Same scale as mood logs: 1 = calm, 10 = overwhelmed. Tapping the selected
+ * value again clears it — answering is never required.
+ */
+
+interface MoodCheckProps {
+    label: string;
+    accent: string;
+    value: number | undefined;
+    onChange: (value: number | undefined) => void;
+}
+
+export default function MoodCheck({ label, accent, value, onChange }: MoodCheckProps) {
+    return (
+        <div style={{ margin: '0 auto 24px', maxWidth: 360 }}>
+            <p style={{ color: '#94a3b8', fontSize: '0.85rem', marginBottom: 10 }}>{label}</p>
+            <div role="radiogroup" aria-label={label} style={{ display: 'flex', gap: 6, justifyContent: 'center' }}>
+                {Array.from({ length: 10 }, (_, i) => i + 1).map((n) => {
+                    const selected = value === n;
+                    return (
+                        <button
+                            key={n}
+                            type="button"
+                            role="radio"
+                            aria-checked={selected}
+                            onClick={() => onChange(selected ? undefined : n)}
+                            style={{
+                                width: 28, height: 28, borderRadius: '50%', fontSize: '0.75rem',
+                                fontVariantNumeric: 'tabular-nums', cursor: 'pointer',
+                                background: selected ? accent : 'rgba(255,255,255,0.03)',
+                                border: `1px solid ${selected ? accent : 'rgba(255,255,255,0.1)'}`,
+                                color: selected ? '#0f172a' : '#94a3b8',
+                                fontWeight: selected ? 600 : 400,
+                            }}
+                        >
+                            {n}
+                        </button>
+                    );
+                })}
+            </div>
+            <div style={{ display: 'flex', justifyContent: 'space-between', color: '#475569', fontSize: '0.7rem', marginTop: 6 }}>
+                <span>Calm</span>
+                <span>Overwhelmed</span>
+            </div>
+        </div>
+    );
+}
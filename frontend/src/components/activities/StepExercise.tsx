@@ -1,6 +1,8 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
+import { useToolUsage } from '@/hooks/useToolUsage';
+import MoodCheck from './MoodCheck';
 
 /**
  * Generic step-through exercise component used by DBT/ACT/self-compassion tools.
@@ -20,6 +22,7 @@ export interface StepDef {
 }
 
 interface Props {
+    /** Kebab-case id (e.g. `urge-surf`); snake-cased into the tool-usage id. */
     variant: string;
     accent: string;
     title: string;
@@ -32,6 +35,7 @@ interface Props {
 }
 
 export default function StepExercise({
+    variant,
     accent,
     title,
     subtitle,
@@ -44,10 +48,18 @@ export default function StepExercise({
     const [timeLeft, setTimeLeft] = useState(steps[0]?.seconds ?? 0);
     const [responses, setResponses] = useState<string[]>(() => steps.map(() => ''));
     const [done, setDone] = useState(false);
+    const [moodBefore, setMoodBefore] = useState<number | undefined>(undefined);
+    const [moodAfter, setMoodAfter] = useState<number | undefined>(undefined);
+    const usage = useToolUsage(variant.replace(/-/g, '_'));
     const tickRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
     const step = steps[idx];
 
+    // Steps start straight away; the "before" check sits on the first step.
+    useEffect(() => {
+        usage.start();
+    }, [usage]);
+
     useEffect(() => {
         if (!step || done) return;
         setTimeLeft(step.seconds ?? 0);
@@ -101,8 +113,14 @@ export default function StepExercise({
                 <p style={{ color: '#94a3b8', fontSize: '0.95rem', marginBottom: 24, maxWidth: 380, margin: '0 auto 24px' }}>
                     {completionBody}
                 </p>
+                {moodBefore != null && (
+                    <MoodCheck label="How intense does it feel now?" accent={accent} value={moodAfter} onChange={setMoodAfter} />
+                )}
                 <button
-                    onClick={() => onComplete(responses)}
+                    onClick={() => {
+                        usage.complete(moodAfter, moodBefore);
+                        onComplete(responses);
+                    }}
                     style={{
                         padding: '12px 28px',
                         borderRadius: 12,
@@ -195,6 +213,12 @@ export default function StepExercise({
                 />
             )}
 
+            {idx === 0 && (
+                <div style={{ textAlign: 'center' }}>
+                    <MoodCheck label="How intense does it feel right now?" accent={accent} value={moodBefore} onChange={setMoodBefore} />
+                </div>
+            )}
+
             {step.seconds ? (
                 <div style={{ textAlign: 'center', color: accent, fontSize: '0.85rem', letterSpacing: '0.15em', marginBottom: 16 }}>
                     {timeLeft}s
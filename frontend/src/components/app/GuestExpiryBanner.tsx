@@ -0,0 +1,94 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { Clock, Download, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { exportMyData, getGuestStatus, type GuestStatus } from '@/lib/api';
+
+const DISMISS_KEY = 'sh_guest_expiry_dismissed';
+
+type ActiveGuest = Extract<GuestStatus, { guest: true }>;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'long' });
+}
+
+/**
+ * Tells guests their data is deleted after a stretch without visits, offers
+ * an export, and points them at sign-up. Shown once the warning window has
+ * started; dismissing hides it until the next day.
+ */
+export function GuestExpiryBanner() {
+  const [status, setStatus] = useState<ActiveGuest | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (localStorage.getItem(DISMISS_KEY) === today()) return;
+    getGuestStatus()
+      .then((s) => {
+        if (s.guest && Date.now() >= new Date(s.warnFrom).getTime()) setStatus(s);
+      })
+      .catch(() => undefined);
+  }, []);
+
+  const dismiss = useCallback(() => {
+    localStorage.setItem(DISMISS_KEY, today());
+    setStatus(null);
+  }, []);
+
+  const download = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const blob = await exportMyData();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `silent-help-export-${new Date().toISOString().slice(0, 10)}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not export your data.');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  if (!status) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -4 }}
+      animate={{ opacity: 1, y: 0 }}
+      role="status"
+      className="mx-4 mt-4 flex flex-wrap items-center gap-3 rounded-lg border border-amber-400/30 bg-amber-400/10 p-3 text-sm text-amber-100 md:mx-8"
+    >
+      <Clock className="h-4 w-4 shrink-0" />
+      <p className="min-w-0 flex-1">
+        Guest data is deleted after {status.inactivityDays} days without a visit — yours on{' '}
+        {formatDate(status.expiresAt)}. Export it, or{' '}
+        <Link href="/auth/register" className="underline">
+          create an account
+        </Link>{' '}
+        to keep it.
+        {error && <span className="block text-xs text-amber-200/80">{error}</span>}
+      </p>
+      <Button onClick={download} variant="secondary" disabled={busy} className="shrink-0">
+        <Download className="mr-2 h-4 w-4" />
+        Export
+      </Button>
+      <button
+        onClick={dismiss}
+        aria-label="Dismiss"
+        className="rounded-full p-1 text-amber-100/70 transition-colors hover:text-amber-100"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, RotateCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  discardGuestSession,
+  getGuestMergeConflict,
+  GUEST_MERGE_CONFLICT_EVENT,
+  retryGuestMerge,
+} from '@/lib/api';
+
+/**
+ * Shown after sign-in when the server refused to move this device's guest
+ * data into the account. The guest session is kept until the merge succeeds
+ * or the user chooses to discard it, so nothing is lost by waiting.
+ */
+export function GuestMergeBanner() {
+  const [conflict, setConflict] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  useEffect(() => {
+    const sync = () => setConflict(getGuestMergeConflict());
+    sync();
+    window.addEventListener(GUEST_MERGE_CONFLICT_EVENT, sync);
+    return () => window.removeEventListener(GUEST_MERGE_CONFLICT_EVENT, sync);
+  }, []);
+
+  const retry = useCallback(async () => {
+    setBusy(true);
+    try {
+      setConflict(await retryGuestMerge());
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const discard = useCallback(() => {
+    discardGuestSession();
+    setConflict(null);
+  }, []);
+
+  if (!conflict) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -4 }}
+      animate={{ opacity: 1, y: 0 }}
+      role="alert"
+      className="mx-4 mt-4 flex flex-wrap items-center gap-3 rounded-lg border border-amber-400/30 bg-amber-400/10 p-3 text-sm text-amber-100 md:mx-8"
+    >
+      <AlertTriangle className="h-4 w-4 shrink-0" />
+      <p className="min-w-0 flex-1">
+        We couldn’t move what you saved as a guest into this account: {conflict}. It’s still kept on this
+        device.
+        {confirming && (
+          <span className="block text-xs text-amber-200/80">
+            Discarding deletes the guest data for good. Press Discard again to confirm.
+          </span>
+        )}
+      </p>
+      <Button onClick={retry} variant="secondary" disabled={busy} className="shrink-0">
+        <RotateCw className="mr-2 h-4 w-4" />
+        Try again
+      </Button>
+      <Button
+        onClick={() => (confirming ? discard() : setConfirming(true))}
+        variant={confirming ? 'danger' : 'ghost'}
+        disabled={busy}
+        className="shrink-0"
+      >
+        <Trash2 className="mr-2 h-4 w-4" />
+        Discard
+      </Button>
+    </motion.div>
+  );
+}
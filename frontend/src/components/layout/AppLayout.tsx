@@ -6,6 +6,8 @@ import { useUser } from '@clerk/nextjs';
 import { Sidebar, MobileNav } from '@/components/app/Sidebar';
 import { TopBar } from '@/components/app/TopBar';
 import { CommandPalette } from '@/components/app/CommandPalette';
+import { GuestExpiryBanner } from '@/components/app/GuestExpiryBanner';
+import { GuestMergeBanner } from '@/components/app/GuestMergeBanner';
 import { Aurora, NoiseOverlay } from '@/components/ui/aurora';
 import { useWellness } from '@/components/wellness/WellnessProvider';
 import { resolveEmotion, emotionCssVars } from '@/lib/emotion-theme';
@@ -58,6 +60,7 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
       <Sidebar theme={theme} />
       <div className="flex min-h-screen flex-col md:pl-[76px]">
         <TopBar theme={theme} onOpenCommand={() => setCmdOpen(true)} />
+        {isSignedIn ? <GuestMergeBanner /> : <GuestExpiryBanner />}
         <main className="relative flex-1 pb-24 md:pb-12">{children}</main>
       </div>
       <MobileNav theme={theme} />
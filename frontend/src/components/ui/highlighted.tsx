@@ -0,0 +1,18 @@
+import * as React from 'react';
+
+/** Search snippet with the matched words marked. */
+export function Highlighted({ text, ranges }: { text: string; ranges: Array<[number, number]> }) {
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(
+      <mark key={i} className="rounded bg-white/15 px-0.5 text-[color:var(--color-fg)]">
+        {text.slice(start, end)}
+      </mark>,
+    );
+    at = end;
+  });
+  parts.push(text.slice(at));
+  return <>{parts}</>;
+}
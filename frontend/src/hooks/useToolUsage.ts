@@ -0,0 +1,66 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { logToolUsage } from '@/lib/api';
+
+/**
+ * Records one run of a wellness tool as `started` → `completed` | `skipped`
+ * events, so the coach can learn which tools actually move the user's mood.
+ *
+ * Fire-and-forget: a failed request never interrupts the exercise. If the
+ * component unmounts mid-run (modal closed, user navigated away) the run is
+ * recorded as skipped.
+ */
+export function useToolUsage(toolId: string) {
+    const startedAt = useRef<number | null>(null);
+    const moodBefore = useRef<number | undefined>(undefined);
+    const settled = useRef(false);
+
+    const send = useCallback(
+        (action: 'started' | 'completed' | 'skipped', moodAfter?: number) => {
+            const duration =
+                action === 'started' || startedAt.current == null
+                    ? undefined
+                    : Math.round((Date.now() - startedAt.current) / 1000);
+            logToolUsage({ toolId, action, duration, moodBefore: moodBefore.current, moodAfter }).catch(() => {
+                /* best-effort — tracking must never break the exercise */
+            });
+        },
+        [toolId],
+    );
+
+    const start = useCallback(
+        (mood?: number) => {
+            if (startedAt.current != null && !settled.current) return;
+            startedAt.current = Date.now();
+            moodBefore.current = mood;
+            settled.current = false;
+            send('started');
+        },
+        [send],
+    );
+
+    /**
+     * `moodBefore` may be passed here instead of to `start()` by exercises
+     * that begin immediately and only ask for it on their first step.
+     */
+    const complete = useCallback(
+        (moodAfter?: number, moodBeforeLate?: number) => {
+            if (startedAt.current == null || settled.current) return;
+            if (moodBeforeLate != null) moodBefore.current = moodBeforeLate;
+            settled.current = true;
+            send('completed', moodAfter);
+        },
+        [send],
+    );
+
+    const skip = useCallback(() => {
+        if (startedAt.current == null || settled.current) return;
+        settled.current = true;
+        send('skipped');
+    }, [send]);
+
+    useEffect(() => skip, [skip]);
+
+    return useMemo(() => ({ start, complete, skip }), [start, complete, skip]);
+}
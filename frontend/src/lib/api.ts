@@ -2,11 +2,16 @@
  * Silent Help API Client
  * All backend communication goes through this module.
  */
+import type { CountryResources } from '@/lib/crisis-resources';
 
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
 
 const GUEST_TOKEN_KEY = 'sh_guest_token';
+const GUEST_REFRESH_KEY = 'sh_guest_refresh';
 const GUEST_NAME_KEY = 'sh_guest_name';
+const GUEST_MERGE_CONFLICT_KEY = 'sh_guest_merge_conflict';
+/** Fired on `window` when a guest merge is refused, so a banner can offer retry or discard. */
+export const GUEST_MERGE_CONFLICT_EVENT = 'sh:guest-merge-conflict';
 
 // Support type definition to prevent ESLint 'any' warnings for window injection
 interface ClerkWindow extends Window {
@@ -34,29 +39,175 @@ async function waitForClerk(timeoutMs = 1500): Promise<void> {
     }
 }
 
+interface SessionTokens {
+    token: string;
+    refreshToken: string;
+}
+
+function storeGuestSession(data: Partial<SessionTokens>): string | null {
+    if (typeof data.token !== 'string' || typeof data.refreshToken !== 'string') return null;
+    localStorage.setItem(GUEST_TOKEN_KEY, data.token);
+    localStorage.setItem(GUEST_REFRESH_KEY, data.refreshToken);
+    return data.token;
+}
+
+/** True when the JWT expires within a minute (or can't be read). */
+function expiresSoon(token: string): boolean {
+    try {
+        const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+        return typeof payload.exp !== 'number' || payload.exp * 1000 - Date.now() < 60_000;
+    } catch {
+        return true;
+    }
+}
+
+let guestRefresh: Promise<string | null> | null = null;
+
+// How long a 401 waits for another tab's rotation to land in storage.
+const ROTATION_WAIT_MS = 2_000;
+
+/** The refresh token another tab stored in place of `sent`, once it shows up. */
+async function rotatedElsewhere(sent: string | null): Promise<string | null> {
+    const deadline = Date.now() + ROTATION_WAIT_MS;
+    for (;;) {
+        const stored = localStorage.getItem(GUEST_REFRESH_KEY);
+        if (stored && stored !== sent) return stored;
+        if (Date.now() >= deadline) return null;
+        await new Promise((r) => setTimeout(r, 200));
+    }
+}
+
 /**
- * Fetch a backend-signed JWT for the current guest session, caching it in
- * localStorage so we only mint one per device. Lets guest users (no Clerk
- * account) call protected endpoints like journal/mood/chat without hitting 401.
+ * Renew the guest access token. Refresh tokens rotate, so concurrent callers
+ * share one request. Another tab may still rotate first: our now-stale token
+ * gets a 401, so before giving up we wait for that tab's tokens to reach
+ * storage and use (or refresh with) them — a 401 alone never drops the guest.
+ * Devices from before refresh tokens (access token only) are upgraded once.
+ * Resolves null only when the session is gone for good (revoked or expired).
+ */
+function refreshGuestToken(current: string): Promise<string | null> {
+    guestRefresh ??= (async () => {
+        let refreshToken = localStorage.getItem(GUEST_REFRESH_KEY);
+        try {
+            for (let attempt = 0; attempt < 2; attempt++) {
+                const res = await fetch(`${API_BASE}/api/auth/refresh`, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        ...(refreshToken ? {} : { Authorization: `Bearer ${current}` }),
+                    },
+                    body: JSON.stringify(refreshToken ? { refreshToken } : {}),
+                });
+                if (res.ok) return storeGuestSession(await res.json());
+                if (res.status !== 401) return current;
+                const stored = await rotatedElsewhere(refreshToken);
+                if (!stored) return null;
+                const latest = localStorage.getItem(GUEST_TOKEN_KEY);
+                if (latest && latest !== current && !expiresSoon(latest)) return latest;
+                refreshToken = stored;
+            }
+            return null;
+        } catch {
+            return current; /* offline — try again on the next call */
+        } finally {
+            guestRefresh = null;
+        }
+    })();
+    return guestRefresh;
+}
+
+/**
+ * Get a backend-signed access token for the current guest session, minting a
+ * guest session on first use and renewing it before it expires. Lets guest
+ * users (no Clerk account) call protected endpoints like journal/mood/chat
+ * without hitting 401.
  */
 async function ensureGuestToken(): Promise<string | null> {
     if (typeof window === 'undefined') return null;
     const existing = localStorage.getItem(GUEST_TOKEN_KEY);
-    if (existing) return existing;
+    if (existing) {
+        if (localStorage.getItem(GUEST_REFRESH_KEY) && !expiresSoon(existing)) return existing;
+        const renewed = await refreshGuestToken(existing);
+        if (renewed) return renewed;
+        // Session revoked or expired: the old guest data is unreachable anyway.
+        localStorage.removeItem(GUEST_TOKEN_KEY);
+        localStorage.removeItem(GUEST_REFRESH_KEY);
+    }
     try {
         const res = await fetch(`${API_BASE}/api/auth/guest`, { method: 'POST' });
         if (!res.ok) return null;
-        const data = await res.json();
-        if (typeof data.token === 'string') {
-            localStorage.setItem(GUEST_TOKEN_KEY, data.token);
-            return data.token;
-        }
+        return storeGuestSession(await res.json());
     } catch {
         /* network error — caller will get 401 and retry next time */
     }
     return null;
 }
 
+let guestMerge: Promise<void> | null = null;
+
+/**
+ * After someone who used the app as a guest signs in, move the guest's data
+ * into their account (once per page load). The guest user is deleted on the
+ * server, so on success — or if the guest session is already gone — the local
+ * guest session is dropped. If the server refuses the merge (409) the guest
+ * session is kept and the reason stored for `GuestMergeBanner`, which offers a
+ * retry or an explicit discard; other failures are retried on the next load.
+ */
+function mergeGuestSession(accountToken: string): Promise<void> {
+    guestMerge ??= (async () => {
+        const existing = localStorage.getItem(GUEST_TOKEN_KEY);
+        if (!existing) return;
+        const guestToken = expiresSoon(existing) ? await refreshGuestToken(existing) : existing;
+        try {
+            const res = guestToken
+                ? await fetch(`${API_BASE}/api/auth/merge-guest`, {
+                      method: 'POST',
+                      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accountToken}` },
+                      body: JSON.stringify({ guestToken }),
+                  })
+                : null;
+            if (res?.status === 409) {
+                const data = await res.json().catch(() => ({}));
+                localStorage.setItem(
+                    GUEST_MERGE_CONFLICT_KEY,
+                    data.error || 'Your guest data could not be moved into this account.',
+                );
+                window.dispatchEvent(new Event(GUEST_MERGE_CONFLICT_EVENT));
+                return;
+            }
+            if (res && !res.ok) return;
+            localStorage.removeItem(GUEST_TOKEN_KEY);
+            localStorage.removeItem(GUEST_REFRESH_KEY);
+            localStorage.removeItem(GUEST_NAME_KEY);
+            localStorage.removeItem(GUEST_MERGE_CONFLICT_KEY);
+        } catch {
+            /* offline — retried on the next page load */
+        }
+    })();
+    return guestMerge;
+}
+
+/** Why the last guest merge was refused, while the guest session is still kept; null otherwise. */
+export function getGuestMergeConflict(): string | null {
+    if (typeof window === 'undefined') return null;
+    return localStorage.getItem(GUEST_TOKEN_KEY) ? localStorage.getItem(GUEST_MERGE_CONFLICT_KEY) : null;
+}
+
+/** Try the refused merge again; resolves to the conflict if it is still refused. */
+export async function retryGuestMerge(): Promise<string | null> {
+    guestMerge = null;
+    localStorage.removeItem(GUEST_MERGE_CONFLICT_KEY);
+    await getAuthHeaders();
+    return getGuestMergeConflict();
+}
+
+/** Give up on an unmerged guest session: revoke it and forget it locally. */
+export function discardGuestSession(): void {
+    clearGuestAuth();
+    localStorage.removeItem(GUEST_NAME_KEY);
+    localStorage.removeItem(GUEST_MERGE_CONFLICT_KEY);
+}
+
 export async function getAuthToken(): Promise<string | null> {
     const h = await getAuthHeaders();
     const a = h['Authorization'];
@@ -76,6 +227,7 @@ async function getAuthHeaders(): Promise<Record<string, string>> {
         try {
             const token = await clerkWin.Clerk.session.getToken();
             if (token) {
+                if (localStorage.getItem(GUEST_TOKEN_KEY)) await mergeGuestSession(token);
                 headers['Authorization'] = `Bearer ${token}`;
                 return headers;
             }
@@ -104,9 +256,21 @@ export async function provisionGuestAuth(): Promise<string | null> {
     return ensureGuestToken();
 }
 
+/** Sign the guest out: revoke the session server-side and forget it locally. */
 export function clearGuestAuth(): void {
     if (typeof window === 'undefined') return;
+    const token = localStorage.getItem(GUEST_TOKEN_KEY);
+    const refreshToken = localStorage.getItem(GUEST_REFRESH_KEY);
+    if (token || refreshToken) {
+        fetch(`${API_BASE}/api/auth/logout`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+            body: JSON.stringify(refreshToken ? { refreshToken } : {}),
+            keepalive: true,
+        }).catch(() => undefined);
+    }
     localStorage.removeItem(GUEST_TOKEN_KEY);
+    localStorage.removeItem(GUEST_REFRESH_KEY);
 }
 
 /**
@@ -136,8 +300,33 @@ async function apiFetch<T>(path: string, options: RequestInit = {}): Promise<T>
 // Legacy Auth Methods Removed
 // ─── Conversations ──────────────────────────────────────────
 
-export async function listConversations() {
-    return apiFetch<{ conversations: ConversationPreview[] }>('/api/conversations');
+/** One page, pinned first; pass `nextCursor` back as `cursor` for the next. */
+export async function listConversations(opts: { cursor?: string; limit?: number; archived?: boolean } = {}) {
+    const params = new URLSearchParams();
+    if (opts.cursor) params.set('cursor', opts.cursor);
+    if (opts.limit) params.set('limit', String(opts.limit));
+    if (opts.archived) params.set('archived', 'true');
+    const qs = params.toString();
+    return apiFetch<{ conversations: ConversationPreview[]; nextCursor: string | null }>(
+        `/api/conversations${qs ? `?${qs}` : ''}`,
+    );
+}
+
+/** Meaning + keyword search over every conversation, archived included. */
+export async function searchConversations(q: string, limit = 10) {
+    const params = new URLSearchParams({ q, limit: String(limit) });
+    return apiFetch<{ results: ConversationSearchHit[]; query: string }>(`/api/conversations/search?${params}`);
+}
+
+/** `title: null` drops a manual name and lets the app title it again. */
+export async function updateConversation(
+    id: string,
+    patch: { title?: string | null; pinned?: boolean; archived?: boolean },
+) {
+    return apiFetch<{ conversation: ConversationPreview }>(`/api/conversations/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(patch),
+    });
 }
 
 export async function createConversation(title?: string) {
@@ -152,6 +341,14 @@ export async function getConversation(id: string) {
     return apiFetch<{ conversation: Conversation }>(`/api/chat/${id}`);
 }
 
+/** Show the branch through `messageId`; returns that branch's messages. */
+export async function selectBranch(conversationId: string, messageId: string) {
+    return apiFetch<{ messages: Message[] }>(`/api/chat/${conversationId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ activeMessageId: messageId }),
+    });
+}
+
 export async function deleteConversation(id: string) {
     return apiFetch<{ success: boolean }>(`/api/chat/${id}`, { method: 'DELETE' });
 }
@@ -213,10 +410,30 @@ export interface ChatProactiveNudge {
     actionHref?: string;
 }
 
+/**
+ * Crisis risk across the conversation so far — builds up over turns and
+ * decays with time. While `keepSosVisible`, keep SOS in view.
+ */
+export interface ChatRisk {
+    level: 'none' | 'watch' | 'elevated' | 'high';
+    score: number;
+    signals: number;
+    elevatedAt: string | null;
+    keepSosVisible: boolean;
+    /** The user's region's crisis lines, while `keepSosVisible`. */
+    resources?: CrisisRegionResources | null;
+}
+
 export interface ChatMeta {
     persona: ChatPersona;
     citations: ChatCitation[];
-    crisis: { severity: string; source: string; matchedKeywords: string[] } | null;
+    crisis: {
+        severity: string;
+        source: string;
+        matchedKeywords: string[];
+        resources?: CrisisRegionResources | null;
+    } | null;
+    risk?: ChatRisk;
     liveEmotion?: { source: 'local' | 'profile'; confidence: number };
     toolInvocations?: ChatToolInvocation[];
     locale?: ChatLocaleInfo;
@@ -225,7 +442,10 @@ export interface ChatMeta {
 
 export interface ChatDoneData {
     messageId: string;
+    /** The user message this reply answers (new, or the one regenerated). */
+    userMessageId?: string;
     crisis?: CrisisInfo | null;
+    risk?: ChatRisk;
     suggestions?: string[];
     groundingActions?: GroundingAction[];
     provider?: ChatProvider;
@@ -248,10 +468,16 @@ export interface ChatStreamCallbacks {
     onQualityPatch?: (patch: ChatQualityPatch) => void;
 }
 
+/**
+ * `branch.editOf` sends `content` as a new version of that user message;
+ * `branch.regenerate` asks for another reply in place of that assistant
+ * message (`content` is ignored).
+ */
 export async function sendMessage(
     conversationId: string,
     content: string,
     callbacks: ChatStreamCallbacks,
+    branch: { editOf?: string; regenerate?: string } = {},
 ) {
     const { onMeta, onProviderMeta, onChunk, onDone, onError, onQualityPatch } = callbacks;
     try {
@@ -259,7 +485,7 @@ export async function sendMessage(
         const res = await fetch(`${API_BASE}/api/chat/${conversationId}/message`, {
             method: 'POST',
             headers: authHeaders,
-            body: JSON.stringify({ content }),
+            body: JSON.stringify(branch.regenerate ? { regenerate: branch.regenerate } : { content, ...branch }),
         });
 
         if (!res.ok) {
@@ -315,7 +541,9 @@ export async function sendMessage(
                         if (data.done) {
                             onDone({
                                 messageId: data.messageId,
+                                userMessageId: data.userMessageId,
                                 crisis: data.crisis,
+                                risk: data.risk,
                                 suggestions: data.suggestions,
                                 groundingActions: data.groundingActions,
                                 provider: data.provider,
@@ -337,17 +565,57 @@ export async function sendMessage(
 
 // ─── Journal ────────────────────────────────────────────────
 
-export async function listJournalEntries() {
-    return apiFetch<{ entries: JournalEntry[] }>('/api/journal');
+/** Newest first; `tags` keeps entries carrying every one of them. */
+export async function listJournalEntries(filter: { tags?: string[]; template?: JournalTemplateId } = {}) {
+    const params = new URLSearchParams();
+    if (filter.tags?.length) params.set('tag', filter.tags.join(','));
+    if (filter.template) params.set('template', filter.template);
+    const qs = params.toString();
+    return apiFetch<{ entries: JournalEntry[] }>(`/api/journal${qs ? `?${qs}` : ''}`);
 }
 
-export async function createJournalEntry(content: string, mood?: string) {
+/** Free text, or a template with its field answers (rendered into `content` server-side). */
+export async function createJournalEntry(
+    content: string,
+    mood?: string,
+    extra: { tags?: string[]; template?: JournalTemplateId; fields?: Record<string, string> } = {},
+) {
     return apiFetch<{ entry: JournalEntry }>('/api/journal', {
         method: 'POST',
-        body: JSON.stringify({ content, mood }),
+        body: JSON.stringify(extra.template ? { mood, ...extra } : { content, mood, ...extra }),
+    });
+}
+
+/**
+ * Edit text (or a templated entry's fields), mood and/or tags; the previous
+ * version is kept in the entry's history.
+ */
+export async function updateJournalEntry(
+    id: string,
+    patch: { content?: string; mood?: string | null; tags?: string[]; fields?: Record<string, string> },
+) {
+    return apiFetch<{ entry: JournalEntry }>(`/api/journal/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(patch),
     });
 }
 
+export async function deleteJournalEntry(id: string) {
+    return apiFetch<{ ok: boolean }>(`/api/journal/${id}`, { method: 'DELETE' });
+}
+
+export async function listJournalRevisions(id: string) {
+    return apiFetch<{ revisions: JournalRevision[] }>(`/api/journal/${id}/revisions`);
+}
+
+export async function listJournalTemplates() {
+    return apiFetch<{ templates: JournalTemplate[] }>('/api/journal/templates');
+}
+
+export async function listJournalTags() {
+    return apiFetch<{ tags: Array<{ tag: string; count: number }> }>('/api/journal/tags');
+}
+
 export async function getJournalInsight() {
     return apiFetch<{ insight: string | null; message?: string; entryCount?: number }>('/api/journal/insight', {
         method: 'POST',
@@ -481,6 +749,128 @@ export async function logMood(mood: string, intensity: number, note?: string) {
     });
 }
 
+// ─── Tool usage ─────────────────────────────────────────────
+
+export type ToolUsageAction = 'started' | 'completed' | 'skipped';
+
+export interface ToolUsageEvent {
+    toolId: string;
+    action: ToolUsageAction;
+    duration?: number;      // seconds spent
+    moodBefore?: number;    // 1 (calm) – 10 (overwhelmed)
+    moodAfter?: number;
+}
+
+export async function logToolUsage(event: ToolUsageEvent) {
+    return apiFetch<{ usage: { id: string } }>('/api/tools/usage', {
+        method: 'POST',
+        body: JSON.stringify(event),
+    });
+}
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface ToolEffectiveness {
+    toolId: string;
+    started: number;
+    completed: number;
+    skipped: number;
+    completionRate: number | null;
+    medianDurationSec: number | null;
+    /** Positive mean = intensity dropped after the tool. */
+    moodDelta: { n: number; mean: number; ci95: [number, number] | null } | null;
+    timeOfDay: Record<TimeOfDay, { sessions: number; completed: number; meanDelta: number | null }>;
+    score: number;
+    helpful: boolean;
+    lastUsedAt: string;
+}
+
+export async function getToolEffectiveness() {
+    const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const qs = tz ? `?tz=${encodeURIComponent(tz)}` : '';
+    return apiFetch<{ timeZone: string; tools: ToolEffectiveness[] }>(`/api/tools/effectiveness${qs}`);
+}
+
+// ─── Account (email links) ──────────────────────────────────
+
+export async function verifyEmail(token: string) {
+    return apiFetch<{ ok: true }>('/api/auth/verify-email', {
+        method: 'POST',
+        body: JSON.stringify({ token }),
+    });
+}
+
+export async function requestPasswordReset(email: string) {
+    return apiFetch<{ ok: true; message: string }>('/api/auth/password-reset', {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+    });
+}
+
+export async function confirmPasswordReset(token: string, password: string) {
+    return apiFetch<{ ok: true }>('/api/auth/password-reset/confirm', {
+        method: 'POST',
+        body: JSON.stringify({ token, password }),
+    });
+}
+
+export type GuestStatus =
+    | { guest: false }
+    | {
+          guest: true;
+          inactivityDays: number;
+          lastActiveAt: string;
+          /** Deleted on this date unless the guest comes back or signs up. */
+          expiresAt: string;
+          warnFrom: string;
+      };
+
+export async function getGuestStatus() {
+    return apiFetch<GuestStatus>('/api/me/guest');
+}
+
+// ─── Notifications ──────────────────────────────────────────
+
+export interface PushStatus {
+    enabled: boolean;       // false when the server has no VAPID keys
+    publicKey: string | null;
+    devices: number;
+}
+
+export interface NotificationSettings {
+    timezone: string | null;
+    quietHours: { start: string; end: string } | null;  // "HH:MM", local time
+}
+
+export async function getPushStatus() {
+    return apiFetch<PushStatus>('/api/push/subscriptions');
+}
+
+export async function savePushSubscription(subscription: PushSubscriptionJSON) {
+    return apiFetch<{ ok: true; id: string }>('/api/push/subscriptions', {
+        method: 'POST',
+        body: JSON.stringify({ endpoint: subscription.endpoint, keys: subscription.keys }),
+    });
+}
+
+export async function removePushSubscription(endpoint: string) {
+    return apiFetch<{ ok: true; removed: number }>('/api/push/subscriptions', {
+        method: 'DELETE',
+        body: JSON.stringify({ endpoint }),
+    });
+}
+
+export async function getNotificationSettings() {
+    return apiFetch<NotificationSettings>('/api/me/notifications');
+}
+
+export async function updateNotificationSettings(patch: Partial<NotificationSettings>) {
+    return apiFetch<NotificationSettings>('/api/me/notifications', {
+        method: 'PUT',
+        body: JSON.stringify(patch),
+    });
+}
+
 // ─── Onboarding ─────────────────────────────────────────────
 
 export interface OnboardingAnswers {
@@ -535,18 +925,31 @@ export async function deleteMemory(id: string) {
     return apiFetch<{ ok: boolean }>(`/api/memory/${id}`, { method: 'DELETE' });
 }
 
-// ─── Semantic journal search ────────────────────────────────
+// ─── Journal search (meaning + keywords) ────────────────────
 
-export interface JournalSearchHit {
-    id: string;
-    content: string;
-    mood: string | null;
-    createdAt: string;
-    similarity: number;
+export interface JournalSearchHit extends JournalEntry {
+    score: number;
+    /** Null when the entry matched on keywords only. */
+    similarity: number | null;
+    matchedTerms: number;
+    snippet: string;
+    /** [start, end) ranges in `snippet` to highlight. */
+    highlights: Array<[number, number]>;
 }
 
-export async function searchJournal(q: string, limit = 8) {
+export interface JournalSearchFilters {
+    /** YYYY-MM-DD or ISO datetime; a bare `to` date includes that whole day. */
+    from?: string;
+    to?: string;
+    mood?: string;
+    tag?: string;
+}
+
+export async function searchJournal(q: string, limit = 8, filters: JournalSearchFilters = {}) {
     const params = new URLSearchParams({ q, limit: String(limit) });
+    for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+    }
     return apiFetch<{ results: JournalSearchHit[]; query: string }>(`/api/journal/search?${params}`);
 }
 
@@ -632,6 +1035,30 @@ export async function deleteAccount() {
     });
 }
 
+/** Everything we hold for the current user: a ZIP of JSON + CSV per table. */
+export async function exportMyData(): Promise<Blob> {
+    const res = await fetch(`${API_BASE}/api/me/export`, { headers: await getAuthHeaders() });
+    if (!res.ok) throw new Error('Could not export your data.');
+    return res.blob();
+}
+
+export interface ImportSummary {
+    schemaVersion: 1 | 2;
+    exportedAt: string | null;
+    tables: Record<string, { received: number; imported: number; duplicates: number; skipped: number }>;
+    ignored: string[];
+    embeddingsQueued: boolean;
+}
+
+/** Load a previous export (the ZIP, or an older JSON export) into this account. */
+export async function importMyData(file: File) {
+    return apiFetch<ImportSummary>('/api/me/import', {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/zip' },
+        body: file,
+    });
+}
+
 export function exportAccountUrl() {
     return `${API_BASE}/api/me/export`;
 }
@@ -649,18 +1076,39 @@ export interface User {
 export interface ConversationPreview {
     id: string;
     title: string;
+    /** 'user' when renamed, 'ai' when generated, null while it is the first message. */
+    titleSource?: 'user' | 'ai' | null;
+    pinned?: boolean;
+    archived?: boolean;
     lastMessage: string | null;
     lastMessageRole: string | null;
     createdAt: string;
     updatedAt: string;
 }
 
+export interface ConversationSearchHit {
+    conversation: ConversationPreview;
+    score: number;
+    /** Best-matching message; null when only the title matched. */
+    message: {
+        id: string;
+        role: 'user' | 'assistant' | 'system';
+        createdAt: string;
+        similarity: number | null;
+        snippet: string;
+        /** [start, end) ranges in `snippet` matching the query. */
+        highlights: Array<[number, number]>;
+    } | null;
+}
+
 export interface Conversation {
     id: string;
     title: string | null;
     createdAt: string;
     updatedAt: string;
     messages: Message[];
+    /** Only on a single conversation (`getConversation`). */
+    risk?: ChatRisk;
 }
 
 export interface Message {
@@ -668,13 +1116,47 @@ export interface Message {
     role: 'user' | 'assistant' | 'system';
     content: string;
     createdAt: string;
+    parentId?: string | null;
+    /** This message and its alternatives (edits or regenerations), oldest first. */
+    siblingIds?: string[];
 }
 
 export interface JournalEntry {
     id: string;
     content: string;
     mood: string | null;
+    template?: JournalTemplateId | null;
+    tags?: string[];
+    /** Template answers by field id; null for free-text entries. */
+    fields?: Record<string, string> | null;
     createdAt: string;
+    updatedAt?: string;
+}
+
+export type JournalTemplateId = 'thought_record' | 'worry_time' | 'three_good_things';
+
+export interface JournalTemplateField {
+    id: string;
+    label: string;
+    prompt: string;
+    /** Can be filled from the CBT distortion check over `assistFrom` fields. */
+    assist?: 'distortions';
+    assistFrom?: string[];
+}
+
+export interface JournalTemplate {
+    id: JournalTemplateId;
+    name: string;
+    description: string;
+    fields: JournalTemplateField[];
+}
+
+export interface JournalRevision {
+    id: string;
+    content: string;
+    mood: string | null;
+    writtenAt: string;
+    replacedAt: string;
 }
 
 export interface MoodLog {
@@ -685,11 +1167,20 @@ export interface MoodLog {
     createdAt: string;
 }
 
+/** Crisis lines for the user's region, from the shared crisis directory. */
+export interface CrisisRegionResources extends CountryResources {
+    region: string;
+    /** Directory version the list came from. */
+    version: number;
+}
+
 export interface CrisisInfo {
     isCrisis: boolean;
     severity: string;
-    resources: Record<string, { name: string; number: string; description: string }>;
-    safetyMessage: string;
+    source?: string;
+    matchedKeywords?: string[];
+    resources: CrisisRegionResources | null;
+    safetyMessage?: string;
 }
 
 export interface WellnessTool {
@@ -0,0 +1,69 @@
+/**
+ * Browser side of reminder notifications: subscribe this device to Web Push
+ * and hand the subscription to the backend.
+ *
+ * The offline service worker is only auto-registered in production, so this
+ * registers `/sw.js` on demand — turning on notifications works in dev too.
+ */
+
+import { getPushStatus, removePushSubscription, savePushSubscription } from './api';
+
+export type PushSupport = 'supported' | 'unsupported' | 'denied';
+
+export function pushSupport(): PushSupport {
+    if (typeof window === 'undefined') return 'unsupported';
+    if (!('serviceWorker' in navigator) || !('PushManager' in window) || !('Notification' in window)) {
+        return 'unsupported';
+    }
+    return Notification.permission === 'denied' ? 'denied' : 'supported';
+}
+
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+    const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+    const raw = atob(padded);
+    const out = new Uint8Array(new ArrayBuffer(raw.length));
+    for (let i = 0; i < raw.length; i++) out[i] = raw.charCodeAt(i);
+    return out;
+}
+
+async function registration(): Promise<ServiceWorkerRegistration> {
+    const existing = await navigator.serviceWorker.getRegistration('/');
+    if (existing) return existing;
+    await navigator.serviceWorker.register('/sw.js');
+    return navigator.serviceWorker.ready;
+}
+
+/** This device's current subscription, if any. */
+export async function currentSubscription(): Promise<PushSubscription | null> {
+    if (pushSupport() !== 'supported') return null;
+    const reg = await navigator.serviceWorker.getRegistration('/');
+    return reg ? reg.pushManager.getSubscription() : null;
+}
+
+/** Ask for permission, subscribe, and register with the backend. */
+export async function enablePush(): Promise<void> {
+    if (pushSupport() !== 'supported') throw new Error('Notifications are not available in this browser');
+
+    const status = await getPushStatus();
+    if (!status.enabled || !status.publicKey) throw new Error('Notifications are not set up on this server yet');
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') throw new Error('Notification permission was not granted');
+
+    const reg = await registration();
+    const sub =
+        (await reg.pushManager.getSubscription()) ??
+        (await reg.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: urlBase64ToUint8Array(status.publicKey),
+        }));
+    await savePushSubscription(sub.toJSON());
+}
+
+/** Unsubscribe this device locally and on the backend. */
+export async function disablePush(): Promise<void> {
+    const sub = await currentSubscription();
+    if (!sub) return;
+    await removePushSubscription(sub.endpoint).catch(() => undefined);
+    await sub.unsubscribe();
+}